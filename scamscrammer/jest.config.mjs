@@ -47,6 +47,42 @@ const customJestConfig = {
         }],
       },
     },
+    {
+      displayName: 'lib',
+      testEnvironment: 'node',
+      testMatch: ['<rootDir>/src/lib/**/*.test.ts'],
+      // Suites from before the lib project that were never run and have
+      // since gone stale
+      testPathIgnorePatterns: [
+        // Tests generateSessionToken, isProtectedRoute and other helpers
+        // auth.ts dropped for next-auth, whose ESM build jest can't load
+        '<rootDir>/src/lib/__tests__/auth\\.test\\.ts$',
+        // Clears a request context with clearRequestContext, which logger.ts
+        // no longer exports
+        '<rootDir>/src/lib/__tests__/monitoring\\.test\\.ts$',
+        // Tests createOpenAIClient, which openai.ts no longer exports
+        '<rootDir>/src/lib/__tests__/openai\\.test\\.ts$',
+        // Tests the Earl-only exports (EARL_TANGENT_TOPICS, EARL_MISHEARINGS)
+        // of persona.ts, which now only re-exports the personas/ registry
+        '<rootDir>/src/lib/__tests__/persona\\.test\\.ts$',
+        // Needs @aws-sdk/s3-request-presigner, which isn't a dependency
+        '<rootDir>/src/lib/__tests__/storage\\.test\\.ts$',
+      ],
+      moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+      },
+      setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+      transform: {
+        '^.+\\.tsx?$': ['ts-jest', {
+          tsconfig: {
+            module: 'commonjs',
+            moduleResolution: 'node',
+            esModuleInterop: true,
+            allowSyntheticDefaultImports: true,
+          },
+        }],
+      },
+    },
     {
       displayName: 'components',
       testEnvironment: 'jsdom',
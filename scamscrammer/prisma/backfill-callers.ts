@@ -0,0 +1,67 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+
+/**
+ * Link calls recorded before caller profiles existed to a caller profile
+ * for their number. Safe to run more than once: only unlinked calls are
+ * touched, and existing profiles are widened to cover them.
+ */
+
+const adapter = new PrismaPg({
+  connectionString: process.env.DATABASE_URL,
+});
+
+const prisma = new PrismaClient({ adapter });
+
+// Same numbers the incoming webhook skips (see recordCaller in src/lib/callers.ts)
+const ANONYMOUS_NUMBER = '+266696687';
+const E164_REGEX = /^\+\d{7,15}$/;
+
+async function main() {
+  const numbers = await prisma.call.groupBy({
+    by: ['fromNumber'],
+    where: { callerId: null },
+    _min: { createdAt: true },
+    _max: { createdAt: true },
+  });
+
+  let linked = 0;
+  for (const { fromNumber, _min, _max } of numbers) {
+    if (fromNumber === ANONYMOUS_NUMBER || !E164_REGEX.test(fromNumber)) {
+      continue;
+    }
+
+    const firstSeenAt = _min.createdAt ?? new Date();
+    const lastSeenAt = _max.createdAt ?? firstSeenAt;
+
+    const existing = await prisma.caller.findUnique({ where: { phoneNumber: fromNumber } });
+    const caller = existing
+      ? await prisma.caller.update({
+          where: { id: existing.id },
+          data: {
+            firstSeenAt: firstSeenAt < existing.firstSeenAt ? firstSeenAt : existing.firstSeenAt,
+            lastSeenAt: lastSeenAt > existing.lastSeenAt ? lastSeenAt : existing.lastSeenAt,
+          },
+        })
+      : await prisma.caller.create({
+          data: { phoneNumber: fromNumber, firstSeenAt, lastSeenAt },
+        });
+
+    const { count } = await prisma.call.updateMany({
+      where: { fromNumber, callerId: null },
+      data: { callerId: caller.id },
+    });
+    linked += count;
+  }
+
+  console.log(`Linked ${linked} calls to caller profiles`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error backfilling callers:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
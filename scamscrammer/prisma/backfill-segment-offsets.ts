@@ -0,0 +1,49 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+
+/**
+ * Rewrite transcript segments saved with absolute Unix timestamps as
+ * offsets into the call, relative to each call's first segment. Safe to run
+ * more than once: segments that already hold offsets are left alone.
+ */
+
+const adapter = new PrismaPg({
+  connectionString: process.env.DATABASE_URL,
+});
+
+const prisma = new PrismaClient({ adapter });
+
+// Offsets are seconds into a call, so anything this large is a Unix timestamp
+const ABSOLUTE_TIMESTAMP_THRESHOLD = 1_000_000_000;
+
+async function main() {
+  const calls = await prisma.callSegment.groupBy({
+    by: ['callId'],
+    where: { timestamp: { gte: ABSOLUTE_TIMESTAMP_THRESHOLD } },
+    _min: { timestamp: true },
+  });
+
+  let rewritten = 0;
+  for (const { callId, _min } of calls) {
+    if (_min.timestamp === null) {
+      continue;
+    }
+
+    const { count } = await prisma.callSegment.updateMany({
+      where: { callId, timestamp: { gte: ABSOLUTE_TIMESTAMP_THRESHOLD } },
+      data: { timestamp: { decrement: _min.timestamp } },
+    });
+    rewritten += count;
+  }
+
+  console.log(`Rewrote ${rewritten} segments across ${calls.length} calls as call offsets`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error backfilling segment offsets:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,45 @@
+import { PrismaClient, Speaker } from '@prisma/client';
+import { PrismaPg } from '@prisma/adapter-pg';
+
+/**
+ * Rewrite transcript segments saved with the legacy EARL speaker as PERSONA
+ * segments attributed to the persona recorded on their call (Earl for calls
+ * from before personas were recorded). Safe to run more than once: only
+ * EARL segments are touched.
+ */
+
+const adapter = new PrismaPg({
+  connectionString: process.env.DATABASE_URL,
+});
+
+const prisma = new PrismaClient({ adapter });
+
+// Persona for calls recorded before the persona was tracked on the call
+const DEFAULT_PERSONA_ID = 'earl';
+
+async function main() {
+  const calls = await prisma.call.findMany({
+    where: { segments: { some: { speaker: Speaker.EARL } } },
+    select: { id: true, persona: true },
+  });
+
+  let rewritten = 0;
+  for (const call of calls) {
+    const { count } = await prisma.callSegment.updateMany({
+      where: { callId: call.id, speaker: Speaker.EARL },
+      data: { speaker: Speaker.PERSONA, personaId: call.persona ?? DEFAULT_PERSONA_ID },
+    });
+    rewritten += count;
+  }
+
+  console.log(`Attributed ${rewritten} segments across ${calls.length} calls to their persona`);
+}
+
+main()
+  .catch((e) => {
+    console.error('Error backfilling segment speakers:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
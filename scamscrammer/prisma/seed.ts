@@ -131,7 +131,8 @@ async function seedCalls() {
         await prisma.callSegment.create({
           data: {
             callId: call.id,
-            speaker: isScammer ? 'SCAMMER' : 'EARL',
+            speaker: isScammer ? 'SCAMMER' : 'PERSONA',
+            personaId: isScammer ? null : 'earl',
             text: isScammer
               ? scammerPhrases[Math.floor(Math.random() * scammerPhrases.length)]
               : earlPhrases[Math.floor(Math.random() * earlPhrases.length)],
@@ -0,0 +1,60 @@
+/**
+ * ScamScrammer Server
+ *
+ * Serves the Next.js app and the Twilio media stream WebSocket from one
+ * Node process. Next.js route handlers can't accept WebSocket upgrades, so
+ * upgrades to the voice stream path are handled here before they reach
+ * Next.js; all other requests and upgrades go to Next.js as usual.
+ *
+ * Usage:
+ *   npm run dev:server     # development, with hot reloading
+ *   npm run start:server   # production, after `npm run build`
+ *
+ * Configuration:
+ *   PORT               Port to listen on (default 3000)
+ *   HOST               Interface to bind (default 0.0.0.0)
+ *   VOICE_STREAM_PATH  Path Twilio connects to (default /api/voice/stream)
+ */
+
+import { createServer } from 'http';
+import next from 'next';
+import { loadEnvConfig } from '@next/env';
+
+const dev = process.env.NODE_ENV !== 'production';
+
+// Load .env files before the app modules read them
+loadEnvConfig(process.cwd(), dev);
+
+const host = process.env.HOST || '0.0.0.0';
+const port = Number(process.env.PORT) || 3000;
+
+async function main() {
+  // Relative import: the server runs outside Next.js, so '@/' paths don't resolve
+  const { attachVoiceStream, getVoiceStreamPath } = await import('./src/lib/voice-stream');
+
+  const app = next({ dev, hostname: host, port });
+  await app.prepare();
+
+  const handleRequest = app.getRequestHandler();
+  const server = createServer((request, response) => {
+    handleRequest(request, response).catch((error) => {
+      console.error('[Server] Error handling request:', error);
+      response.statusCode = 500;
+      response.end('Internal Server Error');
+    });
+  });
+
+  attachVoiceStream(server, {
+    path: getVoiceStreamPath(),
+    fallback: app.getUpgradeHandler(),
+  });
+
+  server.listen(port, host, () => {
+    console.log(`[Server] Ready on http://${host}:${port} (${dev ? 'development' : 'production'})`);
+  });
+}
+
+main().catch((error) => {
+  console.error('[Server] Failed to start:', error);
+  process.exit(1);
+});
@@ -169,16 +169,20 @@ describe('Calls API', () => {
             id: 'seg-1',
             callId: 'call-1',
             speaker: 'SCAMMER',
+            personaId: null,
             text: 'This is the IRS',
             timestamp: 0,
+            endTimestamp: 2.4,
             createdAt: new Date('2026-01-15'),
           },
           {
             id: 'seg-2',
             callId: 'call-1',
-            speaker: 'EARL',
+            speaker: 'PERSONA',
+            personaId: 'earl',
             text: 'Well I\'ll be dipped!',
             timestamp: 3,
+            endTimestamp: 5.1,
             createdAt: new Date('2026-01-15'),
           },
         ],
@@ -0,0 +1,125 @@
+/**
+ * Caller Rule Detail API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, PATCH, DELETE } from '../route';
+import prisma from '@/lib/db';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    callerRule: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    persona: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const rule = {
+  id: 'rule-1',
+  matchType: 'EXACT',
+  value: '+15551234567',
+  action: 'REJECT',
+  persona: null,
+  forwardTo: null,
+  label: 'Robocaller',
+  isEnabled: true,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function createRequest(method: string, body?: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/caller-rules/rule-1', {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe('/api/caller-rules/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.callerRule.findUnique as jest.Mock).mockResolvedValue(rule);
+    (mockPrisma.callerRule.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...rule, ...data, _count: { calls: 3 } })
+    );
+  });
+
+  describe('GET', () => {
+    it('should return the rule', async () => {
+      const response = await GET(createRequest('GET'), routeParams('rule-1'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.label).toBe('Robocaller');
+    });
+
+    it('should return 404 for unknown rules', async () => {
+      (mockPrisma.callerRule.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await GET(createRequest('GET'), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should disable a rule', async () => {
+      const response = await PATCH(createRequest('PATCH', { isEnabled: false }), routeParams('rule-1'));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.callerRule.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'rule-1' },
+          data: expect.objectContaining({ isEnabled: false, action: 'REJECT', label: 'Robocaller' }),
+        })
+      );
+    });
+
+    it('should validate the merged rule', async () => {
+      const response = await PATCH(createRequest('PATCH', { action: 'FORWARD' }), routeParams('rule-1'));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details).toHaveProperty('forwardTo');
+      expect(mockPrisma.callerRule.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown rules', async () => {
+      (mockPrisma.callerRule.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await PATCH(createRequest('PATCH', { isEnabled: false }), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should delete the rule', async () => {
+      const response = await DELETE(createRequest('DELETE'), routeParams('rule-1'));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.callerRule.delete).toHaveBeenCalledWith({ where: { id: 'rule-1' } });
+    });
+
+    it('should return 404 for unknown rules', async () => {
+      (mockPrisma.callerRule.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await DELETE(createRequest('DELETE'), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
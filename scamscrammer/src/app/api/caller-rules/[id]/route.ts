@@ -0,0 +1,125 @@
+/**
+ * Caller Rule Detail API Route
+ *
+ * GET /api/caller-rules/[id] - Get a caller rule
+ * PATCH /api/caller-rules/[id] - Update a caller rule
+ * DELETE /api/caller-rules/[id] - Delete a caller rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { parseCallerRuleInput } from '@/lib/screening';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, CallerRuleResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function notFoundResponse(): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    { error: 'Caller rule not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/caller-rules/[id]
+ * Fetch a single caller rule
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<CallerRuleResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const rule = await prisma.callerRule.findUnique({
+      where: { id },
+      include: { _count: { select: { calls: true } } },
+    });
+    if (!rule) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Error fetching caller rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch caller rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/caller-rules/[id]
+ * Update fields of a caller rule. The merged rule is validated as a whole
+ * so e.g. switching a rule to FORWARD requires a destination.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<CallerRuleResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await prisma.callerRule.findUnique({ where: { id } });
+    if (!existing) {
+      return notFoundResponse();
+    }
+
+    await loadCustomPersonas();
+    const input = parseCallerRuleInput({ ...existing, ...body });
+
+    const rule = await prisma.callerRule.update({
+      where: { id },
+      data: input,
+      include: { _count: { select: { calls: true } } },
+    });
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    console.error('Error updating caller rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update caller rule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/caller-rules/[id]
+ * Delete a caller rule. Calls it matched keep their screening action.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ success: boolean } | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.callerRule.findUnique({ where: { id } });
+    if (!existing) {
+      return notFoundResponse();
+    }
+
+    await prisma.callerRule.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting caller rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete caller rule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Caller Rules API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import prisma from '@/lib/db';
+import { setCustomPersonas } from '@/lib/personas';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    callerRule: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    persona: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+function createPostRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/caller-rules', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /api/caller-rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list rules in order of precedence', async () => {
+    (mockPrisma.callerRule.findMany as jest.Mock).mockResolvedValue([
+      { id: 'rule-1', matchType: 'EXACT', value: '+15551234567', action: 'FORWARD' },
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.rules).toHaveLength(1);
+    expect(mockPrisma.callerRule.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: [{ matchType: 'asc' }, { createdAt: 'asc' }] })
+    );
+  });
+
+  it('should return 500 on database error', async () => {
+    (mockPrisma.callerRule.findMany as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /api/caller-rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setCustomPersonas([]);
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.callerRule.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'rule-1', ...data, _count: { calls: 0 } })
+    );
+  });
+
+  it('should create a forward rule with normalized numbers', async () => {
+    const response = await POST(
+      createPostRequest({
+        matchType: 'EXACT',
+        value: '(555) 123-4567',
+        action: 'FORWARD',
+        forwardTo: '555.000.1111',
+        persona: 'earl',
+        label: 'Mom',
+      })
+    );
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.callerRule.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          matchType: 'EXACT',
+          value: '+15551234567',
+          action: 'FORWARD',
+          persona: null,
+          forwardTo: '+15550001111',
+          label: 'Mom',
+          isEnabled: true,
+        },
+      })
+    );
+  });
+
+  it('should require a destination for forward rules', async () => {
+    const response = await POST(
+      createPostRequest({ matchType: 'EXACT', value: '+15551234567', action: 'FORWARD' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty('forwardTo');
+    expect(mockPrisma.callerRule.create).not.toHaveBeenCalled();
+  });
+
+  it('should create an engage rule with a persona', async () => {
+    const response = await POST(
+      createPostRequest({ matchType: 'PREFIX', value: '+1900', action: 'ENGAGE', persona: 'gladys' })
+    );
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.callerRule.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ value: '+1900', persona: 'gladys', forwardTo: null }),
+      })
+    );
+  });
+
+  it('should reject unknown personas', async () => {
+    const response = await POST(
+      createPostRequest({ matchType: 'PREFIX', value: '+1900', action: 'ENGAGE', persona: 'nobody' })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should validate the match type and action', async () => {
+    const badMatch = await POST(
+      createPostRequest({ matchType: 'REGEX', value: '+1900', action: 'REJECT' })
+    );
+    const badAction = await POST(
+      createPostRequest({ matchType: 'PREFIX', value: '+1900', action: 'VOICEMAIL' })
+    );
+
+    expect(badMatch.status).toBe(400);
+    expect(badAction.status).toBe(400);
+  });
+
+  it('should validate prefixes and patterns', async () => {
+    const badPrefix = await POST(
+      createPostRequest({ matchType: 'PREFIX', value: '1900', action: 'REJECT' })
+    );
+    const badPattern = await POST(
+      createPostRequest({ matchType: 'PATTERN', value: '+1555[0-9]*', action: 'REJECT' })
+    );
+    const pattern = await POST(
+      createPostRequest({ matchType: 'PATTERN', value: '+1 555 ??? 0000', action: 'REJECT' })
+    );
+
+    expect(badPrefix.status).toBe(400);
+    expect(badPattern.status).toBe(400);
+    expect(pattern.status).toBe(201);
+    expect(mockPrisma.callerRule.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ value: '+1555???0000' }) })
+    );
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Caller Rules API Route
+ *
+ * Manages the call screening rules that decide whether an incoming call is
+ * engaged by a persona, forwarded to a real phone, or rejected.
+ *
+ * GET /api/caller-rules - List caller rules
+ * POST /api/caller-rules - Create a caller rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { parseCallerRuleInput } from '@/lib/screening';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, CallerRuleListResponse, CallerRuleResponse } from '@/types';
+
+/**
+ * GET /api/caller-rules
+ * List all caller rules in the order they take precedence
+ */
+export async function GET(): Promise<NextResponse<CallerRuleListResponse | ApiErrorResponse>> {
+  try {
+    const rules = await prisma.callerRule.findMany({
+      orderBy: [{ matchType: 'asc' }, { createdAt: 'asc' }],
+      include: { _count: { select: { calls: true } } },
+    });
+
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error fetching caller rules:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch caller rules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/caller-rules
+ * Create a caller rule
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<CallerRuleResponse | ApiErrorResponse>> {
+  try {
+    const body = await request.json();
+    await loadCustomPersonas();
+    const input = parseCallerRuleInput(body);
+
+    const rule = await prisma.callerRule.create({
+      data: input,
+      include: { _count: { select: { calls: true } } },
+    });
+
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    console.error('Error creating caller rule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create caller rule' },
+      { status: 500 }
+    );
+  }
+}
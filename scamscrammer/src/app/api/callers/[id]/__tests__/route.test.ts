@@ -0,0 +1,89 @@
+/**
+ * Caller Detail API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import prisma from '@/lib/db';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    caller: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const caller = {
+  id: 'caller-1',
+  phoneNumber: '+15551234567',
+  firstSeenAt: new Date('2026-01-01T00:00:00Z'),
+  lastSeenAt: new Date('2026-01-01T00:00:00Z'),
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-01-01T00:00:00Z'),
+  calls: [
+    {
+      id: 'call-1',
+      persona: 'gladys',
+      status: 'COMPLETED',
+      duration: 300,
+      rating: 4,
+      tags: ['tech-support'],
+      screeningAction: 'ENGAGE',
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+    },
+  ],
+};
+
+function createRequest(): NextRequest {
+  return new NextRequest('http://localhost:3000/api/callers/caller-1');
+}
+
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe('GET /api/callers/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return the caller profile with their calls', async () => {
+    (mockPrisma.caller.findUnique as jest.Mock).mockResolvedValue(caller);
+
+    const response = await GET(createRequest(), routeParams('caller-1'));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      id: 'caller-1',
+      totalCalls: 1,
+      totalDuration: 300,
+      scamTypes: ['tech_support'],
+      bestPersona: 'gladys',
+    });
+    expect(data.calls).toHaveLength(1);
+    expect(data.calls[0].id).toBe('call-1');
+  });
+
+  it('should return 404 for unknown callers', async () => {
+    (mockPrisma.caller.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(createRequest(), routeParams('nope'));
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should return 500 when the database is unavailable', async () => {
+    (mockPrisma.caller.findUnique as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await GET(createRequest(), routeParams('caller-1'));
+
+    expect(response.status).toBe(500);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Caller Detail API Route
+ *
+ * GET /api/callers/[id] - Get a caller's profile and calls
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { buildCallerProfile, CALLER_HISTORY_SELECT } from '@/lib/callers';
+import type { ApiErrorResponse, CallerDetailResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/callers/[id]
+ * Fetch a caller's profile with their calls, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<CallerDetailResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const caller = await prisma.caller.findUnique({
+      where: { id },
+      include: {
+        calls: {
+          select: CALLER_HISTORY_SELECT,
+          orderBy: { createdAt: 'desc' },
+        },
+      },
+    });
+    if (!caller) {
+      return NextResponse.json(
+        { error: 'Caller not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...buildCallerProfile(caller, caller.calls),
+      calls: caller.calls,
+    });
+  } catch (error) {
+    console.error('Error fetching caller:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch caller' },
+      { status: 500 }
+    );
+  }
+}
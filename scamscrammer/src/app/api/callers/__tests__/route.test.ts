@@ -0,0 +1,116 @@
+/**
+ * Callers API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET } from '../route';
+import prisma from '@/lib/db';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    caller: {
+      count: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+function call(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'call-1',
+    persona: 'earl',
+    status: 'COMPLETED',
+    duration: 120,
+    rating: null,
+    tags: [],
+    screeningAction: 'ENGAGE',
+    createdAt: new Date('2026-02-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const caller = {
+  id: 'caller-1',
+  phoneNumber: '+15551234567',
+  firstSeenAt: new Date('2026-01-01T00:00:00Z'),
+  lastSeenAt: new Date('2026-02-01T00:00:00Z'),
+  createdAt: new Date('2026-01-01T00:00:00Z'),
+  updatedAt: new Date('2026-02-01T00:00:00Z'),
+  calls: [
+    call({ id: 'call-2', persona: 'brenda', duration: 900, tags: ['irs', 'urgent'] }),
+    call({ id: 'call-1', persona: 'earl', duration: 120, tags: ['irs'] }),
+  ],
+};
+
+function createRequest(query = ''): NextRequest {
+  return new NextRequest(`http://localhost:3000/api/callers${query}`);
+}
+
+describe('GET /api/callers', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.caller.count as jest.Mock).mockResolvedValue(1);
+    (mockPrisma.caller.findMany as jest.Mock).mockResolvedValue([caller]);
+  });
+
+  it('should return caller profiles with pagination', async () => {
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.callers).toEqual([
+      {
+        id: 'caller-1',
+        phoneNumber: '+15551234567',
+        firstSeenAt: '2026-01-01T00:00:00.000Z',
+        lastSeenAt: '2026-02-01T00:00:00.000Z',
+        totalCalls: 2,
+        totalDuration: 1020,
+        scamTypes: ['irs'],
+        bestPersona: 'brenda',
+      },
+    ]);
+    expect(data.pagination).toEqual({
+      total: 1,
+      page: 1,
+      limit: 20,
+      totalPages: 1,
+      hasNext: false,
+      hasPrev: false,
+    });
+    expect(mockPrisma.caller.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { lastSeenAt: 'desc' }, skip: 0, take: 20 })
+    );
+  });
+
+  it('should page and search by phone number', async () => {
+    (mockPrisma.caller.count as jest.Mock).mockResolvedValue(45);
+
+    const response = await GET(createRequest('?page=2&limit=10&search=555'));
+    const data = await response.json();
+
+    expect(data.pagination).toMatchObject({ page: 2, totalPages: 5, hasNext: true, hasPrev: true });
+    expect(mockPrisma.caller.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { phoneNumber: { contains: '555' } },
+        skip: 10,
+        take: 10,
+      })
+    );
+  });
+
+  it('should return 500 when the database is unavailable', async () => {
+    (mockPrisma.caller.count as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await GET(createRequest());
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to fetch callers');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Callers API Endpoint
+ *
+ * GET /api/callers - Returns paginated caller profiles, most recently seen first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { buildCallerProfile, CALLER_HISTORY_SELECT } from '@/lib/callers';
+import type { ApiErrorResponse, CallerListResponse } from '@/types';
+import { Prisma } from '@prisma/client';
+
+const DEFAULT_PAGE = 1;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export async function GET(
+  request: NextRequest
+): Promise<NextResponse<CallerListResponse | ApiErrorResponse>> {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    // Parse pagination parameters
+    const page = Math.max(1, parseInt(searchParams.get('page') || String(DEFAULT_PAGE), 10));
+    const limit = Math.min(
+      MAX_LIMIT,
+      Math.max(1, parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10))
+    );
+    const skip = (page - 1) * limit;
+
+    // Parse filter parameters
+    const search = searchParams.get('search');
+
+    const where: Prisma.CallerWhereInput = {};
+
+    if (search) {
+      where.phoneNumber = { contains: search };
+    }
+
+    // Run count and findMany in parallel
+    const [total, callers] = await Promise.all([
+      prisma.caller.count({ where }),
+      prisma.caller.findMany({
+        where,
+        orderBy: { lastSeenAt: 'desc' },
+        skip,
+        take: limit,
+        include: {
+          calls: {
+            select: CALLER_HISTORY_SELECT,
+            orderBy: { createdAt: 'desc' },
+          },
+        },
+      }),
+    ]);
+
+    const totalPages = Math.ceil(total / limit);
+
+    const response: CallerListResponse = {
+      callers: callers.map((caller) => buildCallerProfile(caller, caller.calls)),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages,
+        hasNext: page < totalPages,
+        hasPrev: page > 1,
+      },
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching callers:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch callers' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,8 +5,10 @@
 import { GET, PATCH, DELETE } from '../route';
 import prisma from '@/lib/db';
 import { storageClient } from '@/lib/storage';
+import { EARL_PERSONA, setCustomPersonas } from '@/lib/personas';
+import { loadCustomPersonas } from '@/lib/personas/custom';
 import { NextRequest } from 'next/server';
-import { CallStatus, Speaker } from '@prisma/client';
+import { CallEventType, CallStatus, Speaker } from '@prisma/client';
 
 // Mock the Prisma client
 jest.mock('@/lib/db', () => ({
@@ -20,6 +22,11 @@ jest.mock('@/lib/db', () => ({
   },
 }));
 
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+}));
+
 // Mock the storage client
 jest.mock('@/lib/storage', () => ({
   storageClient: {
@@ -50,19 +57,51 @@ const createMockCall = (overrides = {}) => ({
       id: 'seg-1',
       callId: 'call-123',
       speaker: Speaker.SCAMMER,
+      personaId: null,
       text: 'Hello, this is Microsoft tech support.',
       timestamp: 0,
+      endTimestamp: 4.2,
       createdAt: new Date('2026-01-15T10:00:00Z'),
     },
     {
       id: 'seg-2',
       callId: 'call-123',
-      speaker: Speaker.EARL,
+      speaker: Speaker.PERSONA,
+      personaId: 'earl',
       text: 'Oh my, my grandson told me about you folks! Are you the ones who fix the internets?',
       timestamp: 5,
+      endTimestamp: 11.75,
       createdAt: new Date('2026-01-15T10:00:05Z'),
     },
   ],
+  events: [
+    {
+      id: 'event-1',
+      callId: 'call-123',
+      type: CallEventType.MISHEARING,
+      timestamp: 4.5,
+      data: { original: 'Microsoft', misheard: 'micro soft-serve' },
+      createdAt: new Date('2026-01-15T10:00:04Z'),
+    },
+  ],
+  metrics: {
+    id: 'metrics-1',
+    callId: 'call-123',
+    responseCount: 12,
+    avgResponseLatencyMs: 1450,
+    p95ResponseLatencyMs: 2600,
+    avgResponseDurationMs: 6200,
+    interruptions: 3,
+    interruptionsPerMinute: 0.6,
+    mediaChunks: 15000,
+    mediaGaps: 2,
+    maxMediaGapMs: 340,
+    outOfOrderChunks: 0,
+    pauses: 12,
+    totalPauseMs: 9800,
+    createdAt: new Date('2026-01-15T10:05:00Z'),
+    updatedAt: new Date('2026-01-15T10:05:00Z'),
+  },
   ...overrides,
 });
 
@@ -110,7 +149,16 @@ describe('GET /api/calls/[id]', () => {
     expect(data).toHaveProperty('segments');
     expect(data.segments).toHaveLength(2);
     expect(data.segments[0]).toHaveProperty('speaker', Speaker.SCAMMER);
-    expect(data.segments[1]).toHaveProperty('speaker', Speaker.EARL);
+    expect(data.segments[1]).toHaveProperty('speaker', Speaker.PERSONA);
+    expect(data.segments[1]).toHaveProperty('speakerName', 'Earl');
+    expect(data.events).toEqual([
+      expect.objectContaining({
+        type: CallEventType.MISHEARING,
+        timestamp: 4.5,
+        data: { original: 'Microsoft', misheard: 'micro soft-serve' },
+      }),
+    ]);
+    expect(data.metrics).toMatchObject({ avgResponseLatencyMs: 1450, interruptions: 3, mediaGaps: 2 });
 
     expect(mockPrisma.call.findUnique).toHaveBeenCalledWith({
       where: { id: 'call-123' },
@@ -120,10 +168,70 @@ describe('GET /api/calls/[id]', () => {
             timestamp: 'asc',
           },
         },
+        events: {
+          orderBy: {
+            timestamp: 'asc',
+          },
+        },
+        metrics: true,
       },
     });
   });
 
+  it('should name the persona that spoke each segment', async () => {
+    const mockCall = createMockCall({
+      persona: 'kevin',
+      segments: [
+        {
+          id: 'seg-1',
+          callId: 'call-123',
+          speaker: Speaker.EARL,
+          personaId: null,
+          text: 'Duuude, Microsoft? Like, the whole company?',
+          timestamp: 2,
+          endTimestamp: 4.5,
+          createdAt: new Date('2026-01-15T10:00:02Z'),
+        },
+        {
+          id: 'seg-2',
+          callId: 'call-123',
+          speaker: Speaker.SYSTEM,
+          personaId: null,
+          text: 'This call may be recorded.',
+          timestamp: 0,
+          endTimestamp: 2,
+          createdAt: new Date('2026-01-15T10:00:00Z'),
+        },
+      ],
+    });
+    (mockPrisma.call.findUnique as jest.Mock).mockResolvedValue(mockCall);
+
+    const response = await GET(createMockRequest(), createParams('call-123'));
+    const data = await response.json();
+
+    expect(data.segments.map((segment: { speakerName: string }) => segment.speakerName)).toEqual([
+      'Kevin',
+      'System',
+    ]);
+    expect(loadCustomPersonas).not.toHaveBeenCalled();
+  });
+
+  it('should load custom personas to name them', async () => {
+    (loadCustomPersonas as jest.Mock).mockImplementationOnce(async () => {
+      const margaret = { ...EARL_PERSONA, id: 'margaret', name: 'Margaret' };
+      setCustomPersonas([margaret]);
+      return [margaret];
+    });
+    const mockCall = createMockCall({ persona: 'margaret' });
+    mockCall.segments[1].personaId = 'margaret';
+    (mockPrisma.call.findUnique as jest.Mock).mockResolvedValue(mockCall);
+
+    const response = await GET(createMockRequest(), createParams('call-123'));
+    const data = await response.json();
+
+    expect(data.segments[1].speakerName).toBe('Margaret');
+  });
+
   it('should return 404 for non-existent call', async () => {
     (mockPrisma.call.findUnique as jest.Mock).mockResolvedValue(null);
 
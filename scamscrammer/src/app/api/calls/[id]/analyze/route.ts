@@ -52,14 +52,9 @@ export async function POST(
       throw DatabaseError.recordNotFound('Call', id);
     }
 
-    // Build transcript from segments
-    let transcript = '';
-    for (const segment of call.segments) {
-      transcript += `${segment.speaker}: ${segment.text}\n`;
-    }
 
     // If no segments, we can't analyze
-    if (!transcript.trim()) {
+    if (call.segments.length === 0) {
       return NextResponse.json({
         id: call.id,
         scamType: ScamType.UNKNOWN,
@@ -70,7 +65,7 @@ export async function POST(
     }
 
     // Analyze the transcript
-    const analysis = analyzeCallForTags(transcript);
+    const analysis = analyzeCallForTags(call.segments);
     requestLogger.debug('Analysis complete', {
       callId: id,
       scamType: analysis.scamType,
@@ -147,15 +142,10 @@ export async function GET(
       throw DatabaseError.recordNotFound('Call', id);
     }
 
-    // Build transcript from segments
-    let transcript = '';
-    for (const segment of call.segments) {
-      transcript += `${segment.speaker}: ${segment.text}\n`;
-    }
 
     // Analyze without saving
-    const analysis = transcript.trim()
-      ? analyzeCallForTags(transcript)
+    const analysis = call.segments.length > 0
+      ? analyzeCallForTags(call.segments)
       : { scamType: ScamType.UNKNOWN, tags: [], confidence: 0 };
 
     return NextResponse.json({
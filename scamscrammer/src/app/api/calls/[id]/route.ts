@@ -1,7 +1,7 @@
 /**
  * Call Detail API Endpoint
  *
- * GET /api/calls/[id] - Returns a single call with all segments
+ * GET /api/calls/[id] - Returns a single call with all segments, persona behavior events and call metrics
  * PATCH /api/calls/[id] - Updates a call's rating, notes, or tags
  * DELETE /api/calls/[id] - Deletes a call and its recordings from S3
  */
@@ -10,14 +10,28 @@ import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
 import type { CallResponse, ApiErrorResponse, StorageDeleteResult } from '@/types';
 import { storageClient } from '@/lib/storage';
+import { isValidPersonaType } from '@/lib/personas';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { getSpeakerName } from '@/lib/transcript';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+/**
+ * Register the call's custom persona, if any, so its segments are
+ * attributed by name
+ */
+async function ensurePersonaRegistered(personaId: string | null): Promise<void> {
+  if (personaId && !isValidPersonaType(personaId)) {
+    await loadCustomPersonas();
+  }
+}
+
 /**
  * GET /api/calls/[id]
- * Fetch a single call by ID with all its segments
+ * Fetch a single call by ID with all its segments, the persona
+ * behaviors that fired during it and its latency and audio quality metrics
  */
 export async function GET(
   request: NextRequest,
@@ -34,6 +48,12 @@ export async function GET(
             timestamp: 'asc',
           },
         },
+        events: {
+          orderBy: {
+            timestamp: 'asc',
+          },
+        },
+        metrics: true,
       },
     });
 
@@ -44,6 +64,8 @@ export async function GET(
       );
     }
 
+    await ensurePersonaRegistered(call.persona);
+
     const response: CallResponse = {
       id: call.id,
       twilioSid: call.twilioSid,
@@ -60,16 +82,28 @@ export async function GET(
       isFeatured: call.isFeatured,
       persona: call.persona,
       title: call.title,
+      experimentVariantId: call.experimentVariantId,
+      screeningAction: call.screeningAction,
+      screeningRuleId: call.screeningRuleId,
+      callerId: call.callerId,
+      usedFallback: call.usedFallback,
+      ivrPath: call.ivrPath,
+      playbook: call.playbook,
       createdAt: call.createdAt,
       updatedAt: call.updatedAt,
       segments: call.segments.map((segment) => ({
         id: segment.id,
         callId: segment.callId,
         speaker: segment.speaker,
+        personaId: segment.personaId,
+        speakerName: getSpeakerName(segment, call.persona),
         text: segment.text,
         timestamp: segment.timestamp,
+        endTimestamp: segment.endTimestamp,
         createdAt: segment.createdAt,
       })),
+      events: call.events,
+      metrics: call.metrics,
     };
 
     return NextResponse.json(response);
@@ -151,6 +185,8 @@ export async function PATCH(
       },
     });
 
+    await ensurePersonaRegistered(call.persona);
+
     const response: CallResponse = {
       id: call.id,
       twilioSid: call.twilioSid,
@@ -167,14 +203,24 @@ export async function PATCH(
       isFeatured: call.isFeatured,
       persona: call.persona,
       title: call.title,
+      experimentVariantId: call.experimentVariantId,
+      screeningAction: call.screeningAction,
+      screeningRuleId: call.screeningRuleId,
+      callerId: call.callerId,
+      usedFallback: call.usedFallback,
+      ivrPath: call.ivrPath,
+      playbook: call.playbook,
       createdAt: call.createdAt,
       updatedAt: call.updatedAt,
       segments: call.segments.map((segment) => ({
         id: segment.id,
         callId: segment.callId,
         speaker: segment.speaker,
+        personaId: segment.personaId,
+        speakerName: getSpeakerName(segment, call.persona),
         text: segment.text,
         timestamp: segment.timestamp,
+        endTimestamp: segment.endTimestamp,
         createdAt: segment.createdAt,
       })),
     };
@@ -146,6 +146,13 @@ export async function GET(
       isFeatured: call.isFeatured,
       persona: call.persona,
       title: call.title,
+      experimentVariantId: call.experimentVariantId,
+      screeningAction: call.screeningAction,
+      screeningRuleId: call.screeningRuleId,
+      callerId: call.callerId,
+      usedFallback: call.usedFallback,
+      ivrPath: call.ivrPath,
+      playbook: call.playbook,
       createdAt: call.createdAt,
       updatedAt: call.updatedAt,
       _count: call._count,
@@ -0,0 +1,173 @@
+/**
+ * Experiment Detail API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, PATCH, DELETE } from '../route';
+import prisma from '@/lib/db';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    experiment: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const startedAt = new Date('2026-01-01T00:00:00Z');
+
+const experiment = {
+  id: 'exp-1',
+  name: 'Earl vs Gladys',
+  description: null,
+  isActive: false,
+  startedAt: null,
+  endedAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  variants: [],
+};
+
+function createRequest(method: string, body?: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/experiments/exp-1', {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe('/api/experiments/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.experiment.findUnique as jest.Mock).mockResolvedValue(experiment);
+    (mockPrisma.experiment.update as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ ...experiment, ...data })
+    );
+    (mockPrisma.experiment.updateMany as jest.Mock).mockResolvedValue({ count: 1 });
+    (mockPrisma.$transaction as jest.Mock).mockImplementation((operations) =>
+      Promise.all(operations)
+    );
+  });
+
+  describe('GET', () => {
+    it('should return the experiment', async () => {
+      const response = await GET(createRequest('GET'), routeParams('exp-1'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.name).toBe('Earl vs Gladys');
+    });
+
+    it('should return 404 for unknown experiments', async () => {
+      (mockPrisma.experiment.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await GET(createRequest('GET'), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should start an experiment and stop any other running one', async () => {
+      const response = await PATCH(createRequest('PATCH', { isActive: true }), routeParams('exp-1'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.isActive).toBe(true);
+      expect(mockPrisma.experiment.updateMany).toHaveBeenCalledWith({
+        where: { isActive: true, id: { not: 'exp-1' } },
+        data: { isActive: false, endedAt: expect.any(Date) },
+      });
+      expect(mockPrisma.experiment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { isActive: true, startedAt: expect.any(Date), endedAt: null },
+        })
+      );
+    });
+
+    it('should keep the original start date when resuming', async () => {
+      (mockPrisma.experiment.findUnique as jest.Mock).mockResolvedValue({
+        ...experiment,
+        startedAt,
+        endedAt: new Date(),
+      });
+
+      await PATCH(createRequest('PATCH', { isActive: true }), routeParams('exp-1'));
+
+      expect(mockPrisma.experiment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { isActive: true, startedAt, endedAt: null },
+        })
+      );
+    });
+
+    it('should record when an experiment is stopped', async () => {
+      (mockPrisma.experiment.findUnique as jest.Mock).mockResolvedValue({
+        ...experiment,
+        isActive: true,
+        startedAt,
+      });
+
+      await PATCH(createRequest('PATCH', { isActive: false }), routeParams('exp-1'));
+
+      expect(mockPrisma.experiment.updateMany).not.toHaveBeenCalled();
+      expect(mockPrisma.experiment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { isActive: false, endedAt: expect.any(Date) },
+        })
+      );
+    });
+
+    it('should rename an experiment', async () => {
+      await PATCH(createRequest('PATCH', { name: '  Round two ' }), routeParams('exp-1'));
+
+      expect(mockPrisma.experiment.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { name: 'Round two' } })
+      );
+    });
+
+    it('should validate isActive', async () => {
+      const response = await PATCH(createRequest('PATCH', { isActive: 'yes' }), routeParams('exp-1'));
+
+      expect(response.status).toBe(400);
+      expect(mockPrisma.experiment.update).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown experiments', async () => {
+      (mockPrisma.experiment.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await PATCH(createRequest('PATCH', { isActive: true }), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should delete the experiment', async () => {
+      const response = await DELETE(createRequest('DELETE'), routeParams('exp-1'));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.experiment.delete).toHaveBeenCalledWith({ where: { id: 'exp-1' } });
+    });
+
+    it('should return 404 for unknown experiments', async () => {
+      (mockPrisma.experiment.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await DELETE(createRequest('DELETE'), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+      expect(mockPrisma.experiment.delete).not.toHaveBeenCalled();
+    });
+  });
+});
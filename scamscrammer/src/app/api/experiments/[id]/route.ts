@@ -0,0 +1,180 @@
+/**
+ * Experiment Detail API Route
+ *
+ * GET /api/experiments/[id] - Get an experiment with its variants
+ * PATCH /api/experiments/[id] - Rename, describe, start or stop an experiment
+ * DELETE /api/experiments/[id] - Delete an experiment
+ *
+ * Only one experiment can be active at a time; starting one stops any other.
+ * Variants can't be edited once created so results stay comparable.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import prisma from '@/lib/db';
+import { EXPERIMENT_INCLUDE } from '@/lib/experiments';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, ExperimentResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function notFoundResponse(): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    { error: 'Experiment not found' },
+    { status: 404 }
+  );
+}
+
+/**
+ * Validate a PATCH body
+ *
+ * @throws ValidationError if a field has the wrong type
+ */
+function parseExperimentUpdate(body: unknown): Prisma.ExperimentUpdateInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const { name, description, isActive } = body as Record<string, unknown>;
+  const data: Prisma.ExperimentUpdateInput = {};
+
+  if (name !== undefined) {
+    if (typeof name !== 'string' || !name.trim()) {
+      throw ValidationError.invalidValue('name', 'Name cannot be empty');
+    }
+    data.name = name.trim();
+  }
+
+  if (description !== undefined) {
+    if (description !== null && typeof description !== 'string') {
+      throw ValidationError.invalidFormat('description', 'string');
+    }
+    data.description = description?.trim() || null;
+  }
+
+  if (isActive !== undefined) {
+    if (typeof isActive !== 'boolean') {
+      throw ValidationError.invalidFormat('isActive', 'boolean');
+    }
+    data.isActive = isActive;
+  }
+
+  return data;
+}
+
+/**
+ * GET /api/experiments/[id]
+ * Fetch a single experiment
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ExperimentResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const experiment = await prisma.experiment.findUnique({
+      where: { id },
+      include: EXPERIMENT_INCLUDE,
+    });
+    if (!experiment) {
+      return notFoundResponse();
+    }
+
+    return NextResponse.json(experiment);
+  } catch (error) {
+    console.error('Error fetching experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch experiment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/experiments/[id]
+ * Update an experiment. Setting isActive starts or stops it.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<ExperimentResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+    const data = parseExperimentUpdate(await request.json());
+
+    const existing = await prisma.experiment.findUnique({ where: { id } });
+    if (!existing) {
+      return notFoundResponse();
+    }
+
+    const now = new Date();
+    if (data.isActive === true && !existing.isActive) {
+      data.startedAt = existing.startedAt ?? now;
+      data.endedAt = null;
+    } else if (data.isActive === false && existing.isActive) {
+      data.endedAt = now;
+    }
+
+    const update = prisma.experiment.update({
+      where: { id },
+      data,
+      include: EXPERIMENT_INCLUDE,
+    });
+
+    // Starting an experiment stops whichever one was running
+    const experiment = data.isActive === true
+      ? (await prisma.$transaction([
+          prisma.experiment.updateMany({
+            where: { isActive: true, id: { not: id } },
+            data: { isActive: false, endedAt: now },
+          }),
+          update,
+        ]))[1]
+      : await update;
+
+    return NextResponse.json(experiment);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    console.error('Error updating experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to update experiment' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/experiments/[id]
+ * Delete an experiment and its variants. Calls assigned to it are kept
+ * but lose their variant.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ success: boolean } | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    const existing = await prisma.experiment.findUnique({ where: { id } });
+    if (!existing) {
+      return notFoundResponse();
+    }
+
+    await prisma.experiment.delete({ where: { id } });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete experiment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Experiments API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import prisma from '@/lib/db';
+import { setCustomPersonas } from '@/lib/personas';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    experiment: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+    persona: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const validInput = {
+  name: 'Earl vs Gladys',
+  description: 'Who keeps tech support scammers on longer?',
+  variants: [
+    { name: 'A', persona: 'earl' },
+    { name: 'B', persona: 'gladys', weight: 2, temperatureOverride: 1.0, promptOverride: 'Be slower.' },
+  ],
+};
+
+function createPostRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/experiments', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /api/experiments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list experiments with their variants', async () => {
+    (mockPrisma.experiment.findMany as jest.Mock).mockResolvedValue([
+      { id: 'exp-1', name: 'Earl vs Gladys', variants: [] },
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.experiments).toHaveLength(1);
+    expect(mockPrisma.experiment.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ orderBy: { createdAt: 'desc' } })
+    );
+  });
+
+  it('should return 500 on database error', async () => {
+    (mockPrisma.experiment.findMany as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /api/experiments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setCustomPersonas([]);
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.experiment.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve({ id: 'exp-1', isActive: false, ...data })
+    );
+  });
+
+  it('should create an inactive experiment with its variants', async () => {
+    const response = await POST(createPostRequest(validInput));
+
+    expect(response.status).toBe(201);
+    expect(mockPrisma.experiment.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          name: 'Earl vs Gladys',
+          description: 'Who keeps tech support scammers on longer?',
+          variants: {
+            create: [
+              { name: 'A', persona: 'earl', weight: 1, promptOverride: null, temperatureOverride: null },
+              { name: 'B', persona: 'gladys', weight: 2, promptOverride: 'Be slower.', temperatureOverride: 1.0 },
+            ],
+          },
+        },
+      })
+    );
+  });
+
+  it('should require at least two variants', async () => {
+    const response = await POST(
+      createPostRequest({ ...validInput, variants: [validInput.variants[0]] })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty('variants');
+    expect(mockPrisma.experiment.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown personas', async () => {
+    const response = await POST(
+      createPostRequest({
+        ...validInput,
+        variants: [validInput.variants[0], { name: 'B', persona: 'nobody' }],
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty(['variants[1].persona']);
+  });
+
+  it('should accept custom personas', async () => {
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([
+      {
+        id: 'margaret',
+        name: 'Margaret',
+        fullName: 'Margaret Olsen',
+        age: 88,
+        background: '',
+        personality: '',
+        location: '',
+        livingStatus: '',
+        greeting: null,
+        systemPrompt: 'You are Margaret.',
+        signaturePhrases: [],
+        tangentTopics: [],
+        mishearings: [],
+        responseConfig: { minPauseMs: 800, maxPauseMs: 2500, tangentProbability: 0.3 },
+        voiceConfig: null,
+      },
+    ]);
+
+    const response = await POST(
+      createPostRequest({
+        ...validInput,
+        variants: [validInput.variants[0], { name: 'B', persona: 'margaret' }],
+      })
+    );
+
+    expect(response.status).toBe(201);
+  });
+
+  it('should reject temperatures outside the Realtime range', async () => {
+    const response = await POST(
+      createPostRequest({
+        ...validInput,
+        variants: [validInput.variants[0], { name: 'B', persona: 'kevin', temperatureOverride: 2 }],
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject non-positive weights', async () => {
+    const response = await POST(
+      createPostRequest({
+        ...validInput,
+        variants: [validInput.variants[0], { name: 'B', persona: 'kevin', weight: 0 }],
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject duplicate variant names', async () => {
+    const response = await POST(
+      createPostRequest({
+        ...validInput,
+        variants: [validInput.variants[0], { name: 'A', persona: 'kevin' }],
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Experiments API Route
+ *
+ * Manages persona A/B experiments. New experiments are created inactive;
+ * use PATCH /api/experiments/[id] to start one.
+ *
+ * GET /api/experiments - List experiments with their variants
+ * POST /api/experiments - Create an experiment
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { EXPERIMENT_INCLUDE, parseExperimentInput } from '@/lib/experiments';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, ExperimentListResponse, ExperimentResponse } from '@/types';
+
+/**
+ * GET /api/experiments
+ * List all experiments, newest first
+ */
+export async function GET(): Promise<NextResponse<ExperimentListResponse | ApiErrorResponse>> {
+  try {
+    const experiments = await prisma.experiment.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: EXPERIMENT_INCLUDE,
+    });
+
+    return NextResponse.json({ experiments });
+  } catch (error) {
+    console.error('Error fetching experiments:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch experiments' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/experiments
+ * Create an experiment with its variants
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<ExperimentResponse | ApiErrorResponse>> {
+  try {
+    const body = await request.json();
+    await loadCustomPersonas();
+    const { variants, ...input } = parseExperimentInput(body);
+
+    const experiment = await prisma.experiment.create({
+      data: {
+        ...input,
+        variants: { create: variants },
+      },
+      include: EXPERIMENT_INCLUDE,
+    });
+
+    return NextResponse.json(experiment, { status: 201 });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    console.error('Error creating experiment:', error);
+    return NextResponse.json(
+      { error: 'Failed to create experiment' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Persona Detail API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, PATCH, DELETE } from '../route';
+import prisma from '@/lib/db';
+import { isValidPersonaType, setCustomPersonas } from '@/lib/personas';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    persona: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+// Mock the persona settings storage
+jest.mock('@/lib/settings', () => ({
+  DEFAULT_SETTINGS: { enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'] },
+  loadSettings: jest.fn(),
+  saveSettings: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockSettings = jest.requireMock('@/lib/settings');
+
+const margaretRow = {
+  id: 'margaret',
+  name: 'Margaret',
+  fullName: 'Margaret Olsen',
+  age: 88,
+  background: 'Retired switchboard operator',
+  personality: '',
+  location: '',
+  livingStatus: '',
+  greeting: null,
+  systemPrompt: 'You are Margaret.',
+  signaturePhrases: [],
+  tangentTopics: [],
+  mishearings: [],
+  responseConfig: { minPauseMs: 800, maxPauseMs: 2500, tangentProbability: 0.3 },
+  voiceConfig: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+function createRequest(method: string, body?: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/personas/margaret', {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+function routeParams(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+describe('/api/personas/[id]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setCustomPersonas([]);
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([margaretRow]);
+    (mockPrisma.persona.findUnique as jest.Mock).mockResolvedValue(margaretRow);
+  });
+
+  describe('GET', () => {
+    it('should return a built-in persona', async () => {
+      const response = await GET(createRequest('GET'), routeParams('gladys'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({ id: 'gladys', builtIn: true });
+    });
+
+    it('should return a custom persona', async () => {
+      const response = await GET(createRequest('GET'), routeParams('margaret'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toMatchObject({ id: 'margaret', fullName: 'Margaret Olsen', builtIn: false });
+      expect(data.voiceConfig).toBeUndefined();
+    });
+
+    it('should return 404 for unknown personas', async () => {
+      const response = await GET(createRequest('GET'), routeParams('nobody'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('PATCH', () => {
+    it('should update a custom persona', async () => {
+      (mockPrisma.persona.update as jest.Mock).mockResolvedValue({ ...margaretRow, age: 89 });
+
+      const response = await PATCH(createRequest('PATCH', { age: 89 }), routeParams('margaret'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.age).toBe(89);
+      expect(mockPrisma.persona.update).toHaveBeenCalledWith({
+        where: { id: 'margaret' },
+        data: { age: 89 },
+      });
+    });
+
+    it('should refuse to modify built-in personas', async () => {
+      const response = await PATCH(createRequest('PATCH', { age: 90 }), routeParams('earl'));
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.persona.update).not.toHaveBeenCalled();
+    });
+
+    it('should not allow changing the ID', async () => {
+      const response = await PATCH(
+        createRequest('PATCH', { id: 'maggie' }),
+        routeParams('margaret')
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 404 for unknown personas', async () => {
+      (mockPrisma.persona.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const response = await PATCH(createRequest('PATCH', { age: 89 }), routeParams('nobody'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe('DELETE', () => {
+    beforeEach(() => {
+      (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([]);
+    });
+
+    it('should delete a custom persona and remove it from the settings', async () => {
+      mockSettings.loadSettings.mockResolvedValue({
+        enabledPersonas: ['earl', 'margaret'],
+        selectionMode: 'fixed',
+        fixedPersona: 'margaret',
+      });
+
+      const response = await DELETE(createRequest('DELETE'), routeParams('margaret'));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.persona.delete).toHaveBeenCalledWith({ where: { id: 'margaret' } });
+      expect(isValidPersonaType('margaret')).toBe(false);
+      expect(mockSettings.saveSettings).toHaveBeenCalledWith({
+        enabledPersonas: ['earl'],
+        selectionMode: 'random',
+        fixedPersona: undefined,
+      });
+    });
+
+    it('should leave settings alone when the persona was not selected', async () => {
+      mockSettings.loadSettings.mockResolvedValue({
+        enabledPersonas: ['earl'],
+        selectionMode: 'random',
+      });
+
+      await DELETE(createRequest('DELETE'), routeParams('margaret'));
+
+      expect(mockSettings.saveSettings).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete built-in personas', async () => {
+      const response = await DELETE(createRequest('DELETE'), routeParams('kevin'));
+
+      expect(response.status).toBe(403);
+      expect(mockPrisma.persona.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Persona Detail API Route
+ *
+ * GET /api/personas/[id] - Get a built-in or custom persona
+ * PATCH /api/personas/[id] - Update a custom persona
+ * DELETE /api/personas/[id] - Delete a custom persona
+ *
+ * Built-in personas are read-only.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getPersona, isBuiltInPersonaType, isValidPersonaType } from '@/lib/personas';
+import { loadCustomPersonas, parsePersonaInput, toPersonaConfig } from '@/lib/personas/custom';
+import { loadSettings, saveSettings, DEFAULT_SETTINGS } from '@/lib/settings';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, PersonaResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Response for attempts to modify a built-in persona
+ */
+function builtInReadOnlyResponse(): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    { error: 'Built-in personas are read-only' },
+    { status: 403 }
+  );
+}
+
+/**
+ * Remove a deleted persona from the selection settings so calls
+ * aren't routed to a persona that no longer exists
+ */
+async function removeFromSettings(id: string): Promise<void> {
+  const settings = await loadSettings();
+  if (!settings.enabledPersonas.includes(id) && settings.fixedPersona !== id) {
+    return;
+  }
+
+  const enabledPersonas = settings.enabledPersonas.filter((persona) => persona !== id);
+  const fixedPersonaRemoved = settings.fixedPersona === id;
+
+  await saveSettings({
+    enabledPersonas: enabledPersonas.length > 0 ? enabledPersonas : DEFAULT_SETTINGS.enabledPersonas,
+    selectionMode: fixedPersonaRemoved ? 'random' : settings.selectionMode,
+    fixedPersona: fixedPersonaRemoved ? undefined : settings.fixedPersona,
+  });
+}
+
+/**
+ * GET /api/personas/[id]
+ * Fetch a single persona
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<PersonaResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+    await loadCustomPersonas();
+
+    if (!isValidPersonaType(id)) {
+      return NextResponse.json(
+        { error: 'Persona not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ ...getPersona(id), builtIn: isBuiltInPersonaType(id) });
+  } catch (error) {
+    console.error('Error fetching persona:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch persona' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/personas/[id]
+ * Update fields of a custom persona
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<PersonaResponse | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    if (isBuiltInPersonaType(id)) {
+      return builtInReadOnlyResponse();
+    }
+
+    const input = parsePersonaInput(await request.json(), { partial: true });
+
+    const existing = await prisma.persona.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Persona not found' },
+        { status: 404 }
+      );
+    }
+
+    const row = await prisma.persona.update({ where: { id }, data: input });
+    await loadCustomPersonas();
+
+    return NextResponse.json({ ...toPersonaConfig(row), builtIn: false });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    console.error('Error updating persona:', error);
+    return NextResponse.json(
+      { error: 'Failed to update persona' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/personas/[id]
+ * Delete a custom persona. Calls that used it keep their persona ID.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<{ success: boolean } | ApiErrorResponse>> {
+  try {
+    const { id } = await params;
+
+    if (isBuiltInPersonaType(id)) {
+      return builtInReadOnlyResponse();
+    }
+
+    const existing = await prisma.persona.findUnique({ where: { id } });
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Persona not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.persona.delete({ where: { id } });
+    await loadCustomPersonas();
+    await removeFromSettings(id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting persona:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete persona' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,297 @@
+/**
+ * Personas API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { GET, POST } from '../route';
+import prisma from '@/lib/db';
+import { getPersona, isValidPersonaType, setCustomPersonas } from '@/lib/personas';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    persona: {
+      findMany: jest.fn(),
+      create: jest.fn(),
+    },
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const validInput = {
+  id: 'margaret',
+  name: 'Margaret',
+  fullName: 'Margaret Olsen',
+  age: 88,
+  background: 'Retired switchboard operator',
+  systemPrompt: 'You are Margaret, an 88-year-old retired switchboard operator.',
+  signaturePhrases: ['Number please!'],
+  tangentTopics: [{ subject: 'Switchboards', details: 'The old cord boards at Ma Bell' }],
+  mishearings: [{ original: 'gift card', misheard: 'gift cart' }],
+  responseConfig: { minPauseMs: 800, maxPauseMs: 2500, tangentProbability: 0.3 },
+  voiceConfig: { realtimeVoice: 'shimmer', twilioVoice: 'Polly.Joanna' },
+};
+
+function personaRow(overrides: Record<string, unknown> = {}) {
+  return {
+    personality: '',
+    location: '',
+    livingStatus: '',
+    greeting: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...validInput,
+    ...overrides,
+  };
+}
+
+function createPostRequest(body: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/personas', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /api/personas', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setCustomPersonas([]);
+  });
+
+  it('should list built-in personas followed by custom personas', async () => {
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([personaRow()]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.personas.map((p: { id: string }) => p.id)).toEqual([
+      'earl',
+      'gladys',
+      'kevin',
+      'brenda',
+      'margaret',
+    ]);
+    expect(data.personas[0].builtIn).toBe(true);
+    expect(data.personas[4]).toMatchObject({
+      id: 'margaret',
+      builtIn: false,
+      voiceConfig: { realtimeVoice: 'shimmer' },
+    });
+  });
+
+  it('should register custom personas for lookup', async () => {
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([personaRow()]);
+
+    await GET();
+
+    expect(isValidPersonaType('margaret')).toBe(true);
+    expect(getPersona('margaret').fullName).toBe('Margaret Olsen');
+  });
+
+  it('should return 500 on database error', async () => {
+    (mockPrisma.persona.findMany as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe('POST /api/personas', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setCustomPersonas([]);
+    (mockPrisma.persona.findMany as jest.Mock).mockResolvedValue([personaRow()]);
+    (mockPrisma.persona.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve(personaRow(data))
+    );
+  });
+
+  it('should create a custom persona', async () => {
+    const response = await POST(createPostRequest(validInput));
+    const data = await response.json();
+
+    expect(response.status).toBe(201);
+    expect(data).toMatchObject({ id: 'margaret', name: 'Margaret', builtIn: false });
+    expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        id: 'margaret',
+        age: 88,
+        responseConfig: { minPauseMs: 800, maxPauseMs: 2500, tangentProbability: 0.3 },
+      }),
+    });
+    expect(isValidPersonaType('margaret')).toBe(true);
+  });
+
+  it('should default the full name to the name', async () => {
+    const input: Record<string, unknown> = { ...validInput };
+    delete input.fullName;
+
+    await POST(createPostRequest(input));
+
+    expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fullName: 'Margaret' }),
+    });
+  });
+
+  it('should reject IDs that collide with built-in personas', async () => {
+    const response = await POST(createPostRequest({ ...validInput, id: 'earl' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty('id');
+    expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid IDs', async () => {
+    const response = await POST(createPostRequest({ ...validInput, id: 'Not A Slug!' }));
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should require a system prompt', async () => {
+    const response = await POST(createPostRequest({ ...validInput, systemPrompt: '  ' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Missing required field: systemPrompt');
+  });
+
+  it('should validate the response config', async () => {
+    const response = await POST(
+      createPostRequest({
+        ...validInput,
+        responseConfig: { minPauseMs: 3000, maxPauseMs: 1000, tangentProbability: 0.3 },
+      })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should validate tangent topics', async () => {
+    const response = await POST(
+      createPostRequest({ ...validInput, tangentTopics: ['just a string'] })
+    );
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should save the caller memory config', async () => {
+    await POST(
+      createPostRequest({ ...validInput, memoryConfig: { enabled: false, maxSummaryChars: 500 } })
+    );
+
+    expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ memoryConfig: { enabled: false, maxSummaryChars: 500 } }),
+    });
+  });
+
+  it('should validate the caller memory summary length', async () => {
+    const response = await POST(
+      createPostRequest({ ...validInput, memoryConfig: { enabled: true, maxSummaryChars: 50000 } })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty('memoryConfig');
+    expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+  });
+
+  it('should save the silence handling config', async () => {
+    await POST(
+      createPostRequest({
+        ...validInput,
+        idleConfig: { checkInAfterMs: 8000, hangUpAfterMs: 40000, checkInPhrases: ['Hello?', ' '], goodbye: 'Bye!' },
+      })
+    );
+
+    expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        idleConfig: { checkInAfterMs: 8000, hangUpAfterMs: 40000, checkInPhrases: ['Hello?'], goodbye: 'Bye!' },
+      }),
+    });
+  });
+
+  it('should reject hanging up before checking in', async () => {
+    const response = await POST(
+      createPostRequest({ ...validInput, idleConfig: { checkInAfterMs: 20000, hangUpAfterMs: 10000 } })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty('idleConfig');
+    expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+  });
+
+  it('should save the voice engine', async () => {
+    await POST(
+      createPostRequest({
+        ...validInput,
+        voiceConfig: { realtimeVoice: 'shimmer', engine: 'cascaded', ttsProvider: 'elevenlabs', voice: 'voice-123' },
+      })
+    );
+
+    expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        voiceConfig: { realtimeVoice: 'shimmer', engine: 'cascaded', ttsProvider: 'elevenlabs', voice: 'voice-123' },
+      }),
+    });
+  });
+
+  it('should reject unknown voice engines', async () => {
+    const response = await POST(
+      createPostRequest({ ...validInput, voiceConfig: { engine: 'carrier-pigeon' } })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty(['voiceConfig.engine']);
+    expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+  });
+
+  it('should store a seeded identity, keeping the details given', async () => {
+    await POST(
+      createPostRequest({
+        ...validInput,
+        identity: { bank: 'Bank of Ma Bell', relatives: [{ relation: 'grandson', name: 'Tommy' }] },
+      })
+    );
+
+    expect(mockPrisma.persona.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        identity: {
+          address: expect.any(String),
+          bank: 'Bank of Ma Bell',
+          pharmacy: expect.any(String),
+          relatives: [{ relation: 'grandson', name: 'Tommy' }],
+          pets: [expect.objectContaining({ kind: expect.any(String), name: expect.any(String) })],
+        },
+      }),
+    });
+  });
+
+  it('should validate identity relatives', async () => {
+    const response = await POST(
+      createPostRequest({ ...validInput, identity: { relatives: [{ relation: 'grandson' }] } })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details).toHaveProperty(['identity.relatives']);
+    expect(mockPrisma.persona.create).not.toHaveBeenCalled();
+  });
+
+  it('should return 409 for duplicate IDs', async () => {
+    (mockPrisma.persona.create as jest.Mock).mockRejectedValue(
+      new Error('Unique constraint failed on the fields: (`id`)')
+    );
+
+    const response = await POST(createPostRequest(validInput));
+
+    expect(response.status).toBe(409);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Personas API Route
+ *
+ * Lists the built-in personas and manages custom personas created with the
+ * persona builder. Custom personas are stored in the database; built-in
+ * personas are defined in code and cannot be modified.
+ *
+ * GET /api/personas - List built-in and custom personas
+ * POST /api/personas - Create a custom persona
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { getAllPersonas, isBuiltInPersonaType } from '@/lib/personas';
+import { loadCustomPersonas, parsePersonaInput, toPersonaConfig } from '@/lib/personas/custom';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, PersonaListResponse, PersonaResponse } from '@/types';
+
+/**
+ * GET /api/personas
+ * List all personas, built-in personas first
+ */
+export async function GET(): Promise<NextResponse<PersonaListResponse | ApiErrorResponse>> {
+  try {
+    await loadCustomPersonas();
+
+    const personas: PersonaResponse[] = getAllPersonas().map((persona) => ({
+      ...persona,
+      builtIn: isBuiltInPersonaType(persona.id),
+    }));
+
+    return NextResponse.json({ personas });
+  } catch (error) {
+    console.error('Error fetching personas:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch personas' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/personas
+ * Create a custom persona
+ */
+export async function POST(
+  request: NextRequest
+): Promise<NextResponse<PersonaResponse | ApiErrorResponse>> {
+  try {
+    const input = parsePersonaInput(await request.json());
+
+    const row = await prisma.persona.create({ data: input });
+    await loadCustomPersonas();
+
+    return NextResponse.json(
+      { ...toPersonaConfig(row), builtIn: false },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return NextResponse.json(
+        { error: 'A persona with this ID already exists' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating persona:', error);
+    return NextResponse.json(
+      { error: 'Failed to create persona' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Playbook Detail API Endpoint Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { PATCH, DELETE } from '../route';
+import { prisma } from '@/lib/db';
+import { DEFAULT_PLAYBOOKS } from '@/lib/playbooks';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => {
+  const mockPrisma = {
+    playbook: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+  return { __esModule: true, default: mockPrisma, prisma: mockPrisma };
+});
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+function createRequest(method: string, body?: unknown): NextRequest {
+  return new NextRequest('http://localhost:3000/api/playbooks/gift_card', {
+    method,
+    ...(body !== undefined && { body: JSON.stringify(body) }),
+  });
+}
+
+function routeParams(scamType: string) {
+  return { params: Promise.resolve({ scamType }) };
+}
+
+describe('/api/playbooks/[scamType]', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.playbook.findUnique as jest.Mock).mockResolvedValue(null);
+    (mockPrisma.playbook.upsert as jest.Mock).mockImplementation(({ create }) => Promise.resolve(create));
+    (mockPrisma.playbook.deleteMany as jest.Mock).mockResolvedValue({ count: 1 });
+  });
+
+  describe('PATCH', () => {
+    it('should save edited instructions', async () => {
+      const response = await PATCH(
+        createRequest('PATCH', { instructions: '  Go to the wrong store.  ' }),
+        routeParams('gift_card')
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({
+        scamType: 'gift_card',
+        instructions: 'Go to the wrong store.',
+        isEnabled: true,
+        isBuiltIn: false,
+      });
+      expect(mockPrisma.playbook.upsert).toHaveBeenCalledWith({
+        where: { scamType: 'gift_card' },
+        update: { instructions: 'Go to the wrong store.', isEnabled: true },
+        create: { scamType: 'gift_card', instructions: 'Go to the wrong store.', isEnabled: true },
+      });
+    });
+
+    it('should turn off the built-in playbook without changing it', async () => {
+      const response = await PATCH(createRequest('PATCH', { isEnabled: false }), routeParams('gift_card'));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.playbook.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { scamType: 'gift_card', instructions: DEFAULT_PLAYBOOKS.gift_card, isEnabled: false },
+        })
+      );
+    });
+
+    it('should keep edits made before', async () => {
+      (mockPrisma.playbook.findUnique as jest.Mock).mockResolvedValue({
+        scamType: 'gift_card',
+        instructions: 'Go to the wrong store.',
+        isEnabled: true,
+      });
+
+      await PATCH(createRequest('PATCH', { isEnabled: false }), routeParams('gift_card'));
+
+      expect(mockPrisma.playbook.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ update: { instructions: 'Go to the wrong store.', isEnabled: false } })
+      );
+    });
+
+    it('should reject empty instructions', async () => {
+      const response = await PATCH(createRequest('PATCH', { instructions: '  ' }), routeParams('gift_card'));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.details).toHaveProperty('instructions');
+      expect(mockPrisma.playbook.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for scam types without playbooks', async () => {
+      const response = await PATCH(createRequest('PATCH', { isEnabled: false }), routeParams('unknown'));
+
+      expect(response.status).toBe(404);
+      expect(mockPrisma.playbook.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('DELETE', () => {
+    it('should go back to the built-in playbook', async () => {
+      const response = await DELETE(createRequest('DELETE'), routeParams('gift_card'));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({
+        scamType: 'gift_card',
+        instructions: DEFAULT_PLAYBOOKS.gift_card,
+        isEnabled: true,
+        isBuiltIn: true,
+      });
+      expect(mockPrisma.playbook.deleteMany).toHaveBeenCalledWith({ where: { scamType: 'gift_card' } });
+    });
+
+    it('should return 404 for scam types without playbooks', async () => {
+      const response = await DELETE(createRequest('DELETE'), routeParams('nope'));
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Playbook Detail API Route
+ *
+ * PATCH /api/playbooks/[scamType] - Edit a scam type's playbook or turn it on or off
+ * DELETE /api/playbooks/[scamType] - Go back to the built-in playbook
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isPlaybookScamType,
+  parsePlaybookInput,
+  PlaybookConfig,
+  resetPlaybook,
+  savePlaybook,
+} from '@/lib/playbooks';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse } from '@/types';
+
+interface RouteParams {
+  params: Promise<{ scamType: string }>;
+}
+
+function notFoundResponse(): NextResponse<ApiErrorResponse> {
+  return NextResponse.json(
+    { error: 'No playbook for that scam type' },
+    { status: 404 }
+  );
+}
+
+/**
+ * PATCH /api/playbooks/[scamType]
+ * Update the playbook's instructions or whether it's used
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<PlaybookConfig | ApiErrorResponse>> {
+  try {
+    const { scamType } = await params;
+    if (!isPlaybookScamType(scamType)) {
+      return notFoundResponse();
+    }
+
+    const body = await request.json();
+    const input = parsePlaybookInput(body);
+    const playbook = await savePlaybook(scamType, input);
+
+    return NextResponse.json(playbook);
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
+    console.error('Error updating playbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to update playbook' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/playbooks/[scamType]
+ * Discard edits to the playbook, so the built-in one is used again
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteParams
+): Promise<NextResponse<PlaybookConfig | ApiErrorResponse>> {
+  try {
+    const { scamType } = await params;
+    if (!isPlaybookScamType(scamType)) {
+      return notFoundResponse();
+    }
+
+    const playbook = await resetPlaybook(scamType);
+
+    return NextResponse.json(playbook);
+  } catch (error) {
+    console.error('Error resetting playbook:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset playbook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Playbooks API Endpoint Tests
+ */
+
+import { GET } from '../route';
+import { prisma } from '@/lib/db';
+import { DEFAULT_PLAYBOOKS, PLAYBOOK_SCAM_TYPES } from '@/lib/playbooks';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => {
+  const mockPrisma = {
+    playbook: {
+      findMany: jest.fn(),
+    },
+  };
+  return { __esModule: true, default: mockPrisma, prisma: mockPrisma };
+});
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('GET /api/playbooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should list the built-in playbook for every scam type', async () => {
+    (mockPrisma.playbook.findMany as jest.Mock).mockResolvedValue([]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.playbooks).toHaveLength(PLAYBOOK_SCAM_TYPES.length);
+    expect(data.playbooks).toContainEqual({
+      scamType: 'gift_card',
+      instructions: DEFAULT_PLAYBOOKS.gift_card,
+      isEnabled: true,
+      isBuiltIn: true,
+    });
+    expect(data.playbooks.map((playbook: { scamType: string }) => playbook.scamType)).not.toContain('unknown');
+  });
+
+  it('should use edited playbooks in place of the built-in ones', async () => {
+    (mockPrisma.playbook.findMany as jest.Mock).mockResolvedValue([
+      { scamType: 'irs', instructions: 'Ask for their badge number.', isEnabled: false },
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(data.playbooks).toContainEqual({
+      scamType: 'irs',
+      instructions: 'Ask for their badge number.',
+      isEnabled: false,
+      isBuiltIn: false,
+    });
+  });
+
+  it('should return 500 when the database fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    (mockPrisma.playbook.findMany as jest.Mock).mockRejectedValue(new Error('Connection lost'));
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
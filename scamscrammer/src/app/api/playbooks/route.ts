@@ -0,0 +1,29 @@
+/**
+ * Playbooks API Route
+ *
+ * Lists the counter-playbook in effect for each scam type: the edited one
+ * if there is one, otherwise the built-in one (see lib/playbooks.ts).
+ *
+ * GET /api/playbooks - List playbooks
+ */
+
+import { NextResponse } from 'next/server';
+import { loadPlaybooks } from '@/lib/playbooks';
+import type { ApiErrorResponse, PlaybookListResponse } from '@/types';
+
+/**
+ * GET /api/playbooks
+ * List the playbook for every scam type
+ */
+export async function GET(): Promise<NextResponse<PlaybookListResponse | ApiErrorResponse>> {
+  try {
+    const playbooks = await loadPlaybooks();
+    return NextResponse.json({ playbooks });
+  } catch (error) {
+    console.error('Error fetching playbooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch playbooks' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,338 @@
+/**
+ * Settings API Endpoint Tests
+ */
+
+import fs from 'fs';
+import { NextRequest } from 'next/server';
+import { GET, PATCH } from '../route';
+import prisma from '@/lib/db';
+import { setCustomPersonas, EARL_PERSONA } from '@/lib/personas';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    settings: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      create: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}));
+
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+  parseMemoryConfig: jest.requireActual('@/lib/personas/custom').parseMemoryConfig,
+}));
+
+jest.mock('fs', () => ({
+  existsSync: jest.fn(() => false),
+  readFileSync: jest.fn(),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+const mockFs = fs as jest.Mocked<typeof fs>;
+
+function settingsRow(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'default',
+    enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+    selectionMode: 'random',
+    fixedPersona: null,
+    lastUsedPersonaIndex: 0,
+    rememberRepeatCallers: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+function createPatchRequest(body: Record<string, unknown>): NextRequest {
+  return new NextRequest('http://localhost:3000/api/settings', {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  });
+}
+
+describe('GET /api/settings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFs.existsSync.mockReturnValue(false);
+  });
+
+  it('should return the stored settings', async () => {
+    (mockPrisma.settings.findUnique as jest.Mock).mockResolvedValue(
+      settingsRow({ selectionMode: 'fixed', fixedPersona: 'gladys', lastUsedPersonaIndex: 7 })
+    );
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+      selectionMode: 'fixed',
+      fixedPersona: 'gladys',
+      lastUsedPersonaIndex: 7,
+      rememberRepeatCallers: true,
+      personaMemory: {},
+    });
+  });
+
+  it('should create the settings row with defaults on first load', async () => {
+    (mockPrisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+    (mockPrisma.settings.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve(settingsRow(data))
+    );
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(mockPrisma.settings.create).toHaveBeenCalledWith({
+      data: {
+        id: 'default',
+        enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+        selectionMode: 'random',
+        fixedPersona: null,
+        lastUsedPersonaIndex: 0,
+        rememberRepeatCallers: true,
+      },
+    });
+    expect(data.selectionMode).toBe('random');
+    expect(data.fixedPersona).toBeUndefined();
+  });
+
+  it('should import a legacy .settings.json file on first load', async () => {
+    mockFs.existsSync.mockReturnValue(true);
+    mockFs.readFileSync.mockReturnValue(
+      JSON.stringify({
+        enabledPersonas: ['earl', 'kevin'],
+        selectionMode: 'round_robin',
+        lastUsedPersonaIndex: 3,
+      })
+    );
+    (mockPrisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+    (mockPrisma.settings.create as jest.Mock).mockImplementation(({ data }) =>
+      Promise.resolve(settingsRow(data))
+    );
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(mockPrisma.settings.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        enabledPersonas: ['earl', 'kevin'],
+        selectionMode: 'round_robin',
+        lastUsedPersonaIndex: 3,
+      }),
+    });
+    expect(data.enabledPersonas).toEqual(['earl', 'kevin']);
+  });
+
+  it('should re-read the row when a concurrent request created it first', async () => {
+    (mockPrisma.settings.findUnique as jest.Mock).mockResolvedValue(null);
+    (mockPrisma.settings.create as jest.Mock).mockRejectedValue(
+      new Error('Unique constraint failed on the fields: (`id`)')
+    );
+    (mockPrisma.settings.findUniqueOrThrow as jest.Mock).mockResolvedValue(
+      settingsRow({ selectionMode: 'round_robin' })
+    );
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.selectionMode).toBe('round_robin');
+  });
+
+  it('should return 500 when the database is unavailable', async () => {
+    (mockPrisma.settings.findUnique as jest.Mock).mockRejectedValue(
+      new Error('Connection refused')
+    );
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to fetch settings');
+  });
+});
+
+describe('PATCH /api/settings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFs.existsSync.mockReturnValue(false);
+    (mockPrisma.settings.findUnique as jest.Mock).mockResolvedValue(
+      settingsRow({ lastUsedPersonaIndex: 5 })
+    );
+    (mockPrisma.settings.upsert as jest.Mock).mockResolvedValue(settingsRow());
+  });
+
+  it('should save updated settings and return the merged result', async () => {
+    const response = await PATCH(
+      createPatchRequest({ selectionMode: 'fixed', fixedPersona: 'kevin' })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+      selectionMode: 'fixed',
+      fixedPersona: 'kevin',
+      lastUsedPersonaIndex: 5,
+      rememberRepeatCallers: true,
+      personaMemory: {},
+    });
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledWith({
+      where: { id: 'default' },
+      update: {
+        enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+        selectionMode: 'fixed',
+        fixedPersona: 'kevin',
+        rememberRepeatCallers: true,
+      },
+      create: {
+        id: 'default',
+        enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+        selectionMode: 'fixed',
+        fixedPersona: 'kevin',
+        rememberRepeatCallers: true,
+      },
+    });
+  });
+
+  it('should write the round-robin counter only when provided', async () => {
+    await PATCH(createPatchRequest({ lastUsedPersonaIndex: 0 }));
+
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ lastUsedPersonaIndex: 0 }),
+      })
+    );
+  });
+
+  it('should turn off repeat caller memory', async () => {
+    const response = await PATCH(createPatchRequest({ rememberRepeatCallers: false }));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.rememberRepeatCallers).toBe(false);
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ rememberRepeatCallers: false }),
+      })
+    );
+  });
+
+  it('should reject a non-boolean rememberRepeatCallers', async () => {
+    const response = await PATCH(createPatchRequest({ rememberRepeatCallers: 'yes' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('rememberRepeatCallers must be a boolean');
+    expect(mockPrisma.settings.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should override memory for a built-in persona', async () => {
+    (mockPrisma.settings.findUnique as jest.Mock).mockResolvedValue(
+      settingsRow({ personaMemory: { gladys: { enabled: true, maxSummaryChars: 400 } } })
+    );
+
+    const response = await PATCH(
+      createPatchRequest({
+        personaMemory: { earl: { enabled: false, maxSummaryChars: 800 }, gladys: null },
+      })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.personaMemory).toEqual({ earl: { enabled: false, maxSummaryChars: 800 } });
+    expect(mockPrisma.settings.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({
+          personaMemory: { earl: { enabled: false, maxSummaryChars: 800 } },
+        }),
+      })
+    );
+  });
+
+  it('should reject a memory override that is not a memoryConfig', async () => {
+    const response = await PATCH(createPatchRequest({ personaMemory: { earl: { enabled: 'no' } } }));
+
+    expect(response.status).toBe(400);
+    expect(mockPrisma.settings.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should reject a memory override for an unknown persona', async () => {
+    const response = await PATCH(
+      createPatchRequest({ personaMemory: { nobody: { enabled: false, maxSummaryChars: 800 } } })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('Invalid persona type: nobody');
+    expect(mockPrisma.settings.upsert).not.toHaveBeenCalled();
+  });
+
+    it('should reject an empty enabled personas list', async () => {
+    const response = await PATCH(createPatchRequest({ enabledPersonas: [] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe('At least one persona must be enabled');
+    expect(mockPrisma.settings.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should reject a fixed persona that is not enabled', async () => {
+    const response = await PATCH(
+      createPatchRequest({
+        enabledPersonas: ['earl'],
+        selectionMode: 'fixed',
+        fixedPersona: 'brenda',
+      })
+    );
+
+    expect(response.status).toBe(400);
+    expect(mockPrisma.settings.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should accept a registered custom persona', async () => {
+    (loadCustomPersonas as jest.Mock).mockImplementationOnce(async () => {
+      const margaret = { ...EARL_PERSONA, id: 'margaret', name: 'Margaret' };
+      setCustomPersonas([margaret]);
+      return [margaret];
+    });
+
+    const response = await PATCH(
+      createPatchRequest({ enabledPersonas: ['earl', 'margaret'] })
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.enabledPersonas).toEqual(['earl', 'margaret']);
+  });
+
+  it('should reject an unknown persona', async () => {
+    setCustomPersonas([]);
+
+    const response = await PATCH(createPatchRequest({ enabledPersonas: ['margaret'] }));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toContain('Invalid persona type: margaret');
+  });
+
+  it('should return 500 when saving fails', async () => {
+    (mockPrisma.settings.upsert as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+    jest.spyOn(console, 'error').mockImplementation();
+
+    const response = await PATCH(createPatchRequest({ selectionMode: 'random' }));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe('Failed to update settings');
+  });
+});
@@ -1,63 +1,22 @@
 /**
  * Settings API Route
  *
- * Manages persona selection settings. For MVP, settings are stored
- * server-side in a JSON file or memory. In production, consider
- * using a database Settings model.
+ * Manages persona selection settings. Settings are stored in the database
+ * (see lib/settings.ts).
  *
  * GET /api/settings - Retrieve current settings
  * PATCH /api/settings - Update settings
+ *
+ * personaMemory overrides are merged into the saved ones by persona ID; an
+ * override of null goes back to the persona's own memoryConfig.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { PersonaType } from '@/lib/personas/types';
 import { isValidPersonaType, getPersonaTypes } from '@/lib/personas';
-import fs from 'fs';
-import path from 'path';
-
-export interface PersonaSettings {
-  enabledPersonas: PersonaType[];
-  selectionMode: 'random' | 'round_robin' | 'fixed';
-  fixedPersona?: PersonaType;
-  lastUsedPersonaIndex?: number;
-}
-
-const DEFAULT_SETTINGS: PersonaSettings = {
-  enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
-  selectionMode: 'random',
-  fixedPersona: undefined,
-  lastUsedPersonaIndex: 0,
-};
-
-const SETTINGS_FILE = path.join(process.cwd(), '.settings.json');
-
-/**
- * Load settings from file or return defaults
- */
-function loadSettings(): PersonaSettings {
-  try {
-    if (fs.existsSync(SETTINGS_FILE)) {
-      const data = fs.readFileSync(SETTINGS_FILE, 'utf-8');
-      const parsed = JSON.parse(data);
-      return { ...DEFAULT_SETTINGS, ...parsed };
-    }
-  } catch (error) {
-    console.error('Error loading settings:', error);
-  }
-  return DEFAULT_SETTINGS;
-}
-
-/**
- * Save settings to file
- */
-function saveSettings(settings: PersonaSettings): void {
-  try {
-    fs.writeFileSync(SETTINGS_FILE, JSON.stringify(settings, null, 2));
-  } catch (error) {
-    console.error('Error saving settings:', error);
-    throw error;
-  }
-}
+import { loadCustomPersonas, parseMemoryConfig } from '@/lib/personas/custom';
+import { loadSettings, saveSettings, PersonaSettings } from '@/lib/settings';
+import { ValidationError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { MemoryConfig } from '@/lib/personas/types';
 
 /**
  * GET /api/settings
@@ -65,7 +24,7 @@ function saveSettings(settings: PersonaSettings): void {
  */
 export async function GET(): Promise<NextResponse> {
   try {
-    const settings = loadSettings();
+    const settings = await loadSettings();
     return NextResponse.json(settings);
   } catch (error) {
     console.error('Error fetching settings:', error);
@@ -83,7 +42,10 @@ export async function GET(): Promise<NextResponse> {
 export async function PATCH(request: NextRequest): Promise<NextResponse> {
   try {
     const body = await request.json();
-    const currentSettings = loadSettings();
+    const currentSettings = await loadSettings();
+
+    // Custom personas must be registered for validation to accept them
+    await loadCustomPersonas();
 
     // Validate enabledPersonas if provided
     if (body.enabledPersonas !== undefined) {
@@ -152,6 +114,42 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
       }
     }
 
+    // Validate rememberRepeatCallers if provided
+    if (body.rememberRepeatCallers !== undefined && typeof body.rememberRepeatCallers !== 'boolean') {
+      return NextResponse.json(
+        { error: 'rememberRepeatCallers must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    // Validate personaMemory if provided
+    let personaMemory: PersonaSettings['personaMemory'];
+    if (body.personaMemory !== undefined) {
+      if (typeof body.personaMemory !== 'object' || body.personaMemory === null || Array.isArray(body.personaMemory)) {
+        return NextResponse.json(
+          { error: 'personaMemory must be an object' },
+          { status: 400 }
+        );
+      }
+
+      const overrides: Record<string, MemoryConfig> = { ...currentSettings.personaMemory };
+      for (const [personaId, value] of Object.entries(body.personaMemory)) {
+        if (!isValidPersonaType(personaId)) {
+          return NextResponse.json(
+            { error: `Invalid persona type: ${personaId}` },
+            { status: 400 }
+          );
+        }
+        const memoryConfig = parseMemoryConfig(value);
+        if (memoryConfig) {
+          overrides[personaId] = memoryConfig;
+        } else {
+          delete overrides[personaId];
+        }
+      }
+      personaMemory = overrides;
+    }
+
     // Merge and save settings
     const updatedSettings: PersonaSettings = {
       ...currentSettings,
@@ -159,12 +157,26 @@ export async function PATCH(request: NextRequest): Promise<NextResponse> {
       ...(body.selectionMode !== undefined && { selectionMode: body.selectionMode }),
       ...(body.fixedPersona !== undefined && { fixedPersona: body.fixedPersona }),
       ...(body.lastUsedPersonaIndex !== undefined && { lastUsedPersonaIndex: body.lastUsedPersonaIndex }),
+      ...(body.rememberRepeatCallers !== undefined && { rememberRepeatCallers: body.rememberRepeatCallers }),
+      ...(personaMemory !== undefined && { personaMemory }),
     };
 
-    saveSettings(updatedSettings);
+    // Only write the round-robin counter and memory overrides when explicitly
+    // provided so an edit doesn't overwrite changes made since the settings were read
+    await saveSettings({
+      ...updatedSettings,
+      lastUsedPersonaIndex: body.lastUsedPersonaIndex,
+      personaMemory,
+    });
 
     return NextResponse.json(updatedSettings);
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(formatErrorResponse(error), {
+        status: getErrorStatusCode(error),
+      });
+    }
+
     console.error('Error updating settings:', error);
     return NextResponse.json(
       { error: 'Failed to update settings' },
@@ -27,6 +27,9 @@ jest.mock('../../../../lib/db', () => ({
       groupBy: jest.fn(),
       findMany: jest.fn(),
     },
+    callMetrics: {
+      aggregate: jest.fn(),
+    },
     $queryRaw: jest.fn(),
   },
 }));
@@ -73,6 +76,8 @@ jest.mock('@prisma/client', () => ({
   },
   Speaker: {
     SCAMMER: 'SCAMMER',
+    PERSONA: 'PERSONA',
+    SYSTEM: 'SYSTEM',
     EARL: 'EARL',
   },
 }));
@@ -82,6 +87,18 @@ const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 describe('GET /api/stats', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+
+    // No call metrics unless a test sets some
+    (mockPrisma.callMetrics.aggregate as jest.Mock).mockResolvedValue({
+      _count: { _all: 0 },
+      _avg: {
+        avgResponseLatencyMs: null,
+        p95ResponseLatencyMs: null,
+        avgResponseDurationMs: null,
+        interruptionsPerMinute: null,
+      },
+      _sum: { mediaChunks: null, mediaGaps: null, outOfOrderChunks: null },
+    });
   });
 
   it('should return dashboard statistics', async () => {
@@ -159,6 +176,40 @@ describe('GET /api/stats', () => {
     expect(data.longestCalls.length).toBe(2);
   });
 
+  it('should summarize latency and audio quality across calls', async () => {
+    (mockPrisma.call.count as jest.Mock).mockResolvedValue(2);
+    (mockPrisma.call.aggregate as jest.Mock).mockResolvedValue({
+      _sum: { duration: 600 },
+      _avg: { duration: 300 },
+    });
+    (mockPrisma.call.groupBy as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.$queryRaw as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.call.findMany as jest.Mock).mockResolvedValue([]);
+    (mockPrisma.callMetrics.aggregate as jest.Mock).mockResolvedValue({
+      _count: { _all: 2 },
+      _avg: {
+        avgResponseLatencyMs: 1500,
+        p95ResponseLatencyMs: 2800,
+        avgResponseDurationMs: 5000,
+        interruptionsPerMinute: 0.75,
+      },
+      _sum: { mediaChunks: 30000, mediaGaps: 6, outOfOrderChunks: 1 },
+    });
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(data.callQuality).toEqual({
+      callsMeasured: 2,
+      avgResponseLatencyMs: 1500,
+      p95ResponseLatencyMs: 2800,
+      avgResponseDurationMs: 5000,
+      interruptionsPerMinute: 0.75,
+      mediaGapsPerThousandChunks: 0.2,
+      outOfOrderChunks: 1,
+    });
+  });
+
   it('should handle empty database gracefully', async () => {
     (mockPrisma.call.count as jest.Mock).mockResolvedValue(0);
     (mockPrisma.call.aggregate as jest.Mock).mockResolvedValue({
@@ -180,6 +231,7 @@ describe('GET /api/stats', () => {
     expect(data.averageDuration).toBe(0);
     expect(data.topRatedCalls).toEqual([]);
     expect(data.longestCalls).toEqual([]);
+    expect(data.callQuality).toMatchObject({ callsMeasured: 0, mediaGapsPerThousandChunks: null });
     // All statuses should be 0
     for (const status of Object.values(CallStatus)) {
       expect(data.callsByStatus[status]).toBe(0);
@@ -0,0 +1,116 @@
+/**
+ * Experiment Stats API Endpoint Tests
+ */
+
+import { GET } from '../route';
+import prisma from '@/lib/db';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    experiment: {
+      findMany: jest.fn(),
+    },
+    call: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock the logger
+jest.mock('@/lib/logger', () => ({
+  apiLogger: {
+    forRequest: jest.fn(() => ({
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      logError: jest.fn(),
+    })),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+const experiment = {
+  id: 'exp-1',
+  name: 'Earl vs Gladys',
+  isActive: true,
+  startedAt: new Date('2026-01-01T00:00:00Z'),
+  endedAt: null,
+  variants: [
+    { id: 'var-a', name: 'A', persona: 'earl', weight: 1 },
+    { id: 'var-b', name: 'B', persona: 'gladys', weight: 1 },
+  ],
+};
+
+describe('GET /api/stats/experiments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (mockPrisma.experiment.findMany as jest.Mock).mockResolvedValue([experiment]);
+  });
+
+  it('should only count completed calls assigned to a variant', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockResolvedValue([]);
+
+    await GET();
+
+    expect(mockPrisma.call.findMany).toHaveBeenCalledWith({
+      where: { status: 'COMPLETED', experimentVariantId: { not: null } },
+      select: { experimentVariantId: true, duration: true, rating: true },
+    });
+  });
+
+  it('should report outcomes per variant', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockResolvedValue([
+      { experimentVariantId: 'var-a', duration: 100, rating: 4 },
+      { experimentVariantId: 'var-a', duration: 200, rating: null },
+      { experimentVariantId: 'var-a', duration: 20, rating: 2 },
+      { experimentVariantId: 'var-b', duration: 600, rating: 5 },
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    const [variantA, variantB] = data.experiments[0].variants;
+
+    expect(variantA).toMatchObject({ variantId: 'var-a', name: 'A', persona: 'earl', totalCalls: 3 });
+    expect(variantA.duration.value).toBeCloseTo(320 / 3);
+    expect(variantA.duration.lower).toBeLessThan(variantA.duration.value);
+    expect(variantA.duration.upper).toBeGreaterThan(variantA.duration.value);
+    expect(variantA.rating).toMatchObject({ value: 3, n: 2 });
+    expect(variantA.hangUpRate).toMatchObject({ value: 1 / 3, n: 3 });
+
+    // A single observation has no spread
+    expect(variantB.duration).toEqual({ value: 600, lower: 600, upper: 600, n: 1 });
+    expect(variantB.hangUpRate.value).toBe(0);
+  });
+
+  it('should report empty variants as having no data', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockResolvedValue([]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(data.experiments[0].variants[1]).toEqual({
+      variantId: 'var-b',
+      name: 'B',
+      persona: 'gladys',
+      weight: 1,
+      totalCalls: 0,
+      duration: null,
+      rating: null,
+      hangUpRate: null,
+    });
+  });
+
+  it('should return 500 on database error', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
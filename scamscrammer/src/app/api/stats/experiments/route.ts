@@ -0,0 +1,63 @@
+/**
+ * Experiment Stats API Route
+ *
+ * GET /api/stats/experiments - Per-variant outcomes for every experiment:
+ * - Mean call duration with 95% confidence interval
+ * - Mean rating with 95% confidence interval
+ * - Hang-up rate (calls under 30 seconds) with Wilson 95% interval
+ *
+ * Only completed calls are counted.
+ */
+
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { apiLogger } from '@/lib/logger';
+import { computeVariantStats } from '@/lib/experiments';
+import { DatabaseError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, ExperimentStatsResponse } from '@/types';
+
+export async function GET(): Promise<NextResponse<ExperimentStatsResponse | ApiErrorResponse>> {
+  const requestLogger = apiLogger.forRequest(`experiment-stats-${Date.now()}`);
+  requestLogger.debug('Fetching experiment stats');
+
+  try {
+    const [experiments, calls] = await Promise.all([
+      prisma.experiment.findMany({
+        orderBy: { createdAt: 'desc' },
+        include: { variants: { orderBy: { createdAt: 'asc' } } },
+      }),
+      prisma.call.findMany({
+        where: {
+          status: 'COMPLETED',
+          experimentVariantId: { not: null },
+        },
+        select: {
+          experimentVariantId: true,
+          duration: true,
+          rating: true,
+        },
+      }),
+    ]);
+
+    const stats: ExperimentStatsResponse = {
+      experiments: experiments.map((experiment) => ({
+        id: experiment.id,
+        name: experiment.name,
+        isActive: experiment.isActive,
+        startedAt: experiment.startedAt,
+        endedAt: experiment.endedAt,
+        variants: computeVariantStats(experiment.variants, calls),
+      })),
+    };
+
+    requestLogger.info('Experiment stats fetched successfully');
+    return NextResponse.json(stats);
+  } catch (error) {
+    const dbError = DatabaseError.queryFailed('experiment stats');
+    requestLogger.logError(error, 'Failed to fetch experiment stats');
+
+    return NextResponse.json(formatErrorResponse(dbError), {
+      status: getErrorStatusCode(dbError),
+    });
+  }
+}
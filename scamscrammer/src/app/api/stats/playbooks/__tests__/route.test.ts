@@ -0,0 +1,81 @@
+/**
+ * Playbook Stats API Endpoint Tests
+ */
+
+import { GET } from '../route';
+import prisma from '@/lib/db';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    call: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock the logger
+jest.mock('@/lib/logger', () => ({
+  apiLogger: {
+    forRequest: jest.fn(() => ({
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      logError: jest.fn(),
+    })),
+  },
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+describe('GET /api/stats/playbooks', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only count completed calls with a playbook or a scam type tag', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockResolvedValue([]);
+
+    await GET();
+
+    const { where, select } = (mockPrisma.call.findMany as jest.Mock).mock.calls[0][0];
+    expect(where.status).toBe('COMPLETED');
+    expect(where.OR[0]).toEqual({ playbook: { not: null } });
+    expect(where.OR[1].tags.hasSome).toEqual(expect.arrayContaining(['tech-support', 'social-security', 'irs']));
+    expect(where.OR[1].tags.hasSome).not.toContain('unknown');
+    expect(select).toEqual({ playbook: true, tags: true, duration: true, rating: true });
+  });
+
+  it('should compare calls with and without the playbook per scam type', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockResolvedValue([
+      { playbook: 'tech_support', tags: ['tech-support'], duration: 600, rating: 5 },
+      { playbook: 'tech_support', tags: ['tech-support'], duration: 400, rating: 3 },
+      { playbook: null, tags: ['tech-support', 'aggressive'], duration: 20, rating: 2 },
+      { playbook: null, tags: ['irs'], duration: 90, rating: null },
+    ]);
+
+    const response = await GET();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    const techSupport = data.playbooks.find((stats: { scamType: string }) => stats.scamType === 'tech_support');
+    expect(techSupport.withPlaybook.totalCalls).toBe(2);
+    expect(techSupport.withPlaybook.duration.value).toBe(500);
+    expect(techSupport.withPlaybook.rating).toMatchObject({ value: 4, n: 2 });
+    expect(techSupport.withoutPlaybook).toMatchObject({ totalCalls: 1, hangUpRate: { value: 1, n: 1 } });
+
+    const irs = data.playbooks.find((stats: { scamType: string }) => stats.scamType === 'irs');
+    expect(irs.withPlaybook.totalCalls).toBe(0);
+    expect(irs.withoutPlaybook.totalCalls).toBe(1);
+  });
+
+  it('should return 500 on database error', async () => {
+    (mockPrisma.call.findMany as jest.Mock).mockRejectedValue(new Error('Connection refused'));
+
+    const response = await GET();
+
+    expect(response.status).toBe(500);
+  });
+});
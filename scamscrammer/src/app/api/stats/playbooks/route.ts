@@ -0,0 +1,55 @@
+/**
+ * Playbook Stats API Route
+ *
+ * GET /api/stats/playbooks - For each scam type, outcomes of calls where the
+ * persona had its playbook against calls tagged with it that didn't:
+ * - Mean call duration with 95% confidence interval
+ * - Mean rating with 95% confidence interval
+ * - Hang-up rate (calls under 30 seconds) with Wilson 95% interval
+ *
+ * Only completed calls are counted.
+ */
+
+import { NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { apiLogger } from '@/lib/logger';
+import { computePlaybookStats, PLAYBOOK_SCAM_TYPES } from '@/lib/playbooks';
+import { DatabaseError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
+import type { ApiErrorResponse, PlaybookStatsResponse } from '@/types';
+
+export async function GET(): Promise<NextResponse<PlaybookStatsResponse | ApiErrorResponse>> {
+  const requestLogger = apiLogger.forRequest(`playbook-stats-${Date.now()}`);
+  requestLogger.debug('Fetching playbook stats');
+
+  try {
+    // Scam types are tagged as e.g. "tech-support" (see analyzeCallForTags)
+    const scamTypeTags = PLAYBOOK_SCAM_TYPES.map((scamType) => scamType.replace('_', '-'));
+
+    const calls = await prisma.call.findMany({
+      where: {
+        status: 'COMPLETED',
+        OR: [{ playbook: { not: null } }, { tags: { hasSome: scamTypeTags } }],
+      },
+      select: {
+        playbook: true,
+        tags: true,
+        duration: true,
+        rating: true,
+      },
+    });
+
+    const stats: PlaybookStatsResponse = {
+      playbooks: computePlaybookStats(calls),
+    };
+
+    requestLogger.info('Playbook stats fetched successfully');
+    return NextResponse.json(stats);
+  } catch (error) {
+    const dbError = DatabaseError.queryFailed('playbook stats');
+    requestLogger.logError(error, 'Failed to fetch playbook stats');
+
+    return NextResponse.json(formatErrorResponse(dbError), {
+      status: getErrorStatusCode(dbError),
+    });
+  }
+}
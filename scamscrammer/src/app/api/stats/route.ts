@@ -6,7 +6,7 @@
 
 import { NextResponse } from 'next/server';
 import prisma from '@/lib/db';
-import type { DashboardStats, ApiErrorResponse, CallListItem } from '@/types';
+import type { DashboardStats, ApiErrorResponse, CallListItem, CallQualityStats } from '@/types';
 import { CallStatus } from '@prisma/client';
 import { apiLogger } from '@/lib/logger';
 import { DatabaseError, formatErrorResponse, getErrorStatusCode } from '@/lib/errors';
@@ -29,6 +29,7 @@ export async function GET(): Promise<NextResponse<DashboardStats | ApiErrorRespo
       callsByDayRaw,
       topRatedCalls,
       longestCalls,
+      metricsAggregation,
     ] = await Promise.all([
       // Total number of calls
       prisma.call.count(),
@@ -104,6 +105,24 @@ export async function GET(): Promise<NextResponse<DashboardStats | ApiErrorRespo
           },
         },
       }),
+
+      // Latency and audio quality across calls with saved metrics
+      prisma.callMetrics.aggregate({
+        _count: {
+          _all: true,
+        },
+        _avg: {
+          avgResponseLatencyMs: true,
+          p95ResponseLatencyMs: true,
+          avgResponseDurationMs: true,
+          interruptionsPerMinute: true,
+        },
+        _sum: {
+          mediaChunks: true,
+          mediaGaps: true,
+          outOfOrderChunks: true,
+        },
+      }),
     ]);
 
     // Transform calls by status into a record
@@ -154,11 +173,30 @@ export async function GET(): Promise<NextResponse<DashboardStats | ApiErrorRespo
       isFeatured: call.isFeatured,
       persona: call.persona,
       title: call.title,
+      experimentVariantId: call.experimentVariantId,
+      screeningAction: call.screeningAction,
+      screeningRuleId: call.screeningRuleId,
+      callerId: call.callerId,
+      usedFallback: call.usedFallback,
+      ivrPath: call.ivrPath,
+      playbook: call.playbook,
       createdAt: call.createdAt,
       updatedAt: call.updatedAt,
       _count: call._count,
     });
 
+    const mediaChunks = metricsAggregation._sum.mediaChunks || 0;
+    const callQuality: CallQualityStats = {
+      callsMeasured: metricsAggregation._count._all,
+      avgResponseLatencyMs: metricsAggregation._avg.avgResponseLatencyMs,
+      p95ResponseLatencyMs: metricsAggregation._avg.p95ResponseLatencyMs,
+      avgResponseDurationMs: metricsAggregation._avg.avgResponseDurationMs,
+      interruptionsPerMinute: metricsAggregation._avg.interruptionsPerMinute,
+      mediaGapsPerThousandChunks:
+        mediaChunks > 0 ? ((metricsAggregation._sum.mediaGaps || 0) / mediaChunks) * 1000 : null,
+      outOfOrderChunks: metricsAggregation._sum.outOfOrderChunks || 0,
+    };
+
     const stats: DashboardStats = {
       totalCalls,
       totalDuration: durationAggregation._sum.duration || 0,
@@ -167,6 +205,7 @@ export async function GET(): Promise<NextResponse<DashboardStats | ApiErrorRespo
       callsByDay,
       topRatedCalls: topRatedCalls.map(mapToCallListItem),
       longestCalls: longestCalls.map(mapToCallListItem),
+      callQuality,
     };
 
     requestLogger.info('Dashboard statistics fetched successfully', {
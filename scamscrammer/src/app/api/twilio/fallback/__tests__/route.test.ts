@@ -0,0 +1,117 @@
+/**
+ * Fallback Conversation Webhook Tests
+ */
+
+import { NextRequest } from 'next/server';
+import { POST } from '../route';
+import prisma from '@/lib/db';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { EARL_PERSONA, GLADYS_PERSONA } from '@/lib/personas';
+
+// Mock the Prisma client
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: {
+    call: {
+      findUnique: jest.fn(),
+    },
+    callSegment: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+}));
+
+const mockPrisma = prisma as jest.Mocked<typeof prisma>;
+
+// Helper to create a mock NextRequest with form data
+function createMockRequest(query: string, params: Record<string, string>): NextRequest {
+  const formData = new FormData();
+  Object.entries(params).forEach(([key, value]) => {
+    formData.append(key, value);
+  });
+
+  const request = new NextRequest(`https://example.com/api/twilio/fallback?${query}`, {
+    method: 'POST',
+  });
+
+  // Mock the formData method
+  jest.spyOn(request, 'formData').mockResolvedValue(formData);
+
+  return request;
+}
+
+describe('POST /api/twilio/fallback', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, NODE_ENV: 'development', WEBHOOK_BASE_URL: 'https://example.com' };
+    (mockPrisma.call.findUnique as jest.Mock).mockResolvedValue({
+      id: 'call-1',
+      createdAt: new Date(Date.now() - 30_000),
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it('should ramble and listen for the next turn', async () => {
+    const response = await POST(createMockRequest('persona=gladys&turn=1', { CallSid: 'CA123' }));
+    const twiml = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toBe('text/xml');
+    expect(twiml).toContain('<Gather');
+    expect(twiml).toContain('action="https://example.com/api/twilio/fallback?persona=gladys&amp;turn=2"');
+    expect(twiml).toContain('actionOnEmptyResult="true"');
+    expect(twiml).toContain(GLADYS_PERSONA.voiceConfig!.twilioVoice!);
+    expect(twiml).toContain(`Did I ever tell you about ${GLADYS_PERSONA.tangentTopics[0].subject}?`);
+  });
+
+  it('should mishear the scammer and record the turn', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    const response = await POST(
+      createMockRequest('persona=earl&turn=0', {
+        CallSid: 'CA123',
+        SpeechResult: 'Go to your computer now',
+      })
+    );
+    const twiml = await response.text();
+
+    expect(twiml).toContain('Did you say Go to your commuter now?');
+    expect(twiml).toContain(EARL_PERSONA.signaturePhrases[0]);
+    expect(mockPrisma.callSegment.create).toHaveBeenCalledWith({
+      data: {
+        callId: 'call-1',
+        speaker: 'SCAMMER',
+        text: 'Go to your computer now',
+        timestamp: expect.closeTo(30, 0),
+      },
+    });
+    expect(mockPrisma.callSegment.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        callId: 'call-1',
+        speaker: 'PERSONA',
+        personaId: 'earl',
+        text: `Did you say Go to your commuter now? ${EARL_PERSONA.signaturePhrases[0]}`,
+      }),
+    });
+  });
+
+  it('should load custom personas and fall back to Earl for unknown ones', async () => {
+    const response = await POST(createMockRequest('persona=deleted-persona', {}));
+    const twiml = await response.text();
+
+    expect(loadCustomPersonas).toHaveBeenCalled();
+    expect(twiml).toContain('persona=earl&amp;turn=1');
+    expect(mockPrisma.callSegment.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Twilio Fallback Conversation Webhook Handler
+ *
+ * POST /api/twilio/fallback?persona={id}&turn={n}
+ *
+ * Serves the scripted fallback persona used when the OpenAI Realtime API
+ * is unavailable. The voice stream switches the call here; each request is
+ * one turn of a <Say>/<Gather> loop. Twilio posts what the scammer said
+ * (SpeechResult), the persona answers with its next scripted line, and
+ * both are added to the call's transcript.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/db';
+import { Speaker } from '@prisma/client';
+import { validateRequest, createFallbackTwiml, createErrorTwiml } from '@/lib/twilio';
+import { getPersona, isValidPersonaType, EARL_PERSONA, PersonaConfig } from '@/lib/personas';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { getFallbackLine, getFallbackUrl } from '@/lib/fallback';
+
+/**
+ * Parse form data from Twilio webhook request
+ */
+async function parseFormData(request: NextRequest): Promise<Record<string, string>> {
+  const formData = await request.formData();
+  const params: Record<string, string> = {};
+
+  formData.forEach((value, key) => {
+    if (typeof value === 'string') {
+      params[key] = value;
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Validate Twilio signature for security
+ * Returns true in development mode or if signature is valid
+ */
+function validateSignature(request: NextRequest, params: Record<string, string>): boolean {
+  // Skip validation in development
+  if (process.env.NODE_ENV === 'development' && !process.env.VALIDATE_TWILIO_IN_DEV) {
+    return true;
+  }
+
+  const signature = request.headers.get('X-Twilio-Signature');
+  if (!signature) {
+    return false;
+  }
+
+  try {
+    return validateRequest(signature, request.url, params);
+  } catch {
+    // If validation fails (e.g., missing auth token), reject
+    return false;
+  }
+}
+
+/**
+ * Resolve the persona the call fell back with, loading custom personas if
+ * needed and falling back to Earl
+ */
+async function resolvePersona(personaId: string | null): Promise<PersonaConfig> {
+  if (!personaId) {
+    return EARL_PERSONA;
+  }
+
+  if (!isValidPersonaType(personaId)) {
+    try {
+      await loadCustomPersonas();
+    } catch (error) {
+      console.error('Error loading custom personas:', error);
+    }
+  }
+
+  return isValidPersonaType(personaId) ? getPersona(personaId) : EARL_PERSONA;
+}
+
+/**
+ * Add the turn to the call's transcript, timed from when the call came in
+ */
+async function recordTurn(
+  callSid: string,
+  persona: PersonaConfig,
+  heard: string | undefined,
+  line: string
+): Promise<void> {
+  try {
+    const call = await prisma.call.findUnique({
+      where: { twilioSid: callSid },
+      select: { id: true, createdAt: true },
+    });
+    if (!call) {
+      return;
+    }
+
+    const offset = Math.max(0, Date.now() - call.createdAt.getTime()) / 1000;
+    if (heard) {
+      await prisma.callSegment.create({
+        data: { callId: call.id, speaker: Speaker.SCAMMER, text: heard, timestamp: offset },
+      });
+    }
+    await prisma.callSegment.create({
+      data: {
+        callId: call.id,
+        speaker: Speaker.PERSONA,
+        personaId: persona.id,
+        text: line,
+        timestamp: offset,
+      },
+    });
+  } catch (error) {
+    // Log but don't fail - the conversation should carry on
+    console.error('Error recording fallback turn:', error);
+  }
+}
+
+/**
+ * Handle a turn of the fallback conversation
+ */
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  try {
+    const params = await parseFormData(request);
+
+    if (!validateSignature(request, params)) {
+      console.error('Invalid Twilio signature');
+      return new NextResponse('Forbidden', { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const turn = Math.max(0, parseInt(searchParams.get('turn') ?? '0', 10) || 0);
+    const persona = await resolvePersona(searchParams.get('persona'));
+    const heard = params.SpeechResult?.trim() || undefined;
+
+    const line = getFallbackLine(persona, turn, heard);
+    if (params.CallSid) {
+      await recordTurn(params.CallSid, persona, heard, line);
+    }
+
+    const twiml = createFallbackTwiml(
+      line,
+      getFallbackUrl(persona.id, turn + 1),
+      persona.voiceConfig?.twilioVoice
+    );
+
+    return new NextResponse(twiml, {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml' },
+    });
+  } catch (error) {
+    console.error('Error handling fallback turn:', error);
+
+    return new NextResponse(createErrorTwiml(), {
+      status: 200,
+      headers: { 'Content-Type': 'text/xml' },
+    });
+  }
+}
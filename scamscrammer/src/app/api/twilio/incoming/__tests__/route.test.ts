@@ -13,25 +13,77 @@ jest.mock('@/lib/db', () => ({
   default: {
     call: {
       create: jest.fn(),
+      findUnique: jest.fn(),
     },
   },
 }));
 
+// Mock the persona settings storage
+jest.mock('@/lib/settings', () => ({
+  loadSettings: jest.fn(() =>
+    Promise.resolve({
+      enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+      selectionMode: 'random',
+      lastUsedPersonaIndex: 0,
+      rememberRepeatCallers: true,
+    })
+  ),
+  claimRoundRobinIndex: jest.fn(),
+}));
+
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+}));
+
+// Mock experiment assignment (no experiment running unless a test sets one)
+jest.mock('@/lib/experiments', () => ({
+  assignExperimentVariant: jest.fn(() => Promise.resolve(null)),
+}));
+
+// Mock call screening (every caller is engaged unless a test sets a rule)
+jest.mock('@/lib/screening', () => ({
+  screenCaller: jest.fn(() => Promise.resolve({ action: 'ENGAGE', rule: null })),
+}));
+
+// Mock caller profiles (first-time caller unless a test sets a history)
+jest.mock('@/lib/callers', () => ({
+  recordCaller: jest.fn(() => Promise.resolve({ id: 'caller-1', phoneNumber: '+15551234567' })),
+  loadCallerHistory: jest.fn(() => Promise.resolve([])),
+  findBestPersona: jest.requireActual('@/lib/callers').findBestPersona,
+}));
+
+// Mock the Realtime session warm-up
+jest.mock('@/lib/warmup', () => ({
+  startWarmUp: jest.fn(),
+}));
+
 // Mock the twilio module
 jest.mock('@/lib/twilio', () => ({
   validateRequest: jest.fn(() => true),
   createStreamingTwiml: jest.fn(
-    (greeting, streamUrl) =>
+    (streamUrl, greeting) =>
       `<?xml version="1.0" encoding="UTF-8"?><Response><Say voice="Polly.Matthew-Neural">${greeting}</Say><Connect><Stream url="${streamUrl}"/></Connect></Response>`
   ),
   createErrorTwiml: jest.fn(
     () =>
       '<?xml version="1.0" encoding="UTF-8"?><Response><Say>Error</Say><Hangup/></Response>'
   ),
+  createForwardTwiml: jest.fn(
+    (number) => `<?xml version="1.0" encoding="UTF-8"?><Response><Dial>${number}</Dial></Response>`
+  ),
+  createRejectTwiml: jest.fn(
+    () => '<?xml version="1.0" encoding="UTF-8"?><Response><Reject reason="rejected"/></Response>'
+  ),
 }));
 
 const mockPrisma = prisma as jest.Mocked<typeof prisma>;
 const mockTwilio = jest.requireMock('@/lib/twilio');
+const mockSettings = jest.requireMock('@/lib/settings');
+const mockExperiments = jest.requireMock('@/lib/experiments');
+const mockScreening = jest.requireMock('@/lib/screening');
+const mockCallers = jest.requireMock('@/lib/callers');
+const mockWarmup = jest.requireMock('@/lib/warmup');
 
 // Helper to create a mock NextRequest with form data
 function createMockRequest(
@@ -109,8 +161,19 @@ describe('POST /api/twilio/incoming', () => {
         fromNumber: callParams.From,
         toNumber: callParams.To,
         status: CallStatus.RINGING,
+        persona: expect.stringMatching(/^(earl|gladys|kevin|brenda)$/),
+        screeningAction: 'ENGAGE',
+        screeningRuleId: null,
+        callerId: 'caller-1',
       },
     });
+
+    // The persona's Realtime session starts connecting while the greeting plays
+    const persona = (mockPrisma.call.create as jest.Mock).mock.calls[0][0].data.persona;
+    expect(mockWarmup.startWarmUp).toHaveBeenCalledWith(
+      callParams.CallSid,
+      expect.objectContaining({ id: persona })
+    );
   });
 
   it('should return error TwiML when required parameters are missing', async () => {
@@ -241,8 +304,9 @@ describe('POST /api/twilio/incoming', () => {
 
     // Verify stream URL uses the configured app URL with wss protocol
     expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+      'wss://scamscrammer.example.com/api/voice/stream',
       expect.any(String),
-      'wss://scamscrammer.example.com/api/voice/stream'
+      expect.any(Object)
     );
   });
 
@@ -296,4 +360,318 @@ describe('POST /api/twilio/incoming', () => {
 
     consoleSpy.mockRestore();
   });
+
+  describe('persona selection', () => {
+    const callParams = {
+      CallSid: 'CA123456789',
+      From: '+15551234567',
+      To: '+15559876543',
+      CallStatus: 'ringing',
+    };
+
+    beforeEach(() => {
+      (mockPrisma.call.create as jest.Mock).mockResolvedValue({ id: 'call-1' });
+    });
+
+    it('should use the fixed persona from settings for the call record and greeting', async () => {
+      mockSettings.loadSettings.mockResolvedValueOnce({
+        enabledPersonas: ['earl', 'gladys'],
+        selectionMode: 'fixed',
+        fixedPersona: 'gladys',
+      });
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ persona: 'gladys' }),
+      });
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.stringContaining('identify yourself'),
+        { voice: 'Polly.Salli', parameters: { persona: 'gladys' } }
+      );
+    });
+
+    it('should rotate using the atomically claimed round-robin index', async () => {
+      const settings = {
+        enabledPersonas: ['earl', 'kevin', 'brenda'],
+        selectionMode: 'round_robin',
+        lastUsedPersonaIndex: 0,
+      };
+      mockSettings.loadSettings.mockResolvedValueOnce(settings).mockResolvedValueOnce(settings);
+      mockSettings.claimRoundRobinIndex.mockResolvedValueOnce(3).mockResolvedValueOnce(4);
+
+      await POST(createMockRequest(callParams));
+      await POST(createMockRequest({ ...callParams, CallSid: 'CA987654321' }));
+
+      expect(mockSettings.claimRoundRobinIndex).toHaveBeenCalledTimes(2);
+      expect(mockPrisma.call.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({ persona: 'kevin' }),
+      });
+      expect(mockPrisma.call.create).toHaveBeenNthCalledWith(2, {
+        data: expect.objectContaining({ persona: 'brenda' }),
+      });
+    });
+
+    it('should fall back to a random persona when settings cannot be loaded', async () => {
+      mockSettings.loadSettings.mockRejectedValueOnce(new Error('Connection refused'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await POST(createMockRequest(callParams));
+
+      expect(response.status).toBe(200);
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          persona: expect.stringMatching(/^(earl|gladys|kevin|brenda)$/),
+        }),
+      });
+    });
+
+    it('should assign the call to a running experiment variant', async () => {
+      mockExperiments.assignExperimentVariant.mockResolvedValueOnce({
+        id: 'variant-b',
+        persona: 'kevin',
+      });
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockSettings.loadSettings).not.toHaveBeenCalled();
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ persona: 'kevin', experimentVariantId: 'variant-b' }),
+      });
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { voice: 'Polly.Joey', parameters: { persona: 'kevin' } }
+      );
+    });
+
+    it('should keep the persona already stored for a retried webhook', async () => {
+      mockSettings.loadSettings.mockResolvedValueOnce({
+        enabledPersonas: ['earl'],
+        selectionMode: 'fixed',
+        fixedPersona: 'earl',
+      });
+      (mockPrisma.call.create as jest.Mock).mockRejectedValue(
+        new Error('Unique constraint failed on the fields: (`twilioSid`)')
+      );
+      (mockPrisma.call.findUnique as jest.Mock).mockResolvedValue({ persona: 'brenda' });
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.stringContaining('Brenda'),
+        { voice: 'Polly.Kimberly', parameters: { persona: 'brenda' } }
+      );
+    });
+  });
+
+  describe('call screening', () => {
+    const callParams = {
+      CallSid: 'CA123456789',
+      From: '+15551234567',
+      To: '+15559876543',
+      CallStatus: 'ringing',
+    };
+
+    const rule = {
+      id: 'rule-1',
+      matchType: 'EXACT',
+      value: '+15551234567',
+      action: 'ENGAGE',
+      persona: null,
+      forwardTo: null,
+      label: null,
+    };
+
+    beforeEach(() => {
+      (mockPrisma.call.create as jest.Mock).mockResolvedValue({ id: 'call-1' });
+    });
+
+    it('should forward allowlisted callers to the real phone', async () => {
+      mockScreening.screenCaller.mockResolvedValueOnce({
+        action: 'FORWARD',
+        rule: { ...rule, action: 'FORWARD', forwardTo: '+15550001111', label: 'Mom' },
+      });
+
+      const response = await POST(createMockRequest(callParams));
+      const body = await response.text();
+
+      expect(body).toContain('<Dial>+15550001111</Dial>');
+      expect(mockTwilio.createForwardTwiml).toHaveBeenCalledWith('+15550001111', '+15551234567');
+      expect(mockTwilio.createStreamingTwiml).not.toHaveBeenCalled();
+      expect(mockWarmup.startWarmUp).not.toHaveBeenCalled();
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: {
+          twilioSid: 'CA123456789',
+          fromNumber: '+15551234567',
+          toNumber: '+15559876543',
+          status: CallStatus.RINGING,
+          screeningAction: 'FORWARD',
+          screeningRuleId: 'rule-1',
+          callerId: 'caller-1',
+        },
+      });
+    });
+
+    it('should reject blocklisted callers', async () => {
+      mockScreening.screenCaller.mockResolvedValueOnce({
+        action: 'REJECT',
+        rule: { ...rule, action: 'REJECT' },
+      });
+
+      const response = await POST(createMockRequest(callParams));
+      const body = await response.text();
+
+      expect(body).toContain('<Reject');
+      expect(mockTwilio.createStreamingTwiml).not.toHaveBeenCalled();
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ screeningAction: 'REJECT', screeningRuleId: 'rule-1' }),
+      });
+    });
+
+    it('should still reject when the call record already exists', async () => {
+      mockScreening.screenCaller.mockResolvedValueOnce({
+        action: 'REJECT',
+        rule: { ...rule, action: 'REJECT' },
+      });
+      (mockPrisma.call.create as jest.Mock).mockRejectedValue(
+        new Error('Unique constraint failed on the fields: (`twilioSid`)')
+      );
+
+      const response = await POST(createMockRequest(callParams));
+
+      expect(await response.text()).toContain('<Reject');
+    });
+
+    it('should engage with the persona chosen by the rule', async () => {
+      mockScreening.screenCaller.mockResolvedValueOnce({
+        action: 'ENGAGE',
+        rule: { ...rule, persona: 'brenda' },
+      });
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          persona: 'brenda',
+          screeningAction: 'ENGAGE',
+          screeningRuleId: 'rule-1',
+        }),
+      });
+      expect(mockExperiments.assignExperimentVariant).not.toHaveBeenCalled();
+    });
+
+    it('should engage the caller when the rules cannot be read', async () => {
+      mockScreening.screenCaller.mockRejectedValueOnce(new Error('Connection refused'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await POST(createMockRequest(callParams));
+
+      expect(response.status).toBe(200);
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalled();
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ screeningAction: 'ENGAGE', screeningRuleId: null }),
+      });
+    });
+  });
+
+  describe('repeat callers', () => {
+    const callParams = {
+      CallSid: 'CA123456789',
+      From: '+15551234567',
+      To: '+15559876543',
+      CallStatus: 'ringing',
+    };
+
+    function previousCall(persona: string, duration: number) {
+      return {
+        id: `call-${persona}`,
+        persona,
+        status: 'COMPLETED',
+        duration,
+        rating: null,
+        tags: [],
+        screeningAction: 'ENGAGE',
+        createdAt: new Date('2026-01-01T00:00:00Z'),
+      };
+    }
+
+    beforeEach(() => {
+      (mockPrisma.call.create as jest.Mock).mockResolvedValue({ id: 'call-1' });
+    });
+
+    it('should answer with the persona that kept them on the line longest', async () => {
+      mockCallers.loadCallerHistory.mockResolvedValueOnce([
+        previousCall('earl', 60),
+        previousCall('brenda', 600),
+      ]);
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockCallers.loadCallerHistory).toHaveBeenCalledWith('caller-1', 'CA123456789');
+      expect(mockSettings.claimRoundRobinIndex).not.toHaveBeenCalled();
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ persona: 'brenda', callerId: 'caller-1' }),
+      });
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { voice: 'Polly.Kimberly', parameters: { persona: 'brenda', callerId: 'caller-1' } }
+      );
+    });
+
+    it('should not reuse a persona that has since been disabled', async () => {
+      mockSettings.loadSettings.mockResolvedValueOnce({
+        enabledPersonas: ['earl', 'gladys'],
+        selectionMode: 'fixed',
+        fixedPersona: 'gladys',
+        rememberRepeatCallers: true,
+      });
+      mockCallers.loadCallerHistory.mockResolvedValueOnce([previousCall('brenda', 600)]);
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ persona: 'gladys' }),
+      });
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { voice: 'Polly.Salli', parameters: { persona: 'gladys', callerId: 'caller-1' } }
+      );
+    });
+
+    it('should ignore call history when repeat caller memory is off', async () => {
+      mockSettings.loadSettings.mockResolvedValueOnce({
+        enabledPersonas: ['earl', 'gladys'],
+        selectionMode: 'fixed',
+        fixedPersona: 'gladys',
+        rememberRepeatCallers: false,
+      });
+
+      await POST(createMockRequest(callParams));
+
+      expect(mockCallers.loadCallerHistory).not.toHaveBeenCalled();
+      expect(mockTwilio.createStreamingTwiml).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(String),
+        { voice: 'Polly.Salli', parameters: { persona: 'gladys' } }
+      );
+    });
+
+    it('should still answer when the caller cannot be recorded', async () => {
+      mockCallers.recordCaller.mockRejectedValueOnce(new Error('Connection refused'));
+      jest.spyOn(console, 'error').mockImplementation();
+
+      const response = await POST(createMockRequest(callParams));
+
+      expect(response.status).toBe(200);
+      expect(mockCallers.loadCallerHistory).not.toHaveBeenCalled();
+      expect(mockPrisma.call.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ callerId: null }),
+      });
+    });
+  });
 });
@@ -4,20 +4,46 @@
  * POST /api/twilio/incoming
  *
  * This endpoint handles incoming phone calls from Twilio.
- * It validates the request, creates a call record in the database,
- * and returns TwiML to greet the caller and connect to voice streaming.
+ * It validates the request and screens the caller against the caller rules:
+ * matching callers can be forwarded to a real phone or rejected. Everyone
+ * else is engaged by a persona (chosen by the rule, a running experiment or
+ * the persona settings): the endpoint creates a call record in the database
+ * and returns TwiML to greet the caller in that persona's voice and connect
+ * to voice streaming. The screening decision is recorded on the call.
+ *
+ * Every call is linked to the caller's profile. When repeat caller memory is
+ * enabled, a repeat caller is answered by the persona that kept them on the
+ * line longest, and the voice stream is told to remind it of past calls.
+ *
+ * While the greeting plays, the persona's Realtime session is connected in
+ * the background so the voice stream can pick it up ready to talk.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import prisma from '@/lib/db';
-import { CallStatus } from '@prisma/client';
+import { Caller, CallerRule, CallStatus, ScreeningAction } from '@prisma/client';
 import {
   validateRequest,
   createStreamingTwiml,
   createErrorTwiml,
+  createForwardTwiml,
+  createRejectTwiml,
   TwilioIncomingCallParams,
 } from '@/lib/twilio';
-import { EARL_GREETING } from '@/lib/persona';
+import {
+  getPersona,
+  getPersonaGreeting,
+  isValidPersonaType,
+  selectPersonaFromSettings,
+  PersonaConfig,
+} from '@/lib/personas';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { assignExperimentVariant } from '@/lib/experiments';
+import { recordCaller, loadCallerHistory, findBestPersona } from '@/lib/callers';
+import { screenCaller, ScreeningDecision } from '@/lib/screening';
+import { loadSettings, claimRoundRobinIndex } from '@/lib/settings';
+import { getVoiceStreamPath } from '@/lib/voice-stream';
+import { startWarmUp } from '@/lib/warmup';
 
 /**
  * Parse form data from Twilio webhook request
@@ -74,13 +100,172 @@ function buildStreamUrl(request: NextRequest): string {
     // Use configured app URL (production)
     const wsProtocol = appUrl.startsWith('https') ? 'wss' : 'ws';
     const baseUrl = appUrl.replace(/^https?/, wsProtocol);
-    return `${baseUrl}/api/voice/stream`;
+    return `${baseUrl}${getVoiceStreamPath()}`;
   }
 
   // Fallback to request host (development)
   const host = request.headers.get('host') || 'localhost:3000';
   const protocol = host.includes('localhost') ? 'ws' : 'wss';
-  return `${protocol}://${host}/api/voice/stream`;
+  return `${protocol}://${host}${getVoiceStreamPath()}`;
+}
+
+/**
+ * Link the call to the caller's profile.
+ * Returns null if the profile can't be recorded; the call is answered anyway.
+ */
+async function recordCallerProfile(fromNumber: string): Promise<Caller | null> {
+  try {
+    return await recordCaller(fromNumber);
+  } catch (error) {
+    console.error('Error recording caller:', error);
+    return null;
+  }
+}
+
+/**
+ * Screen the caller against the caller rules.
+ * Fails open: if the rules can't be read the caller is engaged as usual.
+ */
+async function screenCall(fromNumber: string): Promise<ScreeningDecision> {
+  try {
+    return await screenCaller(fromNumber);
+  } catch (error) {
+    console.error('Error screening caller:', error);
+    return { action: ScreeningAction.ENGAGE, rule: null };
+  }
+}
+
+/**
+ * Select the persona that will answer this call.
+ * A persona chosen by the caller's screening rule comes first. Then a
+ * running experiment: the call is assigned to one of its variants by
+ * weight. Otherwise the persona settings decide; in round-robin mode the
+ * counter is claimed atomically so concurrent calls rotate through the
+ * personas instead of landing on the same one.
+ * With repeat caller memory enabled, a repeat caller gets the enabled persona
+ * that kept them on the line longest before, and `rememberCaller` is set so
+ * the stream reminds the persona of the previous calls.
+ * Falls back to a random persona if the settings can't be read.
+ */
+async function selectPersonaForCall(
+  callSid: string,
+  rulePersona?: string | null,
+  callerId?: string | null
+): Promise<{
+  persona: PersonaConfig;
+  experimentVariantId: string | null;
+  rememberCaller: boolean;
+}> {
+  try {
+    await loadCustomPersonas();
+
+    if (rulePersona && isValidPersonaType(rulePersona)) {
+      return { persona: getPersona(rulePersona), experimentVariantId: null, rememberCaller: false };
+    }
+
+    const variant = await assignExperimentVariant();
+    if (variant) {
+      return {
+        persona: getPersona(variant.persona),
+        experimentVariantId: variant.id,
+        rememberCaller: false,
+      };
+    }
+
+    const settings = await loadSettings();
+
+    let rememberCaller = false;
+    if (settings.rememberRepeatCallers && callerId) {
+      const history = await loadCallerHistory(callerId, callSid);
+      rememberCaller = history.length > 0;
+
+      const best = findBestPersona(history);
+      if (best && settings.enabledPersonas.includes(best) && isValidPersonaType(best)) {
+        return { persona: getPersona(best), experimentVariantId: null, rememberCaller };
+      }
+    }
+
+    if (settings.selectionMode === 'round_robin') {
+      settings.lastUsedPersonaIndex = await claimRoundRobinIndex();
+    }
+
+    return {
+      persona: selectPersonaFromSettings(settings).persona,
+      experimentVariantId: null,
+      rememberCaller,
+    };
+  } catch (error) {
+    console.error('Error loading persona settings:', error);
+    return {
+      persona: selectPersonaFromSettings().persona,
+      experimentVariantId: null,
+      rememberCaller: false,
+    };
+  }
+}
+
+/**
+ * Look up the persona already assigned to an existing call record
+ * (Twilio may retry the webhook for the same CallSid)
+ */
+async function findExistingPersona(callSid: string): Promise<PersonaConfig | null> {
+  try {
+    const existing = await prisma.call.findUnique({
+      where: { twilioSid: callSid },
+      select: { persona: true },
+    });
+    if (existing?.persona && isValidPersonaType(existing.persona)) {
+      return getPersona(existing.persona);
+    }
+  } catch (error) {
+    console.error('Error looking up existing call persona:', error);
+  }
+  return null;
+}
+
+/**
+ * Record a call that screening forwarded or rejected, and return TwiML to
+ * carry out the decision. No persona answers these calls.
+ */
+async function handleScreenedCall(
+  { CallSid, From, To }: TwilioIncomingCallParams,
+  rule: CallerRule,
+  callData: {
+    screeningAction: ScreeningAction;
+    screeningRuleId: string | null;
+    callerId: string | null;
+  }
+): Promise<NextResponse> {
+  const label = rule.label ? ` (${rule.label})` : '';
+  console.log(`Screened call ${CallSid}: ${rule.action} by rule ${rule.id}${label}`);
+
+  try {
+    await prisma.call.create({
+      data: {
+        twilioSid: CallSid,
+        fromNumber: From,
+        toNumber: To,
+        status: CallStatus.RINGING,
+        ...callData,
+      },
+    });
+  } catch (dbError) {
+    // Twilio may retry the webhook; the decision is the same either way
+    if (!(dbError instanceof Error && dbError.message.includes('Unique constraint'))) {
+      console.error('Error creating call record:', dbError);
+    }
+  }
+
+  // Present the original caller's number so the real phone shows who's calling
+  const twiml =
+    rule.action === ScreeningAction.FORWARD && rule.forwardTo
+      ? createForwardTwiml(rule.forwardTo, From)
+      : createRejectTwiml();
+
+  return new NextResponse(twiml, {
+    status: 200,
+    headers: { 'Content-Type': 'text/xml' },
+  });
 }
 
 /**
@@ -113,6 +298,25 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
     // Log incoming call
     console.log(`Incoming call: ${CallSid} from ${From} to ${To} (status: ${twilioStatus})`);
 
+    // Link the call to the caller's profile
+    const caller = await recordCallerProfile(From);
+
+    // Decide whether to engage, forward or reject the caller
+    const screening = await screenCall(From);
+    const callData = {
+      screeningAction: screening.action,
+      screeningRuleId: screening.rule?.id ?? null,
+      callerId: caller?.id ?? null,
+    };
+
+    if (screening.action !== ScreeningAction.ENGAGE && screening.rule) {
+      return handleScreenedCall(twilioParams, screening.rule, callData);
+    }
+
+    // Pick the persona that will answer this call
+    const selection = await selectPersonaForCall(CallSid, screening.rule?.persona, caller?.id);
+    let persona = selection.persona;
+
     // Create call record in database
     try {
       await prisma.call.create({
@@ -121,9 +325,14 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
           fromNumber: From,
           toNumber: To,
           status: CallStatus.RINGING,
+          persona: persona.id,
+          ...(selection.experimentVariantId && {
+            experimentVariantId: selection.experimentVariantId,
+          }),
+          ...callData,
         },
       });
-      console.log(`Created call record for ${CallSid}`);
+      console.log(`Created call record for ${CallSid} (persona: ${persona.id})`);
     } catch (dbError) {
       // Handle duplicate call SID (call already exists)
       if (
@@ -131,17 +340,29 @@ export async function POST(request: NextRequest): Promise<NextResponse> {
         dbError.message.includes('Unique constraint')
       ) {
         console.log(`Call record already exists for ${CallSid}`);
+        persona = (await findExistingPersona(CallSid)) ?? persona;
       } else {
         // Log but don't fail - we still want to answer the call
         console.error('Error creating call record:', dbError);
       }
     }
 
+    // Connect the persona's Realtime session while the greeting plays
+    startWarmUp(CallSid, persona);
+
     // Build the streaming WebSocket URL
     const streamUrl = buildStreamUrl(request);
 
-    // Generate TwiML response with Earl's greeting and streaming connection
-    const twiml = createStreamingTwiml(EARL_GREETING, streamUrl);
+    // Generate TwiML response with the persona's greeting and streaming connection.
+    // The persona is also passed to the stream so it doesn't depend on the DB lookup,
+    // along with the caller when the persona should be reminded of past calls.
+    const twiml = createStreamingTwiml(streamUrl, getPersonaGreeting(persona.id), {
+      voice: persona.voiceConfig?.twilioVoice,
+      parameters: {
+        persona: persona.id,
+        ...(selection.rememberCaller && caller && { callerId: caller.id }),
+      },
+    });
 
     // Return TwiML response
     return new NextResponse(twiml, {
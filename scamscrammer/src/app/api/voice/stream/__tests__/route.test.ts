@@ -22,6 +22,12 @@ const mockOpenAIClientInstance = {
   connect: jest.fn().mockResolvedValue(undefined),
   disconnect: jest.fn(),
   sendAudio: jest.fn(),
+  addConversationItem: jest.fn(),
+  createResponse: jest.fn(),
+  cancelResponse: jest.fn(),
+  truncateItem: jest.fn(),
+  updateSession: jest.fn(),
+  sendFunctionOutput: jest.fn(),
   isConnected: jest.fn().mockReturnValue(true),
   getState: jest.fn().mockReturnValue('connected'),
   on: jest.fn((event: string, callback: (...args: unknown[]) => void) => {
@@ -56,12 +62,29 @@ const mockPrismaInstance = {
   },
   callSegment: {
     create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+    findMany: jest.fn(),
+  },
+  callEvent: {
+    create: jest.fn(),
+  },
+  callMetrics: {
+    upsert: jest.fn(),
+  },
+  identityFact: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+  },
+  playbook: {
+    findMany: jest.fn(),
   },
 };
 
 const mockWebSocketInstance = {
   send: jest.fn(),
   close: jest.fn(),
+  terminate: jest.fn(),
   readyState: 1, // WebSocket.OPEN
   OPEN: 1,
   CLOSED: 3,
@@ -70,6 +93,7 @@ const mockWebSocketInstance = {
 // Setup mocks before imports
 jest.mock('@/lib/openai', () => ({
   createEarlClient: jest.fn(() => mockOpenAIClientInstance),
+  createPersonaClient: jest.fn(() => mockOpenAIClientInstance),
   OpenAIRealtimeClient: jest.fn(() => mockOpenAIClientInstance),
 }));
 
@@ -77,8 +101,45 @@ jest.mock('@/lib/db', () => ({
   prisma: mockPrismaInstance,
 }));
 
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+}));
+
+// Mock caller history (no previous calls unless a test sets some)
+jest.mock('@/lib/callers', () => ({
+  loadCallerHistory: jest.fn(() => Promise.resolve([])),
+  buildCallerMemory: jest.requireActual('@/lib/callers').buildCallerMemory,
+  loadConversationSummary: jest.fn(() => Promise.resolve(null)),
+}));
+
+// Mock the scripted fallback persona
+// Mock the settings (no memory overrides unless a test sets some)
+jest.mock('@/lib/settings', () => ({
+  loadSettings: jest.fn(() => Promise.resolve({ enabledPersonas: [], selectionMode: 'random', personaMemory: {} })),
+  getMemoryConfig: jest.requireActual('@/lib/settings').getMemoryConfig,
+}));
+
+jest.mock('@/lib/fallback', () => ({
+  startFallback: jest.fn(() => Promise.resolve(true)),
+}));
+
+// Mock the Realtime session warm-up (no warm client unless a test sets one)
+jest.mock('@/lib/warmup', () => ({
+  claimWarmSession: jest.fn(() => Promise.resolve(null)),
+  getWarmSessionCount: jest.fn(() => 0),
+}));
+
+const mockTwilioClientInstance = {
+  endCall: jest.fn().mockResolvedValue(undefined),
+};
+
+jest.mock('@/lib/twilio', () => ({
+  createTwilioClient: jest.fn(() => mockTwilioClientInstance),
+}));
+
 jest.mock('ws', () => ({
-  WebSocket: jest.fn(() => mockWebSocketInstance),
+  WebSocket: Object.assign(jest.fn(() => mockWebSocketInstance), { OPEN: 1, CLOSED: 3 }),
   WebSocketServer: jest.fn(() => ({
     handleUpgrade: jest.fn(),
     emit: jest.fn(),
@@ -87,7 +148,16 @@ jest.mock('ws', () => ({
 }));
 
 // Now import the module under test
-import { POST, __testing__ } from '../route';
+import { GET, POST } from '../route';
+import { __testing__ } from '@/lib/voice-stream';
+import { createPersonaClient } from '@/lib/openai';
+import { loadCallerHistory, loadConversationSummary } from '@/lib/callers';
+import { loadSettings } from '@/lib/settings';
+import { loadCustomPersonas } from '@/lib/personas/custom';
+import { startFallback } from '@/lib/fallback';
+import { claimWarmSession } from '@/lib/warmup';
+import { monitoring } from '@/lib/monitoring';
+import { setCustomPersonas, EARL_PERSONA } from '@/lib/personas';
 
 // =============================================================================
 // Test Fixtures
@@ -149,6 +219,16 @@ const createMediaEvent = (payload: string = 'base64audiodata'): TwilioStreamMedi
   },
 });
 
+const createDtmfEvent = (digit: string) => ({
+  event: 'dtmf',
+  sequenceNumber: '3',
+  streamSid: mockStreamSid,
+  dtmf: {
+    track: 'inbound_track',
+    digit,
+  },
+});
+
 const createStopEvent = (): TwilioStreamStopEvent => ({
   event: 'stop',
   sequenceNumber: '100',
@@ -181,10 +261,18 @@ describe('Voice Stream Handler', () => {
     mockPrismaInstance.callSegment.create.mockResolvedValue({
       id: 'segment-1',
       callId: mockCallId,
-      speaker: 'EARL',
+      speaker: 'PERSONA',
+      personaId: 'earl',
       text: 'Test text',
-      timestamp: Date.now() / 1000,
+      timestamp: 1.5,
+      endTimestamp: 3.25,
     });
+    mockPrismaInstance.callEvent.create.mockResolvedValue({});
+    mockPrismaInstance.callMetrics.upsert.mockResolvedValue({});
+    mockPrismaInstance.identityFact.findMany.mockResolvedValue([]);
+    mockPrismaInstance.identityFact.createMany.mockResolvedValue({ count: 0 });
+    mockPrismaInstance.playbook.findMany.mockResolvedValue([]);
+    mockPrismaInstance.call.update.mockResolvedValue({});
 
     // Reset WebSocket mock
     mockWebSocketInstance.readyState = 1;
@@ -199,6 +287,13 @@ describe('Voice Stream Handler', () => {
 
   afterEach(() => {
     jest.clearAllMocks();
+
+    // Stop the idle checks of sessions the test didn't clean up
+    for (const session of __testing__.activeSessions.values()) {
+      if (session.idleTimer) {
+        clearInterval(session.idleTimer);
+      }
+    }
   });
 
   describe('POST endpoint (health check)', () => {
@@ -216,9 +311,27 @@ describe('Voice Stream Handler', () => {
       expect(data.status).toBe('ok');
       expect(data.message).toBe('Voice stream handler is running');
       expect(data.activeSessions).toBe(0);
+      expect(data.warmSessions).toBe(0);
       expect(data.test).toBe(true);
     });
 
+    it('should count sessions running in the custom server', async () => {
+      // The custom server's copy of voice-stream.ts shares the sessions through globalThis
+      let serverCopy: typeof import('@/lib/voice-stream') | undefined;
+      jest.isolateModules(() => {
+        serverCopy = jest.requireActual<typeof import('@/lib/voice-stream')>('@/lib/voice-stream');
+      });
+      await serverCopy!.__testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      const response = await POST(new Request('http://localhost:3000/api/voice/stream', { method: 'POST' }));
+      const data = await response.json();
+
+      expect(data.activeSessions).toBe(1);
+    });
+
     it('should handle empty request body', async () => {
       const request = new Request('http://localhost:3000/api/voice/stream', {
         method: 'POST',
@@ -234,6 +347,29 @@ describe('Voice Stream Handler', () => {
     });
   });
 
+  describe('GET endpoint', () => {
+    it('should require a WebSocket upgrade', async () => {
+      const response = await GET(new Request('http://localhost:3000/api/voice/stream'));
+
+      expect(response.status).toBe(426);
+      expect(response.headers.get('Upgrade')).toBe('websocket');
+    });
+
+    it('should point upgrades that reach Next.js at the custom server', async () => {
+      const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const request = new Request('http://localhost:3000/api/voice/stream', {
+        headers: { Upgrade: 'websocket' },
+      });
+
+      const response = await GET(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(501);
+      expect(data.message).toContain('npm run start:server');
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('handleTwilioMessage', () => {
     it('should handle connected event', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
@@ -289,6 +425,237 @@ describe('Voice Stream Handler', () => {
       expect(__testing__.activeSessions.has(mockStreamSid)).toBe(true);
     });
 
+    it('should build the OpenAI client from the persona stored on the call', async () => {
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'kevin',
+      });
+
+      const session = await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(session.persona.id).toBe('kevin');
+      expect(createPersonaClient).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'kevin' }),
+        undefined,
+        { instructions: expect.stringMatching(/^You are Kevin[\s\S]*\n\n## Your Details\n/) }
+      );
+    });
+
+    it('should apply the experiment variant overrides stored on the call', async () => {
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'gladys',
+        experimentVariant: { promptOverride: 'You are Gladys, but terse.', temperatureOverride: 0.7 },
+      });
+
+      const session = await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(session.persona.systemPrompt).toBe('You are Gladys, but terse.');
+      expect(createPersonaClient).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'gladys', systemPrompt: 'You are Gladys, but terse.' }),
+        undefined,
+        { instructions: expect.stringMatching(/^You are Gladys, but terse\.\n\n## Your Details\n/), temperature: 0.7 }
+      );
+    });
+
+    it('should prefer the persona passed as a stream parameter', async () => {
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'kevin',
+      });
+      const startEvent = createStartEvent();
+      startEvent.start.customParameters = { persona: 'brenda' };
+
+      const session = await __testing__.createSession(
+        startEvent,
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(session.persona.id).toBe('brenda');
+    });
+
+    it('should remind the persona of a repeat caller passed as a stream parameter', async () => {
+      (loadCallerHistory as jest.Mock).mockResolvedValueOnce([
+        {
+          id: 'call-previous',
+          persona: 'brenda',
+          status: 'COMPLETED',
+          duration: 600,
+          rating: null,
+          tags: ['irs'],
+          screeningAction: 'ENGAGE',
+          createdAt: new Date('2026-01-01T12:00:00Z'),
+        },
+      ]);
+      const startEvent = createStartEvent();
+      startEvent.start.customParameters = { persona: 'brenda', callerId: 'caller-1' };
+
+      const session = await __testing__.createSession(
+        startEvent,
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(loadCallerHistory).toHaveBeenCalledWith('caller-1', mockCallSid);
+      expect(session.persona.id).toBe('brenda');
+      const { instructions } = (createPersonaClient as jest.Mock).mock.calls[0][2];
+      expect(instructions).toContain(session.persona.systemPrompt);
+      expect(instructions).toContain('## Repeat Caller');
+      expect(instructions).toContain('about 10 minutes last time');
+      expect(instructions).toContain('You spoke with them last time');
+      expect(instructions).toContain('IRS/Tax Scam');
+    });
+
+    it('should only summarize earlier conversations for a repeat caller who has them', async () => {
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'earl',
+        fromNumber: '+15551234567',
+      });
+      (loadConversationSummary as jest.Mock).mockResolvedValueOnce(
+        '## Previous Conversations\n\nThis number has called before.\n- Tuesday, March 3: you took the call.'
+      );
+      const startEvent = createStartEvent();
+      startEvent.start.customParameters = { callerId: 'caller-1' };
+
+      await __testing__.createSession(startEvent, mockWebSocketInstance as unknown as WebSocket);
+
+      const { instructions } = (createPersonaClient as jest.Mock).mock.calls[0][2];
+      expect(instructions).toContain('## Previous Conversations');
+      expect(instructions).not.toContain('## Repeat Caller');
+      expect(loadCallerHistory).not.toHaveBeenCalled();
+    });
+
+    it('should not load caller history without a caller parameter', async () => {
+      await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(loadCallerHistory).not.toHaveBeenCalled();
+    });
+
+    it('should append a summary of earlier conversations with the number', async () => {
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'earl',
+        fromNumber: '+15551234567',
+      });
+      (loadConversationSummary as jest.Mock).mockResolvedValueOnce(
+        '## Previous Conversations\n- Tuesday, March 3, with Earl:\n  Caller: "This is Microsoft"'
+      );
+
+      await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(loadConversationSummary).toHaveBeenCalledWith('+15551234567', mockCallSid, 'earl', 800);
+      expect(createPersonaClient).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'earl' }),
+        undefined,
+        {
+          instructions: expect.stringMatching(/^You are Earl[\s\S]*Caller: "This is Microsoft"\n\n## Your Details\n/),
+        }
+      );
+    });
+
+    it('should not summarize earlier conversations for personas with memory disabled', async () => {
+      (loadCustomPersonas as jest.Mock).mockImplementationOnce(async () => {
+        const forgetful = {
+          ...EARL_PERSONA,
+          id: 'forgetful',
+          memoryConfig: { enabled: false, maxSummaryChars: 800 },
+        };
+        setCustomPersonas([forgetful]);
+        return [forgetful];
+      });
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'forgetful',
+        fromNumber: '+15551234567',
+      });
+
+      const session = await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(session.persona.id).toBe('forgetful');
+      expect(loadConversationSummary).not.toHaveBeenCalled();
+      expect(createPersonaClient).toHaveBeenCalledWith(expect.anything(), undefined, {
+        instructions: expect.not.stringContaining('Previous Conversations'),
+      });
+    });
+
+    it('should not summarize earlier conversations for a built-in persona with memory turned off', async () => {
+      (loadSettings as jest.Mock).mockResolvedValueOnce({
+        enabledPersonas: ['earl'],
+        selectionMode: 'random',
+        personaMemory: { earl: { enabled: false, maxSummaryChars: 800 } },
+      });
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'earl',
+        fromNumber: '+15551234567',
+      });
+
+      const session = await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(session.persona.id).toBe('earl');
+      expect(loadConversationSummary).not.toHaveBeenCalled();
+      expect(createPersonaClient).toHaveBeenCalledWith(expect.anything(), undefined, {
+        instructions: expect.not.stringContaining('Previous Conversations'),
+      });
+    });
+
+    it('should adopt the client warmed up while the greeting played', async () => {
+      (claimWarmSession as jest.Mock).mockResolvedValueOnce(mockOpenAIClientInstance);
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'kevin',
+        experimentVariant: { promptOverride: null, temperatureOverride: 0.5 },
+      });
+      monitoring.clearMetrics();
+
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      expect(claimWarmSession).toHaveBeenCalledWith(mockCallSid, 'kevin');
+      expect(createPersonaClient).not.toHaveBeenCalled();
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenCalledWith({
+        instructions: expect.stringContaining('Kevin'),
+        temperature: 0.5,
+      });
+      expect(monitoring.getMetrics('voice.session_setup', { warmStart: 'true' })).toHaveLength(1);
+
+      // Timed from the end of the scammer's first words, not the start of the stream
+      mockOpenAIClientInstance.emit('audio', { audio: 'AAAA', responseId: 'resp-0', itemId: 'item-0' });
+      expect(monitoring.getMetrics('voice.first_reply_latency')).toHaveLength(0);
+
+      mockOpenAIClientInstance.emit('speechStopped');
+      mockOpenAIClientInstance.emit('audio', { audio: 'AAAA', responseId: 'resp-1', itemId: 'item-1' });
+      mockOpenAIClientInstance.emit('speechStopped');
+      mockOpenAIClientInstance.emit('audio', { audio: 'AAAA', responseId: 'resp-2', itemId: 'item-2' });
+      expect(monitoring.getMetrics('voice.first_reply_latency', { warmStart: 'true' })).toHaveLength(1);
+    });
+
+    it('should fall back to Earl when no persona is known', async () => {
+      const session = await __testing__.createSession(
+        createStartEvent(),
+        mockWebSocketInstance as unknown as WebSocket
+      );
+
+      expect(session.persona.id).toBe('earl');
+    });
+
     it('should handle call not found in database', async () => {
       mockPrismaInstance.call.findUnique.mockResolvedValue(null);
       const consoleSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
@@ -336,6 +703,11 @@ describe('Voice Stream Handler', () => {
       await expect(
         __testing__.createSession(startEvent, mockWebSocketInstance as unknown as WebSocket)
       ).rejects.toThrow('OpenAI connection failed');
+      expect(startFallback).toHaveBeenCalledWith(
+        mockCallSid,
+        mockCallId,
+        expect.objectContaining({ id: 'earl' })
+      );
 
       consoleSpy.mockRestore();
     });
@@ -364,20 +736,22 @@ describe('Voice Stream Handler', () => {
 
   describe('saveTranscriptSegment', () => {
     it('should save transcript segment to database', async () => {
-      await __testing__.saveTranscriptSegment(mockCallId, 'EARL', 'Hello there!');
+      await __testing__.saveTranscriptSegment(mockCallId, 'PERSONA', 'Hello there!', 1.5, 3.25, 'gladys');
 
       expect(mockPrismaInstance.callSegment.create).toHaveBeenCalledWith({
-        data: expect.objectContaining({
+        data: {
           callId: mockCallId,
-          speaker: 'EARL',
+          speaker: 'PERSONA',
+          personaId: 'gladys',
           text: 'Hello there!',
-          timestamp: expect.any(Number),
-        }),
+          timestamp: 1.5,
+          endTimestamp: 3.25,
+        },
       });
     });
 
     it('should not save empty text', async () => {
-      await __testing__.saveTranscriptSegment(mockCallId, 'EARL', '   ');
+      await __testing__.saveTranscriptSegment(mockCallId, 'PERSONA', '   ', 0, 1);
 
       expect(mockPrismaInstance.callSegment.create).not.toHaveBeenCalled();
     });
@@ -386,13 +760,221 @@ describe('Voice Stream Handler', () => {
       mockPrismaInstance.callSegment.create.mockRejectedValue(new Error('DB error'));
       const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
 
-      await __testing__.saveTranscriptSegment(mockCallId, 'EARL', 'Test');
+      await __testing__.saveTranscriptSegment(mockCallId, 'PERSONA', 'Test', 0, 1);
 
       expect(consoleSpy).toHaveBeenCalled();
       consoleSpy.mockRestore();
     });
   });
 
+  describe('Segment timing', () => {
+    let now: number;
+    let dateNowSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      now = 1_700_000_000_000;
+      dateNowSpy = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      dateNowSpy.mockRestore();
+    });
+
+    it('should time persona segments from when the caller first hears the response', async () => {
+      dateNowSpy.mockRestore();
+      jest.useFakeTimers({ now });
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      jest.advanceTimersByTime(2_500);
+      mockOpenAIClientInstance.emit('audio', { audio: 'a', responseId: 'resp-1', itemId: 'item-1' });
+      // Earl's shortest pause, after which the caller hears the response
+      jest.advanceTimersByTime(500);
+      jest.advanceTimersByTime(500);
+      mockOpenAIClientInstance.emit('audio', { audio: 'b', responseId: 'resp-1', itemId: 'item-1' });
+      jest.advanceTimersByTime(752);
+      mockOpenAIClientInstance.emit('transcript', {
+        text: 'Hello? Who is this?',
+        responseId: 'resp-1',
+        itemId: 'item-1',
+        isFinal: true,
+      });
+
+      expect(mockPrismaInstance.callSegment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          speaker: 'PERSONA',
+          personaId: 'earl',
+          timestamp: 3,
+          endTimestamp: 4.252,
+        }),
+      });
+      // Pauses are totalled in the call's metrics rather than logged per reply
+      expect(mockPrismaInstance.callEvent.create).not.toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'PAUSE' }),
+      });
+
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should attribute persona segments to the persona answering the call', async () => {
+      const startEvent = createStartEvent();
+      startEvent.start.customParameters = { persona: 'gladys' };
+      await __testing__.createSession(startEvent, mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('transcript', {
+        text: 'What is your badge number?',
+        responseId: 'resp-1',
+        itemId: 'item-1',
+        isFinal: true,
+      });
+
+      expect(mockPrismaInstance.callSegment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ speaker: 'PERSONA', personaId: 'gladys' }),
+      });
+    });
+
+    it('should time scammer segments from when they started and stopped talking', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      now += 10_000;
+      mockOpenAIClientInstance.emit('speechStarted');
+      now += 4_125;
+      mockOpenAIClientInstance.emit('speechStopped');
+      now += 600;
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'This is Microsoft.', itemId: 'item-2' });
+      await __testing__.cleanupSession(mockStreamSid);
+
+      expect(mockPrismaInstance.callSegment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ speaker: 'SCAMMER', timestamp: 10, endTimestamp: 14.125 }),
+      });
+    });
+  });
+
+  describe('Persona behavior', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should hold the persona\'s audio back for a pause from its responseConfig', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('audio', { audio: 'a', responseId: 'resp-1', itemId: 'item-1' });
+      mockOpenAIClientInstance.emit('audio', { audio: 'b', responseId: 'resp-1', itemId: 'item-1' });
+      const sentMedia = () =>
+        mockWebSocketInstance.send.mock.calls
+          .map(([message]) => JSON.parse(message as string))
+          .filter((message) => message.event === 'media')
+          .map((message) => message.media.payload);
+
+      // Halfway between Earl's 500ms and 3000ms pauses
+      jest.advanceTimersByTime(1_749);
+      expect(sentMedia()).toEqual([]);
+      jest.advanceTimersByTime(1);
+      expect(sentMedia()).toEqual(['a', 'b']);
+
+      mockOpenAIClientInstance.emit('audio', { audio: 'c', responseId: 'resp-1', itemId: 'item-1' });
+      expect(sentMedia()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should drop a reply the scammer talks over before it starts', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('audio', { audio: 'a', responseId: 'resp-1', itemId: 'item-1' });
+      mockOpenAIClientInstance.emit('speechStarted');
+      mockOpenAIClientInstance.emit('audio', { audio: 'b', responseId: 'resp-1', itemId: 'item-1' });
+      jest.advanceTimersByTime(5_000);
+
+      const events = mockWebSocketInstance.send.mock.calls.map(([message]) => JSON.parse(message as string).event);
+      expect(events).toEqual(['clear']);
+    });
+
+    it('should nudge the persona to mishear the scammer and log it', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'Go to your computer now', itemId: 'item-2' });
+
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledWith({
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: expect.stringContaining('misheard "computer" as "commuter"') }],
+      });
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          callId: mockCallId,
+          type: 'MISHEARING',
+          data: { original: 'computer', misheard: 'commuter' },
+        }),
+      });
+    });
+
+    it('should press through robocall menus instead of answering them', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', {
+        text: 'This is an important message about your computer. Press 1 to speak to an agent.',
+        itemId: 'item-2',
+      });
+
+      expect(mockOpenAIClientInstance.cancelResponse).toHaveBeenCalled();
+      const messages = mockWebSocketInstance.send.mock.calls.map(([message]) => JSON.parse(message as string));
+      expect(messages[0]).toEqual({ event: 'clear', streamSid: mockStreamSid });
+      expect(messages.slice(1).every((message) => message.event === 'media')).toBe(true);
+      expect(messages.length).toBeGreaterThan(1);
+      expect(mockPrismaInstance.call.update).toHaveBeenCalledWith({
+        where: { id: mockCallId },
+        data: { ivrPath: '1' },
+      });
+
+      // The persona isn't nudged to mishear a recording
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledTimes(1);
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledWith(
+        expect.objectContaining({
+          content: [{ type: 'input_text', text: expect.stringContaining('you pressed 1') }],
+        })
+      );
+    });
+
+    it('should let the persona answer a scammer who asks it to press a key', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'Hello, this is Microsoft.', itemId: 'item-2' });
+      mockOpenAIClientInstance.emit('inputTranscript', {
+        text: 'This is an automated check, ma\'am. Press 1 on your keyboard.',
+        itemId: 'item-3',
+      });
+
+      expect(mockOpenAIClientInstance.cancelResponse).not.toHaveBeenCalled();
+      expect(mockWebSocketInstance.send).not.toHaveBeenCalled();
+      expect(mockPrismaInstance.call.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ ivrPath: expect.anything() }) })
+      );
+    });
+
+    it('should leave the persona alone when no behavior fires', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'Go to your computer now', itemId: 'item-2' });
+
+      expect(mockOpenAIClientInstance.addConversationItem).not.toHaveBeenCalled();
+      // Only the scam stage is saved
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledTimes(1);
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'SCAM_STAGE' }),
+      });
+    });
+  });
+
   describe('Media handling', () => {
     it('should forward media to OpenAI client', async () => {
       // Create a session
@@ -437,7 +1019,7 @@ describe('Voice Stream Handler', () => {
       );
 
       expect(consoleSpy).toHaveBeenCalledWith(
-        expect.stringContaining('[Voice Stream] Error sending audio to OpenAI:'),
+        expect.stringContaining('[Voice Stream] Error sending audio to voice engine:'),
         expect.any(Error)
       );
 
@@ -445,6 +1027,542 @@ describe('Voice Stream Handler', () => {
     });
   });
 
+  describe('Barge-in', () => {
+    // 100ms of μ-law audio
+    const chunk = Buffer.alloc(800, 0xff).toString('base64');
+    const sentMarks = () =>
+      mockWebSocketInstance.send.mock.calls
+        .map(([message]) => JSON.parse(message as string))
+        .filter((message) => message.event === 'mark')
+        .map((message) => message.mark.name);
+    const flushPromises = async () => {
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+    };
+    const playMark = (name: string) =>
+      __testing__.handleTwilioMessage(
+        mockWebSocketInstance as unknown as WebSocket,
+        JSON.stringify({ event: 'mark', streamSid: mockStreamSid, mark: { name } })
+      );
+
+    beforeEach(async () => {
+      jest.useFakeTimers();
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    const sayAndPlay = (text: string) => {
+      for (let i = 0; i < 4; i++) {
+        mockOpenAIClientInstance.emit('audio', { audio: chunk, responseId: 'resp-1', itemId: 'item-1' });
+      }
+      jest.runOnlyPendingTimers();
+      mockOpenAIClientInstance.emit('transcript', { text, responseId: 'resp-1', itemId: 'item-1', isFinal: true });
+    };
+
+    it('should cut the persona off at what the scammer heard', async () => {
+      sayAndPlay('Well back in sixty two I fixed fridges');
+      expect(sentMarks()).toHaveLength(4);
+
+      // The scammer heard 200ms of the 400ms reply before talking over it
+      await playMark(sentMarks()[1]);
+      mockOpenAIClientInstance.emit('speechStarted');
+      await flushPromises();
+
+      expect(mockOpenAIClientInstance.truncateItem).toHaveBeenCalledWith('item-1', 200);
+      expect(mockPrismaInstance.callSegment.update).toHaveBeenCalledWith({
+        where: { id: 'segment-1' },
+        data: expect.objectContaining({ text: 'Well back in sixty—' }),
+      });
+    });
+
+    it('should remove what the scammer never heard', async () => {
+      sayAndPlay('Hello? Who is this?');
+      mockOpenAIClientInstance.emit('speechStarted');
+      await flushPromises();
+
+      expect(mockOpenAIClientInstance.truncateItem).toHaveBeenCalledWith('item-1', 0);
+      expect(mockPrismaInstance.callSegment.delete).toHaveBeenCalledWith({ where: { id: 'segment-1' } });
+    });
+
+    it('should leave replies the scammer heard in full alone', async () => {
+      sayAndPlay('Hello? Who is this?');
+      await playMark(sentMarks()[3]);
+      mockOpenAIClientInstance.emit('speechStarted');
+      await flushPromises();
+
+      expect(mockOpenAIClientInstance.truncateItem).not.toHaveBeenCalled();
+      expect(mockPrismaInstance.callSegment.update).not.toHaveBeenCalled();
+      expect(mockPrismaInstance.callSegment.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Keypress handling', () => {
+    const pressKeys = async (...digits: string[]) => {
+      for (const digit of digits) {
+        await __testing__.handleTwilioMessage(
+          mockWebSocketInstance as unknown as WebSocket,
+          JSON.stringify(createDtmfEvent(digit))
+        );
+      }
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should save each keypress and tell the persona about them together', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      await pressKeys('1', '2');
+      jest.advanceTimersByTime(__testing__.DTMF_GROUP_MS - 1);
+      await pressKeys('#');
+
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledTimes(3);
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ callId: mockCallId, type: 'KEYPRESS', data: { digit: '#' } }),
+      });
+      expect(mockOpenAIClientInstance.addConversationItem).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(__testing__.DTMF_GROUP_MS);
+
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledTimes(1);
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledWith({
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: expect.stringContaining('pressed these keys: 1 2 #') }],
+      });
+      expect(mockOpenAIClientInstance.createResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore keypresses that are invalid or have no session', async () => {
+      await pressKeys('1');
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+      await pressKeys('', 'X');
+      jest.advanceTimersByTime(__testing__.DTMF_GROUP_MS);
+
+      expect(mockPrismaInstance.callEvent.create).not.toHaveBeenCalled();
+      expect(mockOpenAIClientInstance.addConversationItem).not.toHaveBeenCalled();
+    });
+
+    it('should not pass keypresses on after the call ends', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      await pressKeys('1');
+      await __testing__.cleanupSession(mockStreamSid);
+      jest.advanceTimersByTime(__testing__.DTMF_GROUP_MS);
+
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledTimes(1);
+      expect(mockOpenAIClientInstance.addConversationItem).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Call metrics', () => {
+    const chunk = Buffer.alloc(800, 0xff).toString('base64');
+    const sendMedia = (sequenceNumber: string, timestamp: string) => {
+      const event = createMediaEvent();
+      return __testing__.handleTwilioMessage(
+        mockWebSocketInstance as unknown as WebSocket,
+        JSON.stringify({ ...event, sequenceNumber, media: { ...event.media, timestamp } })
+      );
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should save latency, interruptions and media quality when the stream ends', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      await sendMedia('2', '0');
+      await sendMedia('3', '20');
+      await sendMedia('5', '520');
+      await sendMedia('4', '40');
+
+      // The scammer talks over a reply they've only just started hearing
+      mockOpenAIClientInstance.emit('speechStopped');
+      mockOpenAIClientInstance.emit('audio', { audio: chunk, responseId: 'resp-1', itemId: 'item-1' });
+      jest.runOnlyPendingTimers();
+      mockOpenAIClientInstance.emit('speechStarted');
+
+      await __testing__.cleanupSession(mockStreamSid);
+
+      expect(mockPrismaInstance.callMetrics.upsert).toHaveBeenCalledWith({
+        where: { callId: mockCallId },
+        create: expect.objectContaining({
+          callId: mockCallId,
+          responseCount: 1,
+          avgResponseLatencyMs: expect.any(Number),
+          avgResponseDurationMs: 100,
+          interruptions: 1,
+          mediaChunks: 4,
+          mediaGaps: 1,
+          maxMediaGapMs: 480,
+          outOfOrderChunks: 1,
+          pauses: 1,
+          totalPauseMs: expect.any(Number),
+        }),
+        update: expect.objectContaining({ responseCount: 1 }),
+      });
+    });
+  });
+
+  describe('Persona identity', () => {
+    const flush = async () => {
+      for (let i = 0; i < 5; i++) await Promise.resolve();
+    };
+
+    beforeEach(() => {
+      mockPrismaInstance.call.findUnique.mockResolvedValue({
+        id: mockCallId,
+        persona: 'earl',
+        fromNumber: '+15551234567',
+      });
+    });
+
+    it('should remind the persona of details it made up on earlier calls from the number', async () => {
+      mockPrismaInstance.identityFact.findMany.mockResolvedValue([
+        { kind: 'RELATIVE', subject: 'grandson', value: 'Tommy' },
+      ]);
+
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      expect(mockPrismaInstance.identityFact.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { personaId: 'earl', fromNumber: '+15551234567' } })
+      );
+      expect(createPersonaClient).toHaveBeenCalledWith(expect.anything(), undefined, {
+        instructions: expect.stringContaining('- Pets: your parakeet General Patton\n\nYou have also told this caller the following. Stick to it:\n- Your grandson is called Tommy'),
+      });
+    });
+
+    it('should keep details the persona makes up for the rest of the call and save them', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('transcript', {
+        text: 'My dog Biscuit would bite you, and my grandson Tommy is a policeman.',
+        responseId: 'resp-1',
+        itemId: 'item-1',
+        isFinal: true,
+      });
+      await flush();
+
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenCalledWith({
+        instructions: expect.stringMatching(/- Your grandson is called Tommy\n- Your dog is called Biscuit$/),
+      });
+      expect(mockPrismaInstance.identityFact.createMany).toHaveBeenCalledWith({
+        data: [
+          { personaId: 'earl', fromNumber: '+15551234567', callId: mockCallId, kind: 'RELATIVE', subject: 'grandson', value: 'Tommy' },
+          { personaId: 'earl', fromNumber: '+15551234567', callId: mockCallId, kind: 'PET', subject: 'dog', value: 'Biscuit' },
+        ],
+      });
+
+      // Saying them again changes nothing
+      mockOpenAIClientInstance.updateSession.mockClear();
+      mockOpenAIClientInstance.emit('transcript', {
+        text: 'Like I said, my grandson Tommy.',
+        responseId: 'resp-2',
+        itemId: 'item-2',
+        isFinal: true,
+      });
+      await flush();
+
+      expect(mockOpenAIClientInstance.updateSession).not.toHaveBeenCalled();
+      expect(mockPrismaInstance.identityFact.createMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Scam stages', () => {
+    it('should steer the persona when the scam reaches another stage and save the change', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'Hello, is this the homeowner?', itemId: 'item-1' });
+      mockOpenAIClientInstance.emit('inputTranscript', {
+        text: 'You must pay with gift cards today or the police will arrest you.',
+        itemId: 'item-2',
+      });
+
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenCalledTimes(2);
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenLastCalledWith({
+        instructions: expect.stringMatching(/## Your Details[\s\S]*\n\n## Where the Call Is\n\nThe caller is threatening you/),
+      });
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: {
+          callId: mockCallId,
+          type: 'SCAM_STAGE',
+          timestamp: expect.any(Number),
+          data: {
+            stage: 'threat',
+            previousStage: 'opening',
+            scamType: 'unknown',
+            text: 'You must pay with gift cards today or the police will arrest you.',
+          },
+        },
+      });
+    });
+
+    it('should leave the guidance alone while the stage stays the same', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'Read me the card number.', itemId: 'item-1' });
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'And the routing number too.', itemId: 'item-2' });
+
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenCalledTimes(1);
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give the persona the playbook for the scam type once it is known', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', { text: 'Hello, how are you today?', itemId: 'item-1' });
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenLastCalledWith({
+        instructions: expect.not.stringContaining('## Playbook'),
+      });
+
+      mockOpenAIClientInstance.emit('inputTranscript', {
+        text: 'This is Microsoft, your computer has a virus.',
+        itemId: 'item-2',
+      });
+
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenLastCalledWith({
+        instructions: expect.stringMatching(/\n\n## Playbook: Tech Support Scam\n\n[\s\S]*Start button/),
+      });
+      expect(mockPrismaInstance.call.update).toHaveBeenCalledWith({
+        where: { id: mockCallId },
+        data: { playbook: 'tech_support' },
+      });
+    });
+
+    it('should skip playbooks that are turned off', async () => {
+      mockPrismaInstance.playbook.findMany.mockResolvedValue([
+        { scamType: 'tech_support', instructions: 'Stall.', isEnabled: false },
+      ]);
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('inputTranscript', {
+        text: 'This is Microsoft, your computer has a virus.',
+        itemId: 'item-1',
+      });
+
+      expect(mockOpenAIClientInstance.updateSession).toHaveBeenLastCalledWith({
+        instructions: expect.not.stringContaining('## Playbook'),
+      });
+      expect(mockPrismaInstance.call.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Persona tools', () => {
+    it('should answer the persona\'s tool calls with fake details and save them', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('functionCall', {
+        callId: 'fc-1',
+        name: 'look_up_ssn',
+        arguments: '{}',
+        responseId: 'resp-1',
+        itemId: 'item-1',
+      });
+
+      expect(mockOpenAIClientInstance.sendFunctionOutput).toHaveBeenCalledWith('fc-1', {
+        ssn: expect.stringMatching(/^9\d{2}-\d{2}-\d{4}$/),
+      });
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          callId: mockCallId,
+          type: 'TOOL_CALL',
+          data: { tool: 'look_up_ssn', arguments: {}, output: { ssn: expect.any(String) }, ok: true },
+        }),
+      });
+
+      // The persona reads it out once the response that called the tool is done
+      expect(mockOpenAIClientInstance.createResponse).not.toHaveBeenCalled();
+      mockOpenAIClientInstance.emit('responseComplete', { responseId: 'resp-1', status: 'completed' });
+      expect(mockOpenAIClientInstance.createResponse).toHaveBeenCalledTimes(1);
+
+      mockOpenAIClientInstance.emit('responseComplete', { responseId: 'resp-2', status: 'completed' });
+      expect(mockOpenAIClientInstance.createResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read the same details throughout a call but not to the next caller', async () => {
+      const lookUpSsnTwice = async (callSid: string) => {
+        listeners.clear();
+        __testing__.activeSessions.clear();
+        mockOpenAIClientInstance.sendFunctionOutput.mockClear();
+        const startEvent = createStartEvent();
+        startEvent.start.callSid = callSid;
+        await __testing__.createSession(startEvent, mockWebSocketInstance as unknown as WebSocket);
+
+        for (const callId of ['fc-1', 'fc-2']) {
+          mockOpenAIClientInstance.emit('functionCall', {
+            callId,
+            name: 'look_up_ssn',
+            arguments: '{}',
+            responseId: 'resp-1',
+            itemId: 'item-1',
+          });
+        }
+        return mockOpenAIClientInstance.sendFunctionOutput.mock.calls.map(([, output]: [string, { ssn: string }]) => output.ssn);
+      };
+
+      const [first, again] = await lookUpSsnTwice(mockCallSid);
+      const [nextCaller] = await lookUpSsnTwice('CAfedcba0987654321fedcba0987654321');
+
+      expect(again).toBe(first);
+      expect(nextCaller).not.toBe(first);
+    });
+  });
+
+  describe('Reconnects', () => {
+    const reconnect = { attempts: 2, downtimeMs: 3_000, reason: 'Server going away' };
+    const flush = async () => {
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+    };
+
+    beforeEach(() => {
+      // Most recent first, as loaded
+      mockPrismaInstance.callSegment.findMany.mockResolvedValue([
+        { speaker: 'SCAMMER', text: 'Read me the numbers on the card.' },
+        { speaker: 'PERSONA', text: 'Which card, dear?' },
+      ]);
+    });
+
+    afterEach(() => {
+      mockOpenAIClientInstance.isConnected.mockReturnValue(true);
+    });
+
+    it('should replay the recent transcript into the new conversation', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      mockOpenAIClientInstance.emit('reconnected', reconnect);
+      await flush();
+
+      expect(mockPrismaInstance.callSegment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { callId: mockCallId, speaker: { in: ['SCAMMER', 'PERSONA'] } },
+          take: __testing__.REPLAY_SEGMENT_LIMIT,
+        })
+      );
+      expect(mockOpenAIClientInstance.addConversationItem.mock.calls).toEqual([
+        [{ type: 'message', role: 'assistant', content: [{ type: 'text', text: 'Which card, dear?' }] }],
+        [{ type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Read me the numbers on the card.' }] }],
+      ]);
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          callId: mockCallId,
+          type: 'RECONNECT',
+          data: { ...reconnect, replayedSegments: 2 },
+        }),
+      });
+    });
+
+    it('should still record a reconnect that dropped again before the replay', async () => {
+      await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+      mockOpenAIClientInstance.isConnected.mockReturnValue(false);
+
+      mockOpenAIClientInstance.emit('reconnected', reconnect);
+      await flush();
+
+      expect(mockOpenAIClientInstance.addConversationItem).not.toHaveBeenCalled();
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'RECONNECT', data: { ...reconnect, replayedSegments: 0 } }),
+      });
+    });
+  });
+
+  describe('Idle lines', () => {
+    const { checkInAfterMs = 0, hangUpAfterMs = 0, checkInPhrases = [] } = EARL_PERSONA.idleConfig ?? {};
+
+    // Media keeps arriving while the line is silent
+    const checkAt = (session: Awaited<ReturnType<typeof __testing__.createSession>>, offsetMs: number) => {
+      session.lastActivityTime = session.startTime + offsetMs;
+      __testing__.checkIdleSession(session, session.startTime + offsetMs);
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should have the persona check in after a silence', async () => {
+      const session = await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      checkAt(session, checkInAfterMs - 1);
+      expect(mockOpenAIClientInstance.addConversationItem).not.toHaveBeenCalled();
+
+      checkAt(session, checkInAfterMs);
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledWith({
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: expect.stringContaining(checkInPhrases[0]) }],
+      });
+      expect(mockOpenAIClientInstance.createResponse).toHaveBeenCalledTimes(1);
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'IDLE_CHECK_IN', data: { phrase: checkInPhrases[0] } }),
+      });
+
+      // The scammer speaking resets the silence
+      jest.setSystemTime(session.startTime + checkInAfterMs + 1_000);
+      mockOpenAIClientInstance.emit('speechStarted');
+      mockOpenAIClientInstance.emit('speechStopped');
+      checkAt(session, 2 * checkInAfterMs);
+      expect(mockOpenAIClientInstance.createResponse).toHaveBeenCalledTimes(1);
+    });
+
+    it('should say goodbye and hang up on a dead line', async () => {
+      const session = await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      checkAt(session, hangUpAfterMs);
+      expect(mockOpenAIClientInstance.addConversationItem).toHaveBeenCalledWith({
+        type: 'message',
+        role: 'system',
+        content: [{ type: 'input_text', text: expect.stringContaining('goodbye') }],
+      });
+      expect(mockPrismaInstance.callEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'IDLE_HANG_UP' }),
+      });
+      expect(mockTwilioClientInstance.endCall).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(__testing__.HANG_UP_GRACE_MS);
+
+      expect(mockTwilioClientInstance.endCall).toHaveBeenCalledWith(mockCallSid);
+      expect(__testing__.activeSessions.has(mockStreamSid)).toBe(false);
+    });
+
+    it('should reap sessions whose socket stopped sending audio', async () => {
+      const session = await __testing__.createSession(createStartEvent(), mockWebSocketInstance as unknown as WebSocket);
+
+      __testing__.checkIdleSession(session, session.lastActivityTime + __testing__.STALE_SESSION_MS);
+      for (let i = 0; i < 5; i++) {
+        await Promise.resolve();
+      }
+
+      expect(mockWebSocketInstance.terminate).toHaveBeenCalled();
+      expect(mockOpenAIClientInstance.disconnect).toHaveBeenCalledWith('call_ended');
+      expect(__testing__.activeSessions.has(mockStreamSid)).toBe(false);
+    });
+  });
+
   describe('Stop event handling', () => {
     it('should clean up session on stop event', async () => {
       // Create a session
@@ -473,6 +1591,7 @@ describe('Voice Stream Handler', () => {
         speaker: 'SCAMMER',
         text: 'Hello',
         startTime: Date.now(),
+        endTime: Date.now(),
       });
 
       // Check transcript is stored
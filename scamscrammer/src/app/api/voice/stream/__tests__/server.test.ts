@@ -0,0 +1,200 @@
+/**
+ * Voice Stream Server Integration Tests
+ *
+ * These tests serve the voice stream from a real HTTP server, connect to it
+ * the way Twilio does and drive a call against a mock Realtime server.
+ */
+
+const mockPrismaInstance = {
+  call: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  callSegment: {
+    create: jest.fn(),
+  },
+  callEvent: {
+    create: jest.fn(),
+  },
+  callMetrics: {
+    upsert: jest.fn(),
+  },
+  identityFact: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+  },
+  playbook: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: mockPrismaInstance,
+  prisma: mockPrismaInstance,
+}));
+
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+}));
+
+// Mock caller history (no previous calls)
+jest.mock('@/lib/callers', () => ({
+  loadCallerHistory: jest.fn(() => Promise.resolve([])),
+  buildCallerMemory: jest.fn(() => null),
+  loadConversationSummary: jest.fn(() => Promise.resolve(null)),
+}));
+
+// Mock the settings (no memory overrides)
+jest.mock('@/lib/settings', () => ({
+  loadSettings: jest.fn(() => Promise.resolve({ enabledPersonas: [], selectionMode: 'random', personaMemory: {} })),
+  getMemoryConfig: jest.requireActual('@/lib/settings').getMemoryConfig,
+}));
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { attachVoiceStream, __testing__ } from '@/lib/voice-stream';
+import { MockRealtimeServer, mulaw } from '@/lib/simulator';
+
+const mockCallId = 'server-call-id';
+const callSid = 'CA00000000000000000000000000000001';
+const streamSid = 'MZ00000000000000000000000000000001';
+const streamPath = '/media';
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function connect(url: string): Promise<WebSocket> {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    ws.once('open', () => resolve(ws));
+    ws.once('error', reject);
+  });
+}
+
+describe('Voice Stream Server', () => {
+  let server: Server;
+  let realtime: MockRealtimeServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPrismaInstance.call.findUnique.mockResolvedValue({
+      id: mockCallId,
+      persona: 'kevin',
+      fromNumber: '+15551234567',
+      experimentVariant: null,
+    });
+    mockPrismaInstance.callSegment.create.mockResolvedValue({});
+    mockPrismaInstance.callEvent.create.mockResolvedValue({});
+    mockPrismaInstance.callMetrics.upsert.mockResolvedValue({});
+    mockPrismaInstance.identityFact.findMany.mockResolvedValue([]);
+    mockPrismaInstance.identityFact.createMany.mockResolvedValue({ count: 0 });
+    mockPrismaInstance.playbook.findMany.mockResolvedValue([]);
+    mockPrismaInstance.call.update.mockResolvedValue({});
+    // Shortest pauses, and every mishearing and tangent fires
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    realtime = new MockRealtimeServer({ respond: () => 'Dude, what virus?' });
+    process.env.OPENAI_REALTIME_URL = await realtime.start();
+    process.env.OPENAI_API_KEY = 'test-key';
+
+    server = createServer((request, response) => {
+      response.statusCode = 404;
+      response.end();
+    });
+    attachVoiceStream(server, { path: streamPath });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await realtime.stop();
+    delete process.env.OPENAI_REALTIME_URL;
+    delete process.env.OPENAI_API_KEY;
+    jest.restoreAllMocks();
+  });
+
+  it('should stream a call over a real WebSocket connection', async () => {
+    const twilio = await connect(`${baseUrl}${streamPath}`);
+    const received: Array<Record<string, unknown>> = [];
+    twilio.on('message', (data) => received.push(JSON.parse(data.toString())));
+
+    realtime.queueTranscript('Your computer has a virus.');
+
+    twilio.send(JSON.stringify({ event: 'connected', protocol: 'Call', version: '1.0.0' }));
+    twilio.send(
+      JSON.stringify({
+        event: 'start',
+        sequenceNumber: '1',
+        streamSid,
+        start: {
+          streamSid,
+          accountSid: 'AC00000000000000000000000000000000',
+          callSid,
+          tracks: ['inbound'],
+          customParameters: {},
+          mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+        },
+      })
+    );
+    await waitFor(() => __testing__.activeSessions.has(streamSid));
+    expect(__testing__.activeSessions.get(streamSid)?.persona.id).toBe('kevin');
+
+    const audio = Buffer.concat([mulaw.synthesizeSpeech('Your computer has a virus.'), mulaw.silence(800)]);
+    mulaw.toFrames(audio).forEach((frame, i) => {
+      twilio.send(
+        JSON.stringify({
+          event: 'media',
+          sequenceNumber: String(i + 2),
+          streamSid,
+          media: { track: 'inbound', chunk: String(i + 1), timestamp: String(i * 20), payload: frame.toString('base64') },
+        })
+      );
+    });
+
+    // The persona's reply is streamed back to Twilio
+    await waitFor(() => received.some((message) => message.event === 'media'));
+    expect(received[0]).toEqual({ event: 'clear', streamSid });
+    expect(received.find((message) => message.event === 'media')).toEqual({
+      event: 'media',
+      streamSid,
+      media: { payload: expect.any(String) },
+    });
+
+    twilio.send(
+      JSON.stringify({ event: 'stop', streamSid, stop: { accountSid: 'AC00000000000000000000000000000000', callSid } })
+    );
+    await waitFor(() => !__testing__.activeSessions.has(streamSid));
+    twilio.close();
+
+    const segments = mockPrismaInstance.callSegment.create.mock.calls.map(([args]) => args.data);
+    expect(segments).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ callId: mockCallId, speaker: 'SCAMMER', text: 'Your computer has a virus.' }),
+        expect.objectContaining({
+          callId: mockCallId,
+          speaker: 'PERSONA',
+          personaId: 'kevin',
+          text: 'Dude, what virus?',
+        }),
+      ])
+    );
+  });
+
+  it('should refuse upgrades to other paths', async () => {
+    await expect(connect(`${baseUrl}/somewhere-else`)).rejects.toThrow();
+    expect(__testing__.activeSessions.size).toBe(0);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Simulated Call Tests
+ *
+ * These tests replay scammer scripts through the voice stream handler and
+ * the real OpenAI Realtime client, talking to a mock Realtime server.
+ */
+
+const mockPrismaInstance = {
+  call: {
+    findUnique: jest.fn(),
+    update: jest.fn(),
+  },
+  callSegment: {
+    create: jest.fn(),
+    update: jest.fn(),
+    delete: jest.fn(),
+  },
+  callEvent: {
+    create: jest.fn(),
+  },
+  callMetrics: {
+    upsert: jest.fn(),
+  },
+  identityFact: {
+    findMany: jest.fn(),
+    createMany: jest.fn(),
+  },
+  playbook: {
+    findMany: jest.fn(),
+  },
+};
+
+jest.mock('@/lib/db', () => ({
+  __esModule: true,
+  default: mockPrismaInstance,
+  prisma: mockPrismaInstance,
+}));
+
+// Mock the custom persona loader
+jest.mock('@/lib/personas/custom', () => ({
+  loadCustomPersonas: jest.fn(() => Promise.resolve([])),
+}));
+
+// Mock caller history (no previous calls)
+jest.mock('@/lib/callers', () => ({
+  loadCallerHistory: jest.fn(() => Promise.resolve([])),
+  buildCallerMemory: jest.fn(() => null),
+  loadConversationSummary: jest.fn(() => Promise.resolve(null)),
+}));
+
+// Mock the settings (no memory overrides)
+jest.mock('@/lib/settings', () => ({
+  loadSettings: jest.fn(() => Promise.resolve({ enabledPersonas: [], selectionMode: 'random', personaMemory: {} })),
+  getMemoryConfig: jest.requireActual('@/lib/settings').getMemoryConfig,
+}));
+
+import { MockRealtimeServer, parseScript, simulateCall, mulaw } from '@/lib/simulator';
+import { GLADYS_PERSONA, getIdentity } from '@/lib/personas';
+import { IdentityTracker } from '@/lib/identity';
+import { ScamStageTracker } from '@/lib/scam-stage';
+import { buildPlaybookSection, DEFAULT_PLAYBOOKS } from '@/lib/playbooks';
+import { ScamType } from '@/lib/tagging';
+
+const mockCallId = 'simulated-call-id';
+
+describe('Call Simulator', () => {
+  let server: MockRealtimeServer;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockPrismaInstance.call.findUnique.mockResolvedValue({
+      id: mockCallId,
+      persona: 'gladys',
+      fromNumber: '+15551234567',
+      experimentVariant: null,
+    });
+    mockPrismaInstance.callSegment.create.mockResolvedValue({});
+    mockPrismaInstance.callEvent.create.mockResolvedValue({});
+    mockPrismaInstance.callMetrics.upsert.mockResolvedValue({});
+    mockPrismaInstance.identityFact.findMany.mockResolvedValue([]);
+    mockPrismaInstance.identityFact.createMany.mockResolvedValue({ count: 0 });
+    mockPrismaInstance.playbook.findMany.mockResolvedValue([]);
+    mockPrismaInstance.call.update.mockResolvedValue({});
+    // Shortest pauses, and every mishearing and tangent fires
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should play a text script and record the conversation', async () => {
+    server = new MockRealtimeServer({
+      respond: ({ transcript }) => `Oh my, did you say "${transcript}"?`,
+    });
+
+    const call = await simulateCall(
+      parseScript(`
+        # Tech support opener
+        Hello, this is Microsoft calling about your computer.
+        You need to buy gift cards to fix the virus.
+      `),
+      { server, persona: 'gladys' }
+    );
+
+    // Steered through the pitch and on to the gift card demand, with the
+    // tech support playbook once Microsoft and the virus give it away
+    const stages = new ScamStageTracker();
+    stages.observe('Hello, this is Microsoft calling about your computer.');
+    stages.observe('You need to buy gift cards to fix the virus.');
+
+    expect(call.personaId).toBe('gladys');
+    const playbook = buildPlaybookSection({
+      scamType: ScamType.TECH_SUPPORT,
+      instructions: DEFAULT_PLAYBOOKS[ScamType.TECH_SUPPORT],
+      isEnabled: true,
+      isBuiltIn: true,
+    });
+    expect(call.instructions).toBe(
+      `${GLADYS_PERSONA.systemPrompt}\n\n${new IdentityTracker(getIdentity(GLADYS_PERSONA)).buildPromptSection()}` +
+        `\n\n${stages.buildPromptSection()}\n\n${playbook}`
+    );
+    expect(mockPrismaInstance.call.update).toHaveBeenCalledWith({
+      where: { id: mockCallId },
+      data: { playbook: 'tech_support' },
+    });
+    expect(call.transcript).toEqual([
+      { speaker: 'SCAMMER', text: 'Hello, this is Microsoft calling about your computer.' },
+      {
+        speaker: 'PERSONA',
+        text: 'Oh my, did you say "Hello, this is Microsoft calling about your computer."?',
+      },
+      { speaker: 'SCAMMER', text: 'You need to buy gift cards to fix the virus.' },
+      {
+        speaker: 'PERSONA',
+        text: 'Oh my, did you say "You need to buy gift cards to fix the virus."?',
+      },
+    ]);
+
+    // The persona's audio and barge-in clears were sent back to Twilio
+    expect(call.twilioMessages.filter((message) => message.event === 'media').length).toBeGreaterThan(0);
+    expect(call.twilioMessages.filter((message) => message.event === 'clear')).toHaveLength(2);
+
+    // Both sides of the conversation were saved against the call, and the
+    // scammer heard each reply in full before talking again
+    const segments = mockPrismaInstance.callSegment.create.mock.calls.map(([args]) => args.data);
+    expect(segments).toHaveLength(4);
+    expect(mockPrismaInstance.callSegment.update).not.toHaveBeenCalled();
+    expect(mockPrismaInstance.callSegment.delete).not.toHaveBeenCalled();
+    expect(segments).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          callId: mockCallId,
+          speaker: 'PERSONA',
+          personaId: 'gladys',
+          text: 'Oh my, did you say "Hello, this is Microsoft calling about your computer."?',
+        }),
+        expect.objectContaining({
+          callId: mockCallId,
+          speaker: 'SCAMMER',
+          text: 'You need to buy gift cards to fix the virus.',
+        }),
+      ])
+    );
+
+    // Gladys misheard "Microsoft", wandered off on a tangent and paused
+    // before each reply
+    expect(server.receivedEvents.filter((type) => type === 'conversation.item.create')).toHaveLength(2);
+    const events = mockPrismaInstance.callEvent.create.mock.calls.map(([args]) => args.data);
+    expect(events).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          callId: mockCallId,
+          type: 'MISHEARING',
+          data: { original: 'Microsoft', misheard: 'Microcraft' },
+        }),
+        expect.objectContaining({
+          callId: mockCallId,
+          type: 'TANGENT',
+          data: { subject: GLADYS_PERSONA.tangentTopics[0].subject },
+        }),
+      ])
+    );
+    expect(events.filter((event) => event.type === 'PAUSE')).toHaveLength(0);
+
+    // Both replies were timed from the end of the scammer's speech, and paused
+    expect(mockPrismaInstance.callMetrics.upsert).toHaveBeenCalledWith({
+      where: { callId: mockCallId },
+      create: expect.objectContaining({ callId: mockCallId, responseCount: 2, interruptions: 0, pauses: 2 }),
+      update: expect.objectContaining({ responseCount: 2, avgResponseLatencyMs: expect.any(Number) }),
+    });
+  }, 15_000);
+
+  it('should play recorded μ-law audio with its transcript', async () => {
+    server = new MockRealtimeServer();
+    const audio = Buffer.concat([mulaw.tone(600, 220), mulaw.silence(100), mulaw.tone(400, 300)]);
+
+    const call = await simulateCall([{ audio, transcript: 'Your social security number is suspended.' }], {
+      server,
+    });
+
+    expect(server.receivedEvents).toContain('input_audio_buffer.append');
+    expect(call.transcript).toEqual([
+      { speaker: 'SCAMMER', text: 'Your social security number is suspended.' },
+      { speaker: 'PERSONA', text: "I'm sorry, dear, could you say that again?" },
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+'use client';
+
+/**
+ * Caller Profiles Page
+ *
+ * Every number that has called in, most recently seen first. Repeat callers
+ * are flagged, and each profile shows how much of the caller's time has been
+ * wasted, which scams they ran, and which persona kept them on the line
+ * longest. Expand a caller to see their calls.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { getScamTypeColor, getScamTypeLabel } from '@/lib/tagging';
+import type {
+  CallerDetailResponse,
+  CallerListResponse,
+  CallerProfile,
+  PaginationInfo,
+  PersonaResponse,
+} from '@/types';
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  }
+  return `${secs}s`;
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function CallersPage() {
+  const [callers, setCallers] = useState<CallerProfile[]>([]);
+  const [pagination, setPagination] = useState<PaginationInfo | null>(null);
+  const [personas, setPersonas] = useState<PersonaResponse[]>([]);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<CallerDetailResponse | null>(null);
+
+  const loadCallers = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (search) {
+        params.set('search', search);
+      }
+      const res = await fetch(`/api/callers?${params}`);
+      if (res.ok) {
+        const data: CallerListResponse = await res.json();
+        setCallers(data.callers);
+        setPagination(data.pagination);
+      }
+    } catch (error) {
+      console.error('Failed to load callers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, search]);
+
+  useEffect(() => {
+    loadCallers();
+  }, [loadCallers]);
+
+  useEffect(() => {
+    fetch('/api/personas')
+      .then((res) => (res.ok ? res.json() : { personas: [] }))
+      .then((data) => setPersonas(data.personas))
+      .catch((error) => console.error('Failed to load personas:', error));
+  }, []);
+
+  const toggleCaller = async (caller: CallerProfile) => {
+    if (expanded?.id === caller.id) {
+      setExpanded(null);
+      return;
+    }
+    try {
+      const res = await fetch(`/api/callers/${caller.id}`);
+      if (res.ok) {
+        setExpanded(await res.json());
+      }
+    } catch (error) {
+      console.error('Failed to load caller:', error);
+    }
+  };
+
+  const personaName = (id: string | null) =>
+    id ? (personas.find((p) => p.id === id)?.name ?? id) : '-';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-700 rounded w-1/3 mb-8"></div>
+            <div className="h-96 bg-gray-800 rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/calls"
+            className="text-gray-400 hover:text-white text-sm mb-4 inline-flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Calls
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Callers</h1>
+          <p className="text-gray-400 mt-2">
+            Everyone who has called, grouped by number. When a repeat caller dials in again, the
+            persona that kept them on the line longest answers and remembers the previous calls
+            (see <Link href="/settings" className="text-blue-400 hover:text-blue-300">Settings</Link>).
+          </p>
+        </div>
+
+        <div className="mb-6">
+          <input
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search by number"
+            className="w-full md:w-80 bg-gray-800 border border-gray-700 rounded px-3 py-2 text-sm"
+          />
+        </div>
+
+        <div className="bg-gray-800 rounded-lg p-6">
+          {callers.length === 0 ? (
+            <p className="text-gray-400">No callers yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="pb-3">Number</th>
+                  <th className="pb-3">First Seen</th>
+                  <th className="pb-3">Last Seen</th>
+                  <th className="pb-3 text-right">Calls</th>
+                  <th className="pb-3 text-right">Time Wasted</th>
+                  <th className="pb-3">Scam Types</th>
+                  <th className="pb-3">Best Persona</th>
+                </tr>
+              </thead>
+              <tbody>
+                {callers.map((caller) => (
+                  <CallerRow
+                    key={caller.id}
+                    caller={caller}
+                    detail={expanded?.id === caller.id ? expanded : null}
+                    personaName={personaName}
+                    onToggle={() => toggleCaller(caller)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between mt-6 text-sm">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={!pagination.hasPrev}
+                className="px-3 py-1 bg-gray-700 rounded disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-gray-400">
+                Page {pagination.page} of {pagination.totalPages}
+              </span>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={!pagination.hasNext}
+                className="px-3 py-1 bg-gray-700 rounded disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CallerRow({
+  caller,
+  detail,
+  personaName,
+  onToggle,
+}: {
+  caller: CallerProfile;
+  detail: CallerDetailResponse | null;
+  personaName: (id: string | null) => string;
+  onToggle: () => void;
+}) {
+  return (
+    <>
+      <tr
+        onClick={onToggle}
+        className="border-b border-gray-700/50 cursor-pointer hover:bg-gray-700/30"
+      >
+        <td className="py-3">
+          <span className="font-mono">{caller.phoneNumber}</span>
+          {caller.totalCalls > 1 && (
+            <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-orange-900 text-orange-300">
+              Repeat
+            </span>
+          )}
+        </td>
+        <td className="py-3 text-gray-300">{formatDate(caller.firstSeenAt)}</td>
+        <td className="py-3 text-gray-300">{formatDate(caller.lastSeenAt)}</td>
+        <td className="py-3 text-right">{caller.totalCalls}</td>
+        <td className="py-3 text-right">{formatDuration(caller.totalDuration)}</td>
+        <td className="py-3">
+          <div className="flex flex-wrap gap-1">
+            {caller.scamTypes.map((scamType) => (
+              <span
+                key={scamType}
+                className="text-xs px-2 py-0.5 rounded-full"
+                style={{ backgroundColor: `${getScamTypeColor(scamType)}33`, color: getScamTypeColor(scamType) }}
+              >
+                {getScamTypeLabel(scamType)}
+              </span>
+            ))}
+          </div>
+        </td>
+        <td className="py-3">{personaName(caller.bestPersona)}</td>
+      </tr>
+      {detail && (
+        <tr className="border-b border-gray-700/50 bg-gray-900/40">
+          <td colSpan={7} className="py-3 px-4">
+            <ul className="space-y-1">
+              {detail.calls.map((call) => (
+                <li key={call.id} className="flex items-center gap-4">
+                  <Link href={`/calls/${call.id}`} className="text-blue-400 hover:text-blue-300">
+                    {formatDate(call.createdAt)}
+                  </Link>
+                  <span className="text-gray-300">{personaName(call.persona)}</span>
+                  <span className="text-gray-400">{formatDuration(call.duration ?? 0)}</span>
+                  <span className="text-gray-500">{call.status}</span>
+                  {call.screeningAction === 'FORWARD' && (
+                    <span className="text-gray-500">Forwarded</span>
+                  )}
+                  {call.screeningAction === 'REJECT' && (
+                    <span className="text-gray-500">Rejected</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import CallList from '@/components/CallList';
 import type { CallListItem } from '@/types';
@@ -18,7 +19,11 @@ export default function CallsPage() {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-white mb-2">Call History</h1>
           <p className="text-gray-400">
-            Browse and manage all recorded scam calls. Click a row to view details.
+            Browse and manage all recorded scam calls. Click a row to view details, or see{' '}
+            <Link href="/callers" className="text-orange-400 hover:text-orange-300">
+              calls grouped by caller
+            </Link>
+            .
           </p>
         </div>
 
@@ -475,16 +475,22 @@ export default function ApiDocsPage() {
                           id: 'seg_001',
                           callId: 'clx1234567890',
                           speaker: 'SCAMMER',
+                          personaId: null,
+                          speakerName: 'Scammer',
                           text: 'Hello, this is the IRS calling about your tax debt.',
                           timestamp: 0,
+                          endTimestamp: 3.1,
                           createdAt: '2024-01-15T10:30:05.000Z',
                         },
                         {
                           id: 'seg_002',
                           callId: 'clx1234567890',
-                          speaker: 'EARL',
+                          speaker: 'PERSONA',
+                          personaId: 'earl',
+                          speakerName: 'Earl',
                           text: "Oh my, the IRS? Hold on, let me find my hearing aid... What's that now?",
-                          timestamp: 3500,
+                          timestamp: 3.5,
+                          endTimestamp: 8.25,
                           createdAt: '2024-01-15T10:30:08.500Z',
                         },
                       ],
@@ -0,0 +1,372 @@
+'use client';
+
+/**
+ * Persona Experiments Page
+ *
+ * Create persona A/B experiments and start or stop them. While an
+ * experiment is running, incoming calls are split between its variants by
+ * weight. Results are shown on the stats page.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { ExperimentResponse, PersonaResponse } from '@/types';
+
+/**
+ * Variant form state
+ */
+interface VariantForm {
+  name: string;
+  persona: string;
+  weight: string;
+  temperatureOverride: string;
+  promptOverride: string;
+}
+
+function emptyVariant(name: string, persona = 'earl'): VariantForm {
+  return { name, persona, weight: '1', temperatureOverride: '', promptOverride: '' };
+}
+
+const EMPTY_VARIANTS: VariantForm[] = [emptyVariant('A'), emptyVariant('B', 'gladys')];
+
+export default function ExperimentsPage() {
+  const [experiments, setExperiments] = useState<ExperimentResponse[]>([]);
+  const [personas, setPersonas] = useState<PersonaResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [variants, setVariants] = useState<VariantForm[]>(EMPTY_VARIANTS);
+
+  const loadExperiments = useCallback(async () => {
+    try {
+      const [experimentsRes, personasRes] = await Promise.all([
+        fetch('/api/experiments'),
+        fetch('/api/personas'),
+      ]);
+      if (experimentsRes.ok) {
+        const data = await experimentsRes.json();
+        setExperiments(data.experiments);
+      }
+      if (personasRes.ok) {
+        const data = await personasRes.json();
+        setPersonas(data.personas);
+      }
+    } catch (error) {
+      console.error('Failed to load experiments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExperiments();
+  }, [loadExperiments]);
+
+  const updateVariant = (index: number, field: keyof VariantForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setVariants((prev) =>
+        prev.map((variant, i) => (i === index ? { ...variant, [field]: e.target.value } : variant))
+      );
+
+  const createExperiment = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/experiments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description,
+          variants: variants.map((variant) => ({
+            name: variant.name,
+            persona: variant.persona,
+            weight: Number(variant.weight),
+            temperatureOverride: variant.temperatureOverride.trim()
+              ? Number(variant.temperatureOverride)
+              : null,
+            promptOverride: variant.promptOverride,
+          })),
+        }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        await loadExperiments();
+        setName('');
+        setDescription('');
+        setVariants(EMPTY_VARIANTS);
+        setMessage({ type: 'success', text: `${data.name} created` });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to create experiment' });
+      }
+    } catch (error) {
+      console.error('Failed to create experiment:', error);
+      setMessage({ type: 'error', text: 'Failed to create experiment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setActive = async (experiment: ExperimentResponse, isActive: boolean) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/experiments/${experiment.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive }),
+      });
+      if (res.ok) {
+        await loadExperiments();
+      } else {
+        const error = await res.json();
+        setMessage({ type: 'error', text: error.error || 'Failed to update experiment' });
+      }
+    } catch (error) {
+      console.error('Failed to update experiment:', error);
+      setMessage({ type: 'error', text: 'Failed to update experiment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteExperiment = async (experiment: ExperimentResponse) => {
+    if (!confirm(`Delete ${experiment.name}? Its results will be lost.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/experiments/${experiment.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        await loadExperiments();
+      } else {
+        const error = await res.json();
+        setMessage({ type: 'error', text: error.error || 'Failed to delete experiment' });
+      }
+    } catch (error) {
+      console.error('Failed to delete experiment:', error);
+      setMessage({ type: 'error', text: 'Failed to delete experiment' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const personaName = (id: string) => personas.find((p) => p.id === id)?.name ?? id;
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm';
+  const labelClass = 'block text-sm font-medium text-gray-300 mb-1';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-700 rounded w-1/3 mb-8"></div>
+            <div className="h-96 bg-gray-800 rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/stats"
+            className="text-gray-400 hover:text-white text-sm mb-4 inline-flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Stats
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Persona Experiments</h1>
+          <p className="text-gray-400 mt-2">
+            Split incoming calls between persona variants and compare how long scammers stay on
+            the line. A running experiment takes priority over the persona settings.
+          </p>
+        </div>
+
+        {/* Status message */}
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-lg ${
+              message.type === 'success'
+                ? 'bg-green-900/50 border border-green-500 text-green-300'
+                : 'bg-red-900/50 border border-red-500 text-red-300'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Experiment list */}
+        <div className="space-y-4 mb-8">
+          {experiments.length === 0 && (
+            <p className="text-gray-400">No experiments yet.</p>
+          )}
+          {experiments.map((experiment) => (
+            <div key={experiment.id} className="bg-gray-800 rounded-lg p-6">
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <h2 className="text-xl font-semibold flex items-center gap-2">
+                    {experiment.name}
+                    {experiment.isActive && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-900 text-green-300">
+                        Running
+                      </span>
+                    )}
+                  </h2>
+                  {experiment.description && (
+                    <p className="text-sm text-gray-400 mt-1">{experiment.description}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setActive(experiment, !experiment.isActive)}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition disabled:opacity-50"
+                  >
+                    {experiment.isActive ? 'Stop' : 'Start'}
+                  </button>
+                  <button
+                    onClick={() => deleteExperiment(experiment)}
+                    disabled={saving}
+                    className="text-red-400 hover:text-red-300 text-sm disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+              <ul className="mt-4 space-y-1 text-sm">
+                {experiment.variants.map((variant) => (
+                  <li key={variant.id} className="flex justify-between text-gray-300">
+                    <span>
+                      <span className="font-medium">{variant.name}</span>
+                      <span className="text-gray-500 ml-2">
+                        {personaName(variant.persona)}
+                        {variant.temperatureOverride !== null && `, temperature ${variant.temperatureOverride}`}
+                        {variant.promptOverride && ', custom prompt'}
+                      </span>
+                    </span>
+                    <span className="text-gray-500">
+                      weight {variant.weight} · {variant._count.calls} calls
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        {/* New experiment */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createExperiment();
+          }}
+          className="bg-gray-800 rounded-lg p-6 space-y-6"
+        >
+          <h2 className="text-xl font-semibold">New Experiment</h2>
+          <fieldset disabled={saving} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input value={description} onChange={(e) => setDescription(e.target.value)} className={inputClass} />
+              </div>
+            </div>
+
+            {variants.map((variant, index) => (
+              <div key={index} className="border border-gray-700 rounded-lg p-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium">Variant {index + 1}</h3>
+                  {variants.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => setVariants((prev) => prev.filter((_, i) => i !== index))}
+                      className="text-red-400 hover:text-red-300 text-sm"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div>
+                    <label className={labelClass}>Name</label>
+                    <input value={variant.name} onChange={updateVariant(index, 'name')} className={inputClass} required />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Persona</label>
+                    <select value={variant.persona} onChange={updateVariant(index, 'persona')} className={inputClass}>
+                      {personas.map((persona) => (
+                        <option key={persona.id} value={persona.id}>{persona.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={labelClass}>Weight</label>
+                    <input type="number" min={1} step={1} value={variant.weight} onChange={updateVariant(index, 'weight')} className={inputClass} required />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Temperature</label>
+                    <input
+                      type="number"
+                      min={0.6}
+                      max={1.2}
+                      step={0.05}
+                      value={variant.temperatureOverride}
+                      onChange={updateVariant(index, 'temperatureOverride')}
+                      placeholder="Default"
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>System Prompt Override</label>
+                  <textarea
+                    value={variant.promptOverride}
+                    onChange={updateVariant(index, 'promptOverride')}
+                    rows={3}
+                    placeholder="Leave empty to use the persona's own prompt"
+                    className={`${inputClass} font-mono`}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between pt-4 border-t border-gray-700">
+              <button
+                type="submit"
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium transition disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Create Experiment'}
+              </button>
+              <button
+                type="button"
+                onClick={() =>
+                  setVariants((prev) => [...prev, emptyVariant(String.fromCharCode(65 + prev.length))])
+                }
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                + Add Variant
+              </button>
+            </div>
+          </fieldset>
+        </form>
+      </div>
+    </div>
+  );
+}
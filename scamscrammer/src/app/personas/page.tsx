@@ -0,0 +1,760 @@
+'use client';
+
+/**
+ * Persona Builder Page
+ *
+ * Lists the built-in and custom personas and provides an editor for
+ * creating, updating and deleting custom personas. Built-in personas are
+ * read-only but can be duplicated as a starting point.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { PersonaResponse } from '@/types';
+
+/** OpenAI Realtime voices available for the live conversation */
+const REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse'];
+
+/** Voice engines that can hold the conversation */
+const VOICE_ENGINES = [
+  { value: 'realtime', label: 'OpenAI Realtime' },
+  { value: 'cascaded', label: 'Speech-to-text, LLM, text-to-speech' },
+  { value: 'mock', label: 'Mock (local, for testing)' },
+];
+
+/** Text-to-speech services for the cascaded engine */
+const TTS_PROVIDERS = [
+  { value: 'openai', label: 'OpenAI' },
+  { value: 'elevenlabs', label: 'ElevenLabs' },
+];
+
+/**
+ * Editor form state. List fields are edited as one entry per line.
+ */
+interface PersonaForm {
+  id: string;
+  name: string;
+  fullName: string;
+  age: string;
+  background: string;
+  personality: string;
+  location: string;
+  livingStatus: string;
+  greeting: string;
+  systemPrompt: string;
+  /** One phrase per line */
+  signaturePhrases: string;
+  /** One "subject | details" per line */
+  tangentTopics: string;
+  /** One "original | misheard | context" per line */
+  mishearings: string;
+  minPauseMs: string;
+  maxPauseMs: string;
+  hearingAidDelayMs: string;
+  tangentProbability: string;
+  mishearingProbability: string;
+  realtimeVoice: string;
+  twilioVoice: string;
+  engine: string;
+  ttsProvider: string;
+  ttsVoice: string;
+  memoryEnabled: boolean;
+  maxSummaryChars: string;
+  checkInAfterSeconds: string;
+  hangUpAfterSeconds: string;
+  /** One phrase per line */
+  checkInPhrases: string;
+  goodbye: string;
+  address: string;
+  bank: string;
+  pharmacy: string;
+  /** One "relation | name" per line */
+  relatives: string;
+  /** One "kind | name" per line */
+  pets: string;
+}
+
+const EMPTY_FORM: PersonaForm = {
+  id: '',
+  name: '',
+  fullName: '',
+  age: '',
+  background: '',
+  personality: '',
+  location: '',
+  livingStatus: '',
+  greeting: '',
+  systemPrompt: '',
+  signaturePhrases: '',
+  tangentTopics: '',
+  mishearings: '',
+  minPauseMs: '500',
+  maxPauseMs: '2000',
+  hearingAidDelayMs: '',
+  tangentProbability: '0.3',
+  mishearingProbability: '',
+  realtimeVoice: 'alloy',
+  twilioVoice: '',
+  engine: 'realtime',
+  ttsProvider: 'openai',
+  ttsVoice: '',
+  memoryEnabled: true,
+  maxSummaryChars: '800',
+  checkInAfterSeconds: '10',
+  hangUpAfterSeconds: '60',
+  checkInPhrases: '',
+  goodbye: '',
+  address: '',
+  bank: '',
+  pharmacy: '',
+  relatives: '',
+  pets: '',
+};
+
+/**
+ * Convert a persona into editor form state
+ */
+function toForm(persona: PersonaResponse): PersonaForm {
+  const { responseConfig, voiceConfig, memoryConfig, idleConfig, identity } = persona;
+  return {
+    id: persona.id,
+    name: persona.name,
+    fullName: persona.fullName,
+    age: String(persona.age),
+    background: persona.background,
+    personality: persona.personality,
+    location: persona.location,
+    livingStatus: persona.livingStatus,
+    greeting: persona.greeting ?? '',
+    systemPrompt: persona.systemPrompt,
+    signaturePhrases: persona.signaturePhrases.join('\n'),
+    tangentTopics: persona.tangentTopics.map((t) => `${t.subject} | ${t.details}`).join('\n'),
+    mishearings: (persona.mishearings ?? [])
+      .map((m) => [m.original, m.misheard, m.context].filter(Boolean).join(' | '))
+      .join('\n'),
+    minPauseMs: String(responseConfig.minPauseMs),
+    maxPauseMs: String(responseConfig.maxPauseMs),
+    hearingAidDelayMs: responseConfig.hearingAidDelayMs?.toString() ?? '',
+    tangentProbability: String(responseConfig.tangentProbability),
+    mishearingProbability: responseConfig.mishearingProbability?.toString() ?? '',
+    realtimeVoice: voiceConfig?.realtimeVoice ?? 'alloy',
+    twilioVoice: voiceConfig?.twilioVoice ?? '',
+    engine: voiceConfig?.engine ?? 'realtime',
+    ttsProvider: voiceConfig?.ttsProvider ?? 'openai',
+    ttsVoice: voiceConfig?.voice ?? '',
+    memoryEnabled: memoryConfig?.enabled ?? true,
+    maxSummaryChars: String(memoryConfig?.maxSummaryChars ?? 800),
+    checkInAfterSeconds: String((idleConfig?.checkInAfterMs ?? 10000) / 1000),
+    hangUpAfterSeconds: String((idleConfig?.hangUpAfterMs ?? 60000) / 1000),
+    checkInPhrases: (idleConfig?.checkInPhrases ?? []).join('\n'),
+    goodbye: idleConfig?.goodbye ?? '',
+    address: identity?.address ?? '',
+    bank: identity?.bank ?? '',
+    pharmacy: identity?.pharmacy ?? '',
+    relatives: (identity?.relatives ?? []).map((r) => `${r.relation} | ${r.name}`).join('\n'),
+    pets: (identity?.pets ?? []).map((p) => `${p.kind} | ${p.name}`).join('\n'),
+  };
+}
+
+/**
+ * Split a multi-line field into trimmed, non-empty "|"-separated parts
+ */
+function parseLines(value: string): string[][] {
+  return value
+    .split('\n')
+    .map((line) => line.split('|').map((part) => part.trim()))
+    .filter((parts) => parts[0]);
+}
+
+/**
+ * Convert editor form state into an API request body
+ */
+function toRequestBody(form: PersonaForm, isNew: boolean): Record<string, unknown> {
+  const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+
+  return {
+    ...(isNew && { id: form.id }),
+    name: form.name,
+    fullName: form.fullName,
+    age: Number(form.age),
+    background: form.background,
+    personality: form.personality,
+    location: form.location,
+    livingStatus: form.livingStatus,
+    greeting: form.greeting,
+    systemPrompt: form.systemPrompt,
+    signaturePhrases: form.signaturePhrases.split('\n').map((line) => line.trim()).filter(Boolean),
+    tangentTopics: parseLines(form.tangentTopics).map(([subject, details = '']) => ({
+      subject,
+      details,
+    })),
+    mishearings: parseLines(form.mishearings).map(([original, misheard = '', context]) => ({
+      original,
+      misheard,
+      ...(context && { context }),
+    })),
+    responseConfig: {
+      minPauseMs: Number(form.minPauseMs),
+      maxPauseMs: Number(form.maxPauseMs),
+      tangentProbability: Number(form.tangentProbability),
+      hearingAidDelayMs: optionalNumber(form.hearingAidDelayMs),
+      mishearingProbability: optionalNumber(form.mishearingProbability),
+    },
+    voiceConfig: {
+      realtimeVoice: form.realtimeVoice,
+      twilioVoice: form.twilioVoice,
+      engine: form.engine,
+      ttsProvider: form.ttsProvider,
+      voice: form.ttsVoice,
+    },
+    memoryConfig: {
+      enabled: form.memoryEnabled,
+      maxSummaryChars: Number(form.maxSummaryChars),
+    },
+    idleConfig: {
+      checkInAfterMs: Math.round(Number(form.checkInAfterSeconds) * 1000),
+      hangUpAfterMs: Math.round(Number(form.hangUpAfterSeconds) * 1000),
+      checkInPhrases: form.checkInPhrases.split('\n').map((line) => line.trim()).filter(Boolean),
+      ...(form.goodbye.trim() && { goodbye: form.goodbye.trim() }),
+    },
+    // Left blank, details are made up for the persona
+    identity: {
+      address: form.address,
+      bank: form.bank,
+      pharmacy: form.pharmacy,
+      relatives: parseLines(form.relatives).map(([relation, name = '']) => ({ relation, name })),
+      pets: parseLines(form.pets).map(([kind, name = '']) => ({ kind, name })),
+    },
+  };
+}
+
+export default function PersonasPage() {
+  const [personas, setPersonas] = useState<PersonaResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // ID of the persona being edited, 'new' for a new persona, or null when closed
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<PersonaForm>(EMPTY_FORM);
+
+  const loadPersonas = useCallback(async () => {
+    try {
+      const res = await fetch('/api/personas');
+      if (res.ok) {
+        const data = await res.json();
+        setPersonas(data.personas);
+      }
+    } catch (error) {
+      console.error('Failed to load personas:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPersonas();
+  }, [loadPersonas]);
+
+  const selected = personas.find((p) => p.id === editing);
+  const readOnly = selected?.builtIn ?? false;
+  const isNew = editing === 'new';
+
+  const updateField = (field: keyof PersonaForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const openPersona = (persona: PersonaResponse) => {
+    setEditing(persona.id);
+    setForm(toForm(persona));
+    setMessage(null);
+  };
+
+  const openNew = (template?: PersonaResponse) => {
+    setEditing('new');
+    setForm(
+      template
+        ? { ...toForm(template), id: '', name: `${template.name} (copy)` }
+        : EMPTY_FORM
+    );
+    setMessage(null);
+  };
+
+  const savePersona = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(isNew ? '/api/personas' : `/api/personas/${editing}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toRequestBody(form, isNew)),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        await loadPersonas();
+        setEditing(data.id);
+        setForm(toForm(data));
+        setMessage({ type: 'success', text: `${data.name} saved` });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to save persona' });
+      }
+    } catch (error) {
+      console.error('Failed to save persona:', error);
+      setMessage({ type: 'error', text: 'Failed to save persona' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deletePersona = async () => {
+    if (!selected || !confirm(`Delete ${selected.name}? This cannot be undone.`)) {
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/personas/${selected.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        await loadPersonas();
+        setEditing(null);
+        setMessage({ type: 'success', text: `${selected.name} deleted` });
+      } else {
+        const error = await res.json();
+        setMessage({ type: 'error', text: error.error || 'Failed to delete persona' });
+      }
+    } catch (error) {
+      console.error('Failed to delete persona:', error);
+      setMessage({ type: 'error', text: 'Failed to delete persona' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    'w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm disabled:opacity-60';
+  const labelClass = 'block text-sm font-medium text-gray-300 mb-1';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-700 rounded w-1/3 mb-8"></div>
+            <div className="h-96 bg-gray-800 rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/settings"
+            className="text-gray-400 hover:text-white text-sm mb-4 inline-flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Settings
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Persona Builder</h1>
+          <p className="text-gray-400 mt-2">
+            Create custom characters to answer scam calls. Enable them on the settings page.
+          </p>
+        </div>
+
+        {/* Status message */}
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-lg ${
+              message.type === 'success'
+                ? 'bg-green-900/50 border border-green-500 text-green-300'
+                : 'bg-red-900/50 border border-red-500 text-red-300'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Persona list */}
+          <aside className="bg-gray-800 rounded-lg p-4 h-fit">
+            <button
+              onClick={() => openNew()}
+              className="w-full mb-4 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition"
+            >
+              + New Persona
+            </button>
+            <ul className="space-y-1">
+              {personas.map((persona) => (
+                <li key={persona.id}>
+                  <button
+                    onClick={() => openPersona(persona)}
+                    className={`w-full text-left px-3 py-2 rounded flex items-center justify-between transition ${
+                      editing === persona.id ? 'bg-gray-700' : 'hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <span>
+                      {persona.name}
+                      <span className="text-gray-500 text-xs ml-2">{persona.id}</span>
+                    </span>
+                    {persona.builtIn && (
+                      <span className="text-xs bg-gray-600 text-gray-300 px-2 py-0.5 rounded">
+                        Built-in
+                      </span>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+
+          {/* Editor */}
+          <section className="lg:col-span-2 bg-gray-800 rounded-lg p-6">
+            {editing === null ? (
+              <p className="text-gray-400">Select a persona to view it, or create a new one.</p>
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  savePersona();
+                }}
+                className="space-y-6"
+              >
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold">
+                    {isNew ? 'New Persona' : form.name}
+                  </h2>
+                  {readOnly && selected && (
+                    <button
+                      type="button"
+                      onClick={() => openNew(selected)}
+                      className="text-sm text-blue-400 hover:text-blue-300"
+                    >
+                      Duplicate as custom persona
+                    </button>
+                  )}
+                </div>
+
+                {readOnly && (
+                  <p className="text-sm text-gray-400">
+                    Built-in personas are read-only.
+                  </p>
+                )}
+
+                <fieldset disabled={readOnly || saving} className="space-y-6">
+                  {/* Identity */}
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className={labelClass}>ID</label>
+                      <input
+                        value={form.id}
+                        onChange={updateField('id')}
+                        disabled={!isNew}
+                        placeholder="e.g. margaret"
+                        className={inputClass}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Name</label>
+                      <input value={form.name} onChange={updateField('name')} className={inputClass} required />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Full Name</label>
+                      <input value={form.fullName} onChange={updateField('fullName')} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Age</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={120}
+                        value={form.age}
+                        onChange={updateField('age')}
+                        className={inputClass}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Location</label>
+                      <input value={form.location} onChange={updateField('location')} className={inputClass} />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Living Situation</label>
+                      <input value={form.livingStatus} onChange={updateField('livingStatus')} className={inputClass} />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className={labelClass}>Background</label>
+                    <input value={form.background} onChange={updateField('background')} className={inputClass} required />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Personality</label>
+                    <input value={form.personality} onChange={updateField('personality')} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Greeting</label>
+                    <input
+                      value={form.greeting}
+                      onChange={updateField('greeting')}
+                      placeholder="Spoken when the call is answered"
+                      className={inputClass}
+                    />
+                  </div>
+
+                  {/* Prompt and behaviour */}
+                  <div>
+                    <label className={labelClass}>System Prompt</label>
+                    <textarea
+                      value={form.systemPrompt}
+                      onChange={updateField('systemPrompt')}
+                      rows={10}
+                      className={`${inputClass} font-mono`}
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Signature Phrases (one per line)</label>
+                    <textarea value={form.signaturePhrases} onChange={updateField('signaturePhrases')} rows={4} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Tangent Topics (subject | details, one per line)</label>
+                    <textarea value={form.tangentTopics} onChange={updateField('tangentTopics')} rows={4} className={inputClass} />
+                  </div>
+                  <div>
+                    <label className={labelClass}>Mishearings (original | misheard | context, one per line)</label>
+                    <textarea value={form.mishearings} onChange={updateField('mishearings')} rows={4} className={inputClass} />
+                  </div>
+
+                  {/* Response timing */}
+                  <div>
+                    <h3 className="font-medium mb-3">Response Timing</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                      <div>
+                        <label className={labelClass}>Min Pause (ms)</label>
+                        <input type="number" min={0} value={form.minPauseMs} onChange={updateField('minPauseMs')} className={inputClass} required />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Max Pause (ms)</label>
+                        <input type="number" min={0} value={form.maxPauseMs} onChange={updateField('maxPauseMs')} className={inputClass} required />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Hearing Aid Delay (ms)</label>
+                        <input type="number" min={0} value={form.hearingAidDelayMs} onChange={updateField('hearingAidDelayMs')} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Tangent Probability</label>
+                        <input type="number" min={0} max={1} step={0.05} value={form.tangentProbability} onChange={updateField('tangentProbability')} className={inputClass} required />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Mishearing Probability</label>
+                        <input type="number" min={0} max={1} step={0.05} value={form.mishearingProbability} onChange={updateField('mishearingProbability')} className={inputClass} />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Voice */}
+                  <div>
+                    <h3 className="font-medium mb-3">Voice</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className={labelClass}>Conversation Voice</label>
+                        <select value={form.realtimeVoice} onChange={updateField('realtimeVoice')} className={inputClass}>
+                          {REALTIME_VOICES.map((voice) => (
+                            <option key={voice} value={voice}>{voice}</option>
+                          ))}
+                        </select>
+                      </div>
+                      <div>
+                        <label className={labelClass}>Greeting Voice (Twilio)</label>
+                        <input
+                          value={form.twilioVoice}
+                          onChange={updateField('twilioVoice')}
+                          placeholder="Polly.Matthew"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Voice Engine</label>
+                        <select value={form.engine} onChange={updateField('engine')} className={inputClass}>
+                          {VOICE_ENGINES.map((engine) => (
+                            <option key={engine.value} value={engine.value}>{engine.label}</option>
+                          ))}
+                        </select>
+                      </div>
+                      {form.engine === 'cascaded' && (
+                        <>
+                          <div>
+                            <label className={labelClass}>Text-to-Speech Service</label>
+                            <select value={form.ttsProvider} onChange={updateField('ttsProvider')} className={inputClass}>
+                              {TTS_PROVIDERS.map((provider) => (
+                                <option key={provider.value} value={provider.value}>{provider.label}</option>
+                              ))}
+                            </select>
+                          </div>
+                          {/* OpenAI speech uses the Realtime voice */}
+                          {form.ttsProvider === 'elevenlabs' && (
+                            <div>
+                              <label className={labelClass}>ElevenLabs Voice</label>
+                              <input
+                                value={form.ttsVoice}
+                                onChange={updateField('ttsVoice')}
+                                placeholder="ElevenLabs voice ID"
+                                className={inputClass}
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Caller Memory */}
+                  <div>
+                    <h3 className="font-medium mb-3">Caller Memory</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={form.memoryEnabled}
+                          onChange={(e) => setForm((prev) => ({ ...prev, memoryEnabled: e.target.checked }))}
+                          className="mt-1 w-5 h-5 text-blue-500"
+                        />
+                        <span className="text-sm text-gray-300">
+                          Remind this persona what was said on earlier calls from the same number
+                        </span>
+                      </label>
+                      <div>
+                        <label className={labelClass}>Summary Length (characters)</label>
+                        <input
+                          type="number"
+                          min={100}
+                          max={4000}
+                          step={50}
+                          value={form.maxSummaryChars}
+                          onChange={updateField('maxSummaryChars')}
+                          disabled={!form.memoryEnabled}
+                          className={inputClass}
+                          required
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Silence handling */}
+                  <div>
+                    <h3 className="font-medium mb-3">Silence Handling</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div>
+                        <label className={labelClass}>Check In After (seconds of silence)</label>
+                        <input type="number" min={3} max={600} value={form.checkInAfterSeconds} onChange={updateField('checkInAfterSeconds')} className={inputClass} required />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Hang Up After (seconds of silence)</label>
+                        <input type="number" min={3} max={600} value={form.hangUpAfterSeconds} onChange={updateField('hangUpAfterSeconds')} className={inputClass} required />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Check-in Phrases (one per line)</label>
+                        <textarea
+                          value={form.checkInPhrases}
+                          onChange={updateField('checkInPhrases')}
+                          rows={3}
+                          placeholder="Hello? You still there?"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Goodbye</label>
+                        <textarea
+                          value={form.goodbye}
+                          onChange={updateField('goodbye')}
+                          rows={3}
+                          placeholder="Well, I guess they hung up. Goodbye then!"
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                  </div>
+
+                  {/* Fake identity */}
+                  <div>
+                    <h3 className="font-medium mb-1">Fake Identity</h3>
+                    <p className="text-sm text-gray-400 mb-3">
+                      What the persona tells callers who ask. Anything left blank is made up for it.
+                    </p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className={labelClass}>Address</label>
+                        <input value={form.address} onChange={updateField('address')} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Bank</label>
+                        <input value={form.bank} onChange={updateField('bank')} className={inputClass} />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Pharmacy</label>
+                        <input value={form.pharmacy} onChange={updateField('pharmacy')} className={inputClass} />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                      <div>
+                        <label className={labelClass}>Relatives (relation | name, one per line)</label>
+                        <textarea
+                          value={form.relatives}
+                          onChange={updateField('relatives')}
+                          rows={3}
+                          placeholder="grandson | Dale"
+                          className={inputClass}
+                        />
+                      </div>
+                      <div>
+                        <label className={labelClass}>Pets (kind | name, one per line)</label>
+                        <textarea
+                          value={form.pets}
+                          onChange={updateField('pets')}
+                          rows={3}
+                          placeholder="parakeet | General Patton"
+                          className={inputClass}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                </fieldset>
+
+                {!readOnly && (
+                  <div className="flex items-center justify-between pt-4 border-t border-gray-700">
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium transition disabled:opacity-50"
+                    >
+                      {saving ? 'Saving...' : isNew ? 'Create Persona' : 'Save Changes'}
+                    </button>
+                    {!isNew && (
+                      <button
+                        type="button"
+                        onClick={deletePersona}
+                        disabled={saving}
+                        className="px-4 py-2 text-red-400 hover:text-red-300 text-sm disabled:opacity-50"
+                      >
+                        Delete Persona
+                      </button>
+                    )}
+                  </div>
+                )}
+              </form>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
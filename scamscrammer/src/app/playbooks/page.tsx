@@ -0,0 +1,217 @@
+'use client';
+
+/**
+ * Counter-Playbooks Page
+ *
+ * Edit the stalling tactics a persona is given once a call's scam type is
+ * known, turn playbooks off, or go back to the built-in ones.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { getScamTypeColor, getScamTypeLabel } from '@/lib/tagging';
+import type { PlaybookConfig } from '@/types';
+
+export default function PlaybooksPage() {
+  const [playbooks, setPlaybooks] = useState<PlaybookConfig[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadPlaybooks = useCallback(async () => {
+    try {
+      const res = await fetch('/api/playbooks');
+      if (res.ok) {
+        const data = await res.json();
+        setPlaybooks(data.playbooks);
+        setDrafts(
+          Object.fromEntries(
+            data.playbooks.map((playbook: PlaybookConfig) => [playbook.scamType, playbook.instructions])
+          )
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load playbooks:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPlaybooks();
+  }, [loadPlaybooks]);
+
+  const request = async (
+    playbook: PlaybookConfig,
+    init: RequestInit,
+    successText: string,
+    errorText: string
+  ) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/playbooks/${playbook.scamType}`, init);
+      if (res.ok) {
+        await loadPlaybooks();
+        setMessage({ type: 'success', text: successText });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        const error = await res.json();
+        setMessage({ type: 'error', text: error.error || errorText });
+      }
+    } catch (error) {
+      console.error(`${errorText}:`, error);
+      setMessage({ type: 'error', text: errorText });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePlaybook = (playbook: PlaybookConfig, changes: Partial<PlaybookConfig>, successText: string) =>
+    request(
+      playbook,
+      {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      },
+      successText,
+      'Failed to update playbook'
+    );
+
+  const resetPlaybook = (playbook: PlaybookConfig) => {
+    if (!confirm(`Go back to the built-in ${getScamTypeLabel(playbook.scamType)} playbook?`)) {
+      return;
+    }
+    request(playbook, { method: 'DELETE' }, 'Playbook reset', 'Failed to reset playbook');
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-700 rounded w-1/3 mb-8"></div>
+            <div className="h-96 bg-gray-800 rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/settings"
+            className="text-gray-400 hover:text-white text-sm mb-4 inline-flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Settings
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Counter-Playbooks</h1>
+          <p className="text-gray-400 mt-2">
+            Once the persona works out what kind of scam it&apos;s dealing with, it&apos;s given that
+            scam&apos;s playbook on top of its own instructions. See how each playbook is doing on
+            the{' '}
+            <Link href="/stats" className="text-blue-400 hover:text-blue-300">
+              stats page
+            </Link>
+            .
+          </p>
+        </div>
+
+        {/* Status message */}
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-lg ${
+              message.type === 'success'
+                ? 'bg-green-900/50 border border-green-500 text-green-300'
+                : 'bg-red-900/50 border border-red-500 text-red-300'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Playbook list */}
+        <div className="space-y-6">
+          {playbooks.map((playbook) => {
+            const draft = drafts[playbook.scamType] ?? playbook.instructions;
+            const changed = draft.trim() !== playbook.instructions;
+
+            return (
+              <div
+                key={playbook.scamType}
+                className={`bg-gray-800 rounded-lg p-6 ${playbook.isEnabled ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-center justify-between gap-4 mb-3">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="text-sm px-2 py-0.5 rounded-full"
+                      style={{
+                        backgroundColor: `${getScamTypeColor(playbook.scamType)}33`,
+                        color: getScamTypeColor(playbook.scamType),
+                      }}
+                    >
+                      {getScamTypeLabel(playbook.scamType)}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {playbook.isBuiltIn ? 'Built-in' : 'Edited'}
+                    </span>
+                  </div>
+                  <button
+                    onClick={() =>
+                      updatePlaybook(
+                        playbook,
+                        { isEnabled: !playbook.isEnabled },
+                        playbook.isEnabled ? 'Playbook turned off' : 'Playbook turned on'
+                      )
+                    }
+                    disabled={saving}
+                    className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                  >
+                    {playbook.isEnabled ? 'Disable' : 'Enable'}
+                  </button>
+                </div>
+                <textarea
+                  value={draft}
+                  onChange={(e) =>
+                    setDrafts((prev) => ({ ...prev, [playbook.scamType]: e.target.value }))
+                  }
+                  rows={4}
+                  maxLength={4000}
+                  disabled={saving}
+                  className="w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm"
+                />
+                <div className="flex items-center gap-3 mt-3">
+                  <button
+                    onClick={() => updatePlaybook(playbook, { instructions: draft }, 'Playbook saved')}
+                    disabled={saving || !changed || !draft.trim()}
+                    className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-lg text-sm font-medium transition disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  {!playbook.isBuiltIn && (
+                    <button
+                      onClick={() => resetPlaybook(playbook)}
+                      disabled={saving}
+                      className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Reset to built-in
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
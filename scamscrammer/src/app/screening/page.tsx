@@ -0,0 +1,363 @@
+'use client';
+
+/**
+ * Call Screening Page
+ *
+ * Manage the caller rules that run before the AI answers: forward trusted
+ * numbers to a real phone, reject known nuisance numbers, or pick the
+ * persona that engages a particular caller. Callers without a matching
+ * rule are engaged as usual.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { CallerRuleResponse, PersonaResponse } from '@/types';
+
+type MatchType = CallerRuleResponse['matchType'];
+type Action = CallerRuleResponse['action'];
+
+const MATCH_TYPE_LABELS: Record<MatchType, string> = {
+  EXACT: 'Exact number',
+  PREFIX: 'Starts with',
+  PATTERN: 'Pattern',
+};
+
+const MATCH_TYPE_PLACEHOLDERS: Record<MatchType, string> = {
+  EXACT: '+15551234567',
+  PREFIX: '+1900',
+  PATTERN: '+1555???0000',
+};
+
+const ACTION_LABELS: Record<Action, string> = {
+  ENGAGE: 'Engage with persona',
+  FORWARD: 'Forward to real phone',
+  REJECT: 'Reject',
+};
+
+const ACTION_STYLES: Record<Action, string> = {
+  ENGAGE: 'bg-purple-900 text-purple-300',
+  FORWARD: 'bg-green-900 text-green-300',
+  REJECT: 'bg-red-900 text-red-300',
+};
+
+/**
+ * New rule form state
+ */
+interface RuleForm {
+  matchType: MatchType;
+  value: string;
+  action: Action;
+  persona: string;
+  forwardTo: string;
+  label: string;
+}
+
+const EMPTY_FORM: RuleForm = {
+  matchType: 'EXACT',
+  value: '',
+  action: 'FORWARD',
+  persona: '',
+  forwardTo: '',
+  label: '',
+};
+
+export default function ScreeningPage() {
+  const [rules, setRules] = useState<CallerRuleResponse[]>([]);
+  const [personas, setPersonas] = useState<PersonaResponse[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const [rulesRes, personasRes] = await Promise.all([
+        fetch('/api/caller-rules'),
+        fetch('/api/personas'),
+      ]);
+      if (rulesRes.ok) {
+        const data = await rulesRes.json();
+        setRules(data.rules);
+      }
+      if (personasRes.ok) {
+        const data = await personasRes.json();
+        setPersonas(data.personas);
+      }
+    } catch (error) {
+      console.error('Failed to load caller rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const updateField = (field: keyof RuleForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+      setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const createRule = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/caller-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...form, persona: form.persona || null }),
+      });
+      const data = await res.json();
+
+      if (res.ok) {
+        await loadRules();
+        setForm(EMPTY_FORM);
+        setMessage({ type: 'success', text: 'Rule added' });
+        setTimeout(() => setMessage(null), 3000);
+      } else {
+        setMessage({ type: 'error', text: data.error || 'Failed to add rule' });
+      }
+    } catch (error) {
+      console.error('Failed to add rule:', error);
+      setMessage({ type: 'error', text: 'Failed to add rule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: CallerRuleResponse) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/caller-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isEnabled: !rule.isEnabled }),
+      });
+      if (res.ok) {
+        await loadRules();
+      } else {
+        const error = await res.json();
+        setMessage({ type: 'error', text: error.error || 'Failed to update rule' });
+      }
+    } catch (error) {
+      console.error('Failed to update rule:', error);
+      setMessage({ type: 'error', text: 'Failed to update rule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (rule: CallerRuleResponse) => {
+    if (!confirm(`Delete the rule for ${rule.value}?`)) {
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/caller-rules/${rule.id}`, { method: 'DELETE' });
+      if (res.ok) {
+        await loadRules();
+      } else {
+        const error = await res.json();
+        setMessage({ type: 'error', text: error.error || 'Failed to delete rule' });
+      }
+    } catch (error) {
+      console.error('Failed to delete rule:', error);
+      setMessage({ type: 'error', text: 'Failed to delete rule' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const personaName = (id: string) => personas.find((p) => p.id === id)?.name ?? id;
+
+  const inputClass = 'w-full bg-gray-700 border border-gray-600 rounded px-3 py-2 text-sm';
+  const labelClass = 'block text-sm font-medium text-gray-300 mb-1';
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white p-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-700 rounded w-1/3 mb-8"></div>
+            <div className="h-96 bg-gray-800 rounded-lg"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-8">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="mb-8">
+          <Link
+            href="/settings"
+            className="text-gray-400 hover:text-white text-sm mb-4 inline-flex items-center gap-2"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+            Back to Settings
+          </Link>
+          <h1 className="text-3xl font-bold mt-2">Call Screening</h1>
+          <p className="text-gray-400 mt-2">
+            Decide what happens to a caller before the AI answers. Exact numbers take precedence
+            over prefixes (longest first), which take precedence over patterns. Callers without a
+            matching rule are engaged as usual.
+          </p>
+        </div>
+
+        {/* Status message */}
+        {message && (
+          <div
+            className={`mb-6 p-4 rounded-lg ${
+              message.type === 'success'
+                ? 'bg-green-900/50 border border-green-500 text-green-300'
+                : 'bg-red-900/50 border border-red-500 text-red-300'
+            }`}
+          >
+            {message.text}
+          </div>
+        )}
+
+        {/* Rule list */}
+        <div className="bg-gray-800 rounded-lg p-6 mb-8">
+          <h2 className="text-xl font-semibold mb-4">Rules</h2>
+          {rules.length === 0 ? (
+            <p className="text-gray-400">No rules yet. Every caller is engaged by a persona.</p>
+          ) : (
+            <ul className="divide-y divide-gray-700">
+              {rules.map((rule) => (
+                <li
+                  key={rule.id}
+                  className={`py-3 flex items-center justify-between gap-4 ${rule.isEnabled ? '' : 'opacity-50'}`}
+                >
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono">{rule.value}</span>
+                      <span className="text-xs text-gray-500">{MATCH_TYPE_LABELS[rule.matchType]}</span>
+                      {rule.label && <span className="text-sm text-gray-300">{rule.label}</span>}
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 text-sm">
+                      <span className={`text-xs px-2 py-0.5 rounded-full ${ACTION_STYLES[rule.action]}`}>
+                        {ACTION_LABELS[rule.action]}
+                      </span>
+                      {rule.action === 'FORWARD' && rule.forwardTo && (
+                        <span className="text-gray-400 font-mono">{rule.forwardTo}</span>
+                      )}
+                      {rule.action === 'ENGAGE' && (
+                        <span className="text-gray-400">
+                          {rule.persona ? personaName(rule.persona) : 'Default persona'}
+                        </span>
+                      )}
+                      <span className="text-gray-500">{rule._count.calls} calls</span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={() => toggleRule(rule)}
+                      disabled={saving}
+                      className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50"
+                    >
+                      {rule.isEnabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      onClick={() => deleteRule(rule)}
+                      disabled={saving}
+                      className="text-sm text-red-400 hover:text-red-300 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* New rule */}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            createRule();
+          }}
+          className="bg-gray-800 rounded-lg p-6"
+        >
+          <h2 className="text-xl font-semibold mb-4">Add Rule</h2>
+          <fieldset disabled={saving} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Match</label>
+              <select value={form.matchType} onChange={updateField('matchType')} className={inputClass}>
+                {(Object.keys(MATCH_TYPE_LABELS) as MatchType[]).map((matchType) => (
+                  <option key={matchType} value={matchType}>{MATCH_TYPE_LABELS[matchType]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Number</label>
+              <input
+                value={form.value}
+                onChange={updateField('value')}
+                placeholder={MATCH_TYPE_PLACEHOLDERS[form.matchType]}
+                className={`${inputClass} font-mono`}
+                required
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Action</label>
+              <select value={form.action} onChange={updateField('action')} className={inputClass}>
+                {(Object.keys(ACTION_LABELS) as Action[]).map((action) => (
+                  <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                ))}
+              </select>
+            </div>
+            {form.action === 'FORWARD' && (
+              <div>
+                <label className={labelClass}>Forward To</label>
+                <input
+                  value={form.forwardTo}
+                  onChange={updateField('forwardTo')}
+                  placeholder="+15551234567"
+                  className={`${inputClass} font-mono`}
+                  required
+                />
+              </div>
+            )}
+            {form.action === 'ENGAGE' && (
+              <div>
+                <label className={labelClass}>Persona</label>
+                <select value={form.persona} onChange={updateField('persona')} className={inputClass}>
+                  <option value="">Default selection</option>
+                  {personas.map((persona) => (
+                    <option key={persona.id} value={persona.id}>{persona.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            <div className="md:col-span-2">
+              <label className={labelClass}>Label</label>
+              <input
+                value={form.label}
+                onChange={updateField('label')}
+                placeholder="e.g. Mom, or Known robocaller"
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <button
+                type="submit"
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium transition disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Add Rule'}
+              </button>
+            </div>
+          </fieldset>
+        </form>
+      </div>
+    </div>
+  );
+}
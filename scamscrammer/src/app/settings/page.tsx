@@ -9,56 +9,80 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { getAllPersonas, PersonaType, PersonaConfig } from '@/lib/personas';
+import {
+  getAllPersonas,
+  PersonaType,
+  PersonaConfig,
+  BuiltInPersonaType,
+  MemoryConfig,
+  DEFAULT_MEMORY_CONFIG,
+} from '@/lib/personas';
 
 interface PersonaSettings {
   enabledPersonas: PersonaType[];
   selectionMode: 'random' | 'round_robin' | 'fixed';
   fixedPersona?: PersonaType;
+  rememberRepeatCallers?: boolean;
+  personaMemory?: Record<string, MemoryConfig>;
 }
 
 const DEFAULT_SETTINGS: PersonaSettings = {
   enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
   selectionMode: 'random',
+  rememberRepeatCallers: true,
 };
 
-const PERSONA_EMOJIS: Record<PersonaType, string> = {
+const PERSONA_EMOJIS: Record<BuiltInPersonaType, string> = {
   earl: '👴',
   gladys: '👵',
   kevin: '🧔',
   brenda: '💁',
 };
 
-const PERSONA_COLORS: Record<PersonaType, string> = {
+const PERSONA_COLORS: Record<BuiltInPersonaType, string> = {
   earl: 'border-orange-500 bg-orange-500/10',
   gladys: 'border-purple-500 bg-purple-500/10',
   kevin: 'border-green-500 bg-green-500/10',
   brenda: 'border-pink-500 bg-pink-500/10',
 };
 
-const PERSONA_TEXT_COLORS: Record<PersonaType, string> = {
+const PERSONA_TEXT_COLORS: Record<BuiltInPersonaType, string> = {
   earl: 'text-orange-400',
   gladys: 'text-purple-400',
   kevin: 'text-green-400',
   brenda: 'text-pink-400',
 };
 
+// Custom personas share a neutral style
+const personaEmoji = (id: PersonaType) => PERSONA_EMOJIS[id as BuiltInPersonaType] ?? '🎭';
+const personaColor = (id: PersonaType) =>
+  PERSONA_COLORS[id as BuiltInPersonaType] ?? 'border-blue-500 bg-blue-500/10';
+const personaTextColor = (id: PersonaType) =>
+  PERSONA_TEXT_COLORS[id as BuiltInPersonaType] ?? 'text-blue-400';
+
 export default function SettingsPage() {
   const [settings, setSettings] = useState<PersonaSettings>(DEFAULT_SETTINGS);
-  const [personas] = useState<PersonaConfig[]>(getAllPersonas());
+  const [personas, setPersonas] = useState<PersonaConfig[]>(getAllPersonas());
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
-  // Load settings on mount
+  // Load settings and the persona list (including custom personas) on mount
   useEffect(() => {
     async function loadSettings() {
       try {
-        const res = await fetch('/api/settings');
-        if (res.ok) {
-          const data = await res.json();
+        const [settingsRes, personasRes] = await Promise.all([
+          fetch('/api/settings'),
+          fetch('/api/personas'),
+        ]);
+        if (settingsRes.ok) {
+          const data = await settingsRes.json();
           setSettings(data);
         }
+        if (personasRes.ok) {
+          const data = await personasRes.json();
+          setPersonas(data.personas);
+        }
       } catch (error) {
         console.error('Failed to load settings:', error);
       } finally {
@@ -137,6 +161,18 @@ export default function SettingsPage() {
     saveSettings(newSettings);
   };
 
+  // Turn a persona's memory of earlier conversations on or off
+  const toggleMemory = (persona: PersonaConfig) => {
+    const memoryConfig = settings.personaMemory?.[persona.id] ?? persona.memoryConfig ?? DEFAULT_MEMORY_CONFIG;
+    saveSettings({
+      ...settings,
+      personaMemory: {
+        ...settings.personaMemory,
+        [persona.id]: { ...memoryConfig, enabled: !memoryConfig.enabled },
+      },
+    });
+  };
+
   // Change fixed persona
   const changeFixedPersona = (personaId: PersonaType) => {
     saveSettings({ ...settings, fixedPersona: personaId });
@@ -198,6 +234,17 @@ export default function SettingsPage() {
             <span className="text-2xl">🎯</span>
             Selection Mode
           </h2>
+          <p className="text-gray-400 text-sm mb-4">
+            Calls matched by a{' '}
+            <Link href="/screening" className="text-blue-400 hover:text-blue-300">
+              call screening rule
+            </Link>{' '}
+            or assigned to a running{' '}
+            <Link href="/experiments" className="text-blue-400 hover:text-blue-300">
+              experiment
+            </Link>{' '}
+            skip these settings.
+          </p>
           <div className="bg-gray-800 rounded-lg p-6">
             <div className="space-y-4">
               <label className="flex items-start gap-4 p-4 rounded-lg bg-gray-700/50 cursor-pointer hover:bg-gray-700 transition">
@@ -262,7 +309,7 @@ export default function SettingsPage() {
                         const persona = personas.find(p => p.id === personaId);
                         return (
                           <option key={personaId} value={personaId}>
-                            {PERSONA_EMOJIS[personaId]} {persona?.name || personaId}
+                            {personaEmoji(personaId)} {persona?.name || personaId}
                           </option>
                         );
                       })}
@@ -274,6 +321,35 @@ export default function SettingsPage() {
           </div>
         </section>
 
+        {/* Repeat Callers */}
+        <section className="mb-10">
+          <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+            <span className="text-2xl">🔁</span>
+            Repeat Callers
+          </h2>
+          <div className="bg-gray-800 rounded-lg p-6">
+            <label className="flex items-start gap-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.rememberRepeatCallers ?? true}
+                onChange={(e) => saveSettings({ ...settings, rememberRepeatCallers: e.target.checked })}
+                className="mt-1 w-5 h-5 text-blue-500"
+                disabled={saving}
+              />
+              <div>
+                <div className="font-medium">Remember repeat callers</div>
+                <div className="text-sm text-gray-400">
+                  When someone calls again, answer with the enabled persona that kept them on the
+                  line longest and remind it of the previous calls.{' '}
+                  <Link href="/callers" className="text-blue-400 hover:text-blue-300">
+                    View callers
+                  </Link>
+                </div>
+              </div>
+            </label>
+          </div>
+        </section>
+
         {/* Active Personas */}
         <section className="mb-10">
           <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
@@ -281,7 +357,15 @@ export default function SettingsPage() {
             Active Personas
           </h2>
           <p className="text-gray-400 text-sm mb-4">
-            Toggle personas on/off. At least one must be enabled.
+            Toggle personas on/off. At least one must be enabled.{' '}
+            <Link href="/personas" className="text-blue-400 hover:text-blue-300">
+              Create or edit custom personas
+            </Link>
+            , or{' '}
+            <Link href="/playbooks" className="text-blue-400 hover:text-blue-300">
+              edit the counter-playbooks
+            </Link>{' '}
+            they&apos;re given for each type of scam.
           </p>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {personas.map(persona => {
@@ -291,15 +375,15 @@ export default function SettingsPage() {
                   key={persona.id}
                   className={`rounded-lg border-2 p-5 transition-all ${
                     isEnabled
-                      ? PERSONA_COLORS[persona.id]
+                      ? personaColor(persona.id)
                       : 'border-gray-700 bg-gray-800/50 opacity-60'
                   }`}
                 >
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex items-center gap-3">
-                      <span className="text-4xl">{PERSONA_EMOJIS[persona.id]}</span>
+                      <span className="text-4xl">{personaEmoji(persona.id)}</span>
                       <div>
-                        <h3 className={`font-bold text-lg ${isEnabled ? PERSONA_TEXT_COLORS[persona.id] : 'text-gray-400'}`}>
+                        <h3 className={`font-bold text-lg ${isEnabled ? personaTextColor(persona.id) : 'text-gray-400'}`}>
                           {persona.name}
                         </h3>
                         <p className="text-sm text-gray-400">{persona.age} years old</p>
@@ -321,6 +405,19 @@ export default function SettingsPage() {
                   </div>
                   <p className="text-sm text-gray-300 mb-3">{persona.background}</p>
                   <p className="text-xs text-gray-500 italic">{persona.personality}</p>
+                  <label className="flex items-center gap-2 mt-3 text-sm text-gray-300 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={
+                        (settings.personaMemory?.[persona.id] ?? persona.memoryConfig ?? DEFAULT_MEMORY_CONFIG)
+                          .enabled
+                      }
+                      onChange={() => toggleMemory(persona)}
+                      className="w-4 h-4 text-blue-500"
+                      disabled={saving}
+                    />
+                    Remember earlier conversations with the caller
+                  </label>
                 </div>
               );
             })}
@@ -340,9 +437,9 @@ export default function SettingsPage() {
                 className="bg-gray-800 rounded-lg p-6 border border-gray-700"
               >
                 <div className="flex items-center gap-3 mb-4">
-                  <span className="text-3xl">{PERSONA_EMOJIS[persona.id]}</span>
+                  <span className="text-3xl">{personaEmoji(persona.id)}</span>
                   <div>
-                    <h3 className={`font-bold ${PERSONA_TEXT_COLORS[persona.id]}`}>
+                    <h3 className={`font-bold ${personaTextColor(persona.id)}`}>
                       {persona.fullName}
                     </h3>
                     <p className="text-sm text-gray-400">
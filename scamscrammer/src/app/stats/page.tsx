@@ -7,6 +7,9 @@
  * - Total time wasted (hero stat with animated counter)
  * - Leaderboards for longest calls, highest rated, best persona
  * - Charts showing call trends, persona breakdown, peak hours
+ * - Persona A/B experiment results with confidence intervals
+ * - Counter-playbook results per scam type, with and without the playbook
+ * - Call quality: how quickly personas reply and how clean the line is
  * - Fun stats like scammer salary wasted
  */
 
@@ -26,6 +29,9 @@ import {
   LineChart,
   Line,
 } from 'recharts';
+import type { Estimate } from '@/lib/experiments';
+import { getScamTypeColor, getScamTypeLabel } from '@/lib/tagging';
+import type { CallQualityStats, ExperimentStats, PlaybookStats } from '@/types';
 
 interface DashboardStats {
   totalCalls: number;
@@ -33,6 +39,7 @@ interface DashboardStats {
   averageDuration: number;
   callsByStatus: Record<string, number>;
   callsByDay: Array<{ date: string; count: number }>;
+  callQuality?: CallQualityStats;
 }
 
 interface LeaderboardData {
@@ -110,6 +117,25 @@ function formatDuration(seconds: number): string {
   return `${secs}s`;
 }
 
+/**
+ * Format an estimate as "value (lower–upper)", or a dash when there's no data
+ */
+function formatEstimate(
+  estimate: Estimate | null,
+  format: (value: number) => string
+): string {
+  if (!estimate) return '-';
+  return `${format(estimate.value)} (${format(estimate.lower)}–${format(estimate.upper)})`;
+}
+
+/**
+ * Format milliseconds as seconds, or a dash when there's no data
+ */
+function formatMs(ms: number | null | undefined): string {
+  if (ms === null || ms === undefined) return '-';
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
 function formatDurationShort(seconds: number): string {
   const hours = Math.floor(seconds / 3600);
   const minutes = Math.floor((seconds % 3600) / 60);
@@ -153,14 +179,18 @@ function AnimatedCounter({ value, suffix = '' }: { value: number; suffix?: strin
 export default function StatsPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardData | null>(null);
+  const [experiments, setExperiments] = useState<ExperimentStats[]>([]);
+  const [playbookStats, setPlaybookStats] = useState<PlaybookStats[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     async function fetchData() {
       try {
-        const [statsRes, leaderboardRes] = await Promise.all([
+        const [statsRes, leaderboardRes, experimentsRes, playbooksRes] = await Promise.all([
           fetch('/api/stats'),
           fetch('/api/stats/leaderboard'),
+          fetch('/api/stats/experiments'),
+          fetch('/api/stats/playbooks'),
         ]);
 
         if (statsRes.ok) {
@@ -172,6 +202,21 @@ export default function StatsPage() {
           const leaderboardData = await leaderboardRes.json();
           setLeaderboard(leaderboardData);
         }
+
+        if (experimentsRes.ok) {
+          const experimentsData = await experimentsRes.json();
+          setExperiments(experimentsData.experiments);
+        }
+
+        if (playbooksRes.ok) {
+          const playbooksData = await playbooksRes.json();
+          // Only scam types that have come up
+          setPlaybookStats(
+            playbooksData.playbooks.filter(
+              (stats: PlaybookStats) => stats.withPlaybook.totalCalls + stats.withoutPlaybook.totalCalls > 0
+            )
+          );
+        }
       } catch (error) {
         console.error('Failed to fetch stats:', error);
       } finally {
@@ -599,6 +644,188 @@ export default function StatsPage() {
           </div>
         </div>
 
+        {/* Call Quality */}
+        {stats?.callQuality && stats.callQuality.callsMeasured > 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-8">
+            <h3 className="font-semibold mb-4 flex items-center gap-2">
+              <span className="text-xl">📶</span>
+              Call Quality
+              <span className="text-sm text-gray-400 font-normal">
+                ({stats.callQuality.callsMeasured} calls measured)
+              </span>
+            </h3>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              <div>
+                <div className="text-2xl font-bold text-cyan-400">
+                  {formatMs(stats.callQuality.avgResponseLatencyMs)}
+                </div>
+                <div className="text-gray-400 text-sm">Avg Reply Latency</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-cyan-400">
+                  {formatMs(stats.callQuality.p95ResponseLatencyMs)}
+                </div>
+                <div className="text-gray-400 text-sm">p95 Reply Latency</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-purple-400">
+                  {formatMs(stats.callQuality.avgResponseDurationMs)}
+                </div>
+                <div className="text-gray-400 text-sm">Avg Reply Length</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-orange-400">
+                  {stats.callQuality.interruptionsPerMinute?.toFixed(1) ?? '-'}
+                </div>
+                <div className="text-gray-400 text-sm">Interruptions / min</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold text-yellow-400">
+                  {stats.callQuality.mediaGapsPerThousandChunks?.toFixed(2) ?? '-'}
+                </div>
+                <div className="text-gray-400 text-sm">
+                  Audio Gaps / 1k chunks ({stats.callQuality.outOfOrderChunks} out of order)
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Persona Experiments */}
+        {experiments.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold flex items-center gap-2">
+                <span className="text-xl">🧪</span>
+                Persona Experiments
+              </h3>
+              <Link href="/experiments" className="text-sm text-purple-400 hover:text-purple-300">
+                Manage experiments
+              </Link>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              Completed calls only. Ranges are 95% confidence intervals; hang-ups are calls under 30 seconds.
+            </p>
+            <div className="space-y-6">
+              {experiments.map((experiment) => (
+                <div key={experiment.id}>
+                  <div className="flex items-center gap-2 mb-2">
+                    <span className="font-medium">{experiment.name}</span>
+                    {experiment.isActive && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-900 text-green-300">
+                        Running
+                      </span>
+                    )}
+                  </div>
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-left">
+                      <thead>
+                        <tr className="border-b border-gray-700">
+                          <th className="pb-3 text-gray-400 font-medium">Variant</th>
+                          <th className="pb-3 text-gray-400 font-medium text-right">Calls</th>
+                          <th className="pb-3 text-gray-400 font-medium text-right">Avg Duration</th>
+                          <th className="pb-3 text-gray-400 font-medium text-right">Avg Rating</th>
+                          <th className="pb-3 text-gray-400 font-medium text-right">Hang-up Rate</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {experiment.variants.map((variant) => (
+                          <tr key={variant.variantId} className="border-b border-gray-700/50">
+                            <td className="py-3">
+                              <div className="flex items-center gap-2">
+                                <span className="text-2xl">{PERSONA_EMOJIS[variant.persona] || '🎭'}</span>
+                                <span className="font-medium">{variant.name}</span>
+                                <span
+                                  className="text-sm"
+                                  style={{ color: PERSONA_COLORS[variant.persona] || '#6B7280' }}
+                                >
+                                  {PERSONA_NAMES[variant.persona] || variant.persona}
+                                </span>
+                              </div>
+                            </td>
+                            <td className="py-3 text-right">{variant.totalCalls}</td>
+                            <td className="py-3 text-right">
+                              {formatEstimate(variant.duration, (v) => formatDuration(Math.max(0, Math.round(v))))}
+                            </td>
+                            <td className="py-3 text-right">
+                              {formatEstimate(variant.rating, (v) => v.toFixed(1))}
+                            </td>
+                            <td className="py-3 text-right">
+                              {formatEstimate(variant.hangUpRate, (v) => `${Math.round(v * 100)}%`)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Counter-Playbooks */}
+        {playbookStats.length > 0 && (
+          <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-semibold flex items-center gap-2">
+                <span className="text-xl">📖</span>
+                Counter-Playbooks
+              </h3>
+              <Link href="/playbooks" className="text-sm text-purple-400 hover:text-purple-300">
+                Edit playbooks
+              </Link>
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              Completed calls of each scam type where the persona had its playbook, against calls tagged
+              with it that didn&apos;t. Ranges are 95% confidence intervals; hang-ups are calls under 30 seconds.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="pb-3 text-gray-400 font-medium">Scam Type</th>
+                    <th className="pb-3 text-gray-400 font-medium">Playbook</th>
+                    <th className="pb-3 text-gray-400 font-medium text-right">Calls</th>
+                    <th className="pb-3 text-gray-400 font-medium text-right">Avg Duration</th>
+                    <th className="pb-3 text-gray-400 font-medium text-right">Avg Rating</th>
+                    <th className="pb-3 text-gray-400 font-medium text-right">Hang-up Rate</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {playbookStats.flatMap((stats) =>
+                    [
+                      { label: 'With', outcomes: stats.withPlaybook },
+                      { label: 'Without', outcomes: stats.withoutPlaybook },
+                    ].map(({ label, outcomes }, index) => (
+                      <tr key={`${stats.scamType}-${label}`} className="border-b border-gray-700/50">
+                        <td className="py-3">
+                          {index === 0 && (
+                            <span className="font-medium" style={{ color: getScamTypeColor(stats.scamType) }}>
+                              {getScamTypeLabel(stats.scamType)}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-3 text-gray-400">{label}</td>
+                        <td className="py-3 text-right">{outcomes.totalCalls}</td>
+                        <td className="py-3 text-right">
+                          {formatEstimate(outcomes.duration, (v) => formatDuration(Math.max(0, Math.round(v))))}
+                        </td>
+                        <td className="py-3 text-right">
+                          {formatEstimate(outcomes.rating, (v) => v.toFixed(1))}
+                        </td>
+                        <td className="py-3 text-right">
+                          {formatEstimate(outcomes.hangUpRate, (v) => `${Math.round(v * 100)}%`)}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Fun Facts Footer */}
         <div className="bg-gradient-to-r from-gray-800 to-gray-800/50 rounded-lg p-6 border border-gray-700 text-center">
           <h3 className="font-semibold mb-4">Fun Facts</h3>
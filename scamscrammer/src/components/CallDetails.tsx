@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import type { CallResponse } from '@/types';
+import { getScamStageLabel, ScamStage } from '@/lib/scam-stage';
+import { getScamTypeLabel, ScamType } from '@/lib/tagging';
 
 interface CallDetailsProps {
   call: CallResponse;
@@ -18,6 +20,17 @@ function formatDuration(seconds: number | null): string {
   return `${secs}s`;
 }
 
+function formatLatency(ms: number | null): string {
+  if (ms === null) return 'N/A';
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatTimestamp(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
 function formatPhoneNumber(phone: string): string {
   // Format US phone numbers as (XXX) XXX-XXXX
   const cleaned = phone.replace(/\D/g, '');
@@ -104,6 +117,14 @@ export default function CallDetails({ call, onUpdate }: CallDetailsProps) {
     }
   };
 
+  // The stages the scam went through, in order
+  const scamStages = (call.events ?? [])
+    .filter((event) => event.type === 'SCAM_STAGE')
+    .map((event) => ({
+      stage: (event.data as { stage: ScamStage }).stage,
+      timestamp: event.timestamp,
+    }));
+
   const showSavedMessage = () => {
     setShowSaved(true);
     setTimeout(() => setShowSaved(false), 2000);
@@ -156,8 +177,96 @@ export default function CallDetails({ call, onUpdate }: CallDetailsProps) {
             })}
           </p>
         </div>
+        {call.screeningAction && call.screeningAction !== 'ENGAGE' && (
+          <div>
+            <label className="text-xs text-gray-400 uppercase tracking-wider">Screening</label>
+            <p className="text-white font-medium">
+              {call.screeningAction === 'FORWARD' ? 'Forwarded to real phone' : 'Rejected'}
+            </p>
+          </div>
+        )}
+        {call.usedFallback && (
+          <div>
+            <label className="text-xs text-gray-400 uppercase tracking-wider">Voice</label>
+            <p className="text-white font-medium">Scripted fallback (AI voice unavailable)</p>
+          </div>
+        )}
+        {call.ivrPath && (
+          <div>
+            <label className="text-xs text-gray-400 uppercase tracking-wider">Robocall Menu</label>
+            <p className="text-white font-medium">Pressed {call.ivrPath.split('').join(' → ')}</p>
+          </div>
+        )}
+        {call.playbook && (
+          <div>
+            <label className="text-xs text-gray-400 uppercase tracking-wider">Playbook</label>
+            <p className="text-white font-medium">{getScamTypeLabel(call.playbook as ScamType)}</p>
+          </div>
+        )}
       </div>
 
+      {/* Scam stage timeline */}
+      {scamStages.length > 0 && (
+        <div className="mb-6">
+          <label className="text-xs text-gray-400 uppercase tracking-wider block mb-2">
+            Scam Stages
+          </label>
+          <ol className="flex flex-wrap items-center gap-2">
+            {scamStages.map(({ stage, timestamp }, index) => (
+              <li key={`${stage}-${timestamp}`} className="flex items-center gap-2">
+                {index > 0 && <span className="text-gray-500">→</span>}
+                <span className="px-2 py-1 bg-gray-700 rounded text-sm text-white">
+                  {getScamStageLabel(stage)}
+                  <span className="text-gray-400"> {formatTimestamp(timestamp)}</span>
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Call quality */}
+      {call.metrics && (
+        <div className="mb-6">
+          <label className="text-xs text-gray-400 uppercase tracking-wider block mb-2">
+            Call Quality
+          </label>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-gray-400">Reply Latency</p>
+              <p className="text-white font-medium">
+                {formatLatency(call.metrics.avgResponseLatencyMs)}
+                <span className="text-gray-400 text-sm"> (p95 {formatLatency(call.metrics.p95ResponseLatencyMs)})</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400">Avg Reply Length</p>
+              <p className="text-white font-medium">
+                {formatLatency(call.metrics.avgResponseDurationMs)} over {call.metrics.responseCount} replies
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400">Interruptions</p>
+              <p className="text-white font-medium">
+                {call.metrics.interruptions} ({call.metrics.interruptionsPerMinute.toFixed(1)}/min)
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400">Line Quality</p>
+              <p className={`font-medium ${call.metrics.mediaGaps || call.metrics.outOfOrderChunks ? 'text-yellow-400' : 'text-white'}`}>
+                {call.metrics.mediaGaps} gaps, {call.metrics.outOfOrderChunks} out of order
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-gray-400">Pauses</p>
+              <p className="text-white font-medium">
+                {call.metrics.pauses} ({formatLatency(call.metrics.totalPauseMs)} in total)
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Rating */}
       <div className="mb-6">
         <label className="text-xs text-gray-400 uppercase tracking-wider block mb-2">
@@ -5,8 +5,12 @@ import { useRef, useEffect } from 'react';
 interface Segment {
   id: string;
   speaker: string;
+  /** Display name of the scammer, persona or system */
+  speakerName: string;
   text: string;
+  /** Seconds into the call */
   timestamp: number;
+  endTimestamp?: number | null;
 }
 
 interface TranscriptViewerProps {
@@ -15,6 +19,13 @@ interface TranscriptViewerProps {
   onSegmentClick?: (timestamp: number) => void;
 }
 
+/** Avatar and name styling per speaker (legacy EARL segments use PERSONA) */
+const SPEAKER_STYLES: Record<string, { icon: string; avatar: string; name: string }> = {
+  SCAMMER: { icon: '🦹', avatar: 'bg-red-600 text-white', name: 'text-red-400' },
+  PERSONA: { icon: '👴', avatar: 'bg-green-600 text-white', name: 'text-green-400' },
+  SYSTEM: { icon: '📢', avatar: 'bg-gray-600 text-white', name: 'text-gray-400' },
+};
+
 function formatTimestamp(seconds: number): string {
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
@@ -29,13 +40,12 @@ export default function TranscriptViewer({
   const containerRef = useRef<HTMLDivElement>(null);
   const activeSegmentRef = useRef<HTMLDivElement>(null);
 
-  // Find the current active segment based on playback time
+  // Find the current active segment based on playback time. Segments
+  // saved without an end time stay active until the next one starts.
   const activeSegmentIndex = segments.findIndex((segment, index) => {
     const nextSegment = segments[index + 1];
-    return (
-      currentTime >= segment.timestamp &&
-      (nextSegment ? currentTime < nextSegment.timestamp : true)
-    );
+    const end = segment.endTimestamp ?? nextSegment?.timestamp ?? Infinity;
+    return currentTime >= segment.timestamp && currentTime < end;
   });
 
   // Auto-scroll to active segment
@@ -74,7 +84,7 @@ export default function TranscriptViewer({
       </h3>
       <div className="space-y-3">
         {segments.map((segment, index) => {
-          const isEarl = segment.speaker === 'EARL';
+          const style = SPEAKER_STYLES[segment.speaker] ?? SPEAKER_STYLES.PERSONA;
           const isActive = index === activeSegmentIndex;
 
           return (
@@ -91,19 +101,19 @@ export default function TranscriptViewer({
               <div
                 className={`
                   flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center text-sm font-bold
-                  ${isEarl ? 'bg-green-600 text-white' : 'bg-red-600 text-white'}
+                  ${style.avatar}
                 `}
               >
-                {isEarl ? '👴' : '🦹'}
+                {style.icon}
               </div>
 
               {/* Message content */}
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2 mb-1">
                   <span
-                    className={`font-medium ${isEarl ? 'text-green-400' : 'text-red-400'}`}
+                    className={`font-medium ${style.name}`}
                   >
-                    {isEarl ? 'Earl' : 'Scammer'}
+                    {segment.speakerName}
                   </span>
                   <span className="text-xs text-gray-500">
                     {formatTimestamp(segment.timestamp)}
@@ -38,6 +38,13 @@ const mockCalls: CallListItem[] = [
     isFeatured: false,
     persona: 'earl',
     title: null,
+    experimentVariantId: null,
+    screeningAction: null,
+    screeningRuleId: null,
+    callerId: null,
+    usedFallback: false,
+    ivrPath: null,
+    playbook: null,
     createdAt: new Date('2026-01-15T10:00:00Z'),
     updatedAt: new Date('2026-01-15T10:05:00Z'),
     _count: { segments: 10 },
@@ -58,6 +65,13 @@ const mockCalls: CallListItem[] = [
     isFeatured: false,
     persona: 'gladys',
     title: null,
+    experimentVariantId: null,
+    screeningAction: null,
+    screeningRuleId: null,
+    callerId: null,
+    usedFallback: false,
+    ivrPath: null,
+    playbook: null,
     createdAt: new Date('2026-01-14T10:00:00Z'),
     updatedAt: new Date('2026-01-14T10:10:00Z'),
     _count: { segments: 5 },
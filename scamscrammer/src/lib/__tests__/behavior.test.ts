@@ -0,0 +1,127 @@
+/**
+ * Tests for the Persona Behavior Engine
+ */
+
+import { BehaviorEngine, BehaviorEvent } from '../behavior';
+import { GLADYS_PERSONA, KEVIN_PERSONA } from '../personas';
+
+describe('BehaviorEngine', () => {
+  let events: BehaviorEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    events = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('getNudge', () => {
+    it('should mishear words the persona has mishearings for', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      const engine = new BehaviorEngine(GLADYS_PERSONA, (event) => events.push(event));
+
+      expect(engine.getNudge('Your Amazon account is suspended')).toContain(
+        'misheard "Amazon" as "Amazin"'
+      );
+      expect(events).toEqual([{ type: 'MISHEARING', data: { original: 'Amazon', misheard: 'Amazin' } }]);
+    });
+
+    it('should work through tangent topics when nothing is misheard', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      const engine = new BehaviorEngine(KEVIN_PERSONA, (event) => events.push(event));
+
+      expect(engine.getNudge('Please hold')).toContain(KEVIN_PERSONA.tangentTopics[0].subject);
+      expect(engine.getNudge('Please hold')).toContain(KEVIN_PERSONA.tangentTopics[1].subject);
+      expect(events.map((event) => event.type)).toEqual(['TANGENT', 'TANGENT']);
+    });
+
+    it('should do nothing when no behavior fires', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.99);
+      const engine = new BehaviorEngine(GLADYS_PERSONA, (event) => events.push(event));
+
+      expect(engine.getNudge('Your Amazon account is suspended')).toBeNull();
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('delayAudio', () => {
+    it('should add the hearing aid delay to the pause after a mishearing', async () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      const engine = new BehaviorEngine(GLADYS_PERSONA, (event) => events.push(event));
+      const send = jest.fn();
+
+      engine.getNudge('This is Microsoft');
+      engine.delayAudio('resp-1', send);
+      const idle = engine.whenIdle();
+
+      jest.advanceTimersByTime(2_299);
+      expect(send).not.toHaveBeenCalled();
+      jest.advanceTimersByTime(1);
+      expect(send).toHaveBeenCalledTimes(1);
+      await expect(idle).resolves.toBeUndefined();
+      expect(events[1]).toEqual({
+        type: 'PAUSE',
+        data: { responseId: 'resp-1', pauseMs: 2_300, hearingAidDelayMs: 1_500 },
+      });
+
+      // Only the reply to the mishearing waits for the hearing aid
+      engine.delayAudio('resp-2', send);
+      expect(events[2]).toEqual({ type: 'PAUSE', data: { responseId: 'resp-2', pauseMs: 800 } });
+    });
+
+    it('should discard audio that is dropped before its pause is over', () => {
+      const engine = new BehaviorEngine(GLADYS_PERSONA);
+      const send = jest.fn();
+
+      engine.delayAudio('resp-1', send);
+      engine.dropPendingAudio();
+      engine.delayAudio('resp-1', send);
+      jest.runAllTimers();
+
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeResponse', () => {
+    // Response IDs the engine is holding on to
+    const trackedResponses = (engine: BehaviorEngine) => {
+      const internals = engine as unknown as Record<string, Set<string>>;
+      return [
+        ...internals.releasedResponses,
+        ...internals.droppedResponses,
+        ...internals.completedResponses,
+      ];
+    };
+
+    it('should forget responses once they are done', () => {
+      const engine = new BehaviorEngine(GLADYS_PERSONA);
+      const send = jest.fn();
+
+      engine.delayAudio('resp-1', send);
+      jest.runAllTimers();
+      engine.delayAudio('resp-2', send);
+      engine.dropPendingAudio();
+      expect(trackedResponses(engine)).toEqual(['resp-1', 'resp-2']);
+
+      engine.completeResponse('resp-1');
+      engine.completeResponse('resp-2');
+
+      expect(trackedResponses(engine)).toEqual([]);
+    });
+
+    it('should still send audio held back when its response finishes', () => {
+      const engine = new BehaviorEngine(GLADYS_PERSONA);
+      const send = jest.fn();
+
+      engine.delayAudio('resp-1', send);
+      engine.completeResponse('resp-1');
+      jest.runAllTimers();
+
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(trackedResponses(engine)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for Call Metrics
+ */
+
+import { CallMetricsRecorder, MEDIA_GAP_MS } from '../call-metrics';
+
+// 100ms of μ-law audio
+const chunk = Buffer.alloc(800, 0xff).toString('base64');
+
+describe('CallMetricsRecorder', () => {
+  it('should time replies from the end of the scammer speaking', () => {
+    const recorder = new CallMetricsRecorder();
+
+    recorder.speechStopped(1_000);
+    recorder.audioSent('resp-1', chunk, 1_800);
+    recorder.audioSent('resp-1', chunk, 1_900);
+    recorder.speechStopped(5_000);
+    recorder.audioSent('resp-2', chunk, 7_000);
+
+    // Replies the scammer didn't prompt (e.g. checking in) aren't timed
+    recorder.audioSent('resp-3', chunk, 9_000);
+
+    expect(recorder.summarize(60_000)).toMatchObject({
+      responseCount: 3,
+      avgResponseLatencyMs: 1_400,
+      p95ResponseLatencyMs: 2_000,
+      avgResponseDurationMs: 400 / 3,
+    });
+  });
+
+  it('should count interruptions per minute', () => {
+    const recorder = new CallMetricsRecorder();
+    recorder.interrupted();
+    recorder.interrupted();
+    recorder.interrupted();
+
+    expect(recorder.summarize(120_000)).toMatchObject({ interruptions: 3, interruptionsPerMinute: 1.5 });
+  });
+
+  it('should find gaps and out-of-order chunks in the inbound media', () => {
+    const recorder = new CallMetricsRecorder();
+    recorder.mediaReceived('2', '0');
+    recorder.mediaReceived('3', '20');
+    recorder.mediaReceived('4', String(40 + MEDIA_GAP_MS - 1));
+    recorder.mediaReceived('6', '1000');
+    recorder.mediaReceived('5', '980');
+
+    expect(recorder.summarize(1_000)).toMatchObject({
+      mediaChunks: 5,
+      mediaGaps: 1,
+      maxMediaGapMs: 1000 - (40 + MEDIA_GAP_MS - 1) - 20,
+      outOfOrderChunks: 1,
+    });
+  });
+
+  it('should total the persona\'s pauses', () => {
+    const recorder = new CallMetricsRecorder();
+    recorder.paused(500);
+    recorder.paused(1_250);
+
+    expect(recorder.summarize(60_000)).toMatchObject({ pauses: 2, totalPauseMs: 1_750 });
+  });
+
+  it('should leave averages empty when there was nothing to measure', () => {
+    expect(new CallMetricsRecorder().summarize(0)).toEqual({
+      responseCount: 0,
+      avgResponseLatencyMs: null,
+      p95ResponseLatencyMs: null,
+      avgResponseDurationMs: null,
+      interruptions: 0,
+      interruptionsPerMinute: 0,
+      mediaChunks: 0,
+      mediaGaps: 0,
+      maxMediaGapMs: null,
+      outOfOrderChunks: 0,
+      pauses: 0,
+      totalPauseMs: 0,
+    });
+  });
+});
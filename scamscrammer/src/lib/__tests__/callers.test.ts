@@ -0,0 +1,259 @@
+/**
+ * Tests for Caller Profiles
+ */
+
+import {
+  buildCallerMemory,
+  buildCallerProfile,
+  CallerHistoryCall,
+  findBestPersona,
+  getCallerScamTypes,
+  loadConversationSummary,
+  recordCaller,
+  summarizeConversations,
+} from '../callers';
+import { ScamType } from '../tagging';
+import prisma from '../db';
+
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: {
+    caller: {
+      upsert: jest.fn(),
+    },
+    call: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+function call(overrides: Partial<CallerHistoryCall> = {}): CallerHistoryCall {
+  return {
+    id: 'call-1',
+    persona: 'earl',
+    status: 'COMPLETED',
+    duration: 120,
+    rating: null,
+    tags: [],
+    screeningAction: 'ENGAGE',
+    createdAt: new Date('2026-03-01T12:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Caller Profiles', () => {
+  describe('recordCaller', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    it('should upsert the caller and bump when they were last seen', async () => {
+      (prisma.caller.upsert as jest.Mock).mockResolvedValue({ id: 'caller-1' });
+
+      await expect(recordCaller('+15551234567')).resolves.toEqual({ id: 'caller-1' });
+      expect(prisma.caller.upsert).toHaveBeenCalledWith({
+        where: { phoneNumber: '+15551234567' },
+        create: {
+          phoneNumber: '+15551234567',
+          firstSeenAt: expect.any(Date),
+          lastSeenAt: expect.any(Date),
+        },
+        update: { lastSeenAt: expect.any(Date) },
+      });
+    });
+
+    it('should skip withheld and malformed numbers', async () => {
+      await expect(recordCaller('+266696687')).resolves.toBeNull();
+      await expect(recordCaller('Anonymous')).resolves.toBeNull();
+      expect(prisma.caller.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findBestPersona', () => {
+    it('should pick the persona with the longest average completed call', () => {
+      const calls = [
+        call({ persona: 'earl', duration: 100 }),
+        call({ persona: 'earl', duration: 500 }),
+        call({ persona: 'gladys', duration: 250 }),
+        call({ persona: 'kevin', duration: 2000, status: 'FAILED' }),
+      ];
+
+      expect(findBestPersona(calls)).toBe('earl');
+    });
+
+    it('should break ties in favour of the most recent persona', () => {
+      const calls = [call({ persona: 'brenda', duration: 300 }), call({ persona: 'earl', duration: 300 })];
+
+      expect(findBestPersona(calls)).toBe('brenda');
+    });
+
+    it('should return null when no engaged call completed', () => {
+      expect(findBestPersona([])).toBeNull();
+      expect(findBestPersona([call({ persona: null, screeningAction: 'REJECT' })])).toBeNull();
+      expect(findBestPersona([call({ duration: null })])).toBeNull();
+    });
+  });
+
+  describe('getCallerScamTypes', () => {
+    it('should list scam type tags by frequency and ignore other tags', () => {
+      const calls = [
+        call({ tags: ['tech-support', 'urgent'] }),
+        call({ tags: ['irs', 'tech-support'] }),
+        call({ tags: ['successful_waste'] }),
+      ];
+
+      expect(getCallerScamTypes(calls)).toEqual([ScamType.TECH_SUPPORT, ScamType.IRS]);
+    });
+  });
+
+  describe('buildCallerProfile', () => {
+    it('should aggregate the caller calls', () => {
+      const caller = {
+        id: 'caller-1',
+        phoneNumber: '+15551234567',
+        firstSeenAt: new Date('2026-01-01'),
+        lastSeenAt: new Date('2026-03-01'),
+        createdAt: new Date('2026-01-01'),
+        updatedAt: new Date('2026-03-01'),
+      };
+      const calls = [
+        call({ persona: 'gladys', duration: 600, tags: ['bank'] }),
+        call({ persona: null, duration: null, screeningAction: 'REJECT' }),
+        call({ persona: 'earl', duration: 60 }),
+      ];
+
+      expect(buildCallerProfile(caller, calls)).toEqual({
+        id: 'caller-1',
+        phoneNumber: '+15551234567',
+        firstSeenAt: caller.firstSeenAt,
+        lastSeenAt: caller.lastSeenAt,
+        totalCalls: 3,
+        totalDuration: 660,
+        scamTypes: [ScamType.BANK],
+        bestPersona: 'gladys',
+      });
+    });
+  });
+
+  describe('buildCallerMemory', () => {
+    it('should remind the persona that spoke to them last time', () => {
+      const memory = buildCallerMemory(
+        [call({ persona: 'earl', duration: 1500, tags: ['gift-card'] }), call({ persona: 'gladys' })],
+        'earl'
+      );
+
+      expect(memory).toContain('## Repeat Caller');
+      expect(memory).toContain('called before, 2 times');
+      expect(memory).toContain('about 25 minutes last time');
+      expect(memory).toContain('Gift Card Scam');
+      expect(memory).toContain('You spoke with them last time');
+    });
+
+    it('should tell a different persona that someone else took the call', () => {
+      const memory = buildCallerMemory([call({ persona: 'earl', duration: 30 })], 'kevin');
+
+      expect(memory).toContain('called before, once');
+      expect(memory).toContain('about 1 minute last time');
+      expect(memory).toContain('Someone else in your household');
+    });
+
+    it('should return null when no persona has spoken to them', () => {
+      expect(buildCallerMemory([], 'earl')).toBeNull();
+      expect(buildCallerMemory([call({ persona: null, screeningAction: 'FORWARD' })], 'earl')).toBeNull();
+    });
+  });
+
+  describe('summarizeConversations', () => {
+    const tuesday = new Date(2026, 2, 3, 15, 0);
+    const sunday = new Date(2026, 2, 1, 10, 0);
+
+    it('should sum up each call, most recent first', () => {
+      const summary = summarizeConversations(
+        [
+          {
+            createdAt: tuesday,
+            persona: 'earl',
+            segments: [
+              {
+                speaker: 'SCAMMER',
+                personaId: null,
+                text: 'Hello, this is Microsoft technical support. Your computer has a virus. Can you hear me?',
+              },
+              { speaker: 'PERSONA', personaId: 'earl', text: 'A virus? Like the flu?' },
+              { speaker: 'SYSTEM', personaId: null, text: 'This call may be recorded.' },
+              { speaker: 'SCAMMER', personaId: null, text: 'My name is Steve.' },
+            ],
+          },
+          {
+            createdAt: sunday,
+            persona: 'gladys',
+            segments: [{ speaker: 'SCAMMER', personaId: null, text: 'Hello? Hello?' }],
+          },
+          { createdAt: new Date(2026, 1, 20), persona: 'earl', segments: [] },
+        ],
+        'earl',
+        800
+      );
+
+      expect(summary).toBe(
+        [
+          '## Previous Conversations',
+          '',
+          'This number has called before. Bring it up naturally if it helps keep them talking, but stay in character and never let on that you know it is a scam. What happened on each call, most recent first:',
+          '- Tuesday, March 3: you took the call. Tech Support Scam. They said: "Hello, this is Microsoft technical support." "Your computer has a virus."',
+          '- Sunday, March 1: someone else in your household took the call.',
+        ].join('\n')
+      );
+    });
+
+    it('should share the length cap between calls', () => {
+      const longCall = (createdAt: Date) => ({
+        createdAt,
+        persona: 'gladys',
+        segments: [{ speaker: 'SCAMMER' as const, personaId: null, text: 'This is the IRS. You owe back taxes. '.repeat(5) }],
+      });
+
+      const summary = summarizeConversations([longCall(tuesday), longCall(sunday)], 'gladys', 120)!;
+      const lines = summary.split('most recent first:\n')[1].split('\n');
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toHaveLength(60);
+      expect(lines[0].startsWith('- Tuesday, March 3: you took the call.')).toBe(true);
+      expect(lines[0].endsWith('…')).toBe(true);
+      expect(lines[1].startsWith('- Sunday, March 1: you took the call.')).toBe(true);
+    });
+
+    it('should return null when nothing was said on earlier calls', () => {
+      expect(summarizeConversations([], 'earl', 800)).toBeNull();
+      expect(
+        summarizeConversations(
+          [
+            { createdAt: tuesday, persona: null, segments: [] },
+            { createdAt: sunday, persona: 'earl', segments: [{ speaker: 'SYSTEM', personaId: null, text: 'Beep' }] },
+          ],
+          'earl',
+          800
+        )
+      ).toBeNull();
+    });
+  });
+
+  describe('loadConversationSummary', () => {
+    it('should summarize the latest earlier calls from the number', async () => {
+      (prisma.call.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(loadConversationSummary('+15551234567', 'CA-current', 'earl', 500)).resolves.toBeNull();
+      expect(prisma.call.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            fromNumber: '+15551234567',
+            twilioSid: { not: 'CA-current' },
+            segments: { some: {} },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 3,
+        })
+      );
+    });
+  });
+});
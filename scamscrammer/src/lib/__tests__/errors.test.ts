@@ -6,6 +6,7 @@ import {
   AppError,
   TwilioError,
   OpenAIError,
+  VoiceEngineError,
   StorageError,
   DatabaseError,
   ValidationError,
@@ -113,6 +114,24 @@ describe('OpenAIError', () => {
   });
 });
 
+describe('VoiceEngineError', () => {
+  it('should create not connected error', () => {
+    const error = VoiceEngineError.notConnected('send audio');
+
+    expect(error.message).toBe('Cannot send audio: not connected');
+    expect(error.code).toBe('VOICE_ENGINE_NOT_CONNECTED');
+  });
+
+  it('should create provider failed error', () => {
+    const error = VoiceEngineError.providerFailed('ElevenLabs', '401 Unauthorized');
+
+    expect(error.message).toBe('ElevenLabs request failed: 401 Unauthorized');
+    expect(error.code).toBe('VOICE_PROVIDER_FAILED');
+    expect(error.statusCode).toBe(502);
+    expect(error.context).toEqual({ provider: 'ElevenLabs' });
+  });
+});
+
 describe('StorageError', () => {
   it('should create upload failed error', () => {
     const error = StorageError.uploadFailed('recordings/call-123.wav', 'S3 timeout');
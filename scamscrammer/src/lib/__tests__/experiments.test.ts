@@ -0,0 +1,133 @@
+/**
+ * Tests for Persona A/B Experiments
+ */
+
+import {
+  pickWeightedVariant,
+  applyVariantOverrides,
+  meanEstimate,
+  proportionEstimate,
+  parseExperimentInput,
+} from '../experiments';
+import { getPersona } from '../personas';
+import { ValidationError } from '../errors';
+
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: {},
+}));
+
+describe('Persona Experiments', () => {
+  describe('pickWeightedVariant', () => {
+    const variants = [
+      { id: 'a', persona: 'earl', weight: 1 },
+      { id: 'b', persona: 'gladys', weight: 3 },
+    ];
+
+    it('should pick variants in proportion to their weight', () => {
+      expect(pickWeightedVariant(variants, () => 0)?.id).toBe('a');
+      expect(pickWeightedVariant(variants, () => 0.24)?.id).toBe('a');
+      expect(pickWeightedVariant(variants, () => 0.25)?.id).toBe('b');
+      expect(pickWeightedVariant(variants, () => 0.99)?.id).toBe('b');
+    });
+
+    it('should skip variants with no weight or an unknown persona', () => {
+      const candidates = [
+        { id: 'a', persona: 'earl', weight: 0 },
+        { id: 'b', persona: 'deleted-persona', weight: 5 },
+        { id: 'c', persona: 'kevin', weight: 1 },
+      ];
+
+      expect(pickWeightedVariant(candidates, () => 0)?.id).toBe('c');
+    });
+
+    it('should return null when no variant is eligible', () => {
+      expect(pickWeightedVariant([])).toBeNull();
+      expect(pickWeightedVariant([{ persona: 'earl', weight: 0 }])).toBeNull();
+    });
+  });
+
+  describe('applyVariantOverrides', () => {
+    const earl = getPersona('earl');
+
+    it('should leave the persona alone without a variant', () => {
+      expect(applyVariantOverrides(earl, null)).toEqual({ persona: earl, sessionConfig: {} });
+    });
+
+    it('should replace the system prompt and temperature', () => {
+      const { persona, sessionConfig } = applyVariantOverrides(earl, {
+        promptOverride: 'You are Earl, but grumpier.',
+        temperatureOverride: 1.1,
+      });
+
+      expect(persona.systemPrompt).toBe('You are Earl, but grumpier.');
+      expect(persona.name).toBe(earl.name);
+      expect(sessionConfig).toEqual({ temperature: 1.1 });
+    });
+  });
+
+  describe('meanEstimate', () => {
+    it('should return null without observations', () => {
+      expect(meanEstimate([])).toBeNull();
+    });
+
+    it('should compute a normal-approximation 95% interval', () => {
+      // mean 5, sample variance 16/3, n 4
+      const estimate = meanEstimate([3, 3, 7, 7])!;
+
+      expect(estimate.value).toBe(5);
+      expect(estimate.lower).toBeCloseTo(5 - 1.96 * Math.sqrt(16 / 3) / 2);
+      expect(estimate.upper).toBeCloseTo(5 + 1.96 * Math.sqrt(16 / 3) / 2);
+      expect(estimate.n).toBe(4);
+    });
+  });
+
+  describe('proportionEstimate', () => {
+    it('should return null without observations', () => {
+      expect(proportionEstimate(0, 0)).toBeNull();
+    });
+
+    it('should compute a Wilson score interval', () => {
+      const estimate = proportionEstimate(5, 10)!;
+
+      expect(estimate.value).toBe(0.5);
+      expect(estimate.lower).toBeCloseTo(0.2366, 3);
+      expect(estimate.upper).toBeCloseTo(0.7634, 3);
+    });
+
+    it('should stay within [0, 1] at the extremes', () => {
+      const none = proportionEstimate(0, 3)!;
+      const all = proportionEstimate(3, 3)!;
+
+      expect(none.lower).toBe(0);
+      expect(none.upper).toBeGreaterThan(0);
+      expect(all.upper).toBe(1);
+      expect(all.lower).toBeLessThan(1);
+    });
+  });
+
+  describe('parseExperimentInput', () => {
+    it('should default weights and overrides', () => {
+      const input = parseExperimentInput({
+        name: ' Test ',
+        variants: [
+          { name: 'A', persona: 'earl' },
+          { name: 'B', persona: 'brenda', promptOverride: '   ' },
+        ],
+      });
+
+      expect(input).toEqual({
+        name: 'Test',
+        description: null,
+        variants: [
+          { name: 'A', persona: 'earl', weight: 1, promptOverride: null, temperatureOverride: null },
+          { name: 'B', persona: 'brenda', weight: 1, promptOverride: null, temperatureOverride: null },
+        ],
+      });
+    });
+
+    it('should require a name', () => {
+      expect(() => parseExperimentInput({ variants: [] })).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Tests for Fake Account Details
+ */
+
+import {
+  CARD_NETWORKS,
+  generateBankAccount,
+  generateCardNumber,
+  generateGiftCardCode,
+  generateRemoteAccessCode,
+  generateSsn,
+  isFakeCardNumber,
+  isFakeGiftCardCode,
+  isFakeRemoteAccessCode,
+  isFakeRoutingNumber,
+  isFakeSsn,
+} from '../fake-data';
+
+// Every digit drawn the same, including the extremes of Math.random
+const fixedRandoms = [0, 0.1, 0.35, 0.5, 0.77, 0.9999999].map((value) => () => value);
+
+describe('Fake Account Details', () => {
+  it('should recognize real details as real', () => {
+    expect(isFakeCardNumber('4111 1111 1111 1111')).toBe(false);
+    expect(isFakeCardNumber('378282246310005')).toBe(false);
+    expect(isFakeRoutingNumber('021000021')).toBe(false);
+    expect(isFakeSsn('123-45-6789')).toBe(false);
+    expect(isFakeGiftCardCode('X7KP-ABCD-2345')).toBe(false);
+    expect(isFakeRemoteAccessCode('123 456 789')).toBe(false);
+  });
+
+  it('should only generate card numbers that fail the Luhn check', () => {
+    for (const network of CARD_NETWORKS) {
+      for (const random of [...fixedRandoms, Math.random]) {
+        const card = generateCardNumber(network, random);
+        expect(isFakeCardNumber(card.number)).toBe(true);
+        expect(card.number).toHaveLength(network === 'amex' ? 15 : 16);
+        expect(card.expiry).toMatch(/^(0[1-9]|1[0-2])\/\d{2}$/);
+      }
+    }
+  });
+
+  it('should only generate details that fail their checks', () => {
+    for (let i = 0; i < 200; i++) {
+      const random = fixedRandoms[i] ?? Math.random;
+      const { routingNumber, accountNumber } = generateBankAccount(random);
+      expect(routingNumber).toMatch(/^\d{9}$/);
+      expect(accountNumber).toMatch(/^\d{10}$/);
+      expect(isFakeRoutingNumber(routingNumber)).toBe(true);
+
+      const ssn = generateSsn(random);
+      expect(ssn).toMatch(/^9\d{2}-\d{2}-\d{4}$/);
+      expect(isFakeSsn(ssn)).toBe(true);
+
+      const { code, pin } = generateGiftCardCode(random);
+      expect(code).toMatch(/^[A-Z0-9]{4}(-[A-Z0-9]{4}){3}$/);
+      expect(pin).toMatch(/^\d{4}$/);
+      expect(isFakeGiftCardCode(code)).toBe(true);
+
+      const remoteCode = generateRemoteAccessCode(random);
+      expect(remoteCode).toMatch(/^0\d{2} \d{3} \d{3}$/);
+      expect(isFakeRemoteAccessCode(remoteCode)).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for the Scripted Fallback Persona
+ */
+
+import { getFallbackLine, startFallback } from '../fallback';
+import { EARL_PERSONA, KEVIN_PERSONA } from '../personas';
+import prisma from '../db';
+import { createTwilioClient } from '../twilio';
+
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: {
+    call: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('../twilio', () => ({
+  createTwilioClient: jest.fn(),
+  getWebhookBaseUrl: jest.fn(() => 'https://example.com'),
+}));
+
+describe('Fallback Persona', () => {
+  describe('getFallbackLine', () => {
+    it('should work through signature phrases and bring up tangents every other turn', () => {
+      expect(getFallbackLine(KEVIN_PERSONA, 0)).toBe(KEVIN_PERSONA.signaturePhrases[0]);
+      expect(getFallbackLine(KEVIN_PERSONA, 3)).toBe(
+        `${KEVIN_PERSONA.signaturePhrases[3]} Did I ever tell you about ${KEVIN_PERSONA.tangentTopics[1].subject}?`
+      );
+    });
+
+    it('should fill in for personas with nothing to say', () => {
+      const persona = { ...EARL_PERSONA, signaturePhrases: [], tangentTopics: [] };
+
+      expect(getFallbackLine(persona, 0)).toBe("Sorry, this line's terrible. Could you say that again?");
+    });
+  });
+
+  describe('startFallback', () => {
+    const redirectCall = jest.fn();
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      jest.spyOn(console, 'log').mockImplementation(() => {});
+      (createTwilioClient as jest.Mock).mockReturnValue({ redirectCall });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should switch the call to the fallback webhook and mark it', async () => {
+      redirectCall.mockResolvedValue(undefined);
+
+      await expect(startFallback('CA123', 'call-1', KEVIN_PERSONA)).resolves.toBe(true);
+      expect(redirectCall).toHaveBeenCalledWith(
+        'CA123',
+        'https://example.com/api/twilio/fallback?persona=kevin&turn=0'
+      );
+      expect(prisma.call.update).toHaveBeenCalledWith({
+        where: { id: 'call-1' },
+        data: { usedFallback: true },
+      });
+    });
+
+    it('should leave the call alone when Twilio cannot redirect it', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      redirectCall.mockRejectedValue(new Error('Call is not in-progress'));
+
+      await expect(startFallback('CA123', 'call-1', KEVIN_PERSONA)).resolves.toBe(false);
+      expect(prisma.call.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for Persona Identity
+ */
+
+import { IdentityTracker, extractIdentityFacts } from '../identity';
+import { EARL_PERSONA, getIdentity, seedIdentity } from '../personas';
+import type { IdentityProfile } from '../personas/types';
+
+jest.mock('../db', () => ({ prisma: {} }));
+
+const PROFILE: IdentityProfile = {
+  address: '412 Persimmon Lane, Dayton, Ohio',
+  bank: 'Heartland Federal Credit Union',
+  pharmacy: 'Greenway Drug',
+  relatives: [{ relation: 'late wife', name: 'Phyllis' }],
+  pets: [{ kind: 'parakeet', name: 'General Patton' }],
+};
+
+describe('seedIdentity', () => {
+  it('should seed the same profile for the same persona', () => {
+    const persona = { id: 'margaret', location: 'Duluth, Minnesota', age: 88 };
+
+    expect(seedIdentity(persona)).toEqual(seedIdentity(persona));
+    expect(seedIdentity(persona).address).toMatch(/^\d+ [A-Za-z ]+, Duluth, Minnesota$/);
+    expect(seedIdentity({ id: 'walter' })).not.toEqual(seedIdentity(persona));
+  });
+
+  it('should keep known relatives and pets and add enough of its own', () => {
+    const identity = seedIdentity({ id: 'margaret' }, { pets: [{ kind: 'cat', name: 'Mittens' }] });
+
+    expect(identity.pets).toEqual([{ kind: 'cat', name: 'Mittens' }]);
+    expect(identity.relatives).toHaveLength(2);
+    expect(new Set(identity.relatives.map((relative) => relative.relation)).size).toBe(2);
+  });
+
+  it('should give built-in personas the family their prompts mention', () => {
+    expect(getIdentity(EARL_PERSONA).relatives).toContainEqual({ relation: 'late wife', name: 'Phyllis' });
+  });
+});
+
+describe('extractIdentityFacts', () => {
+  it('should find relatives, pets, banks, pharmacies and addresses', () => {
+    const text =
+      "Well my grandson, Tommy, set it up. My dog named Mr. Biscuit hates the mailman. " +
+      'I bank with First Prairie Savings & Loan. I get my pills from Hendricks Family Pharmacy. ' +
+      'I live at 88 Old Quarry Road, you know.';
+
+    expect(extractIdentityFacts(text)).toEqual([
+      { kind: 'RELATIVE', subject: 'grandson', value: 'Tommy' },
+      { kind: 'PET', subject: 'dog', value: 'Mr. Biscuit' },
+      { kind: 'BANK', subject: '', value: 'First Prairie Savings & Loan' },
+      { kind: 'PHARMACY', subject: '', value: 'Hendricks Family Pharmacy' },
+      { kind: 'ADDRESS', subject: '', value: '88 Old Quarry Road' },
+    ]);
+  });
+
+  it('should ignore details without a name', () => {
+    expect(extractIdentityFacts('my grandson is very clever and my bank is closed on Sundays')).toEqual([]);
+    expect(extractIdentityFacts('My daughter. She calls on Sundays.')).toEqual([]);
+  });
+});
+
+describe('IdentityTracker', () => {
+  it('should capture only details that are new', () => {
+    const tracker = new IdentityTracker(PROFILE, [{ kind: 'RELATIVE', subject: 'grandson', value: 'Tommy' }]);
+
+    expect(tracker.capture('My late wife Phyllis and my grandson Tommy')).toEqual([]);
+    expect(tracker.capture('My parakeet General Patton and my cat Socks')).toEqual([
+      { kind: 'PET', subject: 'cat', value: 'Socks' },
+    ]);
+    expect(tracker.capture('My cat Socks')).toEqual([]);
+  });
+
+  it('should only remember the first bank the persona gives', () => {
+    const tracker = new IdentityTracker(PROFILE);
+
+    expect(tracker.capture('I bank with Heartland Federal Credit Union')).toEqual([]);
+    expect(tracker.capture('I bank at Chase')).toEqual([{ kind: 'BANK', subject: '', value: 'Chase' }]);
+    expect(tracker.capture('I bank at Wells Fargo')).toEqual([]);
+  });
+
+  it('should list the profile and everything the persona has said', () => {
+    const tracker = new IdentityTracker(PROFILE);
+    expect(tracker.buildPromptSection()).not.toContain('You have also told this caller');
+
+    tracker.capture('My grandson Tommy');
+
+    expect(tracker.buildPromptSection()).toBe(
+      [
+        '## Your Details',
+        '',
+        'If the caller asks about you, these are your details. Always give the same answers:',
+        '- Address: 412 Persimmon Lane, Dayton, Ohio',
+        '- Bank: Heartland Federal Credit Union',
+        '- Pharmacy: Greenway Drug',
+        '- Family: your late wife Phyllis',
+        '- Pets: your parakeet General Patton',
+        '',
+        'You have also told this caller the following. Stick to it:',
+        '- Your grandson is called Tommy',
+      ].join('\n')
+    );
+  });
+});
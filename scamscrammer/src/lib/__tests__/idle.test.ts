@@ -0,0 +1,53 @@
+/**
+ * Tests for Idle Line Handling
+ */
+
+import { IdleMonitor } from '../idle';
+
+describe('IdleMonitor', () => {
+  const config = {
+    checkInAfterMs: 10_000,
+    hangUpAfterMs: 30_000,
+    checkInPhrases: ['Hello?', 'Anyone there?'],
+    goodbye: 'Bye then!',
+  };
+
+  it('should check in each time the line goes quiet', () => {
+    const monitor = new IdleMonitor(config, 0);
+
+    expect(monitor.check(9_999)).toBeNull();
+    expect(monitor.check(10_000)).toBe('check_in');
+    expect(monitor.check(10_001)).toBeNull();
+
+    // The persona's check-in doesn't count as the scammer coming back
+    monitor.personaSpoke(12_000);
+    expect(monitor.check(21_999)).toBeNull();
+    expect(monitor.check(22_000)).toBe('check_in');
+
+    expect([monitor.getCheckInPhrase(), monitor.getCheckInPhrase(), monitor.getCheckInPhrase()]).toEqual([
+      'Hello?',
+      'Anyone there?',
+      'Hello?',
+    ]);
+  });
+
+  it('should hang up once when the scammer stays silent', () => {
+    const monitor = new IdleMonitor(config, 0);
+    monitor.personaSpoke(25_000);
+
+    expect(monitor.check(30_000)).toBe('hang_up');
+    expect(monitor.check(60_000)).toBeNull();
+    expect(monitor.getGoodbye()).toBe('Bye then!');
+  });
+
+  it('should not count time the scammer spends talking', () => {
+    const monitor = new IdleMonitor(config, 0);
+
+    monitor.speechStarted(5_000);
+    expect(monitor.check(50_000)).toBeNull();
+
+    monitor.speechStopped(50_000);
+    expect(monitor.check(59_999)).toBeNull();
+    expect(monitor.check(60_000)).toBe('check_in');
+  });
+});
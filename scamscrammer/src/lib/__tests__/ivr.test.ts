@@ -0,0 +1,107 @@
+/**
+ * Tests for Robocall IVR Navigation
+ */
+
+import { chooseIvrDigit, IvrNavigator, MAX_IVR_PATH_LENGTH, parseIvrOptions, synthesizeDtmf } from '../ivr';
+import { decode, SAMPLE_RATE } from '../mulaw';
+
+describe('IVR Navigation', () => {
+  describe('parseIvrOptions', () => {
+    it('should find options described after or before the key', () => {
+      expect(
+        parseIvrOptions('Press 1 to speak to an agent or press two to be removed from our list.')
+      ).toEqual([
+        { digit: '1', description: 'to speak to an agent' },
+        { digit: '2', description: 'to be removed from our list' },
+      ]);
+      expect(
+        parseIvrOptions('To be removed, press 9. To speak with a specialist, press the pound key.')
+      ).toEqual([
+        { digit: '9', description: 'To be removed' },
+        { digit: '#', description: 'To speak with a specialist' },
+      ]);
+    });
+  });
+
+  describe('chooseIvrDigit', () => {
+    it('should choose the option that reaches a live agent', () => {
+      expect(
+        chooseIvrDigit(parseIvrOptions('To be removed, press 9. Press 1 to speak to an agent.'))
+      ).toBe('1');
+    });
+
+    it('should choose the first option that keeps us on the call', () => {
+      expect(chooseIvrDigit(parseIvrOptions('Press 9 to opt out, or press 3 now to continue.'))).toBe('3');
+      expect(chooseIvrDigit(parseIvrOptions('Press 9 to be removed.'))).toBeNull();
+    });
+  });
+
+  describe('IvrNavigator', () => {
+    let navigator: IvrNavigator;
+
+    beforeEach(() => {
+      navigator = new IvrNavigator();
+    });
+
+    it('should press through a menu of several options', () => {
+      navigator.observe('Hello?');
+
+      expect(
+        navigator.observe('Press 1 to speak to an agent or press two to be removed from our list.')
+      ).toBe('1');
+      expect(navigator.path).toBe('1');
+    });
+
+    it('should press through a recorded preamble that opens the call', () => {
+      expect(
+        navigator.observe('This is an important message about your car warranty. Press 1 to speak to an agent.')
+      ).toBe('1');
+    });
+
+    it('should not take a single option for a recorded preamble', () => {
+      expect(navigator.observe('Press 1 so I can verify your computer.')).toBeNull();
+    });
+
+    it('should press through a prompt that repeats word for word', () => {
+      navigator.observe('Hello, hello?');
+      expect(navigator.observe('Press 1 now to speak to a specialist.')).toBeNull();
+      navigator.observe('Hello?');
+
+      expect(navigator.observe('Press 1 now, to speak to a specialist!')).toBe('1');
+    });
+
+    it('should let the persona answer a person asking it to press a key', () => {
+      const lines = [
+        'This is a call from the Microsoft security department.',
+        'Okay ma\'am, press 1 on your keyboard so I can verify you.',
+        "I'm not an automated system, just press one and then press enter.",
+        'This is an important call about your computer. Press 1 to speak to an agent.',
+        'Can you press the start button on your computer?',
+      ];
+
+      expect(lines.map((line) => navigator.observe(line))).toEqual([null, null, null, null, null]);
+      expect(navigator.path).toBe('');
+    });
+
+    it('should not press more keys than a call allows', () => {
+      const menu = 'Press 1 to speak to an agent or press 2 for more options.';
+      for (let i = 0; i < MAX_IVR_PATH_LENGTH + 2; i++) {
+        navigator.observe(menu);
+      }
+
+      expect(navigator.path).toBe('1'.repeat(MAX_IVR_PATH_LENGTH));
+    });
+  });
+
+  describe('synthesizeDtmf', () => {
+    it('should play a tone and a gap for each key', () => {
+      const audio = synthesizeDtmf('1#');
+      const samples = decode(audio);
+
+      // 150ms tone and 100ms gap per key
+      expect(audio.length).toBe(2 * 0.25 * SAMPLE_RATE);
+      expect(Math.max(...Array.from(samples.subarray(0, 1200)).map(Math.abs))).toBeGreaterThan(5000);
+      expect(Array.from(samples.subarray(1200, 2000)).every((sample) => sample === 0)).toBe(true);
+    });
+  });
+});
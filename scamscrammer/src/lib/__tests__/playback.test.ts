@@ -0,0 +1,60 @@
+/**
+ * Tests for Persona Playback Tracking
+ */
+
+import { PlaybackTracker, truncateTranscript } from '../playback';
+
+// 100ms of μ-law audio
+const chunk = Buffer.alloc(800, 0xff).toString('base64');
+
+describe('PlaybackTracker', () => {
+  it('should work out how much of the playing item was heard', () => {
+    const tracker = new PlaybackTracker();
+    const marks = [1, 2, 3].map(() => {
+      tracker.recordReceived('item-1', chunk);
+      return tracker.recordSent('item-1', chunk);
+    });
+
+    // Marks are played in order, so the second covers the first
+    tracker.acknowledge(marks[1]);
+
+    expect(tracker.interrupt()).toEqual([
+      { itemId: 'item-1', audioEndMs: 200, totalAudioMs: 300, time: expect.any(Number) },
+    ]);
+    expect(tracker.getTruncation('item-1')).toMatchObject({ audioEndMs: 200 });
+
+    // An item is only cut off once
+    expect(tracker.interrupt()).toEqual([]);
+  });
+
+  it('should cut off items that were never sent', () => {
+    const tracker = new PlaybackTracker();
+    tracker.recordReceived('item-1', chunk);
+
+    expect(tracker.interrupt()).toEqual([expect.objectContaining({ itemId: 'item-1', audioEndMs: 0 })]);
+  });
+
+  it('should not cut off items that were heard in full', () => {
+    const tracker = new PlaybackTracker();
+    tracker.recordReceived('item-1', chunk);
+    tracker.acknowledge(tracker.recordSent('item-1', chunk));
+
+    expect(tracker.interrupt()).toEqual([]);
+    expect(tracker.getTruncation('item-1')).toBeUndefined();
+  });
+});
+
+describe('truncateTranscript', () => {
+  const truncation = { itemId: 'item-1', totalAudioMs: 4000, time: 0 };
+
+  it('should keep the share of words that was heard', () => {
+    expect(truncateTranscript('one two three four five six seven eight', { ...truncation, audioEndMs: 1000 })).toBe(
+      'one two—'
+    );
+  });
+
+  it('should keep everything or nothing at the extremes', () => {
+    expect(truncateTranscript('Hello there', { ...truncation, audioEndMs: 4000 })).toBe('Hello there');
+    expect(truncateTranscript('Hello there', { ...truncation, audioEndMs: 0 })).toBe('');
+  });
+});
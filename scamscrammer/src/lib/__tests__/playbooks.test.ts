@@ -0,0 +1,105 @@
+/**
+ * Tests for Counter-Playbooks
+ */
+
+import {
+  buildPlaybookSection,
+  computePlaybookStats,
+  DEFAULT_PLAYBOOKS,
+  isPlaybookScamType,
+  MAX_PLAYBOOK_LENGTH,
+  parsePlaybookInput,
+  PLAYBOOK_SCAM_TYPES,
+} from '../playbooks';
+import { ValidationError } from '../errors';
+import { ScamType } from '../tagging';
+
+jest.mock('../db', () => ({
+  __esModule: true,
+  prisma: {},
+}));
+
+describe('Counter-Playbooks', () => {
+  describe('built-in playbooks', () => {
+    it('should have a playbook for every scam type but unknown', () => {
+      expect(PLAYBOOK_SCAM_TYPES).not.toContain(ScamType.UNKNOWN);
+      for (const scamType of PLAYBOOK_SCAM_TYPES) {
+        expect(DEFAULT_PLAYBOOKS[scamType]).toBeTruthy();
+      }
+    });
+
+    it('should tell playbook scam types apart', () => {
+      expect(isPlaybookScamType('gift_card')).toBe(true);
+      expect(isPlaybookScamType('unknown')).toBe(false);
+      expect(isPlaybookScamType('gift-card')).toBe(false);
+    });
+  });
+
+  describe('buildPlaybookSection', () => {
+    it('should give the persona the tactics under the scam type', () => {
+      const section = buildPlaybookSection({
+        scamType: ScamType.TECH_SUPPORT,
+        instructions: 'Hunt for the Start button.',
+        isEnabled: true,
+        isBuiltIn: false,
+      });
+
+      expect(section).toMatch(/^## Playbook: Tech Support/);
+      expect(section).toContain('Hunt for the Start button.');
+    });
+  });
+
+  describe('parsePlaybookInput', () => {
+    it('should accept instructions and the enabled flag', () => {
+      expect(parsePlaybookInput({ instructions: ' Stall. ', isEnabled: false })).toEqual({
+        instructions: 'Stall.',
+        isEnabled: false,
+      });
+      expect(parsePlaybookInput({})).toEqual({});
+    });
+
+    it('should reject bodies that are not objects', () => {
+      expect(() => parsePlaybookInput(null)).toThrow(ValidationError);
+      expect(() => parsePlaybookInput(['Stall.'])).toThrow(ValidationError);
+    });
+
+    it('should reject empty or overlong instructions', () => {
+      expect(() => parsePlaybookInput({ instructions: '' })).toThrow(ValidationError);
+      expect(() => parsePlaybookInput({ instructions: 42 })).toThrow(ValidationError);
+      expect(() => parsePlaybookInput({ instructions: 'x'.repeat(MAX_PLAYBOOK_LENGTH + 1) })).toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject an enabled flag that is not a boolean', () => {
+      expect(() => parsePlaybookInput({ isEnabled: 'yes' })).toThrow(ValidationError);
+    });
+  });
+
+  describe('computePlaybookStats', () => {
+    it('should count calls with a playbook for its scam type', () => {
+      const stats = computePlaybookStats([
+        { playbook: 'gift_card', tags: ['irs'], duration: 300, rating: 4 },
+        { playbook: null, tags: ['gift-card'], duration: 60, rating: 2 },
+        { playbook: null, tags: ['irs', 'gift-card'], duration: 10, rating: null },
+      ]);
+
+      const giftCard = stats.find((entry) => entry.scamType === ScamType.GIFT_CARD)!;
+      expect(giftCard.withPlaybook.totalCalls).toBe(1);
+      expect(giftCard.withoutPlaybook.totalCalls).toBe(2);
+      expect(giftCard.withoutPlaybook.hangUpRate).toMatchObject({ value: 0.5, n: 2 });
+
+      // Calls with a playbook only count towards the playbook's scam type
+      const irs = stats.find((entry) => entry.scamType === ScamType.IRS)!;
+      expect(irs.withPlaybook.totalCalls).toBe(0);
+      expect(irs.withoutPlaybook.totalCalls).toBe(1);
+    });
+
+    it('should report every scam type, with no data where there were no calls', () => {
+      const stats = computePlaybookStats([]);
+
+      expect(stats).toHaveLength(PLAYBOOK_SCAM_TYPES.length);
+      expect(stats[0].withPlaybook).toEqual({ totalCalls: 0, duration: null, rating: null, hangUpRate: null });
+    });
+  });
+});
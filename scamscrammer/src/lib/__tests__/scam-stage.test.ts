@@ -0,0 +1,102 @@
+/**
+ * Tests for Live Scam-Stage Tracking
+ */
+
+import { detectScamStage, ScamStage, ScamStageTracker } from '../scam-stage';
+import { ScamType } from '../tagging';
+
+describe('Scam Stages', () => {
+  describe('detectScamStage', () => {
+    it('should recognize each stage', () => {
+      expect(detectScamStage("I'm calling from Microsoft about a virus on your computer")).toBe(ScamStage.PITCH);
+      expect(detectScamStage('You need to pay the fee with Google Play gift cards')).toBe(ScamStage.PAYMENT_DEMAND);
+      expect(detectScamStage('Now download AnyDesk and read me the code')).toBe(ScamStage.REMOTE_ACCESS);
+      expect(detectScamStage('There is a warrant out for your arrest')).toBe(ScamStage.THREAT);
+      expect(detectScamStage('Hello, can you hear me?')).toBeNull();
+    });
+
+    it('should count threats to pay up as threats', () => {
+      expect(detectScamStage('Pay now or the police will come to your house')).toBe(ScamStage.THREAT);
+    });
+
+    it('should not be moved by a single everyday keyword', () => {
+      expect(detectScamStage("Sorry, I'll pay attention this time")).toBeNull();
+      expect(detectScamStage('Just type in your name for me')).toBeNull();
+      expect(detectScamStage('Is there a fee to talk to you?')).toBeNull();
+      expect(detectScamStage('I think I owe my sister a call')).toBeNull();
+      expect(detectScamStage('My grandson is playing basketball on the court')).toBeNull();
+      expect(detectScamStage('Did you download the photos I sent?')).toBeNull();
+      expect(detectScamStage('It is the dot com one')).toBeNull();
+    });
+
+    it('should take two keywords in place of a phrase', () => {
+      expect(detectScamStage('You must pay the processing charge, the fee is $200')).toBe(
+        ScamStage.PAYMENT_DEMAND
+      );
+      expect(detectScamStage('Type in the address, it ends in dot com')).toBe(ScamStage.REMOTE_ACCESS);
+      expect(detectScamStage('This is a criminal matter for the court')).toBe(ScamStage.THREAT);
+      expect(detectScamStage('Go to www.support-help.com')).toBe(ScamStage.REMOTE_ACCESS);
+    });
+
+    it('should only match whole words', () => {
+      expect(detectScamStage('Do you have a PayPal account?')).toBeNull();
+      expect(detectScamStage('The power went out')).toBeNull();
+    });
+  });
+
+  describe('ScamStageTracker', () => {
+    it('should open on the first thing the scammer says', () => {
+      const tracker = new ScamStageTracker();
+
+      expect(tracker.buildPromptSection()).toBeNull();
+      expect(tracker.observe('Hello ma\'am, how are you today?')).toEqual({
+        stage: ScamStage.OPENING,
+        previousStage: null,
+        scamType: ScamType.UNKNOWN,
+        text: "Hello ma'am, how are you today?",
+      });
+      expect(tracker.stage).toBe(ScamStage.OPENING);
+    });
+
+    it('should report each change of stage once', () => {
+      const tracker = new ScamStageTracker();
+      tracker.observe('Hello, is this the homeowner?');
+
+      expect(tracker.observe('This is Microsoft, your computer has a virus.')).toMatchObject({
+        stage: ScamStage.PITCH,
+        previousStage: ScamStage.OPENING,
+      });
+      expect(tracker.observe('It is a very bad virus.')).toBeNull();
+      expect(tracker.observe('Install TeamViewer so our technician can fix it.')).toMatchObject({
+        stage: ScamStage.REMOTE_ACCESS,
+        previousStage: ScamStage.PITCH,
+        scamType: ScamType.TECH_SUPPORT,
+      });
+    });
+
+    it('should not go back to the pitch', () => {
+      const tracker = new ScamStageTracker();
+      tracker.observe('Read me your credit card number.');
+
+      expect(tracker.observe('Your computer is still hacked.')).toBeNull();
+      expect(tracker.stage).toBe(ScamStage.PAYMENT_DEMAND);
+    });
+
+    it('should ignore empty transcripts', () => {
+      const tracker = new ScamStageTracker();
+
+      expect(tracker.observe('  ')).toBeNull();
+      expect(tracker.stage).toBeNull();
+    });
+
+    it('should give stalling guidance for the stage and scam type', () => {
+      const tracker = new ScamStageTracker();
+      tracker.observe('This is the IRS. You owe back taxes.');
+      tracker.observe('There is a warrant for your arrest over your tax debt.');
+
+      const section = tracker.buildPromptSection();
+      expect(section).toMatch(/^## Where the Call Is\n\nScam type: IRS\/Tax Scam\.\nThe caller is threatening you/);
+      expect(section).toContain('keep them on the line');
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Call Screening
+ */
+
+import { CallerRuleMatchType } from '@prisma/client';
+import { findMatchingRule, patternToRegExp, ruleMatches, screenCaller } from '../screening';
+import prisma from '../db';
+
+jest.mock('../db', () => ({
+  __esModule: true,
+  default: {
+    callerRule: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+function rule(matchType: CallerRuleMatchType, value: string, createdAt = new Date('2026-01-01')) {
+  return { id: `${matchType}:${value}`, matchType, value, createdAt };
+}
+
+describe('Call Screening', () => {
+  describe('patternToRegExp', () => {
+    it('should treat ? as one digit and * as any digits', () => {
+      expect(patternToRegExp('+1555???0000').test('+15551230000')).toBe(true);
+      expect(patternToRegExp('+1555???0000').test('+155512340000')).toBe(false);
+      expect(patternToRegExp('+1900*').test('+19005551234')).toBe(true);
+      expect(patternToRegExp('+1900*').test('+18005551234')).toBe(false);
+    });
+  });
+
+  describe('ruleMatches', () => {
+    it('should match exact numbers and prefixes', () => {
+      expect(ruleMatches(rule('EXACT', '+15551234567'), '+15551234567')).toBe(true);
+      expect(ruleMatches(rule('EXACT', '+15551234567'), '+155512345678')).toBe(false);
+      expect(ruleMatches(rule('PREFIX', '+1555'), '+15551234567')).toBe(true);
+      expect(ruleMatches(rule('PREFIX', '+1556'), '+15551234567')).toBe(false);
+    });
+  });
+
+  describe('findMatchingRule', () => {
+    const caller = '+15551234567';
+
+    it('should prefer exact rules, then the longest prefix, then patterns', () => {
+      const rules = [
+        rule('PATTERN', '+1555*'),
+        rule('PREFIX', '+1'),
+        rule('PREFIX', '+1555'),
+        rule('EXACT', caller),
+      ];
+
+      expect(findMatchingRule(rules, caller)?.id).toBe(`EXACT:${caller}`);
+      expect(findMatchingRule(rules.slice(0, 3), caller)?.id).toBe('PREFIX:+1555');
+      expect(findMatchingRule(rules.slice(0, 1), caller)?.id).toBe('PATTERN:+1555*');
+    });
+
+    it('should prefer the oldest rule among equals', () => {
+      const rules = [
+        rule('PATTERN', '+1555*', new Date('2026-02-01')),
+        rule('PATTERN', '+1???1234567', new Date('2026-01-01')),
+      ];
+
+      expect(findMatchingRule(rules, caller)?.value).toBe('+1???1234567');
+    });
+
+    it('should return null when nothing matches', () => {
+      expect(findMatchingRule([rule('PREFIX', '+44')], caller)).toBeNull();
+    });
+  });
+
+  describe('screenCaller', () => {
+    it('should engage callers without a matching rule', async () => {
+      (prisma.callerRule.findMany as jest.Mock).mockResolvedValue([]);
+
+      await expect(screenCaller('+15551234567')).resolves.toEqual({ action: 'ENGAGE', rule: null });
+    });
+
+    it('should ignore forward rules without a destination', async () => {
+      const reject = { ...rule('PREFIX', '+1'), action: 'REJECT', forwardTo: null };
+      (prisma.callerRule.findMany as jest.Mock).mockResolvedValue([
+        { ...rule('EXACT', '+15551234567'), action: 'FORWARD', forwardTo: null },
+        reject,
+      ]);
+
+      await expect(screenCaller('+15551234567')).resolves.toEqual({ action: 'REJECT', rule: reject });
+    });
+  });
+});
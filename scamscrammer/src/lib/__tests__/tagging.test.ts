@@ -0,0 +1,48 @@
+/**
+ * Tests for Call Auto-Tagging
+ */
+
+import { Speaker } from '@prisma/client';
+import { analyzeCallForTags, isRobocallPrompt, ScamType } from '../tagging';
+
+describe('analyzeCallForTags', () => {
+  it('should detect the scam type from plain text', () => {
+    const analysis = analyzeCallForTags('This is the IRS. You owe back taxes and there is a warrant.');
+
+    expect(analysis.scamType).toBe(ScamType.IRS);
+    expect(analysis.tags[0]).toBe('irs');
+  });
+
+  it('should detect the scam type from what the scammer said', () => {
+    const analysis = analyzeCallForTags([
+      { speaker: Speaker.SCAMMER, personaId: null, text: 'Your computer has a virus. I need remote access.' },
+      {
+        speaker: Speaker.PERSONA,
+        personaId: 'brenda',
+        text: 'Hun, forget viruses. I keep my bitcoin and ethereum in a Coinbase wallet. Blockchain is the future!',
+      },
+    ]);
+
+    expect(analysis.scamType).toBe(ScamType.TECH_SUPPORT);
+  });
+
+  it('should only tag stalling by the persona as time wasted', () => {
+    const scammerStalls = analyzeCallForTags([
+      { speaker: Speaker.SCAMMER, personaId: null, text: 'Hold on, let me check with my supervisor.' },
+    ]);
+    const personaStalls = analyzeCallForTags([
+      { speaker: Speaker.PERSONA, personaId: 'earl', text: 'Hold on, let me find my glasses.' },
+    ]);
+
+    expect(scammerStalls.tags).not.toContain('successful_waste');
+    expect(personaStalls.tags).toContain('successful_waste');
+  });
+});
+
+describe('isRobocallPrompt', () => {
+  it('should recognize a prerecorded message', () => {
+    expect(isRobocallPrompt('This is an automated call about your car warranty.')).toBe(true);
+    expect(isRobocallPrompt('Press one to speak to an agent.')).toBe(true);
+    expect(isRobocallPrompt('Hello, am I speaking with the homeowner?')).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for Persona Tools
+ */
+
+import { PERSONA_TOOLS, runPersonaTool } from '../tools';
+import { createSeededRandom, generateSsn, isFakeCardNumber } from '../fake-data';
+
+jest.mock('../fake-data', () => {
+  const actual = jest.requireActual('../fake-data');
+  return { ...actual, generateSsn: jest.fn(actual.generateSsn) };
+});
+
+describe('Persona Tools', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should register a function for each kind of detail', () => {
+    expect(PERSONA_TOOLS.map((tool) => tool.name)).toEqual([
+      'look_up_card',
+      'look_up_bank_account',
+      'look_up_ssn',
+      'look_up_gift_card',
+      'look_up_remote_access_code',
+    ]);
+  });
+
+  it('should give the persona fake details to read out', () => {
+    const result = runPersonaTool('look_up_card', '{"network":"amex"}');
+
+    expect(result).toMatchObject({ ok: true, arguments: { network: 'amex' } });
+    expect(result.output.network).toBe('amex');
+    expect(isFakeCardNumber(result.output.number)).toBe(true);
+
+    expect(runPersonaTool('look_up_gift_card', '{"retailer":"Target"}').output).toMatchObject({
+      retailer: 'Target',
+      code: expect.any(String),
+    });
+  });
+
+  it('should give the same details for the same seed, at the persona\'s bank', () => {
+    const identity = {
+      address: '412 Persimmon Lane, Dayton, Ohio',
+      bank: 'Greenway Savings',
+      pharmacy: 'Greenway Drug',
+      relatives: [],
+      pets: [],
+    };
+    const lookUp = () =>
+      runPersonaTool('look_up_bank_account', '{}', { identity, random: createSeededRandom('earl:look_up_bank_account') });
+
+    expect(lookUp().output).toMatchObject({ bank: 'Greenway Savings', routingNumber: expect.stringMatching(/^\d{9}$/) });
+    expect(lookUp()).toEqual(lookUp());
+  });
+
+  it('should run tools whose arguments are not JSON', () => {
+    expect(runPersonaTool('look_up_ssn', 'not json')).toMatchObject({ ok: true, arguments: 'not json' });
+  });
+
+  it('should report unknown tools', () => {
+    expect(runPersonaTool('wire_money', '{}')).toMatchObject({
+      ok: false,
+      output: { error: 'Unknown tool: wire_money' },
+    });
+  });
+
+  it('should withhold details that fail the safety check', () => {
+    (generateSsn as jest.Mock).mockReturnValueOnce('123-45-6789');
+
+    const result = runPersonaTool('look_up_ssn', '{}');
+
+    expect(result).toMatchObject({ ok: false, output: { error: 'Could not find it' } });
+    expect(JSON.stringify(result)).not.toContain('123-45-6789');
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Tests for Transcript Speakers
+ */
+
+import { Speaker } from '@prisma/client';
+import { getSegmentPersonaId, getSpeakerName } from '../transcript';
+import { EARL_PERSONA, setCustomPersonas } from '../personas';
+
+describe('Transcript Speakers', () => {
+  afterEach(() => {
+    setCustomPersonas([]);
+  });
+
+  describe('getSegmentPersonaId', () => {
+    it('should use the persona recorded on the segment', () => {
+      expect(getSegmentPersonaId({ speaker: Speaker.PERSONA, personaId: 'gladys' }, 'earl')).toBe('gladys');
+    });
+
+    it('should attribute legacy segments to the call persona, then Earl', () => {
+      expect(getSegmentPersonaId({ speaker: Speaker.EARL, personaId: null }, 'brenda')).toBe('brenda');
+      expect(getSegmentPersonaId({ speaker: Speaker.EARL, personaId: null }, null)).toBe('earl');
+    });
+
+    it('should return null for scammer and system segments', () => {
+      expect(getSegmentPersonaId({ speaker: Speaker.SCAMMER, personaId: null }, 'earl')).toBeNull();
+      expect(getSegmentPersonaId({ speaker: Speaker.SYSTEM, personaId: null }, 'earl')).toBeNull();
+    });
+  });
+
+  describe('getSpeakerName', () => {
+    it('should name each kind of speaker', () => {
+      expect(getSpeakerName({ speaker: Speaker.SCAMMER, personaId: null }, 'kevin')).toBe('Scammer');
+      expect(getSpeakerName({ speaker: Speaker.SYSTEM, personaId: null }, 'kevin')).toBe('System');
+      expect(getSpeakerName({ speaker: Speaker.PERSONA, personaId: 'kevin' }, 'kevin')).toBe('Kevin');
+    });
+
+    it('should name custom personas once registered', () => {
+      const segment = { speaker: Speaker.PERSONA, personaId: 'margaret' };
+      expect(getSpeakerName(segment, 'margaret')).toBe('margaret');
+
+      setCustomPersonas([{ ...EARL_PERSONA, id: 'margaret', name: 'Margaret' }]);
+      expect(getSpeakerName(segment, 'margaret')).toBe('Margaret');
+    });
+  });
+});
@@ -14,6 +14,7 @@ jest.mock('twilio', () => {
       }),
       hangup: jest.fn(),
       reject: jest.fn(),
+      dial: jest.fn(),
       toString: jest.fn().mockReturnValue('<Response><Say>Test</Say></Response>')
     }))
   };
@@ -110,6 +111,13 @@ describe('TwilioClient', () => {
     });
   });
 
+  describe('generateForwardTwiML', () => {
+    it('should generate forward TwiML', () => {
+      const twiml = client.generateForwardTwiML('+15551234567');
+      expect(typeof twiml).toBe('string');
+    });
+  });
+
   describe('validateSignature', () => {
     it('should validate Twilio signature', () => {
       const result = client.validateSignature(
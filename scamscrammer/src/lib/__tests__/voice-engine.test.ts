@@ -0,0 +1,175 @@
+/**
+ * Tests for Voice Engines
+ */
+
+import { once } from 'events';
+import {
+  CascadedVoiceEngine,
+  createVoiceEngine,
+  LanguageModel,
+  MockVoiceEngine,
+  TextToSpeech,
+  VoiceEngine,
+  VoiceSessionConfig,
+} from '../voice';
+import { OpenAIRealtimeClient } from '../openai';
+import { EARL_PERSONA } from '../personas';
+import { silence, synthesizeSpeech } from '../mulaw';
+
+// A caller turn: speech, then enough silence to end it
+function sayTurn(engine: { sendAudio(audio: Buffer): void }, text: string): void {
+  engine.sendAudio(synthesizeSpeech(text));
+  engine.sendAudio(silence(1000));
+}
+
+describe('MockVoiceEngine', () => {
+  it('should hold a conversation with no network', async () => {
+    const respond = jest.fn(() => 'Who is this?');
+    const engine = new MockVoiceEngine({ instructions: 'You are Earl.' }, { respond });
+    const events: string[] = [];
+    for (const event of ['speechStarted', 'speechStopped', 'inputTranscript', 'transcript', 'responseComplete'] as const) {
+      engine.on(event, () => events.push(event));
+    }
+    const audio: string[] = [];
+    engine.on('audio', (data) => audio.push(data.audio));
+    const transcripts: string[] = [];
+    engine.on('transcript', (data) => transcripts.push(data.text));
+
+    await engine.connect();
+    engine.queueTranscript('This is Microsoft');
+    sayTurn(engine, 'This is Microsoft');
+    await once(engine, 'responseComplete');
+
+    expect(events).toEqual(['speechStarted', 'speechStopped', 'inputTranscript', 'transcript', 'responseComplete']);
+    expect(respond).toHaveBeenCalledWith({ transcript: 'This is Microsoft', instructions: 'You are Earl.', turnIndex: 0 });
+    expect(transcripts).toEqual(['Who is this?']);
+    expect(Buffer.concat(audio.map((chunk) => Buffer.from(chunk, 'base64')))).toEqual(synthesizeSpeech('Who is this?'));
+  });
+
+  it('should refuse audio before connecting', () => {
+    expect(() => new MockVoiceEngine().sendAudio(silence(20))).toThrow('Cannot send audio: not connected');
+  });
+});
+
+describe('CascadedVoiceEngine', () => {
+  const tts: TextToSpeech = {
+    async *synthesize(text) {
+      for (const word of text.split(' ')) {
+        yield synthesizeSpeech(word);
+      }
+    },
+  };
+
+  function createEngine(replies: Array<Awaited<ReturnType<LanguageModel['complete']>>>) {
+    const llm = { complete: jest.fn(async () => replies.shift() ?? { text: 'Hello?', toolCalls: [] }) };
+    const stt = { transcribe: jest.fn(async () => 'Read me your card number') };
+    const engine = new CascadedVoiceEngine({ stt, llm, tts }, { instructions: 'You are Earl.', voice: 'echo' });
+    return { engine, llm, stt };
+  }
+
+  it('should pass tool calls on and reply once given their output', async () => {
+    const { engine, llm } = createEngine([
+      { text: '', toolCalls: [{ id: 'call-1', name: 'look_up_ssn', arguments: '{}' }] },
+      { text: 'It says nine hundred', toolCalls: [] },
+    ]);
+    const calls: unknown[] = [];
+    engine.on('functionCall', (call) => calls.push(call));
+
+    await engine.connect();
+    sayTurn(engine, 'Read me your card number');
+    await once(engine, 'responseComplete');
+
+    expect(calls).toEqual([expect.objectContaining({ callId: 'call-1', name: 'look_up_ssn', arguments: '{}' })]);
+
+    engine.sendFunctionOutput('call-1', { ssn: '900-12-3456' });
+    engine.createResponse();
+    const [transcript] = await once(engine, 'transcript');
+
+    expect(transcript.text).toBe('It says nine hundred');
+    expect(llm.complete).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        instructions: 'You are Earl.',
+        messages: [
+          { role: 'user', content: 'Read me your card number' },
+          { role: 'assistant', content: '', toolCalls: [{ id: 'call-1', name: 'look_up_ssn', arguments: '{}' }] },
+          { role: 'tool', toolCallId: 'call-1', content: '{"ssn":"900-12-3456"}' },
+        ],
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should cut a reply down to what the caller heard', async () => {
+    const { engine, llm } = createEngine([{ text: 'one two three four', toolCalls: [] }]);
+    let itemId = '';
+    engine.on('audio', (data) => (itemId = data.itemId));
+
+    await engine.connect();
+    sayTurn(engine, 'Hello');
+    await once(engine, 'responseComplete');
+
+    // Heard half of four equally long words (8 bytes of μ-law a millisecond)
+    engine.truncateItem(itemId, synthesizeSpeech('one').length / 4);
+    engine.createResponse();
+    await once(engine, 'responseComplete');
+
+    expect(llm.complete).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        messages: [
+          { role: 'user', content: 'Read me your card number' },
+          { role: 'assistant', content: 'one two' },
+        ],
+      }),
+      expect.anything()
+    );
+  });
+
+  it('should cancel the reply when the caller talks over it', async () => {
+    const { engine } = createEngine([]);
+    const completions: Array<{ status: string }> = [];
+    engine.on('responseComplete', (data) => completions.push(data));
+
+    await engine.connect();
+    engine.createResponse();
+    engine.sendAudio(synthesizeSpeech('Wait'));
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(completions).toEqual([expect.objectContaining({ status: 'cancelled' })]);
+  });
+
+  it('should not reply to turns with nothing said', async () => {
+    const { engine, llm, stt } = createEngine([]);
+    stt.transcribe.mockResolvedValueOnce('  ');
+    const stopped = once(engine, 'speechStopped');
+
+    await engine.connect();
+    sayTurn(engine, 'cough');
+    await stopped;
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(llm.complete).not.toHaveBeenCalled();
+  });
+});
+
+describe('createVoiceEngine', () => {
+  it('should use the engine the persona picks', () => {
+    expect(createVoiceEngine(EARL_PERSONA)).toBeInstanceOf(OpenAIRealtimeClient);
+    expect(
+      createVoiceEngine({ ...EARL_PERSONA, voiceConfig: { engine: 'cascaded', ttsProvider: 'elevenlabs' } })
+    ).toBeInstanceOf(CascadedVoiceEngine);
+    expect(createVoiceEngine({ ...EARL_PERSONA, voiceConfig: { engine: 'mock' } })).toBeInstanceOf(MockVoiceEngine);
+  });
+
+  it('should give each text-to-speech service a voice it knows', () => {
+    const voiceOf = (engine: VoiceEngine) =>
+      (engine as unknown as { sessionConfig: VoiceSessionConfig }).sessionConfig.voice;
+    const cascaded = (ttsProvider: 'openai' | 'elevenlabs') =>
+      createVoiceEngine({
+        ...EARL_PERSONA,
+        voiceConfig: { ...EARL_PERSONA.voiceConfig, engine: 'cascaded', ttsProvider },
+      });
+
+    expect(voiceOf(cascaded('openai'))).toBe('echo');
+    expect(voiceOf(cascaded('elevenlabs'))).toBe('elderly-male-midwest');
+  });
+});
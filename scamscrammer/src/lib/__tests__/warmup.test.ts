@@ -0,0 +1,105 @@
+/**
+ * Tests for Realtime Session Warm-up
+ */
+
+import { EventEmitter } from 'events';
+import {
+  startWarmUp,
+  claimWarmSession,
+  getWarmSessionCount,
+  WARM_SESSION_TTL_MS,
+  WARM_SESSION_WAIT_MS,
+} from '../warmup';
+import { createPersonaClient } from '../openai';
+import { monitoring } from '../monitoring';
+import { EARL_PERSONA } from '../personas';
+
+jest.mock('../openai', () => ({
+  createPersonaClient: jest.fn(),
+}));
+
+describe('Realtime Session Warm-up', () => {
+  let client: EventEmitter & { connect: jest.Mock; disconnect: jest.Mock };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    monitoring.clearMetrics();
+
+    client = Object.assign(new EventEmitter(), {
+      connect: jest.fn().mockResolvedValue(undefined),
+      disconnect: jest.fn(),
+    });
+    (createPersonaClient as jest.Mock).mockReturnValue(client);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should hand the connected client to the stream for the call', async () => {
+    startWarmUp('CA1', EARL_PERSONA);
+    startWarmUp('CA1', EARL_PERSONA);
+
+    expect(createPersonaClient).toHaveBeenCalledTimes(1);
+    await expect(claimWarmSession('CA1', 'earl')).resolves.toBe(client);
+    await expect(claimWarmSession('CA1', 'earl')).resolves.toBeNull();
+    expect(monitoring.getMetrics('realtime.warmup', { outcome: 'claimed' })).toHaveLength(1);
+  });
+
+  it('should not hand over a client for another persona', async () => {
+    startWarmUp('CA1', EARL_PERSONA);
+
+    await expect(claimWarmSession('CA1', 'gladys')).resolves.toBeNull();
+    expect(client.disconnect).toHaveBeenCalledWith('persona_changed');
+  });
+
+  it('should give up on clients that fail or take too long to connect', async () => {
+    client.connect.mockRejectedValueOnce(new Error('boom'));
+    startWarmUp('CA1', EARL_PERSONA);
+    await expect(claimWarmSession('CA1', 'earl')).resolves.toBeNull();
+
+    client.connect.mockReturnValueOnce(new Promise(() => {}));
+    startWarmUp('CA2', EARL_PERSONA);
+    const claimed = claimWarmSession('CA2', 'earl');
+    await jest.advanceTimersByTimeAsync(WARM_SESSION_WAIT_MS);
+
+    await expect(claimed).resolves.toBeNull();
+    expect(client.disconnect).toHaveBeenCalledTimes(2);
+  });
+
+  it('should survive a client that emits an error as it fails to connect', async () => {
+    // Like the Realtime client: 'error' is emitted before connect() rejects
+    client.connect.mockImplementationOnce(() => {
+      client.emit('error', new Error('connect ECONNREFUSED'));
+      return Promise.reject(new Error('connect ECONNREFUSED'));
+    });
+
+    expect(() => startWarmUp('CA1', EARL_PERSONA)).not.toThrow();
+
+    await expect(claimWarmSession('CA1', 'earl')).resolves.toBeNull();
+    expect(client.disconnect).toHaveBeenCalledWith('warm_up_failed');
+    expect(monitoring.getMetrics('realtime.warmup', { outcome: 'failed' })).toHaveLength(1);
+  });
+
+  it('should leave errors to the stream once the client is claimed', async () => {
+    startWarmUp('CA1', EARL_PERSONA);
+    expect(client.listenerCount('error')).toBe(1);
+
+    await claimWarmSession('CA1', 'earl');
+
+    expect(client.listenerCount('error')).toBe(0);
+  });
+
+  it('should disconnect clients whose stream never arrives', () => {
+    startWarmUp('CA1', EARL_PERSONA);
+    expect(getWarmSessionCount()).toBe(1);
+
+    jest.advanceTimersByTime(WARM_SESSION_TTL_MS);
+
+    expect(client.disconnect).toHaveBeenCalledWith('warm_up_expired');
+    expect(getWarmSessionCount()).toBe(0);
+  });
+});
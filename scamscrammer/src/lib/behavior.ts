@@ -0,0 +1,222 @@
+/**
+ * Persona Behavior Engine
+ *
+ * Turns a persona's responseConfig into behavior on a live call:
+ * - Pauses: the audio of each reply is held back for a pause sampled
+ *   between minPauseMs and maxPauseMs (plus hearingAidDelayMs after a
+ *   mishearing) before the caller hears it
+ * - Mishearings and tangents: when the scammer finishes speaking, a stage
+ *   direction may be added to the Realtime conversation, at the configured
+ *   probabilities, nudging the persona to mishear something they said or
+ *   wander off onto one of its tangent topics
+ *
+ * Every behavior that fires is reported to the onBehavior callback so it
+ * can be logged against the call. Responses are forgotten once they're
+ * done (see completeResponse), so a long call doesn't pile up their IDs.
+ */
+
+import { CallEventType } from '@prisma/client';
+import { getRandomPauseDuration, shouldMishear, shouldTangent } from './persona';
+import type { MishearingMapping, PersonaConfig } from './personas/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A behavior that fired during a call
+ */
+export interface BehaviorEvent {
+  type: CallEventType;
+  data: Record<string, string | number>;
+}
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+/**
+ * Runtime behavior for one call's persona
+ */
+export class BehaviorEngine {
+  private readonly persona: PersonaConfig;
+  private readonly onBehavior: (event: BehaviorEvent) => void;
+
+  // Audio held back per response until its pause is over
+  private pendingAudio = new Map<string, Array<() => void>>();
+  private pauseTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private releasedResponses = new Set<string>();
+  private droppedResponses = new Set<string>();
+  // Responses that finished generating while their audio was held back
+  private completedResponses = new Set<string>();
+  private idleWaiters: Array<() => void> = [];
+
+  // Added to the next pause after a mishearing
+  private hearingAidDelayMs = 0;
+  private nextTangent = 0;
+
+  constructor(persona: PersonaConfig, onBehavior: (event: BehaviorEvent) => void = () => {}) {
+    this.persona = persona;
+    this.onBehavior = onBehavior;
+  }
+
+  /**
+   * Get a stage direction for the persona's next reply after the scammer
+   * said something, if a mishearing or tangent fires
+   */
+  getNudge(transcript: string): string | null {
+    const config = this.persona.responseConfig;
+
+    const mishearing = this.findMishearing(transcript);
+    if (mishearing && shouldMishear(config)) {
+      this.hearingAidDelayMs = config.hearingAidDelayMs ?? 0;
+      this.fire(CallEventType.MISHEARING, {
+        original: mishearing.original,
+        misheard: mishearing.misheard,
+      });
+      return (
+        `Stage direction: in your next reply, act as if you misheard "${mishearing.original}" ` +
+        `as "${mishearing.misheard}" and respond to that. Never mention this note.`
+      );
+    }
+
+    const topics = this.persona.tangentTopics;
+    if (topics.length > 0 && shouldTangent(config)) {
+      const topic = topics[this.nextTangent++ % topics.length];
+      this.fire(CallEventType.TANGENT, { subject: topic.subject });
+      return (
+        `Stage direction: in your next reply, wander off onto a tangent about ${topic.subject} ` +
+        `(${topic.details}) before getting back to the point. Never mention this note.`
+      );
+    }
+
+    return null;
+  }
+
+  /**
+   * Send a chunk of reply audio once the reply's pause is over
+   *
+   * The first chunk of each response samples its pause; chunks that arrive
+   * before the pause is over are queued and sent in order when it ends.
+   */
+  delayAudio(responseId: string, send: () => void): void {
+    if (this.droppedResponses.has(responseId)) {
+      return;
+    }
+    if (this.releasedResponses.has(responseId)) {
+      send();
+      return;
+    }
+
+    let queue = this.pendingAudio.get(responseId);
+    if (!queue) {
+      queue = [];
+      this.pendingAudio.set(responseId, queue);
+      this.startPause(responseId);
+    }
+    queue.push(send);
+  }
+
+  /**
+   * Discard reply audio that hasn't been sent yet, e.g. when the scammer
+   * interrupts
+   */
+  dropPendingAudio(): void {
+    for (const responseId of this.pendingAudio.keys()) {
+      clearTimeout(this.pauseTimers.get(responseId));
+      if (!this.completedResponses.delete(responseId)) {
+        this.droppedResponses.add(responseId);
+      }
+    }
+    this.pauseTimers.clear();
+    this.pendingAudio.clear();
+    this.notifyIdle();
+  }
+
+  /**
+   * A response has finished or been cancelled, so no more of its audio is
+   * coming; forget it once its held-back audio (if any) is sent
+   */
+  completeResponse(responseId: string): void {
+    this.droppedResponses.delete(responseId);
+    if (this.pendingAudio.has(responseId)) {
+      this.completedResponses.add(responseId);
+    } else {
+      this.releasedResponses.delete(responseId);
+    }
+  }
+
+  /**
+   * Resolve once no reply audio is being held back
+   */
+  whenIdle(): Promise<void> {
+    if (this.pendingAudio.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /**
+   * Stop all timers when the call ends
+   */
+  dispose(): void {
+    this.dropPendingAudio();
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private startPause(responseId: string): void {
+    const hearingAidDelayMs = this.hearingAidDelayMs;
+    const pauseMs = getRandomPauseDuration(this.persona.responseConfig) + hearingAidDelayMs;
+    this.hearingAidDelayMs = 0;
+
+    this.fire(CallEventType.PAUSE, {
+      responseId,
+      pauseMs,
+      ...(hearingAidDelayMs > 0 && { hearingAidDelayMs }),
+    });
+
+    this.pauseTimers.set(
+      responseId,
+      setTimeout(() => this.release(responseId), pauseMs)
+    );
+  }
+
+  private release(responseId: string): void {
+    const queue = this.pendingAudio.get(responseId) ?? [];
+    this.pauseTimers.delete(responseId);
+    this.pendingAudio.delete(responseId);
+    if (!this.completedResponses.delete(responseId)) {
+      this.releasedResponses.add(responseId);
+    }
+
+    for (const send of queue) {
+      send();
+    }
+    this.notifyIdle();
+  }
+
+  private notifyIdle(): void {
+    if (this.pendingAudio.size > 0) {
+      return;
+    }
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  private findMishearing(transcript: string): MishearingMapping | undefined {
+    const text = transcript.toLowerCase();
+    return (this.persona.mishearings ?? []).find((mapping) =>
+      text.includes(mapping.original.toLowerCase())
+    );
+  }
+
+  private fire(type: CallEventType, data: BehaviorEvent['data']): void {
+    this.onBehavior({ type, data });
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Call Metrics
+ *
+ * How snappy a persona feels and how clean the line is. The voice stream
+ * feeds each call's speech, persona audio and Twilio media events into a
+ * CallMetricsRecorder, and saves its summary against the call when the
+ * stream ends:
+ *
+ * - Response latency: from the scammer stopping talking to the persona's
+ *   reply reaching Twilio (so it includes the persona's deliberate pause)
+ * - Response duration: how much audio each reply was
+ * - Interruptions: times the scammer talked over the persona
+ * - Media gaps: jumps in Twilio's media timestamps, where inbound audio
+ *   went missing
+ * - Out-of-order chunks: media events whose sequence number went backwards
+ * - Pauses: replies the persona deliberately held back, and for how long
+ */
+
+import { audioMs } from './playback';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Twilio sends 20ms of audio per media event
+const MEDIA_CHUNK_MS = 20;
+
+/** Missing audio (ms) between media events that counts as a gap */
+export const MEDIA_GAP_MS = 100;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A call's metrics, as saved in the CallMetrics table
+ */
+export interface CallMetricsSummary {
+  responseCount: number;
+  avgResponseLatencyMs: number | null;
+  p95ResponseLatencyMs: number | null;
+  avgResponseDurationMs: number | null;
+  interruptions: number;
+  interruptionsPerMinute: number;
+  mediaChunks: number;
+  mediaGaps: number;
+  maxMediaGapMs: number | null;
+  outOfOrderChunks: number;
+  pauses: number;
+  totalPauseMs: number;
+}
+
+// =============================================================================
+// Recorder
+// =============================================================================
+
+/**
+ * Collects latency and audio quality measurements over one call
+ */
+export class CallMetricsRecorder {
+  private speechStoppedAt: number | null = null;
+  private latencies: number[] = [];
+  private responseAudioMs = new Map<string, number>();
+  private interruptions = 0;
+  private mediaChunks = 0;
+  private mediaGaps = 0;
+  private maxMediaGapMs: number | null = null;
+  private outOfOrderChunks = 0;
+  private lastSequenceNumber: number | null = null;
+  private lastMediaTimestamp: number | null = null;
+  private pauses = 0;
+  private totalPauseMs = 0;
+
+  /**
+   * The scammer stopped talking; the persona's next reply is timed from here
+   */
+  speechStopped(now: number = Date.now()): void {
+    this.speechStoppedAt = now;
+  }
+
+  /**
+   * Some of the persona's reply was sent to Twilio
+   *
+   * @param audio - Base64 μ-law audio
+   */
+  audioSent(responseId: string, audio: string, now: number = Date.now()): void {
+    const sentMs = this.responseAudioMs.get(responseId);
+    if (sentMs === undefined && this.speechStoppedAt !== null) {
+      this.latencies.push(now - this.speechStoppedAt);
+      this.speechStoppedAt = null;
+    }
+    this.responseAudioMs.set(responseId, (sentMs ?? 0) + audioMs(audio));
+  }
+
+  /**
+   * The scammer talked over the persona
+   */
+  interrupted(): void {
+    this.interruptions++;
+  }
+
+  /**
+   * The persona held a reply back before sending it
+   */
+  paused(pauseMs: number): void {
+    this.pauses++;
+    this.totalPauseMs += pauseMs;
+  }
+
+  /**
+   * A media event arrived from Twilio
+   *
+   * @param sequenceNumber - The event's sequenceNumber
+   * @param timestamp - The media's timestamp (ms from the start of the stream)
+   */
+  mediaReceived(sequenceNumber: string | undefined, timestamp: string | undefined): void {
+    this.mediaChunks++;
+
+    const sequence = Number(sequenceNumber);
+    if (Number.isFinite(sequence)) {
+      if (this.lastSequenceNumber !== null && sequence <= this.lastSequenceNumber) {
+        this.outOfOrderChunks++;
+      } else {
+        this.lastSequenceNumber = sequence;
+      }
+    }
+
+    const time = Number(timestamp);
+    if (Number.isFinite(time)) {
+      if (this.lastMediaTimestamp !== null && time > this.lastMediaTimestamp) {
+        const missingMs = time - this.lastMediaTimestamp - MEDIA_CHUNK_MS;
+        if (missingMs >= MEDIA_GAP_MS) {
+          this.mediaGaps++;
+          this.maxMediaGapMs = Math.max(this.maxMediaGapMs ?? 0, missingMs);
+        }
+      }
+      this.lastMediaTimestamp = Math.max(this.lastMediaTimestamp ?? time, time);
+    }
+  }
+
+  /**
+   * Summarize the call so far
+   *
+   * @param durationMs - How long the call has been streaming
+   */
+  summarize(durationMs: number): CallMetricsSummary {
+    const durations = Array.from(this.responseAudioMs.values());
+    const minutes = durationMs / 60000;
+
+    return {
+      responseCount: durations.length,
+      avgResponseLatencyMs: average(this.latencies),
+      p95ResponseLatencyMs: percentile(this.latencies, 0.95),
+      avgResponseDurationMs: average(durations),
+      interruptions: this.interruptions,
+      interruptionsPerMinute: minutes > 0 ? this.interruptions / minutes : 0,
+      mediaChunks: this.mediaChunks,
+      mediaGaps: this.mediaGaps,
+      maxMediaGapMs: this.maxMediaGapMs,
+      outOfOrderChunks: this.outOfOrderChunks,
+      pauses: this.pauses,
+      totalPauseMs: this.totalPauseMs,
+    };
+  }
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function percentile(values: number[], fraction: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+}
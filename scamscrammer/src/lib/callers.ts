@@ -0,0 +1,351 @@
+/**
+ * Caller Profiles
+ *
+ * Every number that calls in gets a caller profile linking its calls
+ * together, so repeat scammers can be recognized. A profile aggregates the
+ * caller's calls: when they were first and last seen, how much of their time
+ * was wasted, which scams they ran, and which persona kept them on the line
+ * longest. When a repeat caller dials in, that persona can answer again and
+ * be reminded of the previous calls.
+ *
+ * Separately, personas with memory enabled (see MemoryConfig) are given a
+ * short summary of earlier calls from the same number (when, who took it,
+ * the scam and what the caller claimed), so they can bring up "the nice
+ * young man from Microsoft who called Tuesday".
+ */
+
+import { Caller, CallStatus, Prisma, Speaker } from '@prisma/client';
+import prisma from './db';
+import { analyzeCallForTags, getScamTypeFromTag, getScamTypeLabel, ScamType } from './tagging';
+import { TranscriptSegment } from './transcript';
+
+/** Number Twilio reports for callers who withhold their caller ID */
+const ANONYMOUS_NUMBER = '+266696687';
+
+const E164_REGEX = /^\+\d{7,15}$/;
+
+/** Earlier conversations included in a conversation summary */
+const SUMMARY_CALL_LIMIT = 3;
+
+/** Transcript segments loaded per conversation (the summary is capped anyway) */
+const SUMMARY_SEGMENT_LIMIT = 40;
+
+/** Things the caller claimed that are kept per conversation */
+const SUMMARY_CLAIM_LIMIT = 2;
+
+/** Longest claim kept in a summary, in characters */
+const SUMMARY_CLAIM_CHARS = 80;
+
+// Sentences where a scammer says who they are or what they want
+const CLAIM_PATTERN =
+  /\b(?:my name is|this is|i am|i'm|calling from|calling about|on behalf of|you owe|you(?: have|'ve)? won|your (?:computer|account|card|social security|warranty|car|refund|package))\b/i;
+
+/**
+ * Call fields needed to build a caller profile or memory
+ */
+export const CALLER_HISTORY_SELECT = {
+  id: true,
+  persona: true,
+  status: true,
+  duration: true,
+  rating: true,
+  tags: true,
+  screeningAction: true,
+  createdAt: true,
+} satisfies Prisma.CallSelect;
+
+export type CallerHistoryCall = Prisma.CallGetPayload<{ select: typeof CALLER_HISTORY_SELECT }>;
+
+/**
+ * Aggregated view of everything we know about a caller
+ */
+export interface CallerProfile {
+  id: string;
+  phoneNumber: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  totalCalls: number;
+  /** Total seconds the caller spent on the line */
+  totalDuration: number;
+  /** Scam types detected across their calls, most frequent first */
+  scamTypes: ScamType[];
+  /** Persona that kept them on the line longest on average, if any call completed */
+  bestPersona: string | null;
+}
+
+/**
+ * Record that a number is calling, creating its caller profile on first contact
+ *
+ * @param phoneNumber - The caller's number in E.164 format
+ * @returns The caller profile, or null if the number can't identify a caller
+ *          (withheld or not a phone number)
+ */
+export async function recordCaller(phoneNumber: string): Promise<Caller | null> {
+  if (phoneNumber === ANONYMOUS_NUMBER || !E164_REGEX.test(phoneNumber)) {
+    return null;
+  }
+
+  const now = new Date();
+  return prisma.caller.upsert({
+    where: { phoneNumber },
+    create: { phoneNumber, firstSeenAt: now, lastSeenAt: now },
+    update: { lastSeenAt: now },
+  });
+}
+
+/**
+ * Load a caller's calls, newest first
+ *
+ * @param callerId - Caller profile ID
+ * @param excludeTwilioSid - Call to leave out, typically the one in progress
+ */
+export async function loadCallerHistory(
+  callerId: string,
+  excludeTwilioSid?: string
+): Promise<CallerHistoryCall[]> {
+  return prisma.call.findMany({
+    where: {
+      callerId,
+      ...(excludeTwilioSid && { twilioSid: { not: excludeTwilioSid } }),
+    },
+    select: CALLER_HISTORY_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+}
+
+/**
+ * Find the persona that kept a caller on the line longest, by average
+ * duration of their completed calls. Ties go to the most recent persona.
+ *
+ * @param calls - The caller's calls, newest first
+ */
+export function findBestPersona(calls: CallerHistoryCall[]): string | null {
+  const totals = new Map<string, { duration: number; count: number }>();
+
+  for (const call of calls) {
+    if (call.status !== CallStatus.COMPLETED || !call.persona || call.duration === null) {
+      continue;
+    }
+    const total = totals.get(call.persona) ?? { duration: 0, count: 0 };
+    total.duration += call.duration;
+    total.count += 1;
+    totals.set(call.persona, total);
+  }
+
+  let best: string | null = null;
+  let bestAverage = 0;
+  for (const [persona, { duration, count }] of totals) {
+    const average = duration / count;
+    if (best === null || average > bestAverage) {
+      best = persona;
+      bestAverage = average;
+    }
+  }
+  return best;
+}
+
+/**
+ * Scam types detected across a caller's calls, most frequent first
+ */
+export function getCallerScamTypes(calls: CallerHistoryCall[]): ScamType[] {
+  const counts = new Map<ScamType, number>();
+
+  for (const call of calls) {
+    for (const tag of call.tags) {
+      const scamType = getScamTypeFromTag(tag);
+      if (scamType) {
+        counts.set(scamType, (counts.get(scamType) ?? 0) + 1);
+      }
+    }
+  }
+
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([scamType]) => scamType);
+}
+
+/**
+ * Aggregate a caller's calls into their profile
+ */
+export function buildCallerProfile(caller: Caller, calls: CallerHistoryCall[]): CallerProfile {
+  return {
+    id: caller.id,
+    phoneNumber: caller.phoneNumber,
+    firstSeenAt: caller.firstSeenAt,
+    lastSeenAt: caller.lastSeenAt,
+    totalCalls: calls.length,
+    totalDuration: calls.reduce((sum, call) => sum + (call.duration ?? 0), 0),
+    scamTypes: getCallerScamTypes(calls),
+    bestPersona: findBestPersona(calls),
+  };
+}
+
+/**
+ * Build the system prompt section reminding a persona that the caller has
+ * called before
+ *
+ * @param calls - The caller's previous calls, newest first
+ * @param personaId - The persona answering this call
+ * @returns The prompt section, or null if the caller hasn't been engaged before
+ */
+export function buildCallerMemory(calls: CallerHistoryCall[], personaId: string): string | null {
+  // Forwarded and rejected calls never spoke to a persona
+  const engaged = calls.filter((call) => call.persona);
+  if (engaged.length === 0) {
+    return null;
+  }
+
+  const last = engaged[0];
+  const lines = [
+    '## Repeat Caller',
+    '',
+    engaged.length === 1
+      ? 'This person has called before, once.'
+      : `This person has called before, ${engaged.length} times.`,
+    `The last call was on ${last.createdAt.toDateString()}.`,
+  ];
+
+  if (last.duration) {
+    const minutes = Math.max(1, Math.round(last.duration / 60));
+    lines.push(`They stayed on the line for about ${minutes} minute${minutes === 1 ? '' : 's'} last time.`);
+  }
+
+  const scamTypes = getCallerScamTypes(engaged);
+  if (scamTypes.length > 0) {
+    lines.push(`Previously they tried: ${scamTypes.map(getScamTypeLabel).join(', ')}.`);
+  }
+
+  lines.push(
+    last.persona === personaId
+      ? 'You spoke with them last time. You vaguely remember the conversation and are happy to hear from them again, but stay in character and never let on that you know it is a scam.'
+      : 'Someone else in your household spoke with them last time and mentioned the call to you. Stay in character and never let on that you know it is a scam.'
+  );
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Conversation Summaries
+// ============================================================================
+
+/**
+ * An earlier call with its transcript, in speaking order
+ */
+export interface PreviousConversation {
+  createdAt: Date;
+  persona: string | null;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * What the caller claimed on a call: the first few sentences where they say
+ * who they are or what they're after, e.g. "This is Officer Johnson from the
+ * IRS"
+ */
+function findClaims(segments: TranscriptSegment[]): string[] {
+  const claims: string[] = [];
+
+  for (const segment of segments) {
+    const sentences = segment.text.match(/[^.!?]+[.!?]?/g) ?? [];
+    for (const sentence of sentences) {
+      const claim = sentence.trim();
+      if (!CLAIM_PATTERN.test(claim) || claims.includes(claim)) continue;
+
+      claims.push(
+        claim.length > SUMMARY_CLAIM_CHARS ? `${claim.slice(0, SUMMARY_CLAIM_CHARS - 1)}…` : claim
+      );
+      if (claims.length === SUMMARY_CLAIM_LIMIT) return claims;
+    }
+  }
+  return claims;
+}
+
+/**
+ * Summarize earlier conversations with a caller for the session instructions.
+ * Each call is reduced to a line: when it was, who in the household took
+ * it, the scam they ran and what they claimed. The lines share `maxChars`
+ * between them, so older calls aren't crowded out by the latest one.
+ *
+ * @param conversations - Earlier calls from the same number, newest first
+ * @param personaId - The persona answering this call
+ * @param maxChars - Maximum length of the call lines of the summary
+ * @returns The prompt section, or null if nothing was said on earlier calls
+ */
+export function summarizeConversations(
+  conversations: PreviousConversation[],
+  personaId: string,
+  maxChars: number
+): string | null {
+  const spoken = conversations.filter((conversation) =>
+    conversation.segments.some((segment) => segment.speaker !== Speaker.SYSTEM)
+  );
+  if (spoken.length === 0) {
+    return null;
+  }
+
+  const lineChars = Math.floor(maxChars / spoken.length);
+  const lines = spoken.map((conversation) => {
+    const day = conversation.createdAt.toLocaleDateString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    const callerSegments = conversation.segments.filter((segment) => segment.speaker === Speaker.SCAMMER);
+    const { scamType } = analyzeCallForTags(callerSegments);
+    const claims = findClaims(callerSegments);
+
+    const parts = [
+      `- ${day}: ${conversation.persona === personaId ? 'you' : 'someone else in your household'} took the call.`,
+    ];
+    if (scamType !== ScamType.UNKNOWN) {
+      parts.push(`${getScamTypeLabel(scamType)}.`);
+    }
+    if (claims.length > 0) {
+      parts.push(`They said: ${claims.map((claim) => `"${claim}"`).join(' ')}`);
+    }
+
+    const line = parts.join(' ');
+    return line.length > lineChars ? `${line.slice(0, lineChars - 1)}…` : line;
+  });
+
+  return [
+    '## Previous Conversations',
+    '',
+    'This number has called before. Bring it up naturally if it helps keep them talking, but stay in character and never let on that you know it is a scam. What happened on each call, most recent first:',
+    ...lines,
+  ].join('\n');
+}
+
+/**
+ * Load and summarize earlier conversations with a number
+ *
+ * @param fromNumber - The caller's number
+ * @param excludeTwilioSid - The call in progress
+ * @param personaId - The persona answering the call in progress
+ * @param maxChars - Maximum length of the summary
+ */
+export async function loadConversationSummary(
+  fromNumber: string,
+  excludeTwilioSid: string,
+  personaId: string,
+  maxChars: number
+): Promise<string | null> {
+  const conversations = await prisma.call.findMany({
+    where: {
+      fromNumber,
+      twilioSid: { not: excludeTwilioSid },
+      segments: { some: {} },
+    },
+    select: {
+      createdAt: true,
+      persona: true,
+      segments: {
+        select: { speaker: true, personaId: true, text: true },
+        orderBy: { timestamp: 'asc' },
+        take: SUMMARY_SEGMENT_LIMIT,
+      },
+    },
+    orderBy: { createdAt: 'desc' },
+    take: SUMMARY_CALL_LIMIT,
+  });
+
+  return summarizeConversations(conversations, personaId, maxChars);
+}
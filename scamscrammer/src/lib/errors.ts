@@ -133,6 +133,38 @@ export class OpenAIError extends AppError {
   }
 }
 
+/**
+ * Voice engine errors (speech-to-text, language model and text-to-speech
+ * providers)
+ */
+export class VoiceEngineError extends AppError {
+  constructor(
+    message: string,
+    code: string = 'VOICE_ENGINE_ERROR',
+    statusCode: number = 500,
+    context?: Record<string, unknown>
+  ) {
+    super(message, code, statusCode, true, context);
+  }
+
+  static notConnected(action: string): VoiceEngineError {
+    return new VoiceEngineError(
+      `Cannot ${action}: not connected`,
+      'VOICE_ENGINE_NOT_CONNECTED',
+      500
+    );
+  }
+
+  static providerFailed(provider: string, details?: string): VoiceEngineError {
+    return new VoiceEngineError(
+      `${provider} request failed${details ? `: ${details}` : ''}`,
+      'VOICE_PROVIDER_FAILED',
+      502,
+      { provider }
+    );
+  }
+}
+
 /**
  * Storage-related errors (S3)
  */
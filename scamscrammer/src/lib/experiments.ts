@@ -0,0 +1,349 @@
+/**
+ * Persona A/B Experiments
+ *
+ * While an experiment is active, incoming calls are assigned to one of its
+ * variants by weight instead of going through the normal persona selection.
+ * Each variant picks a persona and can override its system prompt and the
+ * Realtime temperature. The assigned variant is recorded on the Call so
+ * outcomes (duration, rating, hang-up rate) can be compared per variant.
+ */
+
+import { ExperimentVariant, Prisma } from '@prisma/client';
+import prisma from './db';
+import { ValidationError } from './errors';
+import { isValidPersonaType, PersonaConfig } from './personas';
+import type { VoiceSessionConfig } from './voice/types';
+
+/** Calls shorter than this (in seconds) count as the scammer hanging up early */
+export const HANG_UP_THRESHOLD_SECONDS = 30;
+
+/** z-score for 95% confidence intervals */
+const Z_95 = 1.96;
+
+/** Realtime API accepted temperature range */
+export const MIN_TEMPERATURE = 0.6;
+export const MAX_TEMPERATURE = 1.2;
+
+/** Prisma include for experiments: variants in creation order with their call counts */
+export const EXPERIMENT_INCLUDE = {
+  variants: {
+    orderBy: { createdAt: 'asc' },
+    include: { _count: { select: { calls: true } } },
+  },
+} satisfies Prisma.ExperimentInclude;
+
+/** Overrides a variant applies to the persona's Realtime session */
+export type VariantOverrides = Pick<ExperimentVariant, 'promptOverride' | 'temperatureOverride'>;
+
+// ============================================================================
+// Assignment
+// ============================================================================
+
+/**
+ * Pick a variant at random, proportionally to its weight.
+ * Variants with no weight or an unknown persona are never picked.
+ *
+ * @param variants - Candidate variants
+ * @param random - Random number source in [0, 1), for testing
+ * @returns The chosen variant, or null if none are eligible
+ */
+export function pickWeightedVariant<T extends Pick<ExperimentVariant, 'persona' | 'weight'>>(
+  variants: T[],
+  random: () => number = Math.random
+): T | null {
+  const eligible = variants.filter(
+    (variant) => variant.weight > 0 && isValidPersonaType(variant.persona)
+  );
+  const totalWeight = eligible.reduce((sum, variant) => sum + variant.weight, 0);
+  if (totalWeight === 0) {
+    return null;
+  }
+
+  let target = random() * totalWeight;
+  for (const variant of eligible) {
+    target -= variant.weight;
+    if (target < 0) {
+      return variant;
+    }
+  }
+  return eligible[eligible.length - 1];
+}
+
+/**
+ * Assign an incoming call to a variant of the active experiment.
+ * Custom personas must already be registered (see loadCustomPersonas).
+ *
+ * @returns The assigned variant, or null when no experiment is running
+ */
+export async function assignExperimentVariant(): Promise<ExperimentVariant | null> {
+  const experiment = await prisma.experiment.findFirst({
+    where: { isActive: true },
+    include: { variants: true },
+  });
+  if (!experiment) {
+    return null;
+  }
+  return pickWeightedVariant(experiment.variants);
+}
+
+/**
+ * Apply a variant's overrides to a persona and its Realtime session.
+ *
+ * @param persona - The persona answering the call
+ * @param variant - The call's experiment variant, if any
+ * @returns The persona to use and session config overrides for createVoiceEngine
+ */
+export function applyVariantOverrides(
+  persona: PersonaConfig,
+  variant: VariantOverrides | null | undefined
+): { persona: PersonaConfig; sessionConfig: Partial<VoiceSessionConfig> } {
+  if (!variant) {
+    return { persona, sessionConfig: {} };
+  }
+
+  return {
+    persona: variant.promptOverride
+      ? { ...persona, systemPrompt: variant.promptOverride }
+      : persona,
+    sessionConfig:
+      variant.temperatureOverride !== null
+        ? { temperature: variant.temperatureOverride }
+        : {},
+  };
+}
+
+// ============================================================================
+// Outcome Statistics
+// ============================================================================
+
+/**
+ * A point estimate with a 95% confidence interval
+ */
+export interface Estimate {
+  value: number;
+  lower: number;
+  upper: number;
+  /** Number of observations the estimate is based on */
+  n: number;
+}
+
+/**
+ * Outcomes for a group of calls
+ */
+export interface OutcomeStats {
+  totalCalls: number;
+  /** Mean call duration in seconds (completed calls) */
+  duration: Estimate | null;
+  /** Mean rating 1-5 (rated calls) */
+  rating: Estimate | null;
+  /** Share of completed calls shorter than HANG_UP_THRESHOLD_SECONDS */
+  hangUpRate: Estimate | null;
+}
+
+/**
+ * Outcomes for one experiment variant
+ */
+export interface VariantStats extends OutcomeStats {
+  variantId: string;
+  name: string;
+  persona: string;
+  weight: number;
+}
+
+/**
+ * Call outcome fields used for the statistics
+ */
+export interface CallOutcome {
+  experimentVariantId: string | null;
+  duration: number | null;
+  rating: number | null;
+}
+
+/**
+ * Mean with a normal-approximation 95% confidence interval
+ */
+export function meanEstimate(values: number[]): Estimate | null {
+  const n = values.length;
+  if (n === 0) {
+    return null;
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / n;
+  if (n === 1) {
+    return { value: mean, lower: mean, upper: mean, n };
+  }
+
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1);
+  const margin = Z_95 * Math.sqrt(variance / n);
+  return { value: mean, lower: mean - margin, upper: mean + margin, n };
+}
+
+/**
+ * Proportion with a Wilson score 95% confidence interval, which stays
+ * within [0, 1] and behaves well for small samples
+ */
+export function proportionEstimate(successes: number, n: number): Estimate | null {
+  if (n === 0) {
+    return null;
+  }
+
+  const p = successes / n;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / n;
+  const center = (p + z2 / (2 * n)) / denominator;
+  const margin = (Z_95 * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denominator;
+  return {
+    value: p,
+    lower: Math.max(0, center - margin),
+    upper: Math.min(1, center + margin),
+    n,
+  };
+}
+
+/**
+ * Compute outcome statistics for a group of completed calls
+ */
+export function summarizeOutcomes(calls: Pick<CallOutcome, 'duration' | 'rating'>[]): OutcomeStats {
+  const durations = calls
+    .map((call) => call.duration)
+    .filter((duration): duration is number => duration !== null && duration > 0);
+  const ratings = calls
+    .map((call) => call.rating)
+    .filter((rating): rating is number => rating !== null);
+  const hangUps = durations.filter((duration) => duration < HANG_UP_THRESHOLD_SECONDS).length;
+
+  return {
+    totalCalls: calls.length,
+    duration: meanEstimate(durations),
+    rating: meanEstimate(ratings),
+    hangUpRate: proportionEstimate(hangUps, durations.length),
+  };
+}
+
+/**
+ * Compute outcome statistics for each variant from its calls
+ *
+ * @param variants - The experiment's variants
+ * @param calls - Completed calls assigned to those variants
+ */
+export function computeVariantStats(
+  variants: Pick<ExperimentVariant, 'id' | 'name' | 'persona' | 'weight'>[],
+  calls: CallOutcome[]
+): VariantStats[] {
+  return variants.map((variant) => {
+    const variantCalls = calls.filter((call) => call.experimentVariantId === variant.id);
+
+    return {
+      variantId: variant.id,
+      name: variant.name,
+      persona: variant.persona,
+      weight: variant.weight,
+      ...summarizeOutcomes(variantCalls),
+    };
+  });
+}
+
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validated variant definition for a new experiment
+ */
+export interface VariantInput {
+  name: string;
+  persona: string;
+  weight: number;
+  promptOverride: string | null;
+  temperatureOverride: number | null;
+}
+
+/**
+ * Validated definition for a new experiment
+ */
+export interface ExperimentInput {
+  name: string;
+  description: string | null;
+  variants: VariantInput[];
+}
+
+function parseVariantInput(value: unknown, index: number): VariantInput {
+  const field = `variants[${index}]`;
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw ValidationError.invalidFormat(field, 'object');
+  }
+  const variant = value as Record<string, unknown>;
+
+  if (typeof variant.name !== 'string' || !variant.name.trim()) {
+    throw ValidationError.requiredField(`${field}.name`);
+  }
+  if (typeof variant.persona !== 'string' || !isValidPersonaType(variant.persona)) {
+    throw ValidationError.invalidValue(`${field}.persona`, `Unknown persona: ${String(variant.persona)}`);
+  }
+
+  const weight = variant.weight ?? 1;
+  if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1) {
+    throw ValidationError.invalidValue(`${field}.weight`, 'Weight must be a positive integer');
+  }
+
+  const promptOverride = variant.promptOverride ?? null;
+  if (promptOverride !== null && typeof promptOverride !== 'string') {
+    throw ValidationError.invalidFormat(`${field}.promptOverride`, 'string');
+  }
+
+  const temperatureOverride = variant.temperatureOverride ?? null;
+  if (
+    temperatureOverride !== null &&
+    (typeof temperatureOverride !== 'number' ||
+      temperatureOverride < MIN_TEMPERATURE ||
+      temperatureOverride > MAX_TEMPERATURE)
+  ) {
+    throw ValidationError.invalidValue(
+      `${field}.temperatureOverride`,
+      `Temperature must be between ${MIN_TEMPERATURE} and ${MAX_TEMPERATURE}`
+    );
+  }
+
+  return {
+    name: variant.name.trim(),
+    persona: variant.persona,
+    weight,
+    promptOverride: promptOverride?.trim() || null,
+    temperatureOverride,
+  };
+}
+
+/**
+ * Validate a request body defining a new experiment.
+ * Custom personas must already be registered (see loadCustomPersonas).
+ *
+ * @throws ValidationError if the experiment or any variant is invalid
+ */
+export function parseExperimentInput(body: unknown): ExperimentInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const { name, description, variants } = body as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw ValidationError.requiredField('name');
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    throw ValidationError.invalidFormat('description', 'string');
+  }
+  if (!Array.isArray(variants) || variants.length < 2) {
+    throw ValidationError.invalidValue('variants', 'An experiment needs at least two variants');
+  }
+
+  const parsedVariants = variants.map(parseVariantInput);
+  const names = new Set(parsedVariants.map((variant) => variant.name));
+  if (names.size !== parsedVariants.length) {
+    throw ValidationError.invalidValue('variants', 'Variant names must be unique');
+  }
+
+  return {
+    name: name.trim(),
+    description: (description as string | undefined)?.trim() || null,
+    variants: parsedVariants,
+  };
+}
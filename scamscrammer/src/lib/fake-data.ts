@@ -0,0 +1,269 @@
+/**
+ * Fake Account Details
+ *
+ * Numbers a persona can read out when a scammer asks for their card, bank
+ * account, Social Security number, gift card or remote-access code. Each one
+ * looks right over the phone but is built to fail the check the real thing
+ * has to pass, so it can never belong to anyone:
+ *
+ * - Card numbers fail the Luhn checksum every card number satisfies
+ * - Routing numbers fail the ABA checksum, so the account number alongside
+ *   one can't be reached
+ * - SSNs are in the 900-999 area, which is never issued
+ * - Gift card codes contain O and I, which issuers leave out of their codes
+ *   so they can't be misread as 0 and 1
+ * - Remote-access IDs start with 0, which TeamViewer and AnyDesk IDs never do
+ *
+ * Everything is generated locally; nothing is looked up anywhere. The
+ * is*Fake checks are applied to every value before it's handed to a persona
+ * (see tools.ts), independently of how it was generated.
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Card networks the persona can claim to have
+ */
+export type CardNetwork = 'visa' | 'mastercard' | 'amex' | 'discover';
+
+export interface FakeCard {
+  network: CardNetwork;
+  number: string;
+  expiry: string;
+  securityCode: string;
+}
+
+export interface FakeBankAccount {
+  routingNumber: string;
+  accountNumber: string;
+}
+
+export interface FakeGiftCard {
+  code: string;
+  pin: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const CARD_NETWORKS: CardNetwork[] = ['visa', 'mastercard', 'amex', 'discover'];
+
+// Number prefix and length for each network
+const CARD_FORMATS: Record<CardNetwork, { prefixes: string[]; length: number }> = {
+  visa: { prefixes: ['4'], length: 16 },
+  mastercard: { prefixes: ['51', '52', '53', '54', '55'], length: 16 },
+  amex: { prefixes: ['34', '37'], length: 15 },
+  discover: { prefixes: ['6011'], length: 16 },
+};
+
+// Gift card code alphabet: issuers' alphabet, plus the O and I they leave out
+const GIFT_CARD_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// =============================================================================
+// Generators
+// =============================================================================
+
+/**
+ * A card number for the network that fails the Luhn check
+ *
+ * @param random - Random number source in [0, 1), for testing
+ */
+export function generateCardNumber(
+  network: CardNetwork = 'visa',
+  random: () => number = Math.random
+): FakeCard {
+  const { prefixes, length } = CARD_FORMATS[network];
+  const prefix = pick(prefixes, random);
+  const payload = prefix + randomDigits(length - 1 - prefix.length, random);
+
+  // Any check digit but the right one
+  const checkDigit = (luhnCheckDigit(payload) + 1 + randomInt(9, random)) % 10;
+
+  const month = String(1 + randomInt(12, random)).padStart(2, '0');
+  const year = String((new Date().getFullYear() + 1 + randomInt(4, random)) % 100).padStart(2, '0');
+
+  return {
+    network,
+    number: payload + checkDigit,
+    expiry: `${month}/${year}`,
+    securityCode: randomDigits(network === 'amex' ? 4 : 3, random),
+  };
+}
+
+/**
+ * A routing number that fails the ABA checksum, and an account number to
+ * go with it
+ *
+ * @param random - Random number source in [0, 1), for testing
+ */
+export function generateBankAccount(random: () => number = Math.random): FakeBankAccount {
+  // Routing numbers start 01-12 (Federal Reserve district)
+  const district = String(1 + randomInt(12, random)).padStart(2, '0');
+  const payload = district + randomDigits(6, random);
+
+  // Any check digit but the right one
+  const checkDigit = (abaCheckDigit(payload) + 1 + randomInt(9, random)) % 10;
+
+  return {
+    routingNumber: payload + checkDigit,
+    accountNumber: randomDigits(10, random),
+  };
+}
+
+/**
+ * An SSN from the never-issued 900-999 area, formatted AAA-GG-SSSS
+ *
+ * @param random - Random number source in [0, 1), for testing
+ */
+export function generateSsn(random: () => number = Math.random): string {
+  const area = 900 + randomInt(100, random);
+  const group = String(1 + randomInt(99, random)).padStart(2, '0');
+  const serial = String(1 + randomInt(9999, random)).padStart(4, '0');
+  return `${area}-${group}-${serial}`;
+}
+
+/**
+ * A gift card code in groups of four, with an O or an I in every group,
+ * and a PIN to go with it
+ *
+ * @param random - Random number source in [0, 1), for testing
+ */
+export function generateGiftCardCode(random: () => number = Math.random): FakeGiftCard {
+  const groups = Array.from({ length: 4 }, () => {
+    const chars = Array.from({ length: 4 }, () => pick([...GIFT_CARD_ALPHABET], random));
+    chars[randomInt(4, random)] = pick(['O', 'I'], random);
+    return chars.join('');
+  });
+
+  return { code: groups.join('-'), pin: randomDigits(4, random) };
+}
+
+/**
+ * A 9 digit remote-access ID starting with 0, formatted like TeamViewer's
+ * "012 345 678"
+ *
+ * @param random - Random number source in [0, 1), for testing
+ */
+export function generateRemoteAccessCode(random: () => number = Math.random): string {
+  const digits = '0' + randomDigits(8, random);
+  return `${digits.slice(0, 3)} ${digits.slice(3, 6)} ${digits.slice(6)}`;
+}
+
+/**
+ * A random number source in [0, 1) that always gives the same sequence for
+ * the same seed, so details made up from it come out the same every time
+ */
+export function createSeededRandom(seed: string): () => number {
+  // FNV-1a hash of the seed as mulberry32's starting state
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// =============================================================================
+// Safety Checks
+// =============================================================================
+
+/**
+ * Whether a card number fails the Luhn check, so no card can have it
+ */
+export function isFakeCardNumber(number: string): boolean {
+  const digits = number.replace(/\D/g, '');
+  return digits.length > 1 && luhnCheckDigit(digits.slice(0, -1)) !== Number(digits.slice(-1));
+}
+
+/**
+ * Whether a routing number fails the ABA checksum, so no bank has it
+ */
+export function isFakeRoutingNumber(routingNumber: string): boolean {
+  const digits = routingNumber.replace(/\D/g, '');
+  return digits.length !== 9 || abaCheckDigit(digits.slice(0, 8)) !== Number(digits[8]);
+}
+
+/**
+ * Whether an SSN is one that is never issued
+ */
+export function isFakeSsn(ssn: string): boolean {
+  const digits = ssn.replace(/\D/g, '');
+  if (digits.length !== 9) {
+    return true;
+  }
+
+  const area = Number(digits.slice(0, 3));
+  return (
+    area === 0 ||
+    area === 666 ||
+    area >= 900 ||
+    digits.slice(3, 5) === '00' ||
+    digits.slice(5) === '0000'
+  );
+}
+
+/**
+ * Whether a gift card code contains a character issuers leave out
+ */
+export function isFakeGiftCardCode(code: string): boolean {
+  return /[OI]/.test(code.toUpperCase());
+}
+
+/**
+ * Whether a remote-access ID starts with 0, which real IDs never do
+ */
+export function isFakeRemoteAccessCode(code: string): boolean {
+  return code.replace(/\D/g, '').startsWith('0');
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * The Luhn check digit that would make `payload` + digit a valid number
+ */
+function luhnCheckDigit(payload: string): number {
+  let sum = 0;
+  for (let i = 0; i < payload.length; i++) {
+    // Double every second digit, starting from the one next to the check digit
+    let digit = Number(payload[payload.length - 1 - i]);
+    if (i % 2 === 0) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * The ABA check digit for the first 8 digits of a routing number
+ */
+function abaCheckDigit(payload: string): number {
+  const weights = [3, 7, 1, 3, 7, 1, 3, 7];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(payload[i]), 0);
+  return (10 - (sum % 10)) % 10;
+}
+
+function randomInt(max: number, random: () => number): number {
+  return Math.min(max - 1, Math.floor(random() * max));
+}
+
+function randomDigits(count: number, random: () => number): string {
+  return Array.from({ length: count }, () => randomInt(10, random)).join('');
+}
+
+function pick<T>(values: T[], random: () => number): T {
+  return values[randomInt(values.length, random)];
+}
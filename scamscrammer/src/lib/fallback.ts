@@ -0,0 +1,95 @@
+/**
+ * Scripted Fallback Persona
+ *
+ * When the OpenAI Realtime API can't be reached, the scammer would
+ * otherwise hear silence. Instead the call is switched from the media
+ * stream to a TwiML <Say>/<Gather> loop: the persona works through its
+ * signature phrases and tangent topics, and "mishears" whatever the
+ * scammer says, so they're kept busy anyway. Calls answered this way are
+ * marked as having used fallback mode.
+ */
+
+import prisma from './db';
+import { applyMishearings } from './persona';
+import type { PersonaConfig } from './personas/types';
+import { createTwilioClient, getWebhookBaseUrl } from './twilio';
+
+/** Webhook that serves each turn of the fallback conversation */
+export const FALLBACK_WEBHOOK_PATH = '/api/twilio/fallback';
+
+/** Said when a persona has no phrases or topics to fall back on */
+const FALLBACK_FILLER = "Sorry, this line's terrible. Could you say that again?";
+
+/**
+ * URL of the fallback webhook for a turn of the conversation
+ */
+export function getFallbackUrl(personaId: string, turn: number): string {
+  const params = new URLSearchParams({ persona: personaId, turn: String(turn) });
+  return `${getWebhookBaseUrl()}${FALLBACK_WEBHOOK_PATH}?${params}`;
+}
+
+/**
+ * Get what the persona says on a turn of the fallback conversation
+ *
+ * Signature phrases are used in order, with a tangent topic brought up
+ * every other turn. When the persona mishears what the scammer said, it
+ * asks about that first.
+ *
+ * @param turn - Zero-based turn number
+ * @param heard - What the scammer said on the previous turn, if anything
+ */
+export function getFallbackLine(persona: PersonaConfig, turn: number, heard?: string): string {
+  const parts: string[] = [];
+
+  if (heard) {
+    const misheard = applyMishearings(heard, persona.responseConfig, persona.mishearings ?? []);
+    if (misheard !== heard) {
+      parts.push(`Did you say ${misheard}?`);
+    }
+  }
+
+  const phrases = persona.signaturePhrases;
+  if (phrases.length > 0) {
+    parts.push(phrases[turn % phrases.length]);
+  }
+
+  const topics = persona.tangentTopics;
+  if (topics.length > 0 && turn % 2 === 1) {
+    const topic = topics[Math.floor(turn / 2) % topics.length];
+    parts.push(`Did I ever tell you about ${topic.subject}?`);
+  }
+
+  return parts.length > 0 ? parts.join(' ') : FALLBACK_FILLER;
+}
+
+/**
+ * Switch a live call to the scripted fallback conversation and mark it as
+ * having used fallback mode
+ *
+ * @param callId - Call record, if the call was found in the database
+ * @returns Whether the call was switched
+ */
+export async function startFallback(
+  callSid: string,
+  callId: string | null,
+  persona: PersonaConfig
+): Promise<boolean> {
+  try {
+    await createTwilioClient().redirectCall(callSid, getFallbackUrl(persona.id, 0));
+  } catch (error) {
+    console.error('[Fallback] Error switching call to fallback mode:', error);
+    return false;
+  }
+
+  console.log('[Fallback] Call switched to fallback mode:', { callSid, persona: persona.id });
+
+  if (callId) {
+    try {
+      await prisma.call.update({ where: { id: callId }, data: { usedFallback: true } });
+    } catch (error) {
+      console.error('[Fallback] Error marking call as fallback:', error);
+    }
+  }
+
+  return true;
+}
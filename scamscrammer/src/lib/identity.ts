@@ -0,0 +1,234 @@
+/**
+ * Persona Identity on a Call
+ *
+ * Keeps what a persona says about itself consistent. The persona's identity
+ * profile (see personas/identity.ts) goes into the session instructions,
+ * along with anything it made up on earlier calls from the same number.
+ * Personas still improvise ("my grandson Tommy"), so their transcripts are
+ * scanned for personal details; new ones are added to the instructions for
+ * the rest of the call and saved for the next call from that number.
+ */
+
+import { IdentityFactKind } from '@prisma/client';
+import { prisma } from './db';
+import type { IdentityProfile } from './personas/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A personal detail the persona gave a caller
+ */
+export interface IdentityFact {
+  kind: IdentityFactKind;
+  /** The relation or kind of animal, for relatives and pets */
+  subject: string;
+  value: string;
+}
+
+// =============================================================================
+// Fact Extraction
+// =============================================================================
+
+const RELATIONS =
+  '(?:late )?(?:grandson|granddaughter|son|daughter|nephew|niece|sister|brother|cousin|husband|wife|mom|mother|dad|father|aunt|uncle)';
+const ANIMALS =
+  'dog|cat|kitty|puppy|parakeet|parrot|bird|canary|budgie|cockatiel|goldfish|fish|hamster|rabbit|bunny|turtle';
+
+// A first name, with a title for pets like "Mr. Whiskers" or "General Patton"
+const NAME = "((?:(?:Mr|Mrs|Ms|Dr)\\.? |(?:General|Captain|Sir|Lady|Princess|King|Queen) )?[A-Z][a-z']+)";
+
+// A capitalized business name, e.g. "First Prairie Savings & Loan"
+const BUSINESS = "([A-Z][\\w'-]*(?: (?:[A-Z][\\w'-]*|&|of|and))*)";
+
+const STREET_TYPES = 'Street|St|Road|Rd|Avenue|Ave|Lane|Ln|Drive|Dr|Court|Ct|Way|Boulevard|Blvd|Place|Pl|Circle|Terrace';
+
+const PATTERNS: Array<{ kind: IdentityFactKind; pattern: RegExp }> = [
+  {
+    kind: IdentityFactKind.RELATIVE,
+    pattern: new RegExp(`\\b[Mm]y (${RELATIONS}),? (?:named |called |is )?${NAME}`, 'g'),
+  },
+  {
+    kind: IdentityFactKind.PET,
+    pattern: new RegExp(`\\b[Mm]y (${ANIMALS}),? (?:named |called |is )?${NAME}`, 'g'),
+  },
+  {
+    kind: IdentityFactKind.BANK,
+    pattern: new RegExp(`\\b(?:I bank (?:with|at)|[Mm]y bank is|[Mm]y account is (?:at|with)) (?:the )?${BUSINESS}`, 'g'),
+  },
+  {
+    kind: IdentityFactKind.PHARMACY,
+    pattern: new RegExp(
+      `\\b(?:[Mm]y pharmacy is|I get my (?:pills|prescriptions?|medicines?|medications?) (?:at|from)) (?:the )?${BUSINESS}`,
+      'g'
+    ),
+  },
+  {
+    kind: IdentityFactKind.ADDRESS,
+    pattern: new RegExp(
+      `\\b(?:I live (?:at|on)|[Mm]y address is) (\\d+ [A-Z][a-z]+(?: [A-Z][a-z]+)* (?:${STREET_TYPES}))\\b`,
+      'g'
+    ),
+  },
+];
+
+// Capitalized words at the start of a sentence that aren't names
+const NOT_NAMES = new Set(['And', 'But', 'So', 'Well', 'Oh', 'The', 'He', 'She', 'They', 'It', 'We', 'You', 'Yes', 'No']);
+
+/**
+ * Find the personal details the persona gave in something it said
+ */
+export function extractIdentityFacts(text: string): IdentityFact[] {
+  const facts: IdentityFact[] = [];
+
+  for (const { kind, pattern } of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const hasSubject = kind === IdentityFactKind.RELATIVE || kind === IdentityFactKind.PET;
+      const subject = hasSubject ? match[1].toLowerCase() : '';
+      const value = (hasSubject ? match[2] : match[1]).replace(/ (?:&|of|and)$/, '');
+
+      if (NOT_NAMES.has(value)) {
+        continue;
+      }
+      facts.push({ kind, subject, value });
+    }
+  }
+
+  return facts;
+}
+
+// =============================================================================
+// Tracker
+// =============================================================================
+
+/**
+ * What the persona has said about itself over one call
+ */
+export class IdentityTracker {
+  readonly profile: IdentityProfile;
+  private facts: IdentityFact[];
+
+  /**
+   * @param facts - Details the persona made up on earlier calls from the same number
+   */
+  constructor(profile: IdentityProfile, facts: IdentityFact[] = []) {
+    this.profile = profile;
+    this.facts = [...facts];
+  }
+
+  /**
+   * Pick out details the persona made up in something it said
+   *
+   * @returns Details that aren't in its profile or already known, so
+   *          should be remembered
+   */
+  capture(text: string): IdentityFact[] {
+    const captured: IdentityFact[] = [];
+    for (const fact of extractIdentityFacts(text)) {
+      if (!this.isKnown(fact)) {
+        this.facts.push(fact);
+        captured.push(fact);
+      }
+    }
+    return captured;
+  }
+
+  /**
+   * The session instructions section listing the persona's details
+   */
+  buildPromptSection(): string {
+    const { address, bank, pharmacy, relatives, pets } = this.profile;
+    const lines = [
+      '## Your Details',
+      '',
+      'If the caller asks about you, these are your details. Always give the same answers:',
+      `- Address: ${address}`,
+      `- Bank: ${bank}`,
+      `- Pharmacy: ${pharmacy}`,
+      `- Family: ${relatives.map((relative) => `your ${relative.relation} ${relative.name}`).join(', ')}`,
+      `- Pets: ${pets.map((pet) => `your ${pet.kind} ${pet.name}`).join(', ')}`,
+    ];
+
+    if (this.facts.length > 0) {
+      lines.push('', 'You have also told this caller the following. Stick to it:');
+      for (const fact of this.facts) {
+        lines.push(`- ${describeFact(fact)}`);
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private isKnown(fact: IdentityFact): boolean {
+    const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+    const { profile } = this;
+
+    switch (fact.kind) {
+      case IdentityFactKind.RELATIVE:
+        if (profile.relatives.some((relative) => same(relative.name, fact.value))) return true;
+        break;
+      case IdentityFactKind.PET:
+        if (profile.pets.some((pet) => same(pet.name, fact.value))) return true;
+        break;
+      case IdentityFactKind.BANK:
+        if (same(profile.bank, fact.value)) return true;
+        break;
+      case IdentityFactKind.PHARMACY:
+        if (same(profile.pharmacy, fact.value)) return true;
+        break;
+      case IdentityFactKind.ADDRESS:
+        if (profile.address.toLowerCase().startsWith(fact.value.toLowerCase())) return true;
+        break;
+    }
+
+    // Only the first bank, pharmacy or address the persona gives counts
+    const hasSubject = fact.kind === IdentityFactKind.RELATIVE || fact.kind === IdentityFactKind.PET;
+    return this.facts.some(
+      (known) => known.kind === fact.kind && (!hasSubject || same(known.value, fact.value))
+    );
+  }
+}
+
+function describeFact(fact: IdentityFact): string {
+  switch (fact.kind) {
+    case IdentityFactKind.RELATIVE:
+    case IdentityFactKind.PET:
+      return `Your ${fact.subject} is called ${fact.value}`;
+    case IdentityFactKind.BANK:
+      return `You bank with ${fact.value}`;
+    case IdentityFactKind.PHARMACY:
+      return `Your pharmacy is ${fact.value}`;
+    case IdentityFactKind.ADDRESS:
+      return `You live at ${fact.value}`;
+  }
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+/**
+ * Load the details a persona made up on earlier calls from a number, oldest first
+ */
+export async function loadIdentityFacts(personaId: string, fromNumber: string): Promise<IdentityFact[]> {
+  return prisma.identityFact.findMany({
+    where: { personaId, fromNumber },
+    select: { kind: true, subject: true, value: true },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Save details a persona made up on a call
+ */
+export async function saveIdentityFacts(
+  personaId: string,
+  fromNumber: string,
+  callId: string,
+  facts: IdentityFact[]
+): Promise<void> {
+  await prisma.identityFact.createMany({
+    data: facts.map((fact) => ({ personaId, fromNumber, callId, ...fact })),
+  });
+}
@@ -0,0 +1,108 @@
+/**
+ * Idle Line Handling
+ *
+ * Scammers put the persona on hold, wander off to fetch a supervisor, or
+ * just hang up without Twilio noticing straight away. The voice stream
+ * feeds each call's speech into an IdleMonitor, which decides from the
+ * persona's idleConfig when the persona should check the scammer is still
+ * there and when the line has been dead long enough to hang up.
+ */
+
+import { DEFAULT_IDLE_CONFIG, IdleConfig } from './personas';
+
+/**
+ * What the persona should do about the silence
+ */
+export type IdleAction = 'check_in' | 'hang_up';
+
+/**
+ * Tracks how long a call has gone without anyone speaking
+ */
+export class IdleMonitor {
+  private config: IdleConfig;
+  // When the scammer last spoke, and when anyone last made a sound (epoch ms)
+  private lastScammerSpeech: number;
+  private lastSound: number;
+  private scammerSpeaking = false;
+  private hungUp = false;
+  private nextPhrase = 0;
+
+  constructor(config: IdleConfig = DEFAULT_IDLE_CONFIG, now: number = Date.now()) {
+    this.config = config;
+    this.lastScammerSpeech = now;
+    this.lastSound = now;
+  }
+
+  /**
+   * The scammer started talking; nothing is idle until they stop
+   */
+  speechStarted(now: number = Date.now()): void {
+    this.scammerSpeaking = true;
+    this.lastScammerSpeech = now;
+    this.lastSound = now;
+  }
+
+  /**
+   * The scammer stopped talking
+   */
+  speechStopped(now: number = Date.now()): void {
+    this.scammerSpeaking = false;
+    this.lastScammerSpeech = now;
+    this.lastSound = now;
+  }
+
+  /**
+   * The persona said something, so the line wasn't silent
+   *
+   * Only delays the next check-in: a persona talking to itself doesn't keep
+   * a dead line open.
+   */
+  personaSpoke(now: number = Date.now()): void {
+    this.lastSound = now;
+  }
+
+  /**
+   * Decide whether the silence so far calls for the persona to do anything
+   *
+   * Returns 'check_in' each time the line has been silent for
+   * checkInAfterMs, and 'hang_up' once (and only once) when the scammer
+   * hasn't spoken for hangUpAfterMs.
+   */
+  check(now: number = Date.now()): IdleAction | null {
+    if (this.hungUp || this.scammerSpeaking) {
+      return null;
+    }
+
+    if (now - this.lastScammerSpeech >= this.config.hangUpAfterMs) {
+      this.hungUp = true;
+      return 'hang_up';
+    }
+
+    if (now - this.lastSound >= this.config.checkInAfterMs) {
+      // Count the check-in itself as a sound, so it isn't repeated before
+      // the persona's reply arrives
+      this.lastSound = now;
+      return 'check_in';
+    }
+
+    return null;
+  }
+
+  /**
+   * The persona's next phrase for checking in, if it has any
+   */
+  getCheckInPhrase(): string | undefined {
+    const phrases = this.config.checkInPhrases ?? [];
+    if (phrases.length === 0) {
+      return undefined;
+    }
+    return phrases[this.nextPhrase++ % phrases.length];
+  }
+
+  /**
+   * What the persona says before hanging up, if it has a set goodbye
+   */
+  getGoodbye(): string | undefined {
+    return this.config.goodbye;
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Robocall IVR Navigation
+ *
+ * A prerecorded robocall ("Press 1 to speak to an agent") doesn't listen to
+ * the persona, so the call dies when the recording ends. When the scammer's
+ * side of the call is clearly a robocall menu, the voice stream picks the
+ * menu option most likely to reach a live agent and presses it by playing
+ * DTMF tones down the line. The digits pressed are recorded on the call as
+ * its IVR path.
+ *
+ * Pressing a key cuts the persona off, and a live scammer says "press one"
+ * all the time, so a single mention isn't enough. It takes a menu of
+ * several described options, a prompt that repeats word for word, or a
+ * recorded preamble (see isRobocallPrompt) as the first thing heard on the
+ * line.
+ */
+
+import { encode, silence, SAMPLE_RATE } from './mulaw';
+import { isRobocallPrompt } from './tagging';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Most digits pressed on one call, so a looping menu can't loop us forever */
+export const MAX_IVR_PATH_LENGTH = 6;
+
+/** Described options it takes for a prompt to count as a menu on its own */
+export const MIN_MENU_OPTIONS = 2;
+
+// Row and column frequencies (Hz) of each key
+const DTMF_FREQUENCIES: Record<string, [number, number]> = {
+  '1': [697, 1209],
+  '2': [697, 1336],
+  '3': [697, 1477],
+  A: [697, 1633],
+  '4': [770, 1209],
+  '5': [770, 1336],
+  '6': [770, 1477],
+  B: [770, 1633],
+  '7': [852, 1209],
+  '8': [852, 1336],
+  '9': [852, 1477],
+  C: [852, 1633],
+  '*': [941, 1209],
+  '0': [941, 1336],
+  '#': [941, 1477],
+  D: [941, 1633],
+};
+
+const DTMF_TONE_MS = 150;
+const DTMF_GAP_MS = 100;
+const DTMF_AMPLITUDE = 6000; // per frequency
+
+// How speech-to-text may write a key
+const SPOKEN_KEYS: Record<string, string> = {
+  zero: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+  star: '*',
+  pound: '#',
+  hash: '#',
+};
+
+const OPTION_PATTERN = new RegExp(
+  `\\b(?:press|push|dial|select)\\s+(?:the\\s+)?([0-9*#]|${Object.keys(SPOKEN_KEYS).join('|')})\\b`,
+  'gi'
+);
+
+// Menu options that sound like they lead to a person...
+const AGENT_KEYWORDS = [
+  'agent',
+  'representative',
+  'operator',
+  'specialist',
+  'advisor',
+  'live person',
+  'someone',
+  'speak',
+  'talk',
+  'connect',
+  'customer service',
+];
+
+// ...and ones that would end the call
+const OPT_OUT_KEYWORDS = ['remove', 'opt out', 'unsubscribe', 'do not call', 'no longer', 'stop receiving'];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * An option offered by a robocall menu
+ */
+export interface IvrOption {
+  digit: string;
+  /** What the menu said the option does, e.g. "to speak to an agent" */
+  description: string;
+}
+
+// =============================================================================
+// Menu Parsing
+// =============================================================================
+
+/**
+ * Find the options a robocall menu offers, in the order they were offered
+ *
+ * Handles both "Press 1 to speak to an agent" and "To speak to an agent,
+ * press 1".
+ */
+export function parseIvrOptions(prompt: string): IvrOption[] {
+  const matches = Array.from(prompt.matchAll(OPTION_PATTERN));
+
+  return matches.map((match, i) => {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const previousEnd = i > 0 ? (matches[i - 1].index ?? 0) + matches[i - 1][0].length : 0;
+    const nextStart = i < matches.length - 1 ? (matches[i + 1].index ?? prompt.length) : prompt.length;
+
+    // The option is described either just after the key or in the
+    // sentence leading up to it
+    const after = prompt.slice(end, nextStart).split(/[.;!?]/)[0];
+    const before = prompt.slice(previousEnd, start).split(/[.;!?]/).pop() ?? '';
+    const description = /^\s*(?:now\s+)?(?:to|for)\b/i.test(after) ? after : before;
+
+    const key = match[1].toLowerCase();
+    return {
+      digit: SPOKEN_KEYS[key] ?? key,
+      description: description.replace(/^[\s,]+|[\s,]+$/g, '').replace(/\s+or$/i, ''),
+    };
+  });
+}
+
+/**
+ * Choose the key to press from a menu's options, or null if there are none
+ *
+ * Prefers an option that leads to a person, then the first option that
+ * doesn't take us off their call list.
+ */
+export function chooseIvrDigit(options: IvrOption[]): string | null {
+  const mentions = (option: IvrOption, keywords: string[]) => {
+    const description = option.description.toLowerCase();
+    return keywords.some((keyword) => description.includes(keyword));
+  };
+  const candidates = options.filter((option) => !mentions(option, OPT_OUT_KEYWORDS));
+
+  const agentOption = candidates.find((option) => mentions(option, AGENT_KEYWORDS));
+  return (agentOption ?? candidates[0])?.digit ?? null;
+}
+
+// =============================================================================
+// Navigator
+// =============================================================================
+
+/**
+ * Works through the robocall menus on one call
+ */
+export class IvrNavigator {
+  private heardPrompts = new Set<string>();
+  private utterances = 0;
+  private keys: string[] = [];
+
+  /** Keys pressed so far */
+  get path(): string {
+    return this.keys.join('');
+  }
+
+  /**
+   * Take in something said on the scammer's side of the call
+   *
+   * @returns The key to press, or null if it isn't clearly a robocall menu
+   */
+  observe(text: string): string | null {
+    if (!text.trim()) {
+      return null;
+    }
+
+    const isFirst = this.utterances++ === 0;
+    const prompt = text.toLowerCase().replace(/[^a-z0-9*#]+/g, ' ').trim();
+    const isRepeat = this.heardPrompts.has(prompt);
+    this.heardPrompts.add(prompt);
+
+    const options = parseIvrOptions(text);
+    if (options.length === 0 || this.keys.length >= MAX_IVR_PATH_LENGTH) {
+      return null;
+    }
+
+    const describedOptions = new Set(
+      options.filter((option) => option.description).map((option) => option.digit)
+    );
+    // The menu's own "press 1" doesn't count as a recorded preamble
+    const isPreamble = isFirst && isRobocallPrompt(text.replace(OPTION_PATTERN, ' '));
+    const isMenu = describedOptions.size >= MIN_MENU_OPTIONS || isRepeat || isPreamble;
+    if (!isMenu) {
+      return null;
+    }
+
+    const digit = chooseIvrDigit(options);
+    if (digit) {
+      this.keys.push(digit);
+    }
+    return digit;
+  }
+}
+
+// =============================================================================
+// Tone Synthesis
+// =============================================================================
+
+/**
+ * DTMF tones for pressing keys, as 8kHz μ-law audio for the media stream
+ */
+export function synthesizeDtmf(digits: string): Buffer {
+  const toneSamples = Math.round((SAMPLE_RATE * DTMF_TONE_MS) / 1000);
+
+  return Buffer.concat(
+    Array.from(digits)
+      .filter((digit) => digit in DTMF_FREQUENCIES)
+      .flatMap((digit) => {
+        const [low, high] = DTMF_FREQUENCIES[digit];
+        const samples = new Int16Array(toneSamples);
+        for (let i = 0; i < samples.length; i++) {
+          const t = i / SAMPLE_RATE;
+          samples[i] =
+            DTMF_AMPLITUDE * (Math.sin(2 * Math.PI * low * t) + Math.sin(2 * Math.PI * high * t));
+        }
+        return [encode(samples), silence(DTMF_GAP_MS)];
+      })
+  );
+}
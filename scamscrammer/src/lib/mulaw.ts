@@ -0,0 +1,154 @@
+/**
+ * G.711 μ-law Audio
+ *
+ * Twilio Media Streams carry 8kHz mono μ-law audio in 20ms frames. These
+ * helpers encode and decode it, and synthesize the tones the call simulator
+ * and the mock voice engine use to stand in for a voice.
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Twilio Media Streams sample rate */
+export const SAMPLE_RATE = 8000;
+
+/** Twilio sends one media event per 20ms of audio */
+export const FRAME_MS = 20;
+
+/** Bytes (one per sample) in a 20ms frame */
+export const FRAME_BYTES = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+/** μ-law encoding of a zero sample */
+export const MULAW_SILENCE = 0xff;
+
+const MULAW_BIAS = 0x84;
+const MULAW_CLIP = 32635;
+
+// Roughly how long it takes to say a word, for synthesized speech
+const MS_PER_WORD = 300;
+const MIN_SPEECH_MS = 400;
+const MAX_SPEECH_MS = 15000;
+
+// =============================================================================
+// Codec
+// =============================================================================
+
+/**
+ * Encode a 16-bit PCM sample as a μ-law byte
+ */
+export function encodeSample(sample: number): number {
+  const sign = sample < 0 ? 0x80 : 0;
+  const magnitude = Math.min(Math.abs(Math.round(sample)), MULAW_CLIP) + MULAW_BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (magnitude & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (magnitude >> (exponent + 3)) & 0x0f;
+
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+/**
+ * Decode a μ-law byte to a 16-bit PCM sample
+ */
+export function decodeSample(byte: number): number {
+  const value = ~byte & 0xff;
+  const exponent = (value >> 4) & 0x07;
+  const mantissa = value & 0x0f;
+  const magnitude = (((mantissa << 3) + MULAW_BIAS) << exponent) - MULAW_BIAS;
+
+  return value & 0x80 ? -magnitude : magnitude;
+}
+
+/**
+ * Encode 16-bit PCM samples as μ-law audio
+ */
+export function encode(samples: ArrayLike<number>): Buffer {
+  const audio = Buffer.alloc(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    audio[i] = encodeSample(samples[i]);
+  }
+  return audio;
+}
+
+/**
+ * Decode μ-law audio to 16-bit PCM samples
+ */
+export function decode(audio: Buffer): Int16Array {
+  const samples = new Int16Array(audio.length);
+  for (let i = 0; i < audio.length; i++) {
+    samples[i] = decodeSample(audio[i]);
+  }
+  return samples;
+}
+
+/**
+ * Mean absolute amplitude of μ-law audio, 0 for silence
+ */
+export function energy(audio: Buffer): number {
+  if (audio.length === 0) {
+    return 0;
+  }
+
+  let total = 0;
+  for (let i = 0; i < audio.length; i++) {
+    total += Math.abs(decodeSample(audio[i]));
+  }
+  return total / audio.length;
+}
+
+// =============================================================================
+// Synthesis
+// =============================================================================
+
+function samplesFor(durationMs: number): number {
+  return Math.round((SAMPLE_RATE * durationMs) / 1000);
+}
+
+/**
+ * μ-law silence
+ */
+export function silence(durationMs: number): Buffer {
+  return Buffer.alloc(samplesFor(durationMs), MULAW_SILENCE);
+}
+
+/**
+ * A μ-law sine tone
+ */
+export function tone(durationMs: number, frequency = 440, amplitude = 8000): Buffer {
+  const samples = new Int16Array(samplesFor(durationMs));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+  return encode(samples);
+}
+
+/**
+ * Stand-in audio for someone saying a line: one tone per word, lasting
+ * about as long as the line takes to say. The audio isn't intelligible; it
+ * only has to look like speech to voice activity detection.
+ */
+export function synthesizeSpeech(text: string): Buffer {
+  const words = text.split(/\s+/).filter(Boolean);
+  const durationMs = Math.min(Math.max(words.length * MS_PER_WORD, MIN_SPEECH_MS), MAX_SPEECH_MS);
+  const wordMs = durationMs / Math.max(words.length, 1);
+
+  return Buffer.concat(
+    Array.from({ length: Math.max(words.length, 1) }, (_, i) => tone(wordMs, 180 + (i % 4) * 40))
+  );
+}
+
+/**
+ * Split audio into Twilio-sized frames, padding the last one with silence
+ */
+export function toFrames(audio: Buffer, frameBytes = FRAME_BYTES): Buffer[] {
+  const frames: Buffer[] = [];
+  for (let offset = 0; offset < audio.length; offset += frameBytes) {
+    const frame = Buffer.alloc(frameBytes, MULAW_SILENCE);
+    audio.copy(frame, 0, offset, Math.min(offset + frameBytes, audio.length));
+    frames.push(frame);
+  }
+  return frames;
+}
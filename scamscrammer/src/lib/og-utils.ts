@@ -7,6 +7,8 @@
 
 import type { Call, CallSegment } from '@prisma/client';
 import type { PersonaType } from '@/lib/personas/types';
+import { isBuiltInPersonaType } from '@/lib/personas';
+import { isPersonaSpeaker } from '@/lib/transcript';
 
 /**
  * Extended call type with segments for OG generation
@@ -125,10 +127,19 @@ const PERSONA_ACTIONS: Record<PersonaType, string[]> = {
 
 /**
  * Detect persona type from call data
- * Checks tags, notes, or segment content for persona indicators
+ * Uses the persona recorded on the call or its segments, falling back to
+ * tags, notes, or segment content for persona indicators
  */
 export function detectPersonaFromCall(call: CallWithSegments): PersonaType | null {
-  // Check tags first
+  // The persona that actually spoke, if it has its own OG styling
+  const spoken = [call.persona, ...(call.segments ?? []).map((segment) => segment.personaId)].find(
+    (personaId) => personaId && isBuiltInPersonaType(personaId)
+  );
+  if (spoken) {
+    return spoken;
+  }
+
+  // Check tags next
   const personaTypes: PersonaType[] = ['earl', 'gladys', 'kevin', 'brenda'];
 
   for (const persona of personaTypes) {
@@ -148,7 +159,7 @@ export function detectPersonaFromCall(call: CallWithSegments): PersonaType | nul
   // Check segment content for persona indicators
   if (call.segments && call.segments.length > 0) {
     const allText = call.segments
-      .filter((s) => s.speaker === 'EARL') // Persona speaker
+      .filter((s) => isPersonaSpeaker(s.speaker))
       .map((s) => s.text.toLowerCase())
       .join(' ');
 
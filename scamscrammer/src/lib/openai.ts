@@ -7,7 +7,17 @@
 
 import { EventEmitter } from 'events';
 import WebSocket from 'ws';
-import { EARL_SYSTEM_PROMPT } from './persona';
+import { EARL_SYSTEM_PROMPT, EARL_PERSONA } from './persona';
+import { PERSONA_TOOLS } from './tools';
+import type { PersonaConfig } from './personas/types';
+import type {
+  ConnectionState,
+  ConversationItem,
+  FunctionCall,
+  ReconnectInfo,
+  VoiceEngine,
+  VoiceTool,
+} from './voice/types';
 
 // =============================================================================
 // Types
@@ -28,16 +38,6 @@ export interface TurnDetectionConfig {
   silenceDurationMs?: number;
 }
 
-/**
- * Connection state of the realtime client
- */
-export type ConnectionState =
-  | 'disconnected'
-  | 'connecting'
-  | 'connected'
-  | 'reconnecting'
-  | 'error';
-
 /**
  * Options for connecting to the OpenAI Realtime API
  */
@@ -59,6 +59,7 @@ export interface SessionConfig {
   temperature: number;
   maxResponseOutputTokens: number | 'inf';
   inputAudioTranscription: { model: 'whisper-1' } | null;
+  tools: VoiceTool[];
 }
 
 /**
@@ -126,6 +127,7 @@ const CONNECTION_TIMEOUT_MS = 30000;
  * Client for OpenAI Realtime API WebSocket connections.
  *
  * Manages bidirectional audio streaming for real-time voice conversations.
+ * This is the default voice engine (see voice/index.ts).
  *
  * @example
  * ```typescript
@@ -144,13 +146,14 @@ const CONNECTION_TIMEOUT_MS = 30000;
  * client.sendAudio(audioChunk);
  * ```
  */
-export class OpenAIRealtimeClient extends EventEmitter {
+export class OpenAIRealtimeClient extends EventEmitter implements VoiceEngine {
   private apiKey: string;
   private ws: WebSocket | null = null;
   private connectionState: ConnectionState = 'disconnected';
   private sessionConfig: SessionConfig;
   private reconnectAttempts = 0;
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private droppedConnection: { at: number; reason: string } | null = null;
   private connectionTimeout: ReturnType<typeof setTimeout> | null = null;
   private pendingMessages: string[] = [];
   private sessionId: string | null = null;
@@ -170,6 +173,7 @@ export class OpenAIRealtimeClient extends EventEmitter {
       temperature: config?.temperature ?? DEFAULT_TEMPERATURE,
       maxResponseOutputTokens: config?.maxResponseOutputTokens || DEFAULT_MAX_TOKENS,
       inputAudioTranscription: config?.inputAudioTranscription ?? { model: 'whisper-1' },
+      tools: config?.tools ?? [],
     };
   }
 
@@ -337,6 +341,10 @@ export class OpenAIRealtimeClient extends EventEmitter {
     if (config.inputAudioTranscription !== undefined) {
       session.input_audio_transcription = config.inputAudioTranscription;
     }
+    if (config.tools !== undefined) {
+      session.tools = config.tools;
+      session.tool_choice = 'auto';
+    }
 
     this.sessionConfig = { ...this.sessionConfig, ...config };
     this.sendEvent(updatePayload);
@@ -368,15 +376,20 @@ export class OpenAIRealtimeClient extends EventEmitter {
     this.sendEvent({ type: 'response.cancel' });
   }
 
-  public addConversationItem(item: {
-    type: 'message';
-    role: 'user' | 'assistant' | 'system';
-    content: Array<{
-      type: 'input_text' | 'input_audio' | 'text';
-      text?: string;
-      audio?: string;
-    }>;
-  }): void {
+  public truncateItem(itemId: string, audioEndMs: number, contentIndex: number = 0): void {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    this.sendEvent({
+      type: 'conversation.item.truncate',
+      item_id: itemId,
+      content_index: contentIndex,
+      audio_end_ms: Math.floor(audioEndMs),
+    });
+  }
+
+  public addConversationItem(item: ConversationItem): void {
     if (!this.isConnected()) {
       throw new OpenAIRealtimeClientError(
         'Cannot add item: not connected',
@@ -391,6 +404,29 @@ export class OpenAIRealtimeClient extends EventEmitter {
     });
   }
 
+  /**
+   * Give the model the result of a tool it called. It won't say anything
+   * about the result until a response is created.
+   */
+  public sendFunctionOutput(callId: string, output: unknown): void {
+    if (!this.isConnected()) {
+      throw new OpenAIRealtimeClientError(
+        'Cannot send function output: not connected',
+        'not_connected',
+        'client_error'
+      );
+    }
+
+    this.sendEvent({
+      type: 'conversation.item.create',
+      item: {
+        type: 'function_call_output',
+        call_id: callId,
+        output: JSON.stringify(output),
+      },
+    });
+  }
+
   // ===========================================================================
   // Private Methods
   // ===========================================================================
@@ -404,7 +440,9 @@ export class OpenAIRealtimeClient extends EventEmitter {
 
   private async establishConnection(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const url = `${OPENAI_REALTIME_URL}?model=${this.sessionConfig.model}`;
+      // OPENAI_REALTIME_URL lets the call simulator point the client at a mock server
+      const baseUrl = process.env.OPENAI_REALTIME_URL || OPENAI_REALTIME_URL;
+      const url = `${baseUrl}?model=${this.sessionConfig.model}`;
 
       this.ws = new WebSocket(url, {
         headers: {
@@ -414,7 +452,7 @@ export class OpenAIRealtimeClient extends EventEmitter {
       });
 
       this.connectionTimeout = setTimeout(() => {
-        if (this.connectionState === 'connecting') {
+        if (this.isConnecting()) {
           this.ws?.close();
           reject(
             new OpenAIRealtimeClientError(
@@ -429,10 +467,24 @@ export class OpenAIRealtimeClient extends EventEmitter {
       this.ws.on('open', () => {
         this.clearConnectionTimeout();
         this.setState('connected');
+        const attempts = this.reconnectAttempts;
         this.reconnectAttempts = 0;
         this.configureSession();
         this.flushPendingMessages();
         resolve();
+
+        // The new session has the same config but a blank conversation;
+        // it's up to listeners to fill it back in
+        const dropped = this.droppedConnection;
+        if (dropped) {
+          this.droppedConnection = null;
+          const info: ReconnectInfo = {
+            attempts,
+            downtimeMs: Date.now() - dropped.at,
+            reason: dropped.reason,
+          };
+          this.emit('reconnected', info);
+        }
       });
 
       this.ws.on('message', (data: WebSocket.Data) => {
@@ -446,18 +498,23 @@ export class OpenAIRealtimeClient extends EventEmitter {
           'connection_error',
           'websocket_error'
         );
-        this.emit('error', clientError);
 
-        if (this.connectionState === 'connecting') {
+        if (this.isConnecting()) {
           reject(clientError);
         }
+
+        // A failed connect is reported by the rejection; with nobody
+        // listening, emitting 'error' would throw
+        if (this.listenerCount('error') > 0) {
+          this.emit('error', clientError);
+        }
       });
 
       this.ws.on('close', (code: number, reason: Buffer) => {
         this.clearConnectionTimeout();
         const reasonStr = reason.toString() || `WebSocket closed with code ${code}`;
 
-        if (this.connectionState === 'connecting') {
+        if (this.isConnecting()) {
           reject(
             new OpenAIRealtimeClientError(
               reasonStr,
@@ -492,6 +549,11 @@ export class OpenAIRealtimeClient extends EventEmitter {
         this.sessionConfig.inputAudioTranscription;
     }
 
+    if (this.sessionConfig.tools.length > 0) {
+      (sessionUpdate.session as Record<string, unknown>).tools = this.sessionConfig.tools;
+      (sessionUpdate.session as Record<string, unknown>).tool_choice = 'auto';
+    }
+
     this.sendEvent(sessionUpdate);
   }
 
@@ -530,6 +592,10 @@ export class OpenAIRealtimeClient extends EventEmitter {
           this.handleInputTranscript(event);
           break;
 
+        case 'response.function_call_arguments.done':
+          this.handleFunctionCall(event);
+          break;
+
         case 'response.done':
           this.handleResponseDone(event);
           break;
@@ -609,6 +675,17 @@ export class OpenAIRealtimeClient extends EventEmitter {
     }
   }
 
+  private handleFunctionCall(event: Record<string, unknown>): void {
+    const functionCall: FunctionCall = {
+      callId: event.call_id as string,
+      name: event.name as string,
+      arguments: event.arguments as string,
+      responseId: event.response_id as string,
+      itemId: event.item_id as string,
+    };
+    this.emit('functionCall', functionCall);
+  }
+
   private handleResponseDone(event: Record<string, unknown>): void {
     if (event.response) {
       const response = event.response as Record<string, unknown>;
@@ -634,8 +711,13 @@ export class OpenAIRealtimeClient extends EventEmitter {
     }
   }
 
+  private isConnecting(): boolean {
+    return this.connectionState === 'connecting' || this.connectionState === 'reconnecting';
+  }
+
   private handleUnexpectedDisconnect(reason: string): void {
     this.setState('reconnecting');
+    this.droppedConnection ??= { at: Date.now(), reason };
 
     if (this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS) {
       const delay = Math.min(
@@ -649,13 +731,11 @@ export class OpenAIRealtimeClient extends EventEmitter {
         try {
           await this.establishConnection();
         } catch {
-          if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
-            this.setState('error');
-            this.emit('disconnect', `Max reconnection attempts reached: ${reason}`);
-          }
+          this.handleUnexpectedDisconnect(reason);
         }
       }, delay);
     } else {
+      this.droppedConnection = null;
       this.setState('error');
       this.emit('disconnect', `Max reconnection attempts reached: ${reason}`);
     }
@@ -707,6 +787,7 @@ export class OpenAIRealtimeClient extends EventEmitter {
     }
 
     this.sessionId = null;
+    this.droppedConnection = null;
     this.currentTranscript.clear();
     this.pendingMessages = [];
   }
@@ -717,25 +798,47 @@ export class OpenAIRealtimeClient extends EventEmitter {
 // =============================================================================
 
 /**
- * Create a new OpenAI Realtime client with Earl persona configuration.
+ * Create a new OpenAI Realtime client configured for a persona.
+ *
+ * Uses the persona's system prompt as session instructions and its
+ * voiceConfig.realtimeVoice as the Realtime voice, and registers the tools
+ * for reading out fake account details (see tools.ts).
  *
+ * @param persona - The persona to configure the session for
  * @param apiKey - OpenAI API key (optional, falls back to env var)
+ * @param overrides - Session settings that replace the persona defaults
  * @returns Configured OpenAIRealtimeClient instance
  */
-export function createEarlClient(apiKey?: string): OpenAIRealtimeClient {
+export function createPersonaClient(
+  persona: PersonaConfig,
+  apiKey?: string,
+  overrides: Partial<SessionConfig> = {}
+): OpenAIRealtimeClient {
   return new OpenAIRealtimeClient(apiKey, {
-    instructions: EARL_SYSTEM_PROMPT,
-    voice: 'echo', // Lower male voice works well for elderly character
+    instructions: persona.systemPrompt,
+    voice: persona.voiceConfig?.realtimeVoice || DEFAULT_VOICE,
     temperature: 0.9, // Higher temperature for more varied responses
     turnDetection: {
       type: 'server_vad',
       threshold: 0.6,
       prefixPaddingMs: 400,
-      silenceDurationMs: 800, // Longer silence for elderly speech pattern
+      silenceDurationMs: 800, // Longer silence so personas don't talk over callers
     },
+    tools: PERSONA_TOOLS,
+    ...overrides,
   });
 }
 
+/**
+ * Create a new OpenAI Realtime client with Earl persona configuration.
+ *
+ * @param apiKey - OpenAI API key (optional, falls back to env var)
+ * @returns Configured OpenAIRealtimeClient instance
+ */
+export function createEarlClient(apiKey?: string): OpenAIRealtimeClient {
+  return createPersonaClient(EARL_PERSONA, apiKey);
+}
+
 /**
  * Create a basic OpenAI Realtime client with default configuration.
  *
@@ -132,17 +132,18 @@ export function shouldMishear(
  * Process text and apply potential mishearings based on probability
  * @param text - The input text to process
  * @param config - Optional custom response config (defaults to Earl's config)
+ * @param mishearings - Optional mishearings to apply (defaults to Earl's)
  * @returns The text with potential mishearings applied
  */
 export function applyMishearings(
   text: string,
-  config: ResponseConfig = EARL_PERSONA.responseConfig
+  config: ResponseConfig = EARL_PERSONA.responseConfig,
+  mishearings: MishearingMapping[] = EARL_PERSONA.mishearings || []
 ): string {
   if (!shouldMishear(config)) {
     return text;
   }
 
-  const mishearings = EARL_PERSONA.mishearings || [];
   let processedText = text;
   for (const mapping of mishearings) {
     const regex = new RegExp(mapping.original, "gi");
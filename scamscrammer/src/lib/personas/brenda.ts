@@ -11,7 +11,9 @@ import type {
   TangentTopic,
   MishearingMapping,
   ResponseConfig,
+  IdleConfig,
 } from './types';
+import { seedIdentity } from './identity';
 
 /**
  * Brenda's tangent topics - subjects she pivots every conversation toward
@@ -157,6 +159,22 @@ const BRENDA_REDIRECTS: MishearingMapping[] = [
   },
 ];
 
+/**
+ * Brenda's details for callers who ask, with the family her prompt mentions
+ */
+const BRENDA_IDENTITY = seedIdentity(
+  // "Suburban Minnesota" needs a town for an address
+  { id: 'brenda', location: 'Maple Grove, Minnesota', age: 43 },
+  {
+    relatives: [
+      { relation: 'husband', name: 'Brad' },
+      { relation: 'son', name: 'Brayden' },
+      { relation: 'daughter', name: 'Kaylee' },
+      { relation: 'son', name: 'Jaxon' },
+    ],
+  }
+);
+
 /**
  * Full system prompt for the Brenda persona
  */
@@ -250,6 +268,19 @@ const BRENDA_RESPONSE_CONFIG: ResponseConfig = {
   mishearingProbability: 0.4, // Probability of deliberately redirecting the conversation
 };
 
+/**
+ * What Brenda does when the line goes quiet
+ */
+const BRENDA_IDLE_CONFIG: IdleConfig = {
+  checkInAfterMs: 6000,
+  hangUpAfterMs: 45000,
+  checkInPhrases: [
+    "Hello? Did I lose you? Opportunities like this don't wait, hon!",
+    "Are you still there? I was just getting to the good part!",
+  ],
+  goodbye: "Looks like we got disconnected! I'll send you my info, okay? Bye-bye!",
+};
+
 /**
  * Complete Brenda persona configuration
  */
@@ -268,7 +299,14 @@ export const BRENDA_PERSONA: PersonaConfig = {
   signaturePhrases: BRENDA_SIGNATURE_PHRASES,
   mishearings: BRENDA_REDIRECTS, // Using redirects instead of mishearings
   responseConfig: BRENDA_RESPONSE_CONFIG,
+  idleConfig: BRENDA_IDLE_CONFIG,
+  memoryConfig: { enabled: true, maxSummaryChars: 800 },
+  identity: BRENDA_IDENTITY,
   systemPrompt: BRENDA_SYSTEM_PROMPT,
+  voiceConfig: {
+    realtimeVoice: 'coral',
+    twilioVoice: 'Polly.Kimberly',
+  },
 };
 
 /**
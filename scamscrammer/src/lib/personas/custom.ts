@@ -0,0 +1,456 @@
+/**
+ * Custom Persona Storage (server-only)
+ *
+ * Custom personas are created with the persona builder and stored in the
+ * `Persona` table. This module converts rows into PersonaConfig objects,
+ * validates builder input and keeps the in-memory registry in './index'
+ * in sync so that getPersona()/isValidPersonaType() resolve them.
+ *
+ * Kept out of the './index' barrel because it depends on the database client.
+ */
+
+import { Persona, Prisma } from '@prisma/client';
+import prisma from '../db';
+import { ValidationError } from '../errors';
+import { TEXT_TO_SPEECH_PROVIDERS, TextToSpeechProvider, VOICE_ENGINE_TYPES, VoiceEngineType } from '../voice/types';
+import { isBuiltInPersonaType, setCustomPersonas } from './index';
+import { seedIdentity } from './identity';
+import {
+  PersonaConfig,
+  TangentTopic,
+  MishearingMapping,
+  ResponseConfig,
+  VoiceConfig,
+  MemoryConfig,
+  IdleConfig,
+  IdentityProfile,
+  IdentityRelative,
+  IdentityPet,
+} from './types';
+
+/** Allowed custom persona IDs: lowercase slug, 2-32 characters */
+const PERSONA_ID_PATTERN = /^[a-z][a-z0-9_-]{1,31}$/;
+
+/** Allowed range for the caller memory summary length */
+const MIN_SUMMARY_CHARS = 100;
+const MAX_SUMMARY_CHARS = 4000;
+
+/** Allowed range for silence before checking in and before hanging up */
+const MIN_IDLE_MS = 3000;
+const MAX_IDLE_MS = 600000;
+
+/**
+ * Persona builder input as stored in the database
+ */
+export type PersonaInput = Omit<Prisma.PersonaCreateInput, 'createdAt' | 'updatedAt'>;
+
+/**
+ * Convert a database row into a persona configuration
+ */
+export function toPersonaConfig(row: Persona): PersonaConfig {
+  return {
+    id: row.id,
+    name: row.name,
+    fullName: row.fullName,
+    age: row.age,
+    background: row.background,
+    personality: row.personality,
+    location: row.location,
+    livingStatus: row.livingStatus,
+    greeting: row.greeting ?? undefined,
+    systemPrompt: row.systemPrompt,
+    signaturePhrases: row.signaturePhrases,
+    tangentTopics: row.tangentTopics as unknown as TangentTopic[],
+    mishearings: row.mishearings as unknown as MishearingMapping[],
+    responseConfig: row.responseConfig as unknown as ResponseConfig,
+    voiceConfig: (row.voiceConfig as unknown as VoiceConfig | null) ?? undefined,
+    memoryConfig: (row.memoryConfig as unknown as MemoryConfig | null) ?? undefined,
+    idleConfig: (row.idleConfig as unknown as IdleConfig | null) ?? undefined,
+    // Anything not set in the builder comes from the seeded profile
+    identity: {
+      ...seedIdentity({ id: row.id, location: row.location, age: row.age }),
+      ...(row.identity as unknown as Partial<IdentityProfile> | null),
+    },
+  };
+}
+
+/**
+ * Load custom personas from the database and register them so the
+ * persona lookup functions resolve them. Returns the loaded personas.
+ */
+export async function loadCustomPersonas(): Promise<PersonaConfig[]> {
+  const rows = await prisma.persona.findMany({ orderBy: { createdAt: 'asc' } });
+  const configs = rows.map(toPersonaConfig);
+  setCustomPersonas(configs);
+  return configs;
+}
+
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(body: Record<string, unknown>, field: string): string {
+  const value = body[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw ValidationError.requiredField(field);
+  }
+  return value.trim();
+}
+
+function optionalString(body: Record<string, unknown>, field: string): string | undefined {
+  const value = body[field];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw ValidationError.invalidFormat(field, 'string');
+  }
+  return value.trim();
+}
+
+function isProbability(value: unknown): boolean {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function parseSignaturePhrases(value: unknown): string[] {
+  if (!Array.isArray(value) || !value.every((phrase) => typeof phrase === 'string')) {
+    throw ValidationError.invalidFormat('signaturePhrases', 'array of strings');
+  }
+  return value.map((phrase: string) => phrase.trim()).filter(Boolean);
+}
+
+function parseTangentTopics(value: unknown): TangentTopic[] {
+  if (
+    !Array.isArray(value) ||
+    !value.every(
+      (topic) =>
+        isPlainObject(topic) &&
+        typeof topic.subject === 'string' &&
+        typeof topic.details === 'string'
+    )
+  ) {
+    throw ValidationError.invalidFormat('tangentTopics', 'array of { subject, details }');
+  }
+  return value.map((topic) => ({ subject: topic.subject, details: topic.details }));
+}
+
+function parseMishearings(value: unknown): MishearingMapping[] {
+  if (
+    !Array.isArray(value) ||
+    !value.every(
+      (mapping) =>
+        isPlainObject(mapping) &&
+        typeof mapping.original === 'string' &&
+        typeof mapping.misheard === 'string' &&
+        (mapping.context === undefined || typeof mapping.context === 'string')
+    )
+  ) {
+    throw ValidationError.invalidFormat('mishearings', 'array of { original, misheard, context? }');
+  }
+  return value.map((mapping) => ({
+    original: mapping.original,
+    misheard: mapping.misheard,
+    ...(mapping.context && { context: mapping.context }),
+  }));
+}
+
+function parseResponseConfig(value: unknown): ResponseConfig {
+  if (!isPlainObject(value)) {
+    throw ValidationError.invalidFormat('responseConfig', 'object');
+  }
+
+  const { minPauseMs, maxPauseMs, hearingAidDelayMs, tangentProbability, mishearingProbability } =
+    value;
+
+  if (
+    typeof minPauseMs !== 'number' ||
+    typeof maxPauseMs !== 'number' ||
+    minPauseMs < 0 ||
+    maxPauseMs < minPauseMs
+  ) {
+    throw ValidationError.invalidValue(
+      'responseConfig',
+      'minPauseMs and maxPauseMs must be non-negative numbers with minPauseMs <= maxPauseMs'
+    );
+  }
+  if (!isProbability(tangentProbability)) {
+    throw ValidationError.invalidValue('responseConfig', 'tangentProbability must be between 0 and 1');
+  }
+  if (mishearingProbability !== undefined && !isProbability(mishearingProbability)) {
+    throw ValidationError.invalidValue('responseConfig', 'mishearingProbability must be between 0 and 1');
+  }
+  if (hearingAidDelayMs !== undefined && (typeof hearingAidDelayMs !== 'number' || hearingAidDelayMs < 0)) {
+    throw ValidationError.invalidValue('responseConfig', 'hearingAidDelayMs must be a non-negative number');
+  }
+
+  return {
+    minPauseMs,
+    maxPauseMs,
+    tangentProbability: tangentProbability as number,
+    ...(hearingAidDelayMs !== undefined && { hearingAidDelayMs: hearingAidDelayMs as number }),
+    ...(mishearingProbability !== undefined && { mishearingProbability: mishearingProbability as number }),
+  };
+}
+
+function parseVoiceConfig(value: unknown): VoiceConfig | null {
+  if (value === null) return null;
+  if (!isPlainObject(value)) {
+    throw ValidationError.invalidFormat('voiceConfig', 'object');
+  }
+
+  const voiceConfig: VoiceConfig = {};
+  for (const field of ['pitch', 'speed'] as const) {
+    if (value[field] !== undefined) {
+      if (typeof value[field] !== 'number') {
+        throw ValidationError.invalidFormat(`voiceConfig.${field}`, 'number');
+      }
+      voiceConfig[field] = value[field] as number;
+    }
+  }
+  for (const field of ['voice', 'realtimeVoice', 'twilioVoice'] as const) {
+    if (value[field] !== undefined && value[field] !== '') {
+      if (typeof value[field] !== 'string') {
+        throw ValidationError.invalidFormat(`voiceConfig.${field}`, 'string');
+      }
+      voiceConfig[field] = value[field] as string;
+    }
+  }
+  if (value.engine !== undefined) {
+    if (!VOICE_ENGINE_TYPES.includes(value.engine as VoiceEngineType)) {
+      throw ValidationError.invalidValue('voiceConfig.engine', `must be one of ${VOICE_ENGINE_TYPES.join(', ')}`);
+    }
+    voiceConfig.engine = value.engine as VoiceEngineType;
+  }
+  if (value.ttsProvider !== undefined) {
+    if (!TEXT_TO_SPEECH_PROVIDERS.includes(value.ttsProvider as TextToSpeechProvider)) {
+      throw ValidationError.invalidValue(
+        'voiceConfig.ttsProvider',
+        `must be one of ${TEXT_TO_SPEECH_PROVIDERS.join(', ')}`
+      );
+    }
+    voiceConfig.ttsProvider = value.ttsProvider as TextToSpeechProvider;
+  }
+  return voiceConfig;
+}
+
+/**
+ * Validate a memoryConfig from a request body
+ *
+ * @returns The config, or null to clear it
+ */
+export function parseMemoryConfig(value: unknown): MemoryConfig | null {
+  if (value === null) return null;
+  if (!isPlainObject(value)) {
+    throw ValidationError.invalidFormat('memoryConfig', 'object');
+  }
+
+  const { enabled, maxSummaryChars } = value;
+  if (typeof enabled !== 'boolean') {
+    throw ValidationError.invalidFormat('memoryConfig.enabled', 'boolean');
+  }
+  if (
+    typeof maxSummaryChars !== 'number' ||
+    !Number.isInteger(maxSummaryChars) ||
+    maxSummaryChars < MIN_SUMMARY_CHARS ||
+    maxSummaryChars > MAX_SUMMARY_CHARS
+  ) {
+    throw ValidationError.invalidValue(
+      'memoryConfig',
+      `maxSummaryChars must be an integer between ${MIN_SUMMARY_CHARS} and ${MAX_SUMMARY_CHARS}`
+    );
+  }
+
+  return { enabled, maxSummaryChars };
+}
+
+function parseIdleConfig(value: unknown): IdleConfig | null {
+  if (value === null) return null;
+  if (!isPlainObject(value)) {
+    throw ValidationError.invalidFormat('idleConfig', 'object');
+  }
+
+  const { checkInAfterMs, hangUpAfterMs } = value;
+  const isIdleMs = (ms: unknown): ms is number =>
+    typeof ms === 'number' && Number.isInteger(ms) && ms >= MIN_IDLE_MS && ms <= MAX_IDLE_MS;
+  if (!isIdleMs(checkInAfterMs) || !isIdleMs(hangUpAfterMs)) {
+    throw ValidationError.invalidValue(
+      'idleConfig',
+      `checkInAfterMs and hangUpAfterMs must be integers between ${MIN_IDLE_MS} and ${MAX_IDLE_MS}`
+    );
+  }
+  if (hangUpAfterMs <= checkInAfterMs) {
+    throw ValidationError.invalidValue('idleConfig', 'hangUpAfterMs must be longer than checkInAfterMs');
+  }
+
+  const idleConfig: IdleConfig = { checkInAfterMs, hangUpAfterMs };
+  if (value.checkInPhrases !== undefined) {
+    if (
+      !Array.isArray(value.checkInPhrases) ||
+      !value.checkInPhrases.every((phrase) => typeof phrase === 'string')
+    ) {
+      throw ValidationError.invalidFormat('idleConfig.checkInPhrases', 'array of strings');
+    }
+    const phrases = value.checkInPhrases.map((phrase: string) => phrase.trim()).filter(Boolean);
+    if (phrases.length > 0) idleConfig.checkInPhrases = phrases;
+  }
+  const goodbye = optionalString(value, 'goodbye');
+  if (goodbye) idleConfig.goodbye = goodbye;
+
+  return idleConfig;
+}
+
+function parseIdentity(value: unknown): Partial<IdentityProfile> {
+  if (!isPlainObject(value)) {
+    throw ValidationError.invalidFormat('identity', 'object');
+  }
+
+  const identity: Partial<IdentityProfile> = {};
+  for (const field of ['address', 'bank', 'pharmacy'] as const) {
+    const detail = optionalString(value, field);
+    if (detail) identity[field] = detail;
+  }
+
+  if (value.relatives !== undefined) {
+    if (
+      !Array.isArray(value.relatives) ||
+      !value.relatives.every(
+        (relative) =>
+          isPlainObject(relative) && typeof relative.relation === 'string' && typeof relative.name === 'string'
+      )
+    ) {
+      throw ValidationError.invalidFormat('identity.relatives', 'array of { relation, name }');
+    }
+    const relatives: IdentityRelative[] = value.relatives
+      .map((relative) => ({ relation: relative.relation.trim(), name: relative.name.trim() }))
+      .filter((relative) => relative.relation && relative.name);
+    if (relatives.length > 0) identity.relatives = relatives;
+  }
+
+  if (value.pets !== undefined) {
+    if (
+      !Array.isArray(value.pets) ||
+      !value.pets.every(
+        (pet) => isPlainObject(pet) && typeof pet.kind === 'string' && typeof pet.name === 'string'
+      )
+    ) {
+      throw ValidationError.invalidFormat('identity.pets', 'array of { kind, name }');
+    }
+    const pets: IdentityPet[] = value.pets
+      .map((pet) => ({ kind: pet.kind.trim(), name: pet.name.trim() }))
+      .filter((pet) => pet.kind && pet.name);
+    if (pets.length > 0) identity.pets = pets;
+  }
+
+  return identity;
+}
+
+/**
+ * Validate a persona builder request body.
+ *
+ * With `partial` set (updates), only the fields present are validated and
+ * returned, and the ID cannot be changed.
+ *
+ * @throws ValidationError if any field is missing or malformed
+ */
+export function parsePersonaInput(body: unknown, options: { partial: true }): Partial<PersonaInput>;
+export function parsePersonaInput(body: unknown, options?: { partial?: false }): PersonaInput;
+export function parsePersonaInput(
+  body: unknown,
+  { partial = false }: { partial?: boolean } = {}
+): Partial<PersonaInput> {
+  if (!isPlainObject(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const has = (field: string) => !partial || body[field] !== undefined;
+  const input: Partial<PersonaInput> = {};
+
+  if (!partial) {
+    const id = requireString(body, 'id').toLowerCase();
+    if (!PERSONA_ID_PATTERN.test(id)) {
+      throw ValidationError.invalidFormat(
+        'id',
+        'lowercase letters, numbers, "-" or "_" (2-32 characters, starting with a letter)'
+      );
+    }
+    if (isBuiltInPersonaType(id)) {
+      throw ValidationError.invalidValue('id', `"${id}" is a built-in persona`);
+    }
+    input.id = id;
+  } else if (body.id !== undefined) {
+    throw ValidationError.invalidValue('id', 'Persona ID cannot be changed');
+  }
+
+  for (const field of ['name', 'background', 'systemPrompt'] as const) {
+    if (has(field)) input[field] = requireString(body, field);
+  }
+
+  if (has('fullName')) {
+    input.fullName = optionalString(body, 'fullName') || input.name || requireString(body, 'fullName');
+  }
+
+  if (has('age')) {
+    const age = body.age;
+    if (typeof age !== 'number' || !Number.isInteger(age) || age < 1 || age > 120) {
+      throw ValidationError.invalidValue('age', 'Age must be an integer between 1 and 120');
+    }
+    input.age = age;
+  }
+
+  for (const field of ['personality', 'location', 'livingStatus'] as const) {
+    const value = optionalString(body, field);
+    if (value !== undefined) input[field] = value;
+  }
+
+  if (body.greeting !== undefined) {
+    input.greeting = optionalString(body, 'greeting') || null;
+  }
+
+  if (has('signaturePhrases')) {
+    input.signaturePhrases = parseSignaturePhrases(body.signaturePhrases ?? []);
+  }
+  if (has('tangentTopics')) {
+    input.tangentTopics = parseTangentTopics(body.tangentTopics ?? []) as unknown as Prisma.InputJsonValue;
+  }
+  if (has('mishearings')) {
+    input.mishearings = parseMishearings(body.mishearings ?? []) as unknown as Prisma.InputJsonValue;
+  }
+  if (has('responseConfig')) {
+    input.responseConfig = parseResponseConfig(body.responseConfig) as unknown as Prisma.InputJsonValue;
+  }
+  if (body.voiceConfig !== undefined) {
+    const voiceConfig = parseVoiceConfig(body.voiceConfig);
+    input.voiceConfig = voiceConfig
+      ? (voiceConfig as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull;
+  }
+  if (body.memoryConfig !== undefined) {
+    const memoryConfig = parseMemoryConfig(body.memoryConfig);
+    input.memoryConfig = memoryConfig
+      ? (memoryConfig as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull;
+  }
+  if (body.idleConfig !== undefined) {
+    const idleConfig = parseIdleConfig(body.idleConfig);
+    input.idleConfig = idleConfig
+      ? (idleConfig as unknown as Prisma.InputJsonValue)
+      : Prisma.JsonNull;
+  }
+
+  // New personas have an identity seeded and stored with them; details
+  // given in the builder replace the seeded ones
+  if (body.identity !== undefined || !partial) {
+    const identity =
+      body.identity === undefined || body.identity === null ? {} : parseIdentity(body.identity);
+    if (!partial) {
+      const seeded = seedIdentity({ id: String(input.id), location: input.location, age: input.age });
+      input.identity = { ...seeded, ...identity } as unknown as Prisma.InputJsonValue;
+    } else {
+      input.identity = body.identity === null ? Prisma.JsonNull : (identity as unknown as Prisma.InputJsonValue);
+    }
+  }
+
+  return input;
+}
@@ -11,7 +11,9 @@ import {
   TangentTopic,
   MishearingMapping,
   ResponseConfig,
+  IdleConfig,
 } from './types';
+import { seedIdentity } from './identity';
 
 /**
  * Earl's tangent topics - subjects he loves to ramble about
@@ -137,6 +139,31 @@ const EARL_RESPONSE_CONFIG: ResponseConfig = {
   mishearingProbability: 0.3,
 };
 
+/**
+ * What Earl does when the line goes quiet
+ */
+const EARL_IDLE_CONFIG: IdleConfig = {
+  checkInAfterMs: 10000,
+  hangUpAfterMs: 90000, // Earl hates to let a caller go
+  checkInPhrases: [
+    "Hello? You still there, sonny?",
+    "Hello? Did I lose you? Hold on, let me jiggle the cord...",
+    "You still on the line? General Patton, hush, I can't hear the man!",
+  ],
+  goodbye: "Well, I guess we got cut off. You call back anytime now, sonny. Bye now!",
+};
+
+/**
+ * Earl's details for callers who ask, with the family his prompt mentions
+ */
+const EARL_IDENTITY = seedIdentity(
+  { id: 'earl', location: 'Tulsa, Oklahoma', age: 81 },
+  {
+    relatives: [{ relation: 'late wife', name: 'Phyllis' }],
+    pets: [{ kind: 'parakeet', name: 'General Patton' }],
+  }
+);
+
 /**
  * Full system prompt for the Earl persona
  */
@@ -207,11 +234,16 @@ export const EARL_PERSONA: PersonaConfig = {
   signaturePhrases: EARL_SIGNATURE_PHRASES,
   mishearings: EARL_MISHEARINGS,
   responseConfig: EARL_RESPONSE_CONFIG,
+  idleConfig: EARL_IDLE_CONFIG,
+  memoryConfig: { enabled: true, maxSummaryChars: 800 },
+  identity: EARL_IDENTITY,
   systemPrompt: EARL_SYSTEM_PROMPT,
   voiceConfig: {
     pitch: 0.9,
     speed: 0.85,
     voice: 'elderly-male-midwest',
+    realtimeVoice: 'echo', // Lower male voice works well for elderly character
+    twilioVoice: 'Polly.Matthew',
   },
 };
 
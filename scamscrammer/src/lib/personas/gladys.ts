@@ -11,7 +11,9 @@ import type {
   TangentTopic,
   MishearingMapping,
   ResponseConfig,
+  IdleConfig,
 } from './types';
+import { seedIdentity } from './identity';
 
 /**
  * Gladys's tangent topics - subjects she loves to bring up while being suspicious
@@ -130,6 +132,20 @@ const GLADYS_MISHEARINGS: MishearingMapping[] = [
   { original: "department", misheard: "the part meant", context: "organization" },
 ];
 
+/**
+ * Gladys's details for callers who ask, with the family her prompt mentions
+ */
+const GLADYS_IDENTITY = seedIdentity(
+  { id: 'gladys', location: 'Milwaukee, Wisconsin', age: 78 },
+  {
+    relatives: [
+      { relation: 'late husband', name: 'Harold' },
+      { relation: 'nephew', name: 'Bradley' },
+    ],
+    pets: [{ kind: 'cat', name: 'Mr. Whiskers' }],
+  }
+);
+
 /**
  * Full system prompt for the Gladys persona
  */
@@ -230,6 +246,19 @@ const GLADYS_RESPONSE_CONFIG: ResponseConfig = {
   mishearingProbability: 0.4, // Higher because she gets names wrong a lot
 };
 
+/**
+ * What Gladys does when the line goes quiet
+ */
+const GLADYS_IDLE_CONFIG: IdleConfig = {
+  checkInAfterMs: 12000,
+  hangUpAfterMs: 75000,
+  checkInPhrases: [
+    "Hello? Are you there, dear?",
+    "Yoo-hoo! Did you fall asleep on me, sweetheart?",
+  ],
+  goodbye: "Well, I think you've wandered off, dear. I'll let you go. God bless!",
+};
+
 /**
  * Complete Gladys persona configuration
  */
@@ -247,7 +276,14 @@ export const GLADYS_PERSONA: PersonaConfig = {
   signaturePhrases: GLADYS_SIGNATURE_PHRASES,
   mishearings: GLADYS_MISHEARINGS,
   responseConfig: GLADYS_RESPONSE_CONFIG,
+  idleConfig: GLADYS_IDLE_CONFIG,
+  memoryConfig: { enabled: true, maxSummaryChars: 800 },
+  identity: GLADYS_IDENTITY,
   systemPrompt: GLADYS_SYSTEM_PROMPT,
+  voiceConfig: {
+    realtimeVoice: 'sage',
+    twilioVoice: 'Polly.Salli',
+  },
 };
 
 /**
@@ -0,0 +1,121 @@
+/**
+ * Persona Identity Profiles
+ *
+ * Every persona has a made-up address, bank, pharmacy, relatives and pets
+ * (see IdentityProfile) so it gives the same answers every time a caller
+ * asks. Profiles are seeded from the persona's ID, so they come out the same
+ * every time: built-in personas seed theirs with the relatives and pets
+ * their prompts already mention, and custom personas have theirs seeded and
+ * stored when they're created.
+ *
+ * Streets, banks and pharmacies are all made up.
+ */
+
+import { createSeededRandom } from '../fake-data';
+import type { IdentityPet, IdentityProfile, IdentityRelative, PersonaConfig } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const STREETS = [
+  'Persimmon Lane',
+  'Old Quarry Road',
+  'Bluebonnet Court',
+  'Whippoorwill Drive',
+  'Tanager Way',
+  'Sassafras Street',
+  'Honeylocust Avenue',
+  'Millpond Circle',
+];
+
+// For personas without a location
+const TOWNS = ['Dayton, Ohio', 'Fort Wayne, Indiana', 'Springfield, Missouri', 'Boise, Idaho'];
+
+const BANKS = [
+  'First Prairie Savings Bank',
+  'Heartland Federal Credit Union',
+  'Cornerstone Community Bank',
+  'Riverbend Savings & Loan',
+  'Pioneer Valley Trust',
+  'Golden Oak Credit Union',
+];
+
+const PHARMACIES = [
+  'Hendricks Family Pharmacy',
+  'Corner Drug & Sundries',
+  'Main Street Apothecary',
+  'Bluebell Pharmacy',
+  'Greenway Drug',
+];
+
+// Relatives a persona of each age might mention
+const OLDER_RELATIONS = ['grandson', 'granddaughter', 'son', 'daughter', 'nephew', 'niece', 'sister'];
+const YOUNGER_RELATIONS = ['mom', 'dad', 'brother', 'sister', 'cousin', 'aunt', 'uncle'];
+
+const NAMES: Record<'male' | 'female', string[]> = {
+  male: ['Dale', 'Tommy', 'Randy', 'Gary', 'Wendell', 'Curtis', 'Leon', 'Marvin'],
+  female: ['Donna', 'Sheila', 'Tammy', 'Lorraine', 'Peggy', 'Arlene', 'Rhonda', 'Bev'],
+};
+
+const FEMALE_RELATIONS = new Set(['granddaughter', 'daughter', 'niece', 'sister', 'mom', 'aunt', 'wife', 'late wife']);
+
+const PETS = ['dog', 'cat', 'parakeet', 'canary', 'goldfish'];
+const PET_NAMES = ['Biscuit', 'Pepper', 'Duke', 'Sir Reginald', 'Pumpkin', 'Buttons', 'Rufus', 'Tinkerbell'];
+
+/** Relatives and pets every profile has at least */
+const MIN_RELATIVES = 2;
+const MIN_PETS = 1;
+
+/** Personas at least this old have grandchildren rather than parents */
+const OLDER_AGE = 55;
+
+// =============================================================================
+// Seeding
+// =============================================================================
+
+/**
+ * Seed an identity profile for a persona
+ *
+ * @param persona - The persona's ID (the seed), and its location and age if known
+ * @param known - Relatives and pets the persona already has; seeded ones
+ *                are added until there are enough
+ */
+export function seedIdentity(
+  persona: { id: string; location?: string; age?: number },
+  known: { relatives?: IdentityRelative[]; pets?: IdentityPet[] } = {}
+): IdentityProfile {
+  const random = createSeededRandom(`identity:${persona.id}`);
+  const pick = <T>(values: T[]): T => values[Math.min(values.length - 1, Math.floor(random() * values.length))];
+
+  const houseNumber = 100 + Math.floor(random() * 9800);
+  const town = persona.location?.trim() || pick(TOWNS);
+
+  const relatives = [...(known.relatives ?? [])];
+  const relations = (persona.age ?? OLDER_AGE) >= OLDER_AGE ? OLDER_RELATIONS : YOUNGER_RELATIONS;
+  while (relatives.length < MIN_RELATIVES) {
+    const relation = pick(relations.filter((r) => !relatives.some((relative) => relative.relation === r)));
+    const names = NAMES[FEMALE_RELATIONS.has(relation) ? 'female' : 'male'];
+    relatives.push({ relation, name: pick(names.filter((n) => !relatives.some((relative) => relative.name === n))) });
+  }
+
+  const pets = [...(known.pets ?? [])];
+  while (pets.length < MIN_PETS) {
+    pets.push({ kind: pick(PETS), name: pick(PET_NAMES) });
+  }
+
+  return {
+    address: `${houseNumber} ${pick(STREETS)}, ${town}`,
+    bank: pick(BANKS),
+    pharmacy: pick(PHARMACIES),
+    relatives,
+    pets,
+  };
+}
+
+/**
+ * The persona's identity profile, seeding one if it doesn't have one
+ */
+export function getIdentity(persona: PersonaConfig): IdentityProfile {
+  return persona.identity ?? seedIdentity(persona);
+}
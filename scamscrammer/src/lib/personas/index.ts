@@ -5,29 +5,73 @@
  * utility functions for selecting and managing them.
  */
 
-import { PersonaType, PersonaConfig } from './types';
+import { PersonaType, PersonaConfig, BuiltInPersonaType, MemoryConfig, IdleConfig } from './types';
 import { EARL_PERSONA } from './earl';
 import { GLADYS_PERSONA } from './gladys';
 import { KEVIN_PERSONA } from './kevin';
 import { BRENDA_PERSONA } from './brenda';
 
 /**
- * Registry of all available personas
+ * Registry of the built-in personas
  */
-export const PERSONAS: Record<PersonaType, PersonaConfig> = {
+export const PERSONAS: Record<BuiltInPersonaType, PersonaConfig> = {
   earl: EARL_PERSONA,
   gladys: GLADYS_PERSONA,
   kevin: KEVIN_PERSONA,
   brenda: BRENDA_PERSONA,
 };
 
+/**
+ * Memory settings for personas that don't configure their own
+ */
+export const DEFAULT_MEMORY_CONFIG: MemoryConfig = {
+  enabled: true,
+  maxSummaryChars: 800,
+};
+
+/**
+ * Silence handling for personas that don't configure their own
+ */
+export const DEFAULT_IDLE_CONFIG: IdleConfig = {
+  checkInAfterMs: 10000,
+  hangUpAfterMs: 60000,
+};
+
+/**
+ * Registry of custom personas created with the persona builder.
+ * Populated on the server by loadCustomPersonas() in './custom'.
+ */
+const customPersonas = new Map<string, PersonaConfig>();
+
+/**
+ * Replace the registered custom personas
+ * @param configs - The current set of custom persona configurations
+ */
+export function setCustomPersonas(configs: PersonaConfig[]): void {
+  customPersonas.clear();
+  for (const config of configs) {
+    if (!isBuiltInPersonaType(config.id)) {
+      customPersonas.set(config.id, config);
+    }
+  }
+}
+
+/**
+ * Check if a persona type is one of the built-in personas
+ * @param type - The type to check
+ * @returns true if the type is a built-in persona type
+ */
+export function isBuiltInPersonaType(type: string): type is BuiltInPersonaType {
+  return Object.prototype.hasOwnProperty.call(PERSONAS, type);
+}
+
 /**
  * Get a specific persona by type
- * @param type - The persona type to retrieve
+ * @param type - The persona type to retrieve (check with isValidPersonaType first)
  * @returns The persona configuration
  */
 export function getPersona(type: PersonaType): PersonaConfig {
-  return PERSONAS[type];
+  return isBuiltInPersonaType(type) ? PERSONAS[type] : customPersonas.get(type)!;
 }
 
 /**
@@ -35,17 +79,17 @@ export function getPersona(type: PersonaType): PersonaConfig {
  * @returns A randomly selected persona configuration
  */
 export function getRandomPersona(): PersonaConfig {
-  const types = Object.keys(PERSONAS) as PersonaType[];
-  const randomIndex = Math.floor(Math.random() * types.length);
-  return PERSONAS[types[randomIndex]];
+  const personas = getAllPersonas();
+  const randomIndex = Math.floor(Math.random() * personas.length);
+  return personas[randomIndex];
 }
 
 /**
  * Get all personas as an array
- * @returns Array of all persona configurations
+ * @returns Array of all persona configurations, built-in personas first
  */
 export function getAllPersonas(): PersonaConfig[] {
-  return Object.values(PERSONAS);
+  return [...Object.values(PERSONAS), ...customPersonas.values()];
 }
 
 /**
@@ -53,16 +97,16 @@ export function getAllPersonas(): PersonaConfig[] {
  * @returns Array of persona type identifiers
  */
 export function getPersonaTypes(): PersonaType[] {
-  return Object.keys(PERSONAS) as PersonaType[];
+  return getAllPersonas().map((persona) => persona.id);
 }
 
 /**
  * Check if a persona type is valid
  * @param type - The type to validate
- * @returns true if the type is a valid persona type
+ * @returns true if the type is a built-in or registered custom persona type
  */
 export function isValidPersonaType(type: string): type is PersonaType {
-  return type in PERSONAS;
+  return isBuiltInPersonaType(type) || customPersonas.has(type);
 }
 
 /**
@@ -83,13 +127,18 @@ export function getPersonaByName(name: string): PersonaConfig | undefined {
  * @returns The greeting string for that persona
  */
 export function getPersonaGreeting(type: PersonaType): string {
-  const greetings: Record<PersonaType, string> = {
+  const greetings: Record<BuiltInPersonaType, string> = {
     earl: "Hello? Hello? Who's there? Hold on, let me turn up my hearing aid... Okay, okay. Hello! This is Earl Pemberton speaking. How can I help you today?",
     gladys: "Hello? Who is this? ... I'm going to need you to identify yourself. What company did you say you're calling from? And what is this regarding?",
     kevin: "...Hello? Oh wait, is this... who is this? Is this Derek? Derek, bro, if this is you doing a bit again I swear... Wait, this isn't Derek is it. Okay. Uh. What's up?",
     brenda: "Oh my gosh, HI! This is Brenda! I am SO glad you called because I was literally just thinking about how I need to connect with more amazing people today! How are you doing, hun?",
   };
-  return greetings[type];
+  if (isBuiltInPersonaType(type)) {
+    return greetings[type];
+  }
+
+  const persona = customPersonas.get(type);
+  return persona?.greeting || `Hello? This is ${persona?.name ?? 'me'}. Who's calling?`;
 }
 
 /**
@@ -113,8 +162,8 @@ export function selectPersonaFromSettings(settings?: {
 
   // Filter to only enabled personas
   const enabledConfigs = enabledPersonas
-    .filter((type) => type in PERSONAS)
-    .map((type) => PERSONAS[type]);
+    .filter((type) => isValidPersonaType(type))
+    .map((type) => getPersona(type));
 
   if (enabledConfigs.length === 0) {
     // Fallback to Earl if no valid personas
@@ -123,8 +172,8 @@ export function selectPersonaFromSettings(settings?: {
 
   switch (selectionMode) {
     case 'fixed': {
-      if (fixedPersona && fixedPersona in PERSONAS && enabledPersonas.includes(fixedPersona)) {
-        return { persona: PERSONAS[fixedPersona] };
+      if (fixedPersona && isValidPersonaType(fixedPersona) && enabledPersonas.includes(fixedPersona)) {
+        return { persona: getPersona(fixedPersona) };
       }
       return { persona: enabledConfigs[0] };
     }
@@ -144,6 +193,7 @@ export function selectPersonaFromSettings(settings?: {
 
 // Re-export types
 export * from './types';
+export { seedIdentity, getIdentity } from './identity';
 
 // Re-export individual personas
 export { EARL_PERSONA, EARL_SYSTEM_PROMPT, EARL_GREETING } from './earl';
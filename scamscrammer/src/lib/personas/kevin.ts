@@ -11,7 +11,9 @@ import type {
   TangentTopic,
   MishearingMapping,
   ResponseConfig,
+  IdleConfig,
 } from './types';
+import { seedIdentity } from './identity';
 
 /**
  * Kevin's tangent topics - subjects he gets distracted by
@@ -152,6 +154,11 @@ const KEVIN_MISHEARINGS: MishearingMapping[] = [
   },
 ];
 
+/**
+ * Kevin's details for callers who ask (his location is too vague for an address)
+ */
+const KEVIN_IDENTITY = seedIdentity({ id: 'kevin', age: 22 }, { pets: [{ kind: 'cat', name: 'Mr. Whiskers' }] });
+
 /**
  * Full system prompt for the Kevin persona
  */
@@ -233,6 +240,19 @@ const KEVIN_RESPONSE_CONFIG: ResponseConfig = {
   mishearingProbability: 0.4, // High chance of forgetting/spacing out
 };
 
+/**
+ * What Kevin does when the line goes quiet
+ */
+const KEVIN_IDLE_CONFIG: IdleConfig = {
+  checkInAfterMs: 8000,
+  hangUpAfterMs: 45000,
+  checkInPhrases: [
+    "Dude? You still there?",
+    "Hello? Did my phone die again?",
+  ],
+  goodbye: "Okay, I think you bailed, man. Catch you later!",
+};
+
 /**
  * Complete Kevin persona configuration
  */
@@ -251,7 +271,14 @@ export const KEVIN_PERSONA: PersonaConfig = {
   signaturePhrases: KEVIN_SIGNATURE_PHRASES,
   mishearings: KEVIN_MISHEARINGS,
   responseConfig: KEVIN_RESPONSE_CONFIG,
+  idleConfig: KEVIN_IDLE_CONFIG,
+  memoryConfig: { enabled: true, maxSummaryChars: 800 },
+  identity: KEVIN_IDENTITY,
   systemPrompt: KEVIN_SYSTEM_PROMPT,
+  voiceConfig: {
+    realtimeVoice: 'ash',
+    twilioVoice: 'Polly.Joey',
+  },
 };
 
 /**
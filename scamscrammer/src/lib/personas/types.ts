@@ -5,10 +5,18 @@
  * engage with scam callers.
  */
 
+import type { TextToSpeechProvider, VoiceEngineType } from '../voice/types';
+
+/**
+ * Personas that ship with the application
+ */
+export type BuiltInPersonaType = 'earl' | 'gladys' | 'kevin' | 'brenda';
+
 /**
- * Available persona types in the system
+ * Persona identifier - a built-in persona or the slug of a custom persona
+ * created through the persona builder
  */
-export type PersonaType = 'earl' | 'gladys' | 'kevin' | 'brenda';
+export type PersonaType = BuiltInPersonaType | (string & {});
 
 /**
  * Complete configuration for an AI persona
@@ -30,6 +38,8 @@ export interface PersonaConfig {
   location: string;
   /** Living situation description */
   livingStatus: string;
+  /** Greeting spoken when answering (built-in personas use their *_GREETING constant) */
+  greeting?: string;
   /** Full system prompt for the AI */
   systemPrompt: string;
   /** Characteristic phrases the persona uses */
@@ -40,8 +50,14 @@ export interface PersonaConfig {
   mishearings?: MishearingMapping[];
   /** Response timing configuration */
   responseConfig: ResponseConfig;
-  /** Voice configuration for future ElevenLabs integration */
+  /** Voices, and which voice engine holds the conversation */
   voiceConfig?: VoiceConfig;
+  /** Memory of earlier calls from the same number (DEFAULT_MEMORY_CONFIG if unset) */
+  memoryConfig?: MemoryConfig;
+  /** What to do when the line goes quiet (DEFAULT_IDLE_CONFIG if unset) */
+  idleConfig?: IdleConfig;
+  /** Made-up personal details to give callers (seeded from the ID if unset, see identity.ts) */
+  identity?: IdentityProfile;
 }
 
 /**
@@ -90,6 +106,71 @@ export interface VoiceConfig {
   pitch?: number;
   /** Voice speed adjustment */
   speed?: number;
-  /** Voice ID or name for TTS service */
+  /** Engine that holds the conversation (default 'realtime', see voice/index.ts) */
+  engine?: VoiceEngineType;
+  /** Text-to-speech service for the cascaded engine (default 'openai') */
+  ttsProvider?: TextToSpeechProvider;
+  /** ElevenLabs voice ID for the cascaded engine (OpenAI speech uses realtimeVoice) */
   voice?: string;
+  /** OpenAI Realtime voice used for the live conversation */
+  realtimeVoice?: string;
+  /** Twilio <Say> voice used for the greeting (e.g. 'Polly.Matthew') */
+  twilioVoice?: string;
+}
+
+/**
+ * Configuration for handling silence on the line
+ */
+export interface IdleConfig {
+  /** Silence in milliseconds before the persona checks the caller is still there */
+  checkInAfterMs: number;
+  /** Silence in milliseconds before the persona says goodbye and the call ends */
+  hangUpAfterMs: number;
+  /** What the persona says to check in, used in turn (asks in its own words if unset) */
+  checkInPhrases?: string[];
+  /** What the persona says before hanging up (says goodbye in its own words if unset) */
+  goodbye?: string;
+}
+
+/**
+ * Configuration for remembering earlier calls from the same number
+ */
+export interface MemoryConfig {
+  /** Summarize earlier conversations with the caller into the instructions */
+  enabled: boolean;
+  /** Maximum length of the summary in characters */
+  maxSummaryChars: number;
+}
+
+/**
+ * The persona's made-up personal details, so it gives callers the same
+ * answers every time they ask
+ */
+export interface IdentityProfile {
+  /** Home address, e.g. "1418 Persimmon Lane, Tulsa, Oklahoma" */
+  address: string;
+  /** Where the persona banks */
+  bank: string;
+  /** Where the persona picks up prescriptions */
+  pharmacy: string;
+  relatives: IdentityRelative[];
+  pets: IdentityPet[];
+}
+
+/**
+ * A relative the persona can mention
+ */
+export interface IdentityRelative {
+  /** How they're related to the persona, e.g. "grandson" */
+  relation: string;
+  name: string;
+}
+
+/**
+ * A pet the persona can mention
+ */
+export interface IdentityPet {
+  /** What kind of animal, e.g. "parakeet" */
+  kind: string;
+  name: string;
 }
@@ -0,0 +1,150 @@
+/**
+ * Persona Playback Tracking
+ *
+ * The persona's audio reaches Twilio far faster than the caller hears it,
+ * so when the scammer talks over the persona, some of what the persona
+ * "said" was never played. The voice stream follows each chunk of audio it
+ * sends with a Twilio mark; Twilio echoes the mark back once the audio
+ * before it has played. On barge-in, the acknowledged marks tell us how
+ * much of each conversation item the caller actually heard, so the
+ * Realtime conversation and the saved transcript can be cut down to match.
+ */
+
+// μ-law at 8kHz is one byte per sample
+const BYTES_PER_MS = 8;
+
+/**
+ * How much of a conversation item the caller heard before being cut off
+ */
+export interface Truncation {
+  itemId: string;
+  /** Milliseconds of the item's audio that were played */
+  audioEndMs: number;
+  /** Milliseconds of audio the persona produced for the item */
+  totalAudioMs: number;
+  /** When the caller cut the item off (epoch ms) */
+  time: number;
+}
+
+interface OutstandingMark {
+  name: string;
+  itemId: string;
+  audioEndMs: number;
+}
+
+/**
+ * Tracks how much of each conversation item's audio has been received,
+ * sent to Twilio and played to the caller
+ */
+export class PlaybackTracker {
+  private receivedMs = new Map<string, number>();
+  private sentMs = new Map<string, number>();
+  private playedMs = new Map<string, number>();
+  private outstandingMarks: OutstandingMark[] = [];
+  private truncations = new Map<string, Truncation>();
+  private nextMark = 1;
+
+  /**
+   * Record audio received from OpenAI for an item
+   *
+   * @param audio - Base64 μ-law audio
+   */
+  recordReceived(itemId: string, audio: string): void {
+    this.receivedMs.set(itemId, (this.receivedMs.get(itemId) ?? 0) + audioMs(audio));
+  }
+
+  /**
+   * Record audio sent to Twilio for an item
+   *
+   * @param audio - Base64 μ-law audio
+   * @returns Name of the mark to send after the audio
+   */
+  recordSent(itemId: string, audio: string): string {
+    const audioEndMs = (this.sentMs.get(itemId) ?? 0) + audioMs(audio);
+    this.sentMs.set(itemId, audioEndMs);
+
+    const name = `${itemId}:${this.nextMark++}`;
+    this.outstandingMarks.push({ name, itemId, audioEndMs });
+    return name;
+  }
+
+  /**
+   * Record that Twilio played the audio up to a mark
+   */
+  acknowledge(name: string): void {
+    const index = this.outstandingMarks.findIndex((mark) => mark.name === name);
+    if (index === -1) {
+      return;
+    }
+
+    // Twilio plays audio in order, so every earlier mark has been reached too
+    for (const mark of this.outstandingMarks.splice(0, index + 1)) {
+      this.playedMs.set(mark.itemId, mark.audioEndMs);
+    }
+  }
+
+  /**
+   * The caller interrupted: work out which items they didn't hear all of
+   *
+   * Covers the item that was playing and any whose audio was received but
+   * never sent (e.g. held back for the persona's pause).
+   */
+  interrupt(): Truncation[] {
+    const cutOff = new Set(this.outstandingMarks.map((mark) => mark.itemId));
+    for (const [itemId, receivedMs] of this.receivedMs) {
+      if ((this.sentMs.get(itemId) ?? 0) < receivedMs) {
+        cutOff.add(itemId);
+      }
+    }
+    this.outstandingMarks = [];
+
+    const time = Date.now();
+    const truncations: Truncation[] = [];
+    for (const itemId of cutOff) {
+      if (this.truncations.has(itemId)) {
+        continue;
+      }
+      const truncation = {
+        itemId,
+        audioEndMs: this.playedMs.get(itemId) ?? 0,
+        totalAudioMs: this.receivedMs.get(itemId) ?? 0,
+        time,
+      };
+      this.truncations.set(itemId, truncation);
+      truncations.push(truncation);
+    }
+    return truncations;
+  }
+
+  /**
+   * How much of an item was heard, if the caller cut it off
+   */
+  getTruncation(itemId: string): Truncation | undefined {
+    const truncation = this.truncations.get(itemId);
+    // More audio may have arrived since the interruption
+    return truncation && { ...truncation, totalAudioMs: this.receivedMs.get(itemId) ?? 0 };
+  }
+}
+
+/**
+ * Milliseconds of base64 μ-law audio
+ */
+export function audioMs(audio: string): number {
+  return Buffer.from(audio, 'base64').length / BYTES_PER_MS;
+}
+
+/**
+ * Cut a transcript down to roughly the words spoken in the audio that was
+ * heard, assuming the words are spread evenly through the audio
+ *
+ * @returns The words heard, ending in a dash if cut off, or '' if none were
+ */
+export function truncateTranscript(text: string, truncation: Truncation): string {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (truncation.totalAudioMs <= 0 || truncation.audioEndMs >= truncation.totalAudioMs) {
+    return truncation.audioEndMs > 0 ? words.join(' ') : '';
+  }
+
+  const heard = Math.round((words.length * truncation.audioEndMs) / truncation.totalAudioMs);
+  return heard > 0 ? `${words.slice(0, heard).join(' ')}—` : '';
+}
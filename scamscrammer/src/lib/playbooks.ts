@@ -0,0 +1,224 @@
+/**
+ * Counter-Playbooks
+ *
+ * Stalling tactics for each type of scam, so a persona plays an IRS threat
+ * differently from a tech support pitch: heading to the wrong store for gift
+ * cards, or hunting for the Start button for twenty minutes. Built-in
+ * playbooks ship here; a Playbook row edited from the dashboard replaces the
+ * built-in one for its scam type, and can turn it off.
+ *
+ * Once a live call's scam type is known (see scam-stage.ts), its playbook is
+ * merged into the persona's instructions and recorded on the call, so
+ * outcomes per scam type can be compared with and without a playbook.
+ */
+
+import { Playbook } from '@prisma/client';
+import { prisma } from './db';
+import { ValidationError } from './errors';
+import { OutcomeStats, summarizeOutcomes } from './experiments';
+import { getScamTypeFromTag, getScamTypeLabel, ScamType } from './tagging';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Scam types that can have a playbook
+ */
+export type PlaybookScamType = Exclude<ScamType, ScamType.UNKNOWN>;
+
+/**
+ * The playbook in effect for a scam type
+ */
+export interface PlaybookConfig {
+  scamType: PlaybookScamType;
+  instructions: string;
+  isEnabled: boolean;
+  /** Whether it's the built-in playbook, never edited */
+  isBuiltIn: boolean;
+}
+
+/**
+ * Validated changes to a playbook
+ */
+export interface PlaybookInput {
+  instructions?: string;
+  isEnabled?: boolean;
+}
+
+/**
+ * How calls of one scam type went with and without its playbook
+ */
+export interface PlaybookStats {
+  scamType: PlaybookScamType;
+  withPlaybook: OutcomeStats;
+  withoutPlaybook: OutcomeStats;
+}
+
+// =============================================================================
+// Built-in Playbooks
+// =============================================================================
+
+export const PLAYBOOK_SCAM_TYPES = Object.values(ScamType).filter(
+  (scamType): scamType is PlaybookScamType => scamType !== ScamType.UNKNOWN
+);
+
+/** Longest playbook the dashboard can save */
+export const MAX_PLAYBOOK_LENGTH = 4000;
+
+export const DEFAULT_PLAYBOOKS: Record<PlaybookScamType, string> = {
+  [ScamType.IRS]:
+    "Insist you already paid and go looking for the cancelled check in a shoebox of old receipts. Ask which form it's about, then read out the numbers of every tax form you can find. Ask whether the IRS takes rolls of quarters.",
+  [ScamType.TECH_SUPPORT]:
+    "Struggle to find the Start button for twenty minutes: look in the wrong corner of the screen, press the monitor's power button by mistake, and ask if it's the one with the little flag. The computer has to install updates before it does anything. Read out what's on the screen wrong.",
+  [ScamType.GIFT_CARD]:
+    "Agree to buy the gift cards, then keep going to the wrong store: the pharmacy only has the other kind, the grocery store is out, and the gas station's card machine is broken. When you finally have one, scratch off too much of the code and read out the digits you can still see, slowly.",
+  [ScamType.BANK]:
+    'Ask whether this is the branch by the post office, and tell them about the nice teller there. Read out the number off the wrong card, then your library card. Keep putting them on hold to find your reading glasses and your checkbook.',
+  [ScamType.MEDICARE]:
+    'Mix up your Medicare card with your library and grocery store cards and read out the wrong one. Ask whether the new card comes in large print, and go through every one of your medications by name to check each is covered.',
+  [ScamType.WARRANTY]:
+    "Ask which car they mean and go through every car you've ever owned, oldest first. Go out to the garage to read the VIN off the windshield and come back with the serial number off the lawnmower.",
+  [ScamType.LOTTERY]:
+    "Be thrilled and keep asking what you won. Plan out loud how you'll spend it. Ask whether the fee can come out of the winnings, and whether they'll bring the big check round for a photo for the local paper.",
+  [ScamType.SOCIAL_SECURITY]:
+    'Worry about your benefits and ask whether your check will still come on the third. Find your Social Security card in a drawer full of old cards and read it out slowly with digits out of order. Offer to come down to the office and sort it out in person.',
+  [ScamType.CRYPTO]:
+    "Be keen to invest but have no idea what a wallet is; ask if they mean the one in your pocket or purse. Have them explain Bitcoin again from the start, then ask whether you can pay by check and how many coins twenty dollars gets you.",
+  [ScamType.ROMANCE]:
+    "Be warm and smitten, and ask all about them: where they're stationed, what they had for breakfast, their mother's name. Offer to mail a care package instead of money, and keep asking for an address to send it to.",
+};
+
+// =============================================================================
+// Playbooks
+// =============================================================================
+
+/**
+ * Whether a string is a scam type that can have a playbook
+ */
+export function isPlaybookScamType(value: string): value is PlaybookScamType {
+  return (PLAYBOOK_SCAM_TYPES as string[]).includes(value);
+}
+
+function toPlaybookConfig(scamType: PlaybookScamType, row?: Playbook): PlaybookConfig {
+  return row
+    ? { scamType, instructions: row.instructions, isEnabled: row.isEnabled, isBuiltIn: false }
+    : { scamType, instructions: DEFAULT_PLAYBOOKS[scamType], isEnabled: true, isBuiltIn: true };
+}
+
+/**
+ * Load the playbook in effect for every scam type
+ */
+export async function loadPlaybooks(): Promise<PlaybookConfig[]> {
+  const rows = await prisma.playbook.findMany();
+  const byScamType = new Map(rows.map((row) => [row.scamType, row]));
+  return PLAYBOOK_SCAM_TYPES.map((scamType) => toPlaybookConfig(scamType, byScamType.get(scamType)));
+}
+
+/**
+ * Save changes to a scam type's playbook, starting from the built-in one if
+ * it hasn't been edited before
+ */
+export async function savePlaybook(scamType: PlaybookScamType, input: PlaybookInput): Promise<PlaybookConfig> {
+  const existing = await prisma.playbook.findUnique({ where: { scamType } });
+  const current = toPlaybookConfig(scamType, existing ?? undefined);
+  const data = {
+    instructions: input.instructions ?? current.instructions,
+    isEnabled: input.isEnabled ?? current.isEnabled,
+  };
+
+  const row = await prisma.playbook.upsert({
+    where: { scamType },
+    update: data,
+    create: { scamType, ...data },
+  });
+  return toPlaybookConfig(scamType, row);
+}
+
+/**
+ * Go back to the built-in playbook for a scam type
+ */
+export async function resetPlaybook(scamType: PlaybookScamType): Promise<PlaybookConfig> {
+  await prisma.playbook.deleteMany({ where: { scamType } });
+  return toPlaybookConfig(scamType);
+}
+
+/**
+ * The session instructions section with a playbook's tactics
+ */
+export function buildPlaybookSection(playbook: PlaybookConfig): string {
+  return [
+    `## Playbook: ${getScamTypeLabel(playbook.scamType)}`,
+    '',
+    'Tactics that work well against this kind of scam. Play them in your own character:',
+    playbook.instructions,
+  ].join('\n');
+}
+
+// =============================================================================
+// Input Validation
+// =============================================================================
+
+/**
+ * Validate a request body with changes to a playbook
+ *
+ * @throws ValidationError if any field is invalid
+ */
+export function parsePlaybookInput(body: unknown): PlaybookInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const { instructions, isEnabled } = body as Record<string, unknown>;
+  const input: PlaybookInput = {};
+
+  if (instructions !== undefined) {
+    if (typeof instructions !== 'string' || !instructions.trim()) {
+      throw ValidationError.requiredField('instructions');
+    }
+    if (instructions.length > MAX_PLAYBOOK_LENGTH) {
+      throw ValidationError.invalidValue(
+        'instructions',
+        `Playbooks can be at most ${MAX_PLAYBOOK_LENGTH} characters`
+      );
+    }
+    input.instructions = instructions.trim();
+  }
+
+  if (isEnabled !== undefined) {
+    if (typeof isEnabled !== 'boolean') {
+      throw ValidationError.invalidFormat('isEnabled', 'boolean');
+    }
+    input.isEnabled = isEnabled;
+  }
+
+  return input;
+}
+
+// =============================================================================
+// Statistics
+// =============================================================================
+
+/**
+ * Compare calls of each scam type with and without its playbook
+ *
+ * Calls with a playbook count towards its scam type; calls without one
+ * count towards the scam type they were tagged with, if any.
+ *
+ * @param calls - Completed calls
+ */
+export function computePlaybookStats(
+  calls: Array<{ playbook: string | null; tags: string[]; duration: number | null; rating: number | null }>
+): PlaybookStats[] {
+  return PLAYBOOK_SCAM_TYPES.map((scamType) => {
+    const withPlaybook = calls.filter((call) => call.playbook === scamType);
+    const withoutPlaybook = calls.filter(
+      (call) => !call.playbook && call.tags.some((tag) => getScamTypeFromTag(tag) === scamType)
+    );
+
+    return {
+      scamType,
+      withPlaybook: summarizeOutcomes(withPlaybook),
+      withoutPlaybook: summarizeOutcomes(withoutPlaybook),
+    };
+  });
+}
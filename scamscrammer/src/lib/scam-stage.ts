@@ -0,0 +1,290 @@
+/**
+ * Live Scam-Stage Tracking
+ *
+ * Follows a scam call as it happens. Everything the scammer says is checked
+ * for the stage of the scam they've reached, from the opening through the
+ * pitch to demanding payment, asking for remote access or making threats,
+ * and the scam type is worked out from everything they've said so far (see
+ * analyzeCallForTags). Each stage has its own stalling guidance for the
+ * persona, so it can be put in the session instructions when the stage
+ * changes.
+ */
+
+import { analyzeCallForTags, getScamTypeLabel, ScamType } from './tagging';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * How far into the scam the caller has got
+ */
+export enum ScamStage {
+  OPENING = 'opening',
+  PITCH = 'pitch',
+  PAYMENT_DEMAND = 'payment_demand',
+  REMOTE_ACCESS = 'remote_access',
+  THREAT = 'threat',
+}
+
+/**
+ * The scam moving on to another stage
+ */
+export interface ScamStageChange {
+  stage: ScamStage;
+  /** From stage, or null for the first thing the scammer said */
+  previousStage: ScamStage | null;
+  scamType: ScamType;
+  /** What the scammer said that moved the stage on */
+  text: string;
+}
+
+// =============================================================================
+// Stage Detection
+// =============================================================================
+
+// Checked in order, so a threat to pay up ("pay now or you'll be arrested")
+// counts as a threat. One of a stage's phrases is enough on its own, but its
+// keywords turn up in plenty of harmless talk ("I'll pay attention", "type
+// in your name"), so it takes two different ones to move the stage on.
+const STAGE_KEYWORDS: Array<{ stage: ScamStage; phrases: string[]; keywords: string[] }> = [
+  {
+    stage: ScamStage.THREAT,
+    phrases: [
+      'arrest',
+      'arrested',
+      'police',
+      'warrant',
+      'jail',
+      'prison',
+      'lawsuit',
+      'legal action',
+      'sheriff',
+      'take you to court',
+      'court date',
+      'court order',
+      'criminal charges',
+      'prosecute',
+      'prosecuted',
+      'deport',
+      'deported',
+    ],
+    keywords: ['court', 'criminal', 'penalty', 'penalties'],
+  },
+  {
+    stage: ScamStage.REMOTE_ACCESS,
+    phrases: [
+      'anydesk',
+      'teamviewer',
+      'ultraviewer',
+      'logmein',
+      'remote access',
+      'remote desktop',
+      'windows key',
+      'control panel',
+      'access code',
+      'allow access',
+      'go to www',
+      'type in www',
+      'go to the website',
+    ],
+    keywords: ['download', 'install', 'type in', 'www', 'dot com'],
+  },
+  {
+    stage: ScamStage.PAYMENT_DEMAND,
+    phrases: [
+      'payment',
+      'pay the fee',
+      'pay a fee',
+      'processing fee',
+      'you owe',
+      'gift card',
+      'gift cards',
+      'wire transfer',
+      'western union',
+      'moneygram',
+      'zelle',
+      'venmo',
+      'cash app',
+      'bitcoin',
+      'card number',
+      'credit card',
+      'debit card',
+      'routing number',
+      'account number',
+      'send money',
+    ],
+    keywords: ['pay', 'wire', 'fee', 'owe'],
+  },
+  {
+    stage: ScamStage.PITCH,
+    phrases: [
+      'calling about',
+      'calling from',
+      'on behalf of',
+      'your computer',
+      'your account',
+      'your social security',
+      'your warranty',
+      'virus',
+      'hacked',
+      'compromised',
+      'suspended',
+      'suspicious',
+      'expired',
+      'expiring',
+      'refund',
+      'you won',
+      'you have won',
+      "you've won",
+      'eligible',
+      'problem with',
+      'we detected',
+      'we noticed',
+    ],
+    keywords: [],
+  },
+];
+
+/** Different keywords it takes, without a phrase, to reach a stage */
+const MIN_KEYWORD_HITS = 2;
+
+const wordsPattern = (words: string[], flags: string) =>
+  new RegExp(`\\b(?:${words.join('|')})\\b`, flags);
+
+const STAGE_PATTERNS = STAGE_KEYWORDS.map(({ stage, phrases, keywords }) => ({
+  stage,
+  phrases: wordsPattern(phrases, 'i'),
+  keywords: keywords.length > 0 ? wordsPattern(keywords, 'gi') : null,
+}));
+
+function keywordHits(text: string, keywords: RegExp | null): number {
+  if (!keywords) {
+    return 0;
+  }
+  return new Set(Array.from(text.matchAll(keywords), (match) => match[0].toLowerCase())).size;
+}
+
+/**
+ * Find the stage of the scam something the scammer said belongs to
+ *
+ * @returns The stage, or null if it doesn't sound like any of them
+ */
+export function detectScamStage(text: string): ScamStage | null {
+  return (
+    STAGE_PATTERNS.find(
+      ({ phrases, keywords }) => phrases.test(text) || keywordHits(text, keywords) >= MIN_KEYWORD_HITS
+    )?.stage ?? null
+  );
+}
+
+// =============================================================================
+// Stalling Guidance
+// =============================================================================
+
+const STAGE_GUIDANCE: Record<ScamStage, string> = {
+  [ScamStage.OPENING]:
+    "The caller is just getting started. Be friendly but slow on the uptake: ask who they are and where they're calling from, and ask again a little later as if you forgot.",
+  [ScamStage.PITCH]:
+    'The caller is explaining the problem or offer. Act interested and worried, ask them to go over each part again slowly, and keep losing track of what they said.',
+  [ScamStage.PAYMENT_DEMAND]:
+    "The caller wants money or account details. Never refuse: go looking for your wallet or purse, mix up your cards, read numbers slowly and get digits wrong, and ask how to spell everything. Use your tools when they ask for account details.",
+  [ScamStage.REMOTE_ACCESS]:
+    "The caller wants you to install something or let them onto your computer. Go along with it but fumble every step: you can't find the key or the button, the computer is still thinking, you typed the website wrong, and it needs restarting.",
+  [ScamStage.THREAT]:
+    "The caller is threatening you. Don't get scared and don't hang up: be confused about who would arrest you and why, ask for their supervisor and their badge number, and ask them to hold while you find a pen.",
+};
+
+/**
+ * Get a human-readable label for a scam stage
+ */
+export function getScamStageLabel(stage: ScamStage): string {
+  const labels: Record<ScamStage, string> = {
+    [ScamStage.OPENING]: 'Opening',
+    [ScamStage.PITCH]: 'Pitch',
+    [ScamStage.PAYMENT_DEMAND]: 'Payment Demand',
+    [ScamStage.REMOTE_ACCESS]: 'Remote Access Request',
+    [ScamStage.THREAT]: 'Threat',
+  };
+  return labels[stage] || 'Unknown Stage';
+}
+
+// =============================================================================
+// Tracker
+// =============================================================================
+
+/**
+ * The scam's progress over one call
+ */
+export class ScamStageTracker {
+  private scammerText: string[] = [];
+  private currentStage: ScamStage | null = null;
+  private currentScamType = ScamType.UNKNOWN;
+
+  get stage(): ScamStage | null {
+    return this.currentStage;
+  }
+
+  get scamType(): ScamType {
+    return this.currentScamType;
+  }
+
+  /**
+   * Take in something the scammer said
+   *
+   * The first thing they say opens the call. Once past the opening, the
+   * scam moves between payment demands, remote access and threats as the
+   * scammer does, but never back to the pitch.
+   *
+   * @returns The change, if it moved the scam on to another stage
+   */
+  observe(text: string): ScamStageChange | null {
+    if (!text.trim()) {
+      return null;
+    }
+
+    this.scammerText.push(text);
+    this.currentScamType = analyzeCallForTags(this.scammerText.join('\n')).scamType;
+
+    const detected = detectScamStage(text);
+    let stage = this.currentStage;
+    if (stage === null) {
+      stage = detected ?? ScamStage.OPENING;
+    } else if (detected && (detected !== ScamStage.PITCH || stage === ScamStage.OPENING)) {
+      stage = detected;
+    }
+
+    if (stage === this.currentStage) {
+      return null;
+    }
+
+    const change: ScamStageChange = {
+      stage,
+      previousStage: this.currentStage,
+      scamType: this.currentScamType,
+      text,
+    };
+    this.currentStage = stage;
+    return change;
+  }
+
+  /**
+   * The session instructions section steering the persona through the
+   * current stage, or null before the scammer has said anything
+   */
+  buildPromptSection(): string | null {
+    if (!this.currentStage) {
+      return null;
+    }
+
+    const lines = ['## Where the Call Is', ''];
+    if (this.currentScamType !== ScamType.UNKNOWN) {
+      lines.push(`Scam type: ${getScamTypeLabel(this.currentScamType)}.`);
+    }
+    lines.push(
+      STAGE_GUIDANCE[this.currentStage],
+      'Your goal is to keep them on the line as long as possible. Never let on that you know it is a scam.'
+    );
+    return lines.join('\n');
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * Call Screening
+ *
+ * Caller rules decide what happens to an incoming call before the AI answers:
+ * engage the caller with a persona (the default), forward them to a real
+ * phone, or reject the call. A rule matches the caller's number exactly, by
+ * prefix, or by a wildcard pattern. When several rules match, exact rules
+ * win over prefixes (longest first), which win over patterns.
+ */
+
+import { CallerRule, CallerRuleMatchType, ScreeningAction } from '@prisma/client';
+import prisma from './db';
+import { ValidationError } from './errors';
+import { isValidPersonaType } from './personas';
+import { TwilioClient } from './twilio';
+
+/**
+ * What to do with an incoming call
+ */
+export interface ScreeningDecision {
+  action: ScreeningAction;
+  /** The matching rule, or null when no rule matched and the caller is engaged */
+  rule: CallerRule | null;
+}
+
+/** Precedence between match types when several rules match */
+const MATCH_TYPE_PRECEDENCE: Record<CallerRuleMatchType, number> = {
+  EXACT: 0,
+  PREFIX: 1,
+  PATTERN: 2,
+};
+
+/** Allowed characters in numbers, prefixes and patterns */
+const E164_REGEX = /^\+\d{7,15}$/;
+const PREFIX_REGEX = /^\+\d{1,15}$/;
+const PATTERN_REGEX = /^\+?[\d*?]{1,20}$/;
+
+/**
+ * Convert a wildcard pattern into a regular expression.
+ * `?` matches exactly one digit and `*` matches any number of digits,
+ * e.g. `+1900*` or `+1555???0000`.
+ */
+export function patternToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '\\d*';
+      if (char === '?') return '\\d';
+      if (char === '+') return '\\+';
+      return char;
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a rule matches a caller's number
+ */
+export function ruleMatches(
+  rule: Pick<CallerRule, 'matchType' | 'value'>,
+  phoneNumber: string
+): boolean {
+  switch (rule.matchType) {
+    case 'EXACT':
+      return phoneNumber === rule.value;
+    case 'PREFIX':
+      return phoneNumber.startsWith(rule.value);
+    case 'PATTERN':
+      return patternToRegExp(rule.value).test(phoneNumber);
+  }
+}
+
+/**
+ * Find the rule that applies to a caller's number
+ *
+ * @param rules - Enabled rules
+ * @param phoneNumber - The caller's number in E.164 format
+ * @returns The most specific matching rule, or null if none match
+ */
+export function findMatchingRule<T extends Pick<CallerRule, 'matchType' | 'value' | 'createdAt'>>(
+  rules: T[],
+  phoneNumber: string
+): T | null {
+  const matches = rules
+    .filter((rule) => ruleMatches(rule, phoneNumber))
+    .sort(
+      (a, b) =>
+        MATCH_TYPE_PRECEDENCE[a.matchType] - MATCH_TYPE_PRECEDENCE[b.matchType] ||
+        (a.matchType === 'PREFIX' ? b.value.length - a.value.length : 0) ||
+        a.createdAt.getTime() - b.createdAt.getTime()
+    );
+  return matches[0] ?? null;
+}
+
+/**
+ * Decide what to do with an incoming call
+ *
+ * @param phoneNumber - The caller's number in E.164 format
+ */
+export async function screenCaller(phoneNumber: string): Promise<ScreeningDecision> {
+  const rules = await prisma.callerRule.findMany({ where: { isEnabled: true } });
+  const rule = findMatchingRule(
+    // A forward rule without a destination can't be acted on
+    rules.filter((candidate) => candidate.action !== 'FORWARD' || candidate.forwardTo),
+    phoneNumber
+  );
+
+  return { action: rule?.action ?? 'ENGAGE', rule };
+}
+
+// ============================================================================
+// Input Validation
+// ============================================================================
+
+/**
+ * Validated caller rule fields
+ */
+export interface CallerRuleInput {
+  matchType: CallerRuleMatchType;
+  value: string;
+  action: ScreeningAction;
+  persona: string | null;
+  forwardTo: string | null;
+  label: string | null;
+  isEnabled: boolean;
+}
+
+function parseEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T {
+  if (typeof value !== 'string' || !allowed.includes(value as T)) {
+    throw ValidationError.invalidValue(field, `Must be one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function optionalString(value: unknown, field: string): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw ValidationError.invalidFormat(field, 'string');
+  }
+  return value.trim() || null;
+}
+
+/**
+ * Normalize a phone number to E.164
+ *
+ * @throws ValidationError if it isn't a phone number
+ */
+function parsePhoneNumber(value: string, field: string): string {
+  const phoneNumber = TwilioClient.formatPhoneNumber(value);
+  if (!E164_REGEX.test(phoneNumber)) {
+    throw ValidationError.invalidFormat(field, 'phone number, e.g. +15551234567');
+  }
+  return phoneNumber;
+}
+
+/**
+ * Normalize and validate a rule's match value for its match type
+ */
+function parseMatchValue(matchType: CallerRuleMatchType, value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw ValidationError.requiredField('value');
+  }
+  // Allow numbers to be pasted with the usual separators
+  const compact = value.replace(/[\s().-]/g, '');
+
+  switch (matchType) {
+    case 'EXACT':
+      return parsePhoneNumber(compact, 'value');
+    case 'PREFIX':
+      if (!PREFIX_REGEX.test(compact)) {
+        throw ValidationError.invalidFormat('value', 'number prefix starting with +, e.g. +1900');
+      }
+      return compact;
+    case 'PATTERN':
+      if (!PATTERN_REGEX.test(compact)) {
+        throw ValidationError.invalidFormat('value', 'digits with ? and * wildcards, e.g. +1555???0000');
+      }
+      return compact;
+  }
+}
+
+/**
+ * Validate a request body defining a caller rule. Fields that don't apply
+ * to the rule's action are cleared. Custom personas must already be
+ * registered (see loadCustomPersonas).
+ *
+ * @throws ValidationError if the rule is invalid
+ */
+export function parseCallerRuleInput(body: unknown): CallerRuleInput {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  const input = body as Record<string, unknown>;
+
+  const matchType = parseEnum(input.matchType, 'matchType', Object.values(CallerRuleMatchType));
+  const action = parseEnum(input.action, 'action', Object.values(ScreeningAction));
+  const value = parseMatchValue(matchType, input.value);
+
+  const persona = action === 'ENGAGE' ? optionalString(input.persona, 'persona') : null;
+  if (persona && !isValidPersonaType(persona)) {
+    throw ValidationError.invalidValue('persona', `Unknown persona: ${persona}`);
+  }
+
+  let forwardTo: string | null = null;
+  if (action === 'FORWARD') {
+    const destination = optionalString(input.forwardTo, 'forwardTo');
+    if (!destination) {
+      throw ValidationError.requiredField('forwardTo');
+    }
+    forwardTo = parsePhoneNumber(destination, 'forwardTo');
+  }
+
+  const isEnabled = input.isEnabled ?? true;
+  if (typeof isEnabled !== 'boolean') {
+    throw ValidationError.invalidFormat('isEnabled', 'boolean');
+  }
+
+  return {
+    matchType,
+    value,
+    action,
+    persona,
+    forwardTo,
+    label: optionalString(input.label, 'label'),
+    isEnabled,
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Persona Settings Storage
+ *
+ * Shared access to the persona selection settings managed by the
+ * Settings API. Settings live in a single `Settings` row in the database so
+ * that the Settings API and the Twilio webhooks read the same values on any
+ * instance (including serverless deploys).
+ *
+ * Installs that previously stored settings in `.settings.json` are migrated
+ * automatically: the first load without a database row imports the file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Prisma, Settings } from '@prisma/client';
+import prisma from './db';
+import { DEFAULT_MEMORY_CONFIG } from './personas';
+import { MemoryConfig, PersonaConfig, PersonaType } from './personas/types';
+
+export interface PersonaSettings {
+  enabledPersonas: PersonaType[];
+  selectionMode: 'random' | 'round_robin' | 'fixed';
+  fixedPersona?: PersonaType;
+  lastUsedPersonaIndex?: number;
+  /** Answer repeat callers with the persona that kept them longest and remind it of past calls */
+  rememberRepeatCallers?: boolean;
+  /**
+   * Memory settings that replace a persona's own memoryConfig, keyed by
+   * persona ID (the only way to change them for the built-in personas)
+   */
+  personaMemory?: Record<string, MemoryConfig>;
+}
+
+export const DEFAULT_SETTINGS: PersonaSettings = {
+  enabledPersonas: ['earl', 'gladys', 'kevin', 'brenda'],
+  selectionMode: 'random',
+  fixedPersona: undefined,
+  lastUsedPersonaIndex: 0,
+  rememberRepeatCallers: true,
+  personaMemory: {},
+};
+
+/** ID of the single settings row */
+const SETTINGS_ID = 'default';
+
+/** Legacy file-based settings location, imported once on first load */
+const LEGACY_SETTINGS_FILE = path.join(process.cwd(), '.settings.json');
+
+/**
+ * Convert a database row into the settings shape used by the API
+ */
+function toPersonaSettings(row: Settings): PersonaSettings {
+  return {
+    enabledPersonas: row.enabledPersonas as PersonaType[],
+    selectionMode: row.selectionMode as PersonaSettings['selectionMode'],
+    fixedPersona: (row.fixedPersona as PersonaType | null) ?? undefined,
+    lastUsedPersonaIndex: row.lastUsedPersonaIndex,
+    rememberRepeatCallers: row.rememberRepeatCallers,
+    personaMemory: (row.personaMemory as unknown as Record<string, MemoryConfig> | null) ?? {},
+  };
+}
+
+/**
+ * Read settings from the legacy `.settings.json` file, if one exists
+ */
+function readLegacySettingsFile(): PersonaSettings | null {
+  try {
+    if (fs.existsSync(LEGACY_SETTINGS_FILE)) {
+      const data = fs.readFileSync(LEGACY_SETTINGS_FILE, 'utf-8');
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(data) };
+    }
+  } catch (error) {
+    console.error('Error reading legacy settings file:', error);
+  }
+  return null;
+}
+
+/**
+ * Create the settings row, seeded from the legacy file or the defaults.
+ * Concurrent first loads may race here; the loser re-reads the winner's row.
+ */
+async function createSettingsRow(): Promise<Settings> {
+  const initial = readLegacySettingsFile() ?? DEFAULT_SETTINGS;
+
+  try {
+    return await prisma.settings.create({
+      data: {
+        id: SETTINGS_ID,
+        enabledPersonas: initial.enabledPersonas,
+        selectionMode: initial.selectionMode,
+        fixedPersona: initial.fixedPersona ?? null,
+        lastUsedPersonaIndex: initial.lastUsedPersonaIndex ?? 0,
+        rememberRepeatCallers: initial.rememberRepeatCallers ?? true,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Unique constraint')) {
+      return prisma.settings.findUniqueOrThrow({ where: { id: SETTINGS_ID } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Load settings from the database, creating the row on first use
+ */
+export async function loadSettings(): Promise<PersonaSettings> {
+  const row =
+    (await prisma.settings.findUnique({ where: { id: SETTINGS_ID } })) ??
+    (await createSettingsRow());
+  return toPersonaSettings(row);
+}
+
+/**
+ * Save settings to the database
+ */
+export async function saveSettings(settings: PersonaSettings): Promise<void> {
+  const data = {
+    enabledPersonas: settings.enabledPersonas,
+    selectionMode: settings.selectionMode,
+    fixedPersona: settings.fixedPersona ?? null,
+    ...(settings.lastUsedPersonaIndex !== undefined && {
+      lastUsedPersonaIndex: settings.lastUsedPersonaIndex,
+    }),
+    ...(settings.rememberRepeatCallers !== undefined && {
+      rememberRepeatCallers: settings.rememberRepeatCallers,
+    }),
+    ...(settings.personaMemory !== undefined && {
+      personaMemory: settings.personaMemory as unknown as Prisma.InputJsonValue,
+    }),
+  };
+
+  try {
+    await prisma.settings.upsert({
+      where: { id: SETTINGS_ID },
+      update: data,
+      create: { id: SETTINGS_ID, ...data },
+    });
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    throw error;
+  }
+}
+
+/**
+ * The memory settings a persona answers calls with: its override in the
+ * settings if there is one, else its own memoryConfig
+ */
+export function getMemoryConfig(persona: PersonaConfig, settings: PersonaSettings): MemoryConfig {
+  return settings.personaMemory?.[persona.id] ?? persona.memoryConfig ?? DEFAULT_MEMORY_CONFIG;
+}
+
+/**
+ * Atomically advance the round-robin counter and return its previous value.
+ *
+ * The increment happens in a single UPDATE, so concurrent calls each receive
+ * a distinct value instead of racing on a read-modify-write. The settings
+ * row must already exist (see loadSettings).
+ */
+export async function claimRoundRobinIndex(): Promise<number> {
+  const row = await prisma.settings.update({
+    where: { id: SETTINGS_ID },
+    data: { lastUsedPersonaIndex: { increment: 1 } },
+  });
+  return row.lastUsedPersonaIndex - 1;
+}
@@ -0,0 +1,287 @@
+/**
+ * Call Replay Simulator
+ *
+ * Plays a scammer script through the voice stream handler the way Twilio
+ * would (connected, start, media, stop) against a MockRealtimeServer, so
+ * personas and the stream pipeline can be exercised end to end without a
+ * phone line or an OpenAI account. Each script turn is sent as 20ms μ-law
+ * media frames followed by silence, and the simulator waits for the
+ * persona's reply, including its pause, to reach the caller before playing
+ * the next turn.
+ *
+ * The handler's database calls still go through '@/lib/db', so tests mock
+ * it as usual and assert on the saved segments.
+ */
+
+import type { WebSocket } from 'ws';
+import type {
+  TwilioConnectedEvent,
+  TwilioMediaEvent,
+  TwilioStartEvent,
+  TwilioStopEvent,
+} from '../twilio';
+import type { VoiceEngine } from '../voice';
+import { __testing__ as streamHandler } from '../voice-stream';
+import { Speaker } from '../../types';
+import { MockRealtimeServer } from './mock-realtime-server';
+import { silence, synthesizeSpeech, toFrames } from '../mulaw';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * One thing the scammer says: a line of text, played as synthesized
+ * speech, or recorded 8kHz μ-law audio of a single utterance with what
+ * was said in it
+ */
+export type ScammerTurn = { say: string } | { audio: Buffer; transcript?: string };
+
+export interface SimulateCallOptions {
+  /** Mock Realtime server the persona runs on (started if needed) */
+  server: MockRealtimeServer;
+  /** Twilio call SID, matched against the call record (default: random) */
+  callSid?: string;
+  /** Persona to answer with, as passed by the incoming call webhook */
+  persona?: string;
+  /** Extra Twilio stream parameters, e.g. callerId */
+  customParameters?: Record<string, string>;
+  /** Silence played after each turn; must outlast the persona's VAD silence */
+  trailingSilenceMs?: number;
+  /** How long to wait for the persona to reply to a turn */
+  turnTimeoutMs?: number;
+}
+
+/**
+ * A line of the simulated conversation
+ */
+export interface SimulatedTranscriptLine {
+  speaker: typeof Speaker.SCAMMER | typeof Speaker.PERSONA;
+  text: string;
+}
+
+export interface SimulatedCall {
+  callSid: string;
+  streamSid: string;
+  /** Persona that answered the call */
+  personaId: string;
+  /** Instructions the session was configured with */
+  instructions: string;
+  /** The conversation as the stream handler heard it */
+  transcript: SimulatedTranscriptLine[];
+  /** Messages the stream handler sent back to Twilio */
+  twilioMessages: Array<Record<string, unknown>>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_TRAILING_SILENCE_MS = 1000;
+const DEFAULT_TURN_TIMEOUT_MS = 5000;
+
+// =============================================================================
+// Twilio Socket
+// =============================================================================
+
+/**
+ * Stands in for the Twilio Media Streams socket, collecting what the
+ * stream handler sends to the caller. The caller hears audio as soon as
+ * it's sent, so marks are echoed straight back.
+ */
+class SimulatedTwilioSocket {
+  readonly OPEN = 1;
+  readonly CLOSED = 3;
+  readyState = this.OPEN;
+  readonly messages: Array<Record<string, unknown>> = [];
+  private readonly echoMark: (message: Record<string, unknown>) => void;
+
+  constructor(echoMark: (message: Record<string, unknown>) => void) {
+    this.echoMark = echoMark;
+  }
+
+  send(data: string): void {
+    const message = JSON.parse(data);
+    this.messages.push(message);
+    if (message.event === 'mark') {
+      setImmediate(() => this.echoMark(message));
+    }
+  }
+
+  close(): void {
+    this.readyState = this.CLOSED;
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Parse a text script: one scammer line per line, ignoring blank lines
+ * and lines starting with '#'
+ */
+export function parseScript(script: string): ScammerTurn[] {
+  return script
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map((say) => ({ say }));
+}
+
+function randomSid(prefix: string): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(Math.random() * 16).toString(16));
+  return `${prefix}${hex.join('')}`;
+}
+
+function restoreEnv(name: string, value: string | undefined): void {
+  if (value === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = value;
+  }
+}
+
+function waitForResponse(client: VoiceEngine, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onResponse = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      client.off('responseComplete', onResponse);
+      reject(new Error(`Persona did not reply within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    client.once('responseComplete', onResponse);
+  });
+}
+
+// =============================================================================
+// Simulator
+// =============================================================================
+
+/**
+ * Simulate a scam call through the voice stream handler
+ *
+ * @example
+ * ```typescript
+ * const server = new MockRealtimeServer({ respond: () => 'Oh my, a virus?' });
+ * const call = await simulateCall(parseScript('This is Microsoft.\nBuy gift cards.'), {
+ *   server,
+ *   persona: 'gladys',
+ * });
+ * expect(call.transcript[1]).toEqual({ speaker: 'PERSONA', text: 'Oh my, a virus?' });
+ * await server.stop();
+ * ```
+ */
+export async function simulateCall(
+  script: ScammerTurn[],
+  options: SimulateCallOptions
+): Promise<SimulatedCall> {
+  const {
+    server,
+    callSid = randomSid('CA'),
+    persona,
+    customParameters = {},
+    trailingSilenceMs = DEFAULT_TRAILING_SILENCE_MS,
+    turnTimeoutMs = DEFAULT_TURN_TIMEOUT_MS,
+  } = options;
+  const streamSid = randomSid('MZ');
+  const send = (event: Record<string, unknown>) =>
+    streamHandler.handleTwilioMessage(twilioWs, JSON.stringify(event));
+
+  const socket = new SimulatedTwilioSocket((mark) => void send(mark));
+  const twilioWs = socket as unknown as WebSocket;
+
+  const previousEnv = {
+    OPENAI_REALTIME_URL: process.env.OPENAI_REALTIME_URL,
+    OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  };
+  process.env.OPENAI_REALTIME_URL = await server.start();
+  process.env.OPENAI_API_KEY = previousEnv.OPENAI_API_KEY || 'simulator';
+
+  try {
+    const connected: TwilioConnectedEvent = { event: 'connected', protocol: 'Call', version: '1.0.0' };
+    await send(connected);
+
+    const start: TwilioStartEvent = {
+      event: 'start',
+      sequenceNumber: '1',
+      streamSid,
+      start: {
+        streamSid,
+        accountSid: 'AC00000000000000000000000000000000',
+        callSid,
+        tracks: ['inbound'],
+        customParameters: persona ? { persona, ...customParameters } : customParameters,
+        mediaFormat: { encoding: 'audio/x-mulaw', sampleRate: 8000, channels: 1 },
+      },
+    };
+    await send(start);
+
+    const session = streamHandler.activeSessions.get(streamSid);
+    if (!session) {
+      throw new Error('Simulated call failed to start a stream session');
+    }
+
+    const transcript: SimulatedTranscriptLine[] = [];
+    session.engine.on('inputTranscript', (data: { text: string }) => {
+      transcript.push({ speaker: Speaker.SCAMMER, text: data.text });
+    });
+    session.engine.on('transcript', (data: { text: string; isFinal: boolean }) => {
+      if (data.isFinal) {
+        transcript.push({ speaker: Speaker.PERSONA, text: data.text });
+      }
+    });
+
+    let sequenceNumber = 2;
+    let chunk = 1;
+    for (const turn of script) {
+      const audio = 'say' in turn ? synthesizeSpeech(turn.say) : turn.audio;
+      server.queueTranscript('say' in turn ? turn.say : (turn.transcript ?? ''));
+
+      const reply = waitForResponse(session.engine, turnTimeoutMs);
+      for (const frame of toFrames(Buffer.concat([audio, silence(trailingSilenceMs)]))) {
+        const media: TwilioMediaEvent = {
+          event: 'media',
+          sequenceNumber: String(sequenceNumber++),
+          streamSid,
+          media: {
+            track: 'inbound',
+            chunk: String(chunk),
+            timestamp: String((chunk - 1) * 20),
+            payload: frame.toString('base64'),
+          },
+        };
+        chunk++;
+        await send(media);
+      }
+      await reply;
+      // Let the persona's pause play out so the reply reaches the caller
+      await session.behavior.whenIdle();
+    }
+
+    const instructions = (server.session?.instructions as string | undefined) ?? '';
+    const stop: TwilioStopEvent = {
+      event: 'stop',
+      sequenceNumber: String(sequenceNumber),
+      streamSid,
+      stop: { accountSid: start.start.accountSid, callSid },
+    };
+    await send(stop);
+
+    return {
+      callSid,
+      streamSid,
+      personaId: session.persona.id,
+      instructions,
+      transcript,
+      twilioMessages: socket.messages,
+    };
+  } finally {
+    await streamHandler.cleanupSession(streamSid);
+    restoreEnv('OPENAI_REALTIME_URL', previousEnv.OPENAI_REALTIME_URL);
+    restoreEnv('OPENAI_API_KEY', previousEnv.OPENAI_API_KEY);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Call Simulator
+ *
+ * Replays scammer scripts through the voice stream handler against a mock
+ * OpenAI Realtime server, for testing personas without Twilio.
+ */
+
+export { simulateCall, parseScript } from './call-simulator';
+export type { ScammerTurn, SimulateCallOptions, SimulatedCall, SimulatedTranscriptLine } from './call-simulator';
+export { MockRealtimeServer } from './mock-realtime-server';
+export type { MockRealtimeResponder, MockRealtimeServerOptions, MockRealtimeTurn } from './mock-realtime-server';
+export * as mulaw from '../mulaw';
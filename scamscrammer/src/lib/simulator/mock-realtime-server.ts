@@ -0,0 +1,339 @@
+/**
+ * Mock OpenAI Realtime Server
+ *
+ * A local WebSocket server that speaks enough of the Realtime API for
+ * OpenAIRealtimeClient to hold a conversation with it. Incoming μ-law audio
+ * runs through a simple energy-based voice activity detector; when the
+ * caller stops talking the server "transcribes" the turn with the next
+ * queued transcript and replies with synthesized audio and a transcript
+ * from the configured responder.
+ *
+ * Point the client at it by setting OPENAI_REALTIME_URL to `server.url`.
+ */
+
+import { EventEmitter } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { energy, FRAME_BYTES, FRAME_MS, synthesizeSpeech } from '../mulaw';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A caller turn the persona is replying to
+ */
+export interface MockRealtimeTurn {
+  /** What the caller said ('' when the response wasn't triggered by speech) */
+  transcript: string;
+  /** Instructions from the latest session.update */
+  instructions: string;
+  /** Zero-based index of the response in the conversation */
+  turnIndex: number;
+}
+
+/**
+ * Produces the persona's reply to a caller turn
+ */
+export type MockRealtimeResponder = (turn: MockRealtimeTurn) => string;
+
+export interface MockRealtimeServerOptions {
+  /** Persona replies (default: a canned request to repeat that) */
+  respond?: MockRealtimeResponder;
+  /** Mean absolute amplitude above which audio counts as speech */
+  speechThreshold?: number;
+  /** Silence that ends a turn when the session doesn't configure one */
+  silenceDurationMs?: number;
+}
+
+interface ConnectionState {
+  instructions: string;
+  silenceDurationMs: number;
+  speaking: boolean;
+  silentMs: number;
+  audioMs: number;
+  itemId: string | null;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_SPEECH_THRESHOLD = 500;
+const DEFAULT_SILENCE_DURATION_MS = 500;
+const DEFAULT_REPLY = "I'm sorry, dear, could you say that again?";
+
+// Audio deltas are sent in 100ms chunks, like the real API
+const AUDIO_DELTA_BYTES = FRAME_BYTES * 5;
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Mock Realtime API server for simulated calls
+ *
+ * Events:
+ * - 'sessionUpdated' (session) - a client configured its session
+ * - 'speechStarted' / 'speechStopped' - voice activity detection changed
+ * - 'response' ({ responseId, transcript, text }) - a reply was sent
+ */
+export class MockRealtimeServer extends EventEmitter {
+  private server: WebSocketServer | null = null;
+  private readonly respond: MockRealtimeResponder;
+  private readonly speechThreshold: number;
+  private readonly defaultSilenceDurationMs: number;
+  private transcripts: string[] = [];
+  private eventCounter = 0;
+  private turnIndex = 0;
+
+  /** Latest session config sent by a client */
+  public session: Record<string, unknown> | null = null;
+
+  /** Type of every event received from clients, in order */
+  public readonly receivedEvents: string[] = [];
+
+  constructor(options: MockRealtimeServerOptions = {}) {
+    super();
+    this.respond = options.respond ?? (() => DEFAULT_REPLY);
+    this.speechThreshold = options.speechThreshold ?? DEFAULT_SPEECH_THRESHOLD;
+    this.defaultSilenceDurationMs = options.silenceDurationMs ?? DEFAULT_SILENCE_DURATION_MS;
+  }
+
+  /**
+   * URL to point OPENAI_REALTIME_URL at
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock Realtime server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `ws://127.0.0.1:${port}`;
+  }
+
+  /**
+   * Start listening on a free local port
+   *
+   * @returns The server URL
+   */
+  async start(): Promise<string> {
+    if (!this.server) {
+      const server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+      server.on('connection', (ws) => this.handleConnection(ws));
+      await new Promise<void>((resolve) => server.once('listening', resolve));
+      this.server = server;
+    }
+    return this.url;
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = null;
+
+    for (const client of server.clients) {
+      client.terminate();
+    }
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Queue what the caller says in their next turn, returned as the input
+   * audio transcription when voice activity detection ends the turn
+   */
+  queueTranscript(transcript: string): void {
+    this.transcripts.push(transcript);
+  }
+
+  // ===========================================================================
+  // Connection Handling
+  // ===========================================================================
+
+  private handleConnection(ws: WebSocket): void {
+    const state: ConnectionState = {
+      instructions: '',
+      silenceDurationMs: this.defaultSilenceDurationMs,
+      speaking: false,
+      silentMs: 0,
+      audioMs: 0,
+      itemId: null,
+    };
+
+    ws.on('message', (data: WebSocket.Data) => {
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(data.toString());
+      } catch {
+        this.sendError(ws, 'invalid_json', 'Could not parse event');
+        return;
+      }
+
+      this.receivedEvents.push(String(event.type));
+      this.handleEvent(ws, state, event);
+    });
+
+    this.send(ws, { type: 'session.created', session: { id: this.nextId('sess') } });
+  }
+
+  private handleEvent(ws: WebSocket, state: ConnectionState, event: Record<string, unknown>): void {
+    switch (event.type) {
+      case 'session.update': {
+        const session = (event.session ?? {}) as Record<string, unknown>;
+        const turnDetection = (session.turn_detection ?? {}) as Record<string, unknown>;
+        state.instructions = (session.instructions as string) ?? state.instructions;
+        state.silenceDurationMs =
+          (turnDetection.silence_duration_ms as number | undefined) ??
+          (turnDetection.silenceDurationMs as number | undefined) ??
+          this.defaultSilenceDurationMs;
+
+        this.session = session;
+        this.send(ws, { type: 'session.updated', session });
+        this.emit('sessionUpdated', session);
+        break;
+      }
+
+      case 'input_audio_buffer.append':
+        this.handleAudio(ws, state, Buffer.from(event.audio as string, 'base64'));
+        break;
+
+      case 'input_audio_buffer.clear':
+        state.speaking = false;
+        state.silentMs = 0;
+        state.itemId = null;
+        this.send(ws, { type: 'input_audio_buffer.cleared' });
+        break;
+
+      case 'response.create':
+        this.sendResponse(ws, state, '');
+        break;
+
+      case 'response.cancel':
+        // Responses are sent in one go, so there is never one to cancel
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Voice activity detection over appended caller audio
+   */
+  private handleAudio(ws: WebSocket, state: ConnectionState, audio: Buffer): void {
+    const durationMs = (audio.length / FRAME_BYTES) * FRAME_MS;
+    const isSpeech = energy(audio) > this.speechThreshold;
+    state.audioMs += durationMs;
+
+    if (isSpeech) {
+      state.silentMs = 0;
+      if (!state.speaking) {
+        state.speaking = true;
+        state.itemId = this.nextId('item');
+        this.send(ws, {
+          type: 'input_audio_buffer.speech_started',
+          audio_start_ms: Math.round(state.audioMs - durationMs),
+          item_id: state.itemId,
+        });
+        this.emit('speechStarted');
+      }
+      return;
+    }
+
+    if (!state.speaking) {
+      return;
+    }
+
+    state.silentMs += durationMs;
+    if (state.silentMs < state.silenceDurationMs) {
+      return;
+    }
+
+    const itemId = state.itemId as string;
+    state.speaking = false;
+    state.silentMs = 0;
+    state.itemId = null;
+
+    this.send(ws, {
+      type: 'input_audio_buffer.speech_stopped',
+      audio_end_ms: Math.round(state.audioMs),
+      item_id: itemId,
+    });
+    this.send(ws, { type: 'input_audio_buffer.committed', item_id: itemId });
+    this.emit('speechStopped');
+
+    const transcript = this.transcripts.shift() ?? '';
+    if (transcript) {
+      this.send(ws, {
+        type: 'conversation.item.input_audio_transcription.completed',
+        item_id: itemId,
+        content_index: 0,
+        transcript,
+      });
+    }
+
+    this.sendResponse(ws, state, transcript);
+  }
+
+  /**
+   * Send a complete persona reply: audio, transcript deltas and response.done
+   */
+  private sendResponse(ws: WebSocket, state: ConnectionState, transcript: string): void {
+    const text = this.respond({
+      transcript,
+      instructions: state.instructions,
+      turnIndex: this.turnIndex++,
+    });
+    const responseId = this.nextId('resp');
+    const itemId = this.nextId('item');
+
+    this.send(ws, { type: 'response.created', response: { id: responseId, status: 'in_progress' } });
+
+    const audio = synthesizeSpeech(text);
+    for (let offset = 0; offset < audio.length; offset += AUDIO_DELTA_BYTES) {
+      this.send(ws, {
+        type: 'response.audio.delta',
+        response_id: responseId,
+        item_id: itemId,
+        delta: audio.subarray(offset, offset + AUDIO_DELTA_BYTES).toString('base64'),
+      });
+    }
+
+    for (const delta of text.split(/(?<=\s)/)) {
+      this.send(ws, {
+        type: 'response.audio_transcript.delta',
+        response_id: responseId,
+        item_id: itemId,
+        delta,
+      });
+    }
+
+    this.send(ws, { type: 'response.audio.done', response_id: responseId, item_id: itemId });
+    this.send(ws, {
+      type: 'response.audio_transcript.done',
+      response_id: responseId,
+      item_id: itemId,
+      transcript: text,
+    });
+    this.send(ws, { type: 'response.done', response: { id: responseId, status: 'completed' } });
+    this.emit('response', { responseId, transcript, text });
+  }
+
+  private sendError(ws: WebSocket, code: string, message: string): void {
+    this.send(ws, { type: 'error', error: { type: 'invalid_request_error', code, message } });
+  }
+
+  private send(ws: WebSocket, event: Record<string, unknown>): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify({ event_id: this.nextId('event'), ...event }));
+    }
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${++this.eventCounter}`;
+  }
+}
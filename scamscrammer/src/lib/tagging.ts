@@ -5,6 +5,8 @@
  * Uses keyword matching for MVP, with optional AI classification.
  */
 
+import type { TranscriptSegment } from './transcript';
+
 /**
  * Types of scams that can be detected
  */
@@ -246,14 +248,32 @@ const GENERAL_TAG_KEYWORDS: Record<string, string[]> = {
 };
 
 /**
- * Analyze transcript text and return detected scam type and tags
+ * General tags describing what the persona did rather than the scammer
+ */
+const PERSONA_TAGS = new Set(['successful_waste']);
+
+/**
+ * Analyze a call transcript and return detected scam type and tags.
+ *
+ * Given the call's segments, scam types and scammer tags are detected from
+ * what the scammer said and persona tags from what the persona said, so a
+ * persona's own chatter (Brenda's "investment opportunity") doesn't skew
+ * the result. Plain text is analyzed as a whole.
  */
-export function analyzeCallForTags(transcript: string): {
+export function analyzeCallForTags(transcript: string | TranscriptSegment[]): {
   scamType: ScamType;
   tags: string[];
   confidence: number;
 } {
-  const normalizedTranscript = transcript.toLowerCase();
+  const textOf = (speakers: string[]) =>
+    typeof transcript === 'string'
+      ? transcript.toLowerCase()
+      : transcript
+          .filter((segment) => speakers.includes(segment.speaker))
+          .map((segment) => segment.text.toLowerCase())
+          .join('\n');
+  const scammerText = textOf(['SCAMMER']);
+  const personaText = textOf(['PERSONA', 'EARL']);
   const tags: string[] = [];
   const scamTypeScores: Record<ScamType, number> = {} as Record<ScamType, number>;
 
@@ -265,7 +285,7 @@ export function analyzeCallForTags(transcript: string): {
   // Check for scam type keywords
   for (const [scamType, keywords] of Object.entries(SCAM_KEYWORDS)) {
     for (const keyword of keywords) {
-      if (normalizedTranscript.includes(keyword.toLowerCase())) {
+      if (scammerText.includes(keyword.toLowerCase())) {
         scamTypeScores[scamType as ScamType] += 1;
       }
     }
@@ -273,8 +293,9 @@ export function analyzeCallForTags(transcript: string): {
 
   // Check for general tags
   for (const [tag, keywords] of Object.entries(GENERAL_TAG_KEYWORDS)) {
+    const text = PERSONA_TAGS.has(tag) ? personaText : scammerText;
     for (const keyword of keywords) {
-      if (normalizedTranscript.includes(keyword.toLowerCase())) {
+      if (text.includes(keyword.toLowerCase())) {
         if (!tags.includes(tag)) {
           tags.push(tag);
         }
@@ -319,6 +340,15 @@ export function analyzeCallForTags(transcript: string): {
   };
 }
 
+/**
+ * Whether something said on a live call sounds like a prerecorded
+ * robocall ("This is an automated call", "Press 1 to speak to an agent")
+ */
+export function isRobocallPrompt(text: string): boolean {
+  const lower = text.toLowerCase();
+  return GENERAL_TAG_KEYWORDS.robocall.some((keyword) => lower.includes(keyword));
+}
+
 /**
  * Get a human-readable label for a scam type
  */
@@ -387,3 +417,16 @@ export function formatTagLabel(tag: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
 }
+
+/**
+ * Get the scam type a call tag stands for (see analyzeCallForTags)
+ *
+ * @returns The scam type, or null if the tag isn't a scam type tag
+ */
+export function getScamTypeFromTag(tag: string): ScamType | null {
+  const scamType = tag.replace('-', '_') as ScamType;
+  if (scamType === ScamType.UNKNOWN || !Object.values(ScamType).includes(scamType)) {
+    return null;
+  }
+  return scamType;
+}
@@ -0,0 +1,194 @@
+/**
+ * Persona Tools
+ *
+ * Function-calling tools registered with every persona's Realtime session,
+ * so when a scammer pushes for a card number, bank details, an SSN, a gift
+ * card code or a remote-access code, the persona can "look it up" and read
+ * out something that sounds real instead of only stalling. The details come
+ * from fake-data.ts and are guaranteed invalid.
+ *
+ * Every result passes its safety check before the persona sees it; one that
+ * somehow fails is replaced with an error, which the persona can only
+ * fumble over ("I can't find my glasses").
+ */
+
+import {
+  CARD_NETWORKS,
+  CardNetwork,
+  generateBankAccount,
+  generateCardNumber,
+  generateGiftCardCode,
+  generateRemoteAccessCode,
+  generateSsn,
+  isFakeCardNumber,
+  isFakeGiftCardCode,
+  isFakeRemoteAccessCode,
+  isFakeRoutingNumber,
+  isFakeSsn,
+} from './fake-data';
+import type { VoiceTool } from './voice/types';
+import type { IdentityProfile } from './personas/types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * What the persona is told when it calls a tool
+ */
+export type ToolOutput = Record<string, string>;
+
+/**
+ * The result of running a tool the persona called
+ */
+export interface ToolResult {
+  /** Arguments the persona passed, or the raw string if they weren't JSON */
+  arguments: Record<string, unknown> | string;
+  output: ToolOutput;
+  /** False if the tool was unknown or its output failed the safety check */
+  ok: boolean;
+}
+
+/**
+ * What a tool needs to know about the call
+ */
+export interface ToolContext {
+  /** The persona's identity, so details match what it says elsewhere */
+  identity?: IdentityProfile;
+  /** Random number source in [0, 1) */
+  random?: () => number;
+}
+
+interface PersonaTool {
+  definition: VoiceTool;
+  run: (args: Record<string, unknown>, random: () => number, identity?: IdentityProfile) => ToolOutput;
+  /** Whether everything in the output is guaranteed invalid */
+  isSafe: (output: ToolOutput) => boolean;
+}
+
+// =============================================================================
+// Tools
+// =============================================================================
+
+// Told to the persona with every tool, so it only reads out what tools return
+const READ_IT_OUT =
+  'Read the details out slowly, the way you would off a card, and never make up numbers of your own.';
+
+const TOOLS: PersonaTool[] = [
+  {
+    definition: {
+      type: 'function',
+      name: 'look_up_card',
+      description: `Find your credit or debit card in your purse or wallet when the caller asks for its number, expiry date or security code. ${READ_IT_OUT}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          network: { type: 'string', enum: CARD_NETWORKS, description: 'Which card to find' },
+        },
+      },
+    },
+    run: (args, random) => {
+      const network = CARD_NETWORKS.includes(args.network as CardNetwork)
+        ? (args.network as CardNetwork)
+        : 'visa';
+      return { ...generateCardNumber(network, random) };
+    },
+    isSafe: (output) => isFakeCardNumber(output.number),
+  },
+  {
+    definition: {
+      type: 'function',
+      name: 'look_up_bank_account',
+      description: `Find your checkbook when the caller asks for your bank's routing number or your account number. ${READ_IT_OUT}`,
+      parameters: { type: 'object', properties: {} },
+    },
+    run: (_args, random, identity) => ({
+      ...(identity && { bank: identity.bank }),
+      ...generateBankAccount(random),
+    }),
+    isSafe: (output) => isFakeRoutingNumber(output.routingNumber),
+  },
+  {
+    definition: {
+      type: 'function',
+      name: 'look_up_ssn',
+      description: `Find your Social Security card when the caller asks for your Social Security number. ${READ_IT_OUT}`,
+      parameters: { type: 'object', properties: {} },
+    },
+    run: (_args, random) => ({ ssn: generateSsn(random) }),
+    isSafe: (output) => isFakeSsn(output.ssn),
+  },
+  {
+    definition: {
+      type: 'function',
+      name: 'look_up_gift_card',
+      description: `Scratch off the back of a gift card you bought when the caller asks for its code. ${READ_IT_OUT}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          retailer: { type: 'string', description: 'Whose gift card, e.g. "Target"' },
+        },
+      },
+    },
+    run: (args, random) => ({
+      ...(typeof args.retailer === 'string' ? { retailer: args.retailer } : {}),
+      ...generateGiftCardCode(random),
+    }),
+    isSafe: (output) => isFakeGiftCardCode(output.code),
+  },
+  {
+    definition: {
+      type: 'function',
+      name: 'look_up_remote_access_code',
+      description: `Read the ID off the screen of the remote support program the caller had you install. ${READ_IT_OUT}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          app: { type: 'string', description: 'The program, e.g. "AnyDesk"' },
+        },
+      },
+    },
+    run: (_args, random) => ({ code: generateRemoteAccessCode(random) }),
+    isSafe: (output) => isFakeRemoteAccessCode(output.code),
+  },
+];
+
+/** The tools registered with each persona's Realtime session */
+export const PERSONA_TOOLS: VoiceTool[] = TOOLS.map((tool) => tool.definition);
+
+// =============================================================================
+// Running Tools
+// =============================================================================
+
+/**
+ * Run a tool the persona called
+ *
+ * @param name - The tool's name
+ * @param args - The arguments the persona passed, as a JSON string
+ */
+export function runPersonaTool(
+  name: string,
+  args: string,
+  { identity, random = Math.random }: ToolContext = {}
+): ToolResult {
+  let parsed: Record<string, unknown> | null = null;
+  try {
+    const value: unknown = JSON.parse(args || '{}');
+    parsed = value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : null;
+  } catch {
+    // Run it without arguments
+  }
+
+  const tool = TOOLS.find((candidate) => candidate.definition.name === name);
+  if (!tool) {
+    return { arguments: parsed ?? args, output: { error: `Unknown tool: ${name}` }, ok: false };
+  }
+
+  const output = tool.run(parsed ?? {}, random, identity);
+  if (!tool.isSafe(output)) {
+    console.error('[Tools] Generated details failed the safety check, withholding:', name);
+    return { arguments: parsed ?? args, output: { error: 'Could not find it' }, ok: false };
+  }
+
+  return { arguments: parsed ?? args, output, ok: true };
+}
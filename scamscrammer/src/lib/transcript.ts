@@ -0,0 +1,71 @@
+/**
+ * Transcript Speakers
+ *
+ * Transcript segments are spoken by the scammer, by the persona answering
+ * the call, or by the system (notices played to the caller). Persona
+ * segments record which persona spoke. Segments saved before that was
+ * tracked use the legacy EARL speaker and no persona ID; they are
+ * attributed to the call's persona.
+ */
+
+import { Speaker } from '@prisma/client';
+import { getPersona, isValidPersonaType } from './personas';
+
+/** Persona assumed when neither the segment nor the call records one */
+const DEFAULT_PERSONA_ID = 'earl';
+
+/**
+ * Segment fields needed to work out who spoke
+ */
+export interface TranscriptSegment {
+  speaker: Speaker;
+  personaId: string | null;
+  text: string;
+}
+
+/**
+ * Whether a segment was spoken by a persona
+ */
+export function isPersonaSpeaker(speaker: Speaker): boolean {
+  return speaker === Speaker.PERSONA || speaker === Speaker.EARL;
+}
+
+/**
+ * Get the persona that spoke a segment
+ *
+ * @param callPersona - Persona recorded on the call, for legacy segments
+ * @returns The persona ID, or null for scammer and system segments
+ */
+export function getSegmentPersonaId(
+  segment: Pick<TranscriptSegment, 'speaker' | 'personaId'>,
+  callPersona: string | null
+): string | null {
+  if (!isPersonaSpeaker(segment.speaker)) {
+    return null;
+  }
+  return segment.personaId ?? callPersona ?? DEFAULT_PERSONA_ID;
+}
+
+/**
+ * Get the display name of a persona, falling back to its ID for personas
+ * that are no longer registered
+ */
+export function getPersonaName(personaId: string): string {
+  return isValidPersonaType(personaId) ? getPersona(personaId).name : personaId;
+}
+
+/**
+ * Get the display name of whoever spoke a segment
+ *
+ * @param callPersona - Persona recorded on the call, for legacy segments
+ */
+export function getSpeakerName(
+  segment: Pick<TranscriptSegment, 'speaker' | 'personaId'>,
+  callPersona: string | null
+): string {
+  const personaId = getSegmentPersonaId(segment, callPersona);
+  if (personaId) {
+    return getPersonaName(personaId);
+  }
+  return segment.speaker === Speaker.SYSTEM ? 'System' : 'Scammer';
+}
@@ -86,12 +86,22 @@ export interface TwilioMarkEvent extends TwilioStreamEvent {
   };
 }
 
+export interface TwilioDtmfEvent extends TwilioStreamEvent {
+  event: 'dtmf';
+  streamSid: string;
+  dtmf: {
+    track: string;
+    digit: string; // 0-9, * or #
+  };
+}
+
 export type TwilioMediaStreamMessage =
   | TwilioConnectedEvent
   | TwilioStartEvent
   | TwilioMediaEvent
   | TwilioStopEvent
-  | TwilioMarkEvent;
+  | TwilioMarkEvent
+  | TwilioDtmfEvent;
 
 // Type aliases for alternative naming conventions
 export type TwilioStreamStartEvent = TwilioStartEvent;
@@ -116,6 +126,17 @@ export interface TwilioStreamClear {
   streamSid: string;
 }
 
+/**
+ * Mark message; Twilio echoes it back once the audio sent before it has played
+ */
+export interface TwilioStreamMark {
+  event: 'mark';
+  streamSid: string;
+  mark: {
+    name: string;
+  };
+}
+
 class TwilioClient {
   private client: twilio.Twilio;
   private config: TwilioConfig;
@@ -192,10 +213,14 @@ class TwilioClient {
    * Generate TwiML to reject the call
    */
   generateRejectTwiML(reason: 'busy' | 'rejected' = 'rejected'): string {
-    const VoiceResponse = twilio.twiml.VoiceResponse;
-    const response = new VoiceResponse();
-    response.reject({ reason });
-    return response.toString();
+    return createRejectTwiml(reason);
+  }
+
+  /**
+   * Generate TwiML to forward the call to another number
+   */
+  generateForwardTwiML(phoneNumber: string, callerId?: string): string {
+    return createForwardTwiml(phoneNumber, callerId);
   }
 
   /**
@@ -244,6 +269,20 @@ class TwilioClient {
     };
   }
 
+  /**
+   * Point a live call at new TwiML, ending whatever it is doing now
+   */
+  async redirectCall(callSid: string, url: string): Promise<void> {
+    await this.client.calls(callSid).update({ url, method: 'POST' });
+  }
+
+  /**
+   * Hang up a live call
+   */
+  async endCall(callSid: string): Promise<void> {
+    await this.client.calls(callSid).update({ status: 'completed' });
+  }
+
   /**
    * Get recording details
    */
@@ -467,17 +506,31 @@ export function validateRequest(
   return twilio.validateRequest(authToken, signature, url, params);
 }
 
+/**
+ * Options for streaming TwiML generation
+ */
+export interface StreamingTwimlOptions {
+  /** Twilio <Say> voice for the greeting (defaults to Polly.Matthew) */
+  voice?: string;
+  /** Custom parameters passed to the media stream's 'start' event */
+  parameters?: Record<string, string>;
+}
+
 /**
  * Create TwiML for streaming audio via WebSocket
  */
-export function createStreamingTwiml(websocketUrl: string, greeting?: string): string {
+export function createStreamingTwiml(
+  websocketUrl: string,
+  greeting?: string,
+  options: StreamingTwimlOptions = {}
+): string {
   const VoiceResponse = twilio.twiml.VoiceResponse;
   const response = new VoiceResponse();
 
   if (greeting) {
     response.say(
       {
-        voice: 'Polly.Matthew',
+        voice: (options.voice || 'Polly.Matthew') as 'Polly.Matthew',
         language: 'en-US'
       },
       greeting
@@ -485,11 +538,15 @@ export function createStreamingTwiml(websocketUrl: string, greeting?: string): s
   }
 
   const connect = response.connect();
-  connect.stream({
+  const stream = connect.stream({
     url: websocketUrl,
     track: 'both_tracks'
   });
 
+  for (const [name, value] of Object.entries(options.parameters || {})) {
+    stream.parameter({ name, value });
+  }
+
   return response.toString();
 }
 
@@ -510,5 +567,53 @@ export function createErrorTwiml(message: string = "I'm sorry, something went wr
   return response.toString();
 }
 
+/**
+ * Create TwiML for one turn of the scripted fallback conversation: say a
+ * line, then listen for the caller and post what they said to `actionUrl`
+ * (even if they said nothing, so the loop keeps going)
+ */
+export function createFallbackTwiml(line: string, actionUrl: string, voice?: string): string {
+  const VoiceResponse = twilio.twiml.VoiceResponse;
+  const response = new VoiceResponse();
+  const gather = response.gather({
+    input: ['speech'],
+    action: actionUrl,
+    method: 'POST',
+    speechTimeout: 'auto',
+    actionOnEmptyResult: true,
+  });
+  gather.say(
+    {
+      voice: (voice || 'Polly.Matthew') as 'Polly.Matthew',
+      language: 'en-US'
+    },
+    line
+  );
+  return response.toString();
+}
+
+/**
+ * Create TwiML to reject a call without answering it
+ */
+export function createRejectTwiml(reason: 'busy' | 'rejected' = 'rejected'): string {
+  const VoiceResponse = twilio.twiml.VoiceResponse;
+  const response = new VoiceResponse();
+  response.reject({ reason });
+  return response.toString();
+}
+
+/**
+ * Create TwiML to forward a call to another number
+ *
+ * @param phoneNumber - Number to dial
+ * @param callerId - Caller ID to present (defaults to the Twilio number)
+ */
+export function createForwardTwiml(phoneNumber: string, callerId?: string): string {
+  const VoiceResponse = twilio.twiml.VoiceResponse;
+  const response = new VoiceResponse();
+  response.dial({ ...(callerId && { callerId }) }, phoneNumber);
+  return response.toString();
+}
+
 export { TwilioClient };
 export default TwilioClient;
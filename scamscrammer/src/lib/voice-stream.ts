@@ -0,0 +1,1726 @@
+/**
+ * Voice Stream Handler
+ *
+ * Bridges Twilio Media Streams and the call persona's voice engine (the
+ * OpenAI Realtime API unless the persona picks another, see voice/index.ts).
+ * It receives audio from incoming scam calls over Twilio's WebSocket,
+ * forwards it to the engine for the call's AI persona to process, and sends
+ * the persona's audio responses back to Twilio.
+ *
+ * Flow:
+ * 1. Twilio connects via WebSocket when a call starts
+ * 2. Twilio sends 'start' event with call metadata
+ * 3. We connect the persona's voice engine, or adopt the one the incoming
+ *    call webhook already connected (see warmup.ts)
+ * 4. Twilio sends 'media' events with audio chunks
+ * 5. We forward audio to the engine
+ * 6. The engine sends audio responses
+ * 7. We forward the persona's audio back to Twilio, after the pause the
+ *    persona's responseConfig calls for, with marks to track what's played
+ * 8. Conversation segments, and the persona behaviors that fired, are saved
+ *    to the database, along with the call's latency and audio quality
+ *    metrics when the stream ends (see call-metrics.ts)
+ *
+ * Keys the scammer presses on their keypad arrive as 'dtmf' events; they are
+ * saved against the call and passed on to the persona so it can react. When
+ * the call is clearly a robocall menu, keys are pressed back by playing DTMF tones
+ * (see ivr.ts).
+ *
+ * When the scammer talks over the persona, the engine's conversation and the
+ * saved transcript are cut down to what the scammer actually heard (see
+ * playback.ts).
+ *
+ * The persona's made-up address, bank, family and pets are in its
+ * instructions, and details it improvises are added as it says them and
+ * saved for the next call from the same number (see identity.ts).
+ *
+ * What the scammer says is followed for the stage the scam has reached
+ * (the pitch, a payment demand, a remote access request, threats); when it
+ * changes, stalling guidance for the new stage goes into the persona's
+ * instructions and the change is saved against the call (see scam-stage.ts).
+ * Once the scam type is known, the counter-playbook for it is added too, and
+ * recorded on the call (see playbooks.ts).
+ *
+ * When the scammer asks for account details, the persona can call tools
+ * that return fake ones for it to read out (see tools.ts); each call is
+ * saved against the call.
+ *
+ * If the Realtime connection drops mid-call, the client reconnects with the
+ * same session config and the recent transcript is replayed into the new
+ * conversation so the persona picks up where it left off.
+ *
+ * When the line goes quiet, the persona checks the scammer is still there,
+ * and hangs up once it has been dead for long enough (see idle.ts).
+ * Sessions whose Twilio socket stops sending audio without closing are
+ * reaped.
+ *
+ * Next.js route handlers can't accept WebSocket upgrades, so the stream is
+ * served by the custom server in server.ts, which mounts it with
+ * attachVoiceStream.
+ *
+ * @see https://www.twilio.com/docs/voice/media-streams
+ */
+
+import { WebSocketServer, WebSocket } from 'ws';
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { createVoiceEngine, FunctionCall, ReconnectInfo, VoiceEngine } from './voice';
+import {
+  getPersona,
+  isValidPersonaType,
+  EARL_PERSONA,
+  PersonaConfig,
+  getIdentity,
+} from './personas';
+import { loadCustomPersonas } from './personas/custom';
+import { applyVariantOverrides, VariantOverrides } from './experiments';
+import { loadCallerHistory, buildCallerMemory, loadConversationSummary } from './callers';
+import { getMemoryConfig, loadSettings } from './settings';
+import { startFallback } from './fallback';
+import { BehaviorEngine, BehaviorEvent } from './behavior';
+import { IvrNavigator, synthesizeDtmf } from './ivr';
+import { PlaybackTracker, Truncation, truncateTranscript } from './playback';
+import { IdleMonitor } from './idle';
+import { CallMetricsRecorder } from './call-metrics';
+import { claimWarmSession } from './warmup';
+import { runPersonaTool } from './tools';
+import { IdentityFact, IdentityTracker, loadIdentityFacts, saveIdentityFacts } from './identity';
+import { ScamStageTracker } from './scam-stage';
+import { buildPlaybookSection, loadPlaybooks, PlaybookConfig } from './playbooks';
+import { createSeededRandom } from './fake-data';
+import { monitoring } from './monitoring';
+import { toFrames } from './mulaw';
+import { prisma } from './db';
+import { CallEventType, Prisma } from '@prisma/client';
+import { Speaker } from '../types';
+import { createTwilioClient } from './twilio';
+import type {
+  TwilioStreamEvent,
+  TwilioStreamStartEvent,
+  TwilioStreamMediaEvent,
+  TwilioStreamOutgoingMedia,
+  TwilioStreamClear,
+  TwilioStreamMark,
+  TwilioDtmfEvent,
+  TwilioMarkEvent,
+} from './twilio';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Handles WebSocket upgrades that aren't for the voice stream
+ */
+export type UpgradeHandler = (
+  request: IncomingMessage,
+  socket: Duplex,
+  head: Buffer
+) => void | Promise<void>;
+
+/**
+ * Options for serving the voice stream
+ */
+export interface VoiceStreamOptions {
+  /** Path Twilio connects to (default: VOICE_STREAM_PATH or /api/voice/stream) */
+  path?: string;
+  /** Handler for upgrades to other paths; they are refused without one */
+  fallback?: UpgradeHandler;
+}
+
+/**
+ * Session state for an active call
+ */
+interface CallSession {
+  callSid: string;
+  streamSid: string;
+  callId: string | null;
+  fromNumber: string | null;
+  persona: PersonaConfig;
+  /** Session instructions, less the persona's details, stage guidance and playbook */
+  instructions: string;
+  identity: IdentityTracker;
+  stages: ScamStageTracker;
+  /** Enabled playbooks, by scam type */
+  playbooks: PlaybookConfig[];
+  /** The playbook in the persona's instructions, once the scam type is known */
+  playbook: PlaybookConfig | null;
+  engine: VoiceEngine;
+  twilioWs: WebSocket;
+  behavior: BehaviorEngine;
+  playback: PlaybackTracker;
+  idle: IdleMonitor;
+  metrics: CallMetricsRecorder;
+  idleTimer: ReturnType<typeof setInterval> | null;
+  hangUpTimer: ReturnType<typeof setTimeout> | null;
+  startTime: number;
+  lastActivityTime: number;
+  isConnected: boolean;
+  /** Keys pressed that the persona hasn't been told about yet */
+  pendingDigits: string[];
+  digitTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * A persona segment saved before the scammer may have cut it off
+ */
+interface SavedPersonaSegment {
+  id: string | null;
+  /** Full text of what the persona said */
+  text: string;
+}
+
+/**
+ * Pending transcript accumulator
+ */
+interface PendingTranscript {
+  speaker: Speaker;
+  text: string;
+  /** When the speaker started and stopped talking (epoch ms) */
+  startTime: number;
+  endTime: number;
+}
+
+// =============================================================================
+// Module State
+// =============================================================================
+
+// Keys pressed within this long of each other are passed to the persona
+// together, so "1 2 3 4" is one keypress note rather than four
+const DTMF_GROUP_MS = 1000;
+
+// How often each session checks for silence and a dead socket
+const IDLE_CHECK_MS = 1000;
+
+// Twilio sends audio every 20ms, even when no one is speaking, so a socket
+// that has sent nothing for this long has died without closing
+const STALE_SESSION_MS = 30000;
+
+// Time for the persona's goodbye to play before hanging up an idle call
+const HANG_UP_GRACE_MS = 8000;
+
+// Most recent transcript segments replayed into a reconnected Realtime session
+const REPLAY_SEGMENT_LIMIT = 30;
+
+// Track active sessions by streamSid. The custom server runs the streams
+// but the Next.js bundle (the stream route's status) loads its own copy of
+// this module, so the sessions are kept on globalThis where both can see
+// them, as warm sessions are (see warmup.ts).
+const globalForVoiceStream = globalThis as unknown as {
+  voiceStreamSessions: Map<string, CallSession> | undefined;
+};
+const activeSessions = (globalForVoiceStream.voiceStreamSessions ??= new Map<string, CallSession>());
+
+// Track pending transcripts for saving to database
+const pendingTranscripts = new Map<string, PendingTranscript>();
+
+// WebSocket server singleton (shared by every server the stream is attached to)
+let wss: WebSocketServer | null = null;
+
+// =============================================================================
+// Session Management
+// =============================================================================
+
+/**
+ * Resolve the persona for a call.
+ * Prefers the persona passed as a stream parameter by the incoming webhook,
+ * then the persona stored on the call record, and falls back to Earl.
+ */
+function resolvePersona(
+  streamParameters: Record<string, string> | undefined,
+  callPersona: string | null | undefined
+): PersonaConfig {
+  for (const candidate of [streamParameters?.persona, callPersona]) {
+    if (candidate && isValidPersonaType(candidate)) {
+      return getPersona(candidate);
+    }
+  }
+  return EARL_PERSONA;
+}
+
+/**
+ * Build what the persona should remember about the caller, to be appended
+ * to the session instructions:
+ * - a summary of earlier conversations with the same number, when the
+ *   persona's memory is enabled (see getMemoryConfig)
+ * - otherwise a repeat caller's profile, when the incoming webhook passed
+ *   the caller (it only does so when repeat caller memory is on); the
+ *   summary already says when they called and who took each call
+ * Returns null if there is nothing to remember.
+ */
+async function buildCallerMemorySections(
+  persona: PersonaConfig,
+  caller: { callerId?: string; fromNumber: string | null },
+  callSid: string
+): Promise<string | null> {
+  if (caller.fromNumber) {
+    try {
+      const memoryConfig = getMemoryConfig(persona, await loadSettings());
+      const summary = memoryConfig.enabled
+        ? await loadConversationSummary(caller.fromNumber, callSid, persona.id, memoryConfig.maxSummaryChars)
+        : null;
+      if (summary) return summary;
+    } catch (error) {
+      console.error('[Voice Stream] Error summarizing previous conversations:', error);
+    }
+  }
+
+  if (caller.callerId) {
+    try {
+      return buildCallerMemory(await loadCallerHistory(caller.callerId, callSid), persona.id);
+    } catch (error) {
+      console.error('[Voice Stream] Error loading caller history:', error);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Create a new call session
+ */
+async function createSession(
+  startEvent: TwilioStreamStartEvent,
+  twilioWs: WebSocket
+): Promise<CallSession> {
+  const { callSid, streamSid } = startEvent.start;
+  const streamStartTime = Date.now();
+
+  console.log('[Voice Stream] Creating session for call:', callSid);
+
+  // Find the call record in our database
+  let callId: string | null = null;
+  let callPersona: string | null = null;
+  let fromNumber: string | null = null;
+  let variant: VariantOverrides | null = null;
+  try {
+    const call = await prisma.call.findUnique({
+      where: { twilioSid: callSid },
+      select: {
+        id: true,
+        persona: true,
+        fromNumber: true,
+        experimentVariant: { select: { promptOverride: true, temperatureOverride: true } },
+      },
+    });
+    callId = call?.id ?? null;
+    callPersona = call?.persona ?? null;
+    fromNumber = call?.fromNumber ?? null;
+    variant = call?.experimentVariant ?? null;
+
+    if (!callId) {
+      console.warn('[Voice Stream] Call not found in database:', callSid);
+    }
+  } catch (error) {
+    console.error('[Voice Stream] Error finding call:', error);
+  }
+
+  // Register custom personas so they can be resolved
+  try {
+    await loadCustomPersonas();
+  } catch (error) {
+    console.error('[Voice Stream] Error loading custom personas:', error);
+  }
+
+  // Create the voice engine configured for the call's persona,
+  // with any experiment variant overrides applied
+  const { persona, sessionConfig } = applyVariantOverrides(
+    resolvePersona(startEvent.start.customParameters, callPersona),
+    variant
+  );
+
+  // Remind the persona of earlier calls from this caller
+  const memory = await buildCallerMemorySections(
+    persona,
+    { callerId: startEvent.start.customParameters?.callerId, fromNumber },
+    callSid
+  );
+  if (memory) {
+    sessionConfig.instructions = `${persona.systemPrompt}\n\n${memory}`;
+  }
+
+  // The persona's details, with any it made up for this caller before
+  const identity = new IdentityTracker(
+    getIdentity(persona),
+    fromNumber ? await loadEarlierIdentityFacts(persona.id, fromNumber) : []
+  );
+  const instructions = sessionConfig.instructions ?? persona.systemPrompt;
+  sessionConfig.instructions = `${instructions}\n\n${identity.buildPromptSection()}`;
+
+  // Counter-playbooks to add once the scam type is known
+  const playbooks = await loadEnabledPlaybooks();
+
+  // Adopt the client connected while the greeting played, bringing it up
+  // to date with the overrides and memory worked out since
+  const warmClient = await claimWarmSession(callSid, persona.id);
+  if (warmClient) {
+    warmClient.updateSession({ instructions: persona.systemPrompt, ...sessionConfig });
+  }
+  const engine = warmClient ?? createVoiceEngine(persona, sessionConfig);
+  const warmStart = String(Boolean(warmClient));
+
+  // Transcript segment timestamps are offsets from here
+  const startTime = Date.now();
+
+  // Response latency, interruptions and media quality
+  const metrics = new CallMetricsRecorder();
+
+  // Pauses, tangents and mishearings from the persona's responseConfig
+  const behavior = new BehaviorEngine(persona, (event) => {
+    // Every reply is paused, so pauses are totalled on the call rather than logged
+    if (event.type === CallEventType.PAUSE) {
+      metrics.paused(Number(event.data.pauseMs));
+      return;
+    }
+    logBehaviorEvent(callSid, callId, event, startTime);
+  });
+
+  // How much of the persona's audio the caller has heard
+  const playback = new PlaybackTracker();
+
+  // How long the line has been silent
+  const idle = new IdleMonitor(persona.idleConfig, startTime);
+
+  // Set up event handlers for the engine's responses
+  setupEngineHandlers(
+    engine,
+    behavior,
+    playback,
+    idle,
+    metrics,
+    twilioWs,
+    streamSid,
+    callId,
+    persona.id,
+    startTime
+  );
+
+  // How long the persona takes to answer the scammer's first words, to
+  // compare warm and cold starts. The greeting is TwiML, so the persona
+  // says nothing until the scammer has spoken.
+  let firstSpeechStoppedAt: number | null = null;
+  const recordFirstSpeechStopped = () => {
+    engine.off('speechStopped', recordFirstSpeechStopped);
+    firstSpeechStoppedAt = Date.now();
+  };
+  const recordFirstReply = () => {
+    if (firstSpeechStoppedAt === null) {
+      return;
+    }
+    engine.off('audio', recordFirstReply);
+    monitoring.recordHistogram('voice.first_reply_latency', Date.now() - firstSpeechStoppedAt, 'ms', {
+      warmStart,
+    });
+  };
+  engine.on('speechStopped', recordFirstSpeechStopped);
+  engine.on('audio', recordFirstReply);
+
+  // Connect the engine (a warm one is already connected)
+  try {
+    await engine.connect();
+    monitoring.recordHistogram('voice.session_setup', Date.now() - streamStartTime, 'ms', {
+      warmStart,
+    });
+    console.log('[Voice Stream] Connected voice engine', { warmStart });
+  } catch (error) {
+    console.error('[Voice Stream] Failed to connect voice engine:', error);
+    behavior.dispose();
+    // Keep the scammer busy with the scripted persona rather than silence
+    await startFallback(callSid, callId, persona);
+    throw error;
+  }
+
+  const session: CallSession = {
+    callSid,
+    streamSid,
+    callId,
+    fromNumber,
+    persona,
+    instructions,
+    identity,
+    stages: new ScamStageTracker(),
+    playbooks,
+    playbook: null,
+    engine,
+    twilioWs,
+    behavior,
+    playback,
+    idle,
+    metrics,
+    idleTimer: null,
+    hangUpTimer: null,
+    startTime,
+    lastActivityTime: Date.now(),
+    isConnected: true,
+    pendingDigits: [],
+    digitTimer: null,
+  };
+
+  activeSessions.set(streamSid, session);
+
+  session.idleTimer = setInterval(() => checkIdleSession(session), IDLE_CHECK_MS);
+  session.idleTimer.unref?.();
+
+  console.log('[Voice Stream] Session created:', {
+    callSid,
+    streamSid,
+    callId,
+    persona: persona.id,
+    activeSessions: activeSessions.size,
+  });
+
+  return session;
+}
+
+/**
+ * Clean up a session when the call ends
+ */
+async function cleanupSession(streamSid: string): Promise<void> {
+  const session = activeSessions.get(streamSid);
+  if (!session) {
+    return;
+  }
+
+  console.log('[Voice Stream] Cleaning up session:', streamSid);
+
+  session.isConnected = false;
+
+  // Drop any reply audio still waiting out its pause, and keypresses the
+  // persona won't get to react to
+  session.behavior.dispose();
+  if (session.digitTimer) {
+    clearTimeout(session.digitTimer);
+    session.digitTimer = null;
+  }
+  if (session.idleTimer) {
+    clearInterval(session.idleTimer);
+    session.idleTimer = null;
+  }
+  if (session.hangUpTimer) {
+    clearTimeout(session.hangUpTimer);
+    session.hangUpTimer = null;
+  }
+
+  // Disconnect the voice engine
+  try {
+    session.engine.disconnect('call_ended');
+  } catch (error) {
+    console.error('[Voice Stream] Error disconnecting voice engine:', error);
+  }
+
+  // Save any pending transcripts
+  await savePendingTranscript(streamSid);
+
+  if (session.callId) {
+    await saveCallMetrics(session.callId, session.metrics, Date.now() - session.startTime);
+  }
+
+  // Remove from active sessions
+  activeSessions.delete(streamSid);
+  pendingTranscripts.delete(streamSid);
+
+  const duration = Math.floor((Date.now() - session.startTime) / 1000);
+  console.log('[Voice Stream] Session cleaned up:', {
+    streamSid,
+    duration,
+    activeSessions: activeSessions.size,
+  });
+}
+
+// =============================================================================
+// Voice Engine Event Handlers
+// =============================================================================
+
+/**
+ * Set up handlers for voice engine events
+ */
+function setupEngineHandlers(
+  engine: VoiceEngine,
+  behavior: BehaviorEngine,
+  playback: PlaybackTracker,
+  idle: IdleMonitor,
+  metrics: CallMetricsRecorder,
+  twilioWs: WebSocket,
+  streamSid: string,
+  callId: string | null,
+  personaId: string,
+  sessionStartTime: number
+): void {
+  // When the persona started speaking each response, and when the scammer
+  // last started and stopped talking (epoch ms)
+  const responseStartTimes = new Map<string, number>();
+  let scammerSpeech: { startTime: number; endTime: number | null } | null = null;
+
+  // Keys pressed to get through robocall menus
+  const ivr = new IvrNavigator();
+
+  // The persona's saved segments by conversation item, so they can be cut
+  // short if the scammer interrupts after they're saved
+  const personaSegments = new Map<string, Promise<SavedPersonaSegment>>();
+
+  // Handle audio from the engine (the persona's voice), held back until the
+  // persona's pause before each response is over
+  engine.on('audio', (data: { audio: string; responseId: string; itemId: string }) => {
+    playback.recordReceived(data.itemId, data.audio);
+
+    behavior.delayAudio(data.responseId, () => {
+      // The persona starts speaking when the caller first hears them
+      if (!responseStartTimes.has(data.responseId)) {
+        responseStartTimes.set(data.responseId, Date.now());
+      }
+      idle.personaSpoke();
+
+      if (twilioWs.readyState !== WebSocket.OPEN) {
+        return;
+      }
+      metrics.audioSent(data.responseId, data.audio);
+
+      // Send audio to Twilio
+      const message: TwilioStreamOutgoingMedia = {
+        event: 'media',
+        streamSid,
+        media: {
+          payload: data.audio,
+        },
+      };
+
+      twilioWs.send(JSON.stringify(message));
+
+      // Twilio echoes the mark back once the caller has heard the audio
+      const mark: TwilioStreamMark = {
+        event: 'mark',
+        streamSid,
+        mark: { name: playback.recordSent(data.itemId, data.audio) },
+      };
+      twilioWs.send(JSON.stringify(mark));
+    });
+  });
+
+  // Handle transcripts from the engine (the persona's words)
+  engine.on('transcript', (data: {
+    text: string;
+    responseId: string;
+    itemId: string;
+    isFinal: boolean;
+  }) => {
+    if (data.isFinal && data.text && callId) {
+      // Only save what the scammer heard if they already cut the persona off
+      const truncation = playback.getTruncation(data.itemId);
+      const text = truncation ? truncateTranscript(data.text, truncation) : data.text;
+
+      const endTime = truncation?.time ?? Date.now();
+      const startTime = responseStartTimes.get(data.responseId) ?? endTime;
+      responseStartTimes.delete(data.responseId);
+
+      // Save the persona's transcript to database
+      const saved = saveTranscriptSegment(
+        callId,
+        Speaker.PERSONA,
+        text,
+        getCallOffset(sessionStartTime, startTime),
+        getCallOffset(sessionStartTime, endTime),
+        personaId
+      ).then((id) => ({ id, text: data.text }));
+      if (!truncation) {
+        personaSegments.set(data.itemId, saved);
+      }
+
+      rememberIdentityFacts(streamSid, text);
+    }
+  });
+
+  // Handle input transcripts (scammer's words)
+  engine.on('inputTranscript', (data: { text: string; itemId: string }) => {
+    // Press through robocall menus rather than talk to a recording
+    const ivrDigit = data.text ? ivr.observe(data.text) : null;
+    if (ivrDigit) {
+      pressIvrKey(engine, behavior, twilioWs, streamSid, ivrDigit);
+      if (callId) {
+        prisma.call
+          .update({ where: { id: callId }, data: { ivrPath: ivr.path } })
+          .catch((error) => {
+            console.error('[Voice Stream] Error saving IVR path:', error);
+          });
+      }
+    }
+
+    // Maybe nudge the persona into a mishearing or tangent
+    const nudge = data.text && !ivrDigit ? behavior.getNudge(data.text) : null;
+    if (nudge) {
+      try {
+        engine.addConversationItem({
+          type: 'message',
+          role: 'system',
+          content: [{ type: 'input_text', text: nudge }],
+        });
+      } catch (error) {
+        console.error('[Voice Stream] Error nudging persona:', error);
+      }
+    }
+
+    // Steer the persona through the stage the scam has reached
+    if (data.text) {
+      trackScamStage(streamSid, data.text);
+    }
+
+    if (data.text && callId) {
+      // Accumulate scammer transcript
+      const key = streamSid;
+      const pending = pendingTranscripts.get(key);
+      const endTime = scammerSpeech?.endTime ?? Date.now();
+
+      if (pending && pending.speaker === Speaker.SCAMMER) {
+        pending.text += ' ' + data.text;
+        pending.endTime = endTime;
+      } else {
+        // Save previous pending transcript and start new one
+        if (pending) {
+          savePendingSegment(callId, pending, sessionStartTime).catch((error) => {
+            console.error('[Voice Stream] Error saving pending transcript:', error);
+          });
+        }
+        pendingTranscripts.set(key, {
+          speaker: Speaker.SCAMMER,
+          text: data.text,
+          startTime: scammerSpeech?.startTime ?? endTime,
+          endTime,
+        });
+      }
+    }
+  });
+
+  // Handle speech started (scammer started talking)
+  engine.on('speechStarted', () => {
+    console.log('[Voice Stream] Speech started (scammer talking)');
+    scammerSpeech = { startTime: Date.now(), endTime: null };
+    idle.speechStarted();
+
+    // Don't start a reply the scammer has already talked over
+    behavior.dropPendingAudio();
+
+    // Cut what the persona said down to what the scammer heard
+    const truncations = playback.interrupt();
+    if (truncations.length > 0) {
+      metrics.interrupted();
+    }
+    for (const truncation of truncations) {
+      try {
+        engine.truncateItem(truncation.itemId, truncation.audioEndMs);
+      } catch (error) {
+        console.error('[Voice Stream] Error truncating persona audio:', error);
+      }
+
+      const saved = personaSegments.get(truncation.itemId);
+      if (saved) {
+        personaSegments.delete(truncation.itemId);
+        truncateSavedSegment(saved, truncation, sessionStartTime).catch((error) => {
+          console.error('[Voice Stream] Error truncating persona transcript:', error);
+        });
+      }
+    }
+
+    // Clear Twilio's audio buffer when scammer interrupts
+    if (twilioWs.readyState === WebSocket.OPEN) {
+      const clearMessage: TwilioStreamClear = {
+        event: 'clear',
+        streamSid,
+      };
+      twilioWs.send(JSON.stringify(clearMessage));
+    }
+  });
+
+  // Handle speech stopped
+  engine.on('speechStopped', () => {
+    console.log('[Voice Stream] Speech stopped (scammer stopped talking)');
+    if (scammerSpeech) {
+      scammerSpeech.endTime = Date.now();
+    }
+    idle.speechStopped();
+    metrics.speechStopped();
+
+    // Save accumulated scammer transcript
+    savePendingTranscript(streamSid).catch((error) => {
+      console.error('[Voice Stream] Error saving pending transcript:', error);
+    });
+  });
+
+  // Responses that called a tool; the persona reads out what the tool
+  // returned in a new response once they're done
+  const toolResponses = new Set<string>();
+
+  // Handle the persona looking up fake account details
+  engine.on('functionCall', (call: FunctionCall) => {
+    if (answerToolCall(engine, call, streamSid, callId, sessionStartTime)) {
+      toolResponses.add(call.responseId);
+    }
+  });
+
+  // Handle response complete
+  engine.on('responseComplete', (data: { responseId: string; status: string }) => {
+    console.log('[Voice Stream] Response complete:', data.responseId);
+    behavior.completeResponse(data.responseId);
+
+    if (toolResponses.delete(data.responseId) && engine.isConnected()) {
+      engine.createResponse();
+    }
+  });
+
+  // Handle errors
+  engine.on('error', (error) => {
+    console.error('[Voice Stream] Voice engine error:', error);
+  });
+
+  // Fill a reconnected session back in with the conversation so far
+  engine.on('reconnected', (info: ReconnectInfo) => {
+    restoreConversation(engine, streamSid, callId, info, sessionStartTime).catch((error) => {
+      console.error('[Voice Stream] Error restoring conversation:', error);
+    });
+  });
+
+  // Handle disconnection
+  engine.on('disconnect', (reason: string) => {
+    console.log('[Voice Stream] Voice engine disconnected:', reason);
+  });
+
+  // Handle state changes
+  engine.on('stateChange', (state: string) => {
+    console.log('[Voice Stream] Voice engine state changed:', state);
+  });
+}
+
+// =============================================================================
+// Persona Identity
+// =============================================================================
+
+/**
+ * Load the details the persona made up on earlier calls from a number
+ */
+async function loadEarlierIdentityFacts(personaId: string, fromNumber: string): Promise<IdentityFact[]> {
+  try {
+    return await loadIdentityFacts(personaId, fromNumber);
+  } catch (error) {
+    console.error('[Voice Stream] Error loading identity facts:', error);
+    return [];
+  }
+}
+
+/**
+ * Keep details the persona made up about itself in its instructions for the
+ * rest of the call, and save them for the next call from the same number
+ */
+function rememberIdentityFacts(streamSid: string, text: string): void {
+  const session = activeSessions.get(streamSid);
+  if (!session) {
+    return;
+  }
+
+  const facts = session.identity.capture(text);
+  if (facts.length === 0) {
+    return;
+  }
+
+  console.log('[Voice Stream] Persona made up details:', { streamSid, facts });
+  session.engine.updateSession({ instructions: buildSessionInstructions(session) });
+
+  if (session.callId && session.fromNumber) {
+    saveIdentityFacts(session.persona.id, session.fromNumber, session.callId, facts).catch((error) => {
+      console.error('[Voice Stream] Error saving identity facts:', error);
+    });
+  }
+}
+
+/**
+ * The session instructions with the persona's details, guidance for the
+ * scam's current stage and the playbook for its type
+ */
+function buildSessionInstructions(session: CallSession): string {
+  const sections = [
+    session.instructions,
+    session.identity.buildPromptSection(),
+    session.stages.buildPromptSection(),
+    session.playbook && buildPlaybookSection(session.playbook),
+  ];
+  return sections.filter(Boolean).join('\n\n');
+}
+
+// =============================================================================
+// Scam Stages and Playbooks
+// =============================================================================
+
+/**
+ * Follow the scam through something the scammer said. When it reaches
+ * another stage, give the persona guidance for it and save the change; when
+ * its type becomes clear, give the persona the playbook for that type.
+ */
+function trackScamStage(streamSid: string, text: string): void {
+  const session = activeSessions.get(streamSid);
+  if (!session) {
+    return;
+  }
+
+  const change = session.stages.observe(text);
+  const playbook = choosePlaybook(session);
+  if (!change && !playbook) {
+    return;
+  }
+
+  if (change) {
+    console.log('[Voice Stream] Scam stage changed:', {
+      streamSid,
+      stage: change.stage,
+      previousStage: change.previousStage,
+      scamType: change.scamType,
+    });
+
+    if (session.callId) {
+      saveCallEvent(
+        session.callId,
+        CallEventType.SCAM_STAGE,
+        { stage: change.stage, previousStage: change.previousStage, scamType: change.scamType, text: change.text },
+        session.startTime
+      ).catch((error) => {
+        console.error('[Voice Stream] Error saving scam stage:', error);
+      });
+    }
+  }
+
+  if (playbook) {
+    console.log('[Voice Stream] Using playbook:', { streamSid, scamType: playbook.scamType });
+    session.playbook = playbook;
+
+    if (session.callId) {
+      prisma.call
+        .update({ where: { id: session.callId }, data: { playbook: playbook.scamType } })
+        .catch((error) => {
+          console.error('[Voice Stream] Error saving playbook:', error);
+        });
+    }
+  }
+
+  session.engine.updateSession({ instructions: buildSessionInstructions(session) });
+}
+
+/**
+ * Pick the playbook for the scam type, if it's newly known and has one
+ *
+ * A scam type without an enabled playbook leaves the current one in place.
+ */
+function choosePlaybook(session: CallSession): PlaybookConfig | null {
+  const { scamType } = session.stages;
+  if (scamType === session.playbook?.scamType) {
+    return null;
+  }
+  return session.playbooks.find((playbook) => playbook.scamType === scamType) ?? null;
+}
+
+/**
+ * Load the playbooks that are turned on
+ */
+async function loadEnabledPlaybooks(): Promise<PlaybookConfig[]> {
+  try {
+    return (await loadPlaybooks()).filter((playbook) => playbook.isEnabled);
+  } catch (error) {
+    console.error('[Voice Stream] Error loading playbooks:', error);
+    return [];
+  }
+}
+
+// =============================================================================
+// Persona Tools
+// =============================================================================
+
+/**
+ * Run a tool the persona called, give it the result and save the call
+ *
+ * @returns Whether the result reached the persona
+ */
+function answerToolCall(
+  engine: VoiceEngine,
+  call: FunctionCall,
+  streamSid: string,
+  callId: string | null,
+  sessionStartTime: number
+): boolean {
+  // Seeded so the persona reads out the same details every time it looks
+  // during a call, but different ones to each caller
+  const session = activeSessions.get(streamSid);
+  const result = runPersonaTool(call.name, call.arguments, {
+    identity: session?.identity.profile,
+    random: session
+      ? createSeededRandom(`${session.callSid}:${session.persona.id}:${call.name}`)
+      : undefined,
+  });
+  console.log('[Voice Stream] Persona tool call:', { streamSid, tool: call.name, ok: result.ok });
+
+  if (callId) {
+    saveCallEvent(
+      callId,
+      CallEventType.TOOL_CALL,
+      {
+        tool: call.name,
+        // Parsed from JSON, so safe to save as JSON
+        arguments: result.arguments as Prisma.InputJsonValue,
+        output: result.output,
+        ok: result.ok,
+      },
+      sessionStartTime
+    ).catch((error) => {
+      console.error('[Voice Stream] Error saving tool call:', error);
+    });
+  }
+
+  try {
+    engine.sendFunctionOutput(call.callId, result.output);
+    return true;
+  } catch (error) {
+    console.error('[Voice Stream] Error sending tool output to voice engine:', error);
+    return false;
+  }
+}
+
+// =============================================================================
+// Reconnects
+// =============================================================================
+
+/**
+ * Replay the call's recent transcript into a reconnected Realtime session,
+ * and save the reconnect against the call
+ */
+async function restoreConversation(
+  engine: VoiceEngine,
+  streamSid: string,
+  callId: string | null,
+  info: ReconnectInfo,
+  sessionStartTime: number
+): Promise<void> {
+  console.log('[Voice Stream] OpenAI reconnected:', { streamSid, ...info });
+  monitoring.incrementCounter('realtime.reconnect', 1);
+
+  if (!callId) {
+    return;
+  }
+
+  // Include what the scammer said just before the drop
+  await savePendingTranscript(streamSid);
+
+  const segments = await prisma.callSegment.findMany({
+    where: { callId, speaker: { in: [Speaker.SCAMMER, Speaker.PERSONA] } },
+    orderBy: { timestamp: 'desc' },
+    take: REPLAY_SEGMENT_LIMIT,
+    select: { speaker: true, text: true },
+  });
+
+  // The connection may have dropped again while the transcript loaded
+  let replayed = 0;
+  if (engine.isConnected()) {
+    for (const segment of segments.reverse()) {
+      if (segment.speaker === Speaker.SCAMMER) {
+        engine.addConversationItem({
+          type: 'message',
+          role: 'user',
+          content: [{ type: 'input_text', text: segment.text }],
+        });
+      } else {
+        engine.addConversationItem({
+          type: 'message',
+          role: 'assistant',
+          content: [{ type: 'text', text: segment.text }],
+        });
+      }
+      replayed++;
+    }
+  }
+
+  await saveCallEvent(
+    callId,
+    CallEventType.RECONNECT,
+    {
+      attempts: info.attempts,
+      downtimeMs: info.downtimeMs,
+      reason: info.reason,
+      replayedSegments: replayed,
+    },
+    sessionStartTime
+  );
+}
+
+// =============================================================================
+// Robocall Menus
+// =============================================================================
+
+/**
+ * Press a key on a robocall menu: stop the persona answering the
+ * recording, play the key's DTMF tones down the line and let the persona
+ * know what happened
+ */
+function pressIvrKey(
+  engine: VoiceEngine,
+  behavior: BehaviorEngine,
+  twilioWs: WebSocket,
+  streamSid: string,
+  digit: string
+): void {
+  console.log('[Voice Stream] Robocall menu, pressing:', digit);
+
+  behavior.dropPendingAudio();
+  try {
+    engine.cancelResponse();
+    engine.addConversationItem({
+      type: 'message',
+      role: 'system',
+      content: [
+        {
+          type: 'input_text',
+          text:
+            `That was an automated menu, so you pressed ${digit} to get through to a real person. ` +
+            'Wait for them to come on the line.',
+        },
+      ],
+    });
+  } catch (error) {
+    console.error('[Voice Stream] Error telling persona about robocall menu:', error);
+  }
+
+  if (twilioWs.readyState !== WebSocket.OPEN) {
+    return;
+  }
+
+  const clearMessage: TwilioStreamClear = { event: 'clear', streamSid };
+  twilioWs.send(JSON.stringify(clearMessage));
+
+  for (const frame of toFrames(synthesizeDtmf(digit))) {
+    const message: TwilioStreamOutgoingMedia = {
+      event: 'media',
+      streamSid,
+      media: { payload: frame.toString('base64') },
+    };
+    twilioWs.send(JSON.stringify(message));
+  }
+}
+
+// =============================================================================
+// Idle Lines
+// =============================================================================
+
+/**
+ * Act on the silence on a call: reap the session if Twilio has stopped
+ * sending audio, otherwise have the persona check in or hang up as its
+ * idleConfig calls for
+ */
+function checkIdleSession(session: CallSession, now: number = Date.now()): void {
+  if (!session.isConnected) {
+    return;
+  }
+
+  if (now - session.lastActivityTime >= STALE_SESSION_MS) {
+    reapSession(session);
+    return;
+  }
+
+  const action = session.idle.check(now);
+  if (action === 'check_in') {
+    checkInOnCaller(session);
+  } else if (action === 'hang_up') {
+    hangUpIdleCall(session);
+  }
+}
+
+/**
+ * Have the persona ask whether the scammer is still on the line
+ */
+function checkInOnCaller(session: CallSession): void {
+  const phrase = session.idle.getCheckInPhrase();
+  console.log('[Voice Stream] Line gone quiet, checking in:', session.callSid);
+
+  if (session.callId) {
+    saveCallEvent(
+      session.callId,
+      CallEventType.IDLE_CHECK_IN,
+      phrase ? { phrase } : {},
+      session.startTime
+    ).catch((error) => {
+      console.error('[Voice Stream] Error saving idle check-in:', error);
+    });
+  }
+
+  sayToIdleLine(
+    session,
+    'The line has gone quiet and the caller has not said anything for a while. ' +
+      (phrase
+        ? `Check they are still there, for example: "${phrase}"`
+        : 'Check in character that they are still there.')
+  );
+}
+
+/**
+ * Have the persona say goodbye to a dead line, then hang up once the
+ * goodbye has had time to play
+ */
+function hangUpIdleCall(session: CallSession): void {
+  const goodbye = session.idle.getGoodbye();
+  console.log('[Voice Stream] Line dead, hanging up:', session.callSid);
+
+  if (session.callId) {
+    saveCallEvent(session.callId, CallEventType.IDLE_HANG_UP, {}, session.startTime).catch(
+      (error) => {
+        console.error('[Voice Stream] Error saving idle hang-up:', error);
+      }
+    );
+  }
+
+  sayToIdleLine(
+    session,
+    'The caller has been silent for a long time and seems to have gone. Say a short, polite goodbye ' +
+      (goodbye ? `("${goodbye}") ` : '') +
+      'and nothing more, because you are hanging up.'
+  );
+
+  session.hangUpTimer = setTimeout(() => {
+    session.hangUpTimer = null;
+    createTwilioClient()
+      .endCall(session.callSid)
+      .catch((error) => {
+        console.error('[Voice Stream] Error hanging up idle call:', error);
+      })
+      .then(() => cleanupSession(session.streamSid))
+      .catch((error) => {
+        console.error('[Voice Stream] Error cleaning up session:', error);
+      });
+  }, HANG_UP_GRACE_MS);
+}
+
+/**
+ * Tell the persona about the silence and have it respond
+ */
+function sayToIdleLine(session: CallSession, instructions: string): void {
+  try {
+    session.engine.addConversationItem({
+      type: 'message',
+      role: 'system',
+      content: [{ type: 'input_text', text: instructions }],
+    });
+    session.engine.createResponse();
+  } catch (error) {
+    console.error('[Voice Stream] Error prompting persona on idle line:', error);
+  }
+}
+
+/**
+ * Clean up a session whose Twilio socket died without closing, so it
+ * doesn't keep its voice engine connected
+ */
+function reapSession(session: CallSession): void {
+  console.warn('[Voice Stream] No audio from Twilio, reaping session:', {
+    callSid: session.callSid,
+    streamSid: session.streamSid,
+  });
+
+  try {
+    session.twilioWs.terminate();
+  } catch (error) {
+    console.error('[Voice Stream] Error closing stale WebSocket:', error);
+  }
+
+  cleanupSession(session.streamSid).catch((error) => {
+    console.error('[Voice Stream] Error cleaning up session:', error);
+  });
+}
+
+// =============================================================================
+// Call Events
+// =============================================================================
+
+/**
+ * Save something that happened during the call, timed from the start of
+ * the session
+ */
+async function saveCallEvent(
+  callId: string,
+  type: CallEventType,
+  data: Prisma.InputJsonObject,
+  sessionStartTime: number
+): Promise<void> {
+  await prisma.callEvent.create({
+    data: {
+      callId,
+      type,
+      timestamp: getCallOffset(sessionStartTime, Date.now()),
+      data,
+    },
+  });
+}
+
+/**
+ * Log a persona behavior that fired, and save it against the call
+ */
+function logBehaviorEvent(
+  callSid: string,
+  callId: string | null,
+  event: BehaviorEvent,
+  sessionStartTime: number
+): void {
+  console.log('[Voice Stream] Persona behavior:', { callSid, type: event.type, ...event.data });
+
+  if (!callId) {
+    return;
+  }
+
+  saveCallEvent(callId, event.type, event.data, sessionStartTime).catch((error) => {
+    console.error('[Voice Stream] Error saving behavior event:', error);
+  });
+}
+
+/**
+ * Save a call's latency and audio quality metrics
+ *
+ * Replaces any saved by an earlier stream for the same call.
+ */
+async function saveCallMetrics(
+  callId: string,
+  metrics: CallMetricsRecorder,
+  durationMs: number
+): Promise<void> {
+  const summary = metrics.summarize(durationMs);
+  try {
+    await prisma.callMetrics.upsert({
+      where: { callId },
+      create: { callId, ...summary },
+      update: summary,
+    });
+  } catch (error) {
+    console.error('[Voice Stream] Error saving call metrics:', error);
+  }
+}
+
+// =============================================================================
+// Transcript Management
+// =============================================================================
+
+/**
+ * Seconds from the start of the session to `time` (epoch ms), to
+ * millisecond precision
+ */
+function getCallOffset(sessionStartTime: number, time: number): number {
+  return Math.max(0, time - sessionStartTime) / 1000;
+}
+
+/**
+ * Save a transcript segment to the database
+ *
+ * @param timestamp - Seconds into the call when the speaker started
+ * @param endTimestamp - Seconds into the call when the speaker stopped
+ * @param personaId - Persona that spoke, for PERSONA segments
+ * @returns ID of the saved segment, or null if nothing was saved
+ */
+async function saveTranscriptSegment(
+  callId: string,
+  speaker: Speaker,
+  text: string,
+  timestamp: number,
+  endTimestamp: number,
+  personaId?: string
+): Promise<string | null> {
+  if (!text.trim()) {
+    return null;
+  }
+
+  try {
+    const segment = await prisma.callSegment.create({
+      data: {
+        callId,
+        speaker,
+        personaId,
+        text: text.trim(),
+        timestamp,
+        endTimestamp,
+      },
+    });
+
+    console.log('[Voice Stream] Saved transcript segment:', {
+      callId,
+      speaker,
+      textLength: text.length,
+    });
+    return segment.id;
+  } catch (error) {
+    console.error('[Voice Stream] Error saving transcript segment:', error);
+    return null;
+  }
+}
+
+/**
+ * Cut a saved persona segment down to what the scammer heard before they
+ * interrupted, removing it if they heard none of it
+ */
+async function truncateSavedSegment(
+  saved: Promise<SavedPersonaSegment>,
+  truncation: Truncation,
+  sessionStartTime: number
+): Promise<void> {
+  const { id, text } = await saved;
+  if (!id) {
+    return;
+  }
+
+  const heard = truncateTranscript(text, truncation);
+  if (heard) {
+    await prisma.callSegment.update({
+      where: { id },
+      data: { text: heard, endTimestamp: getCallOffset(sessionStartTime, truncation.time) },
+    });
+  } else {
+    await prisma.callSegment.delete({ where: { id } });
+  }
+
+  console.log('[Voice Stream] Truncated persona segment:', {
+    id,
+    heardMs: truncation.audioEndMs,
+    totalMs: truncation.totalAudioMs,
+  });
+}
+
+/**
+ * Save an accumulated transcript as a segment
+ */
+async function savePendingSegment(
+  callId: string,
+  pending: PendingTranscript,
+  sessionStartTime: number
+): Promise<void> {
+  await saveTranscriptSegment(
+    callId,
+    pending.speaker,
+    pending.text,
+    getCallOffset(sessionStartTime, pending.startTime),
+    getCallOffset(sessionStartTime, pending.endTime)
+  );
+}
+
+/**
+ * Save any pending transcript for a stream
+ */
+async function savePendingTranscript(streamSid: string): Promise<void> {
+  const session = activeSessions.get(streamSid);
+  const pending = pendingTranscripts.get(streamSid);
+
+  if (pending && session?.callId && pending.text.trim()) {
+    // Take it before saving so speech transcribed meanwhile starts a new segment
+    pendingTranscripts.delete(streamSid);
+    await savePendingSegment(session.callId, pending, session.startTime);
+  }
+}
+
+// =============================================================================
+// Twilio WebSocket Message Handlers
+// =============================================================================
+
+/**
+ * Handle incoming WebSocket messages from Twilio
+ */
+async function handleTwilioMessage(
+  twilioWs: WebSocket,
+  data: string
+): Promise<void> {
+  let event: TwilioStreamEvent;
+
+  try {
+    event = JSON.parse(data);
+  } catch (error) {
+    console.error('[Voice Stream] Failed to parse message:', error);
+    return;
+  }
+
+  switch (event.event) {
+    case 'connected':
+      console.log('[Voice Stream] Twilio connected:', {
+        protocol: event.protocol,
+        version: event.version,
+      });
+      break;
+
+    case 'start':
+      await handleStart(twilioWs, event as TwilioStreamStartEvent);
+      break;
+
+    case 'media':
+      handleMedia(event as TwilioStreamMediaEvent);
+      break;
+
+    case 'stop':
+      await handleStop(event as TwilioStreamEvent);
+      break;
+
+    case 'mark':
+      handleMark(event as TwilioMarkEvent);
+      break;
+
+    case 'dtmf':
+      handleDtmf(event as TwilioDtmfEvent);
+      break;
+
+    default:
+      console.log('[Voice Stream] Unknown event type:', (event as TwilioStreamEvent).event);
+  }
+}
+
+/**
+ * Handle the 'start' event from Twilio
+ */
+async function handleStart(
+  twilioWs: WebSocket,
+  event: TwilioStreamStartEvent
+): Promise<void> {
+  console.log('[Voice Stream] Stream started:', {
+    callSid: event.start.callSid,
+    streamSid: event.streamSid,
+    mediaFormat: event.start.mediaFormat,
+  });
+
+  try {
+    await createSession(event, twilioWs);
+  } catch (error) {
+    console.error('[Voice Stream] Failed to create session:', error);
+    // Close the WebSocket if we can't create a session
+    twilioWs.close(1011, 'Failed to initialize session');
+  }
+}
+
+/**
+ * Handle 'media' events from Twilio (audio chunks)
+ */
+function handleMedia(event: TwilioStreamMediaEvent): void {
+  const session = activeSessions.get(event.streamSid);
+  if (!session || !session.isConnected) {
+    return;
+  }
+
+  // Update activity timestamp
+  session.lastActivityTime = Date.now();
+  session.metrics.mediaReceived(event.sequenceNumber, event.media?.timestamp);
+
+  // Forward audio to the voice engine
+  // The payload is base64-encoded mulaw audio, which engines accept directly
+  try {
+    session.engine.sendAudio(event.media.payload);
+  } catch (error) {
+    console.error('[Voice Stream] Error sending audio to voice engine:', error);
+  }
+}
+
+/**
+ * Handle 'mark' events from Twilio (the persona's audio before the mark
+ * has been played)
+ */
+function handleMark(event: TwilioMarkEvent): void {
+  const session = event.streamSid ? activeSessions.get(event.streamSid) : undefined;
+  const name = event.mark?.name;
+  if (!session || !name) {
+    return;
+  }
+
+  session.playback.acknowledge(name);
+}
+
+/**
+ * Handle 'dtmf' events from Twilio (the scammer pressed a key)
+ *
+ * Each key is saved against the call straight away; the persona is told
+ * about keys pressed in quick succession together.
+ */
+function handleDtmf(event: TwilioDtmfEvent): void {
+  const session = activeSessions.get(event.streamSid);
+  const digit = event.dtmf?.digit;
+  if (!session || !session.isConnected || !digit || !/^[0-9*#A-D]$/.test(digit)) {
+    return;
+  }
+
+  session.lastActivityTime = Date.now();
+  console.log('[Voice Stream] Keypress:', { callSid: session.callSid, digit });
+
+  if (session.callId) {
+    saveCallEvent(session.callId, CallEventType.KEYPRESS, { digit }, session.startTime).catch(
+      (error) => {
+        console.error('[Voice Stream] Error saving keypress:', error);
+      }
+    );
+  }
+
+  session.pendingDigits.push(digit);
+  if (session.digitTimer) {
+    clearTimeout(session.digitTimer);
+  }
+  session.digitTimer = setTimeout(() => tellPersonaAboutKeypresses(session), DTMF_GROUP_MS);
+}
+
+/**
+ * Pass the keys the scammer pressed on to the persona and let it react
+ */
+function tellPersonaAboutKeypresses(session: CallSession): void {
+  const digits = session.pendingDigits;
+  session.pendingDigits = [];
+  session.digitTimer = null;
+  if (!session.isConnected || digits.length === 0) {
+    return;
+  }
+
+  const keys = digits.length === 1 ? `the ${digits[0]} key` : `these keys: ${digits.join(' ')}`;
+  try {
+    session.engine.addConversationItem({
+      type: 'message',
+      role: 'system',
+      content: [
+        {
+          type: 'input_text',
+          text:
+            `The caller just pressed ${keys} on their phone keypad, and you heard the beeps. ` +
+            'React in character.',
+        },
+      ],
+    });
+    session.engine.createResponse();
+  } catch (error) {
+    console.error('[Voice Stream] Error passing keypresses to persona:', error);
+  }
+}
+
+/**
+ * Handle the 'stop' event from Twilio
+ */
+async function handleStop(event: TwilioStreamEvent): Promise<void> {
+  const streamSid = event.streamSid;
+  if (!streamSid) {
+    return;
+  }
+
+  console.log('[Voice Stream] Stream stopped:', streamSid);
+  await cleanupSession(streamSid);
+}
+
+// =============================================================================
+// WebSocket Connection Handler
+// =============================================================================
+
+/**
+ * Handle a new WebSocket connection from Twilio
+ */
+function handleConnection(twilioWs: WebSocket, request: IncomingMessage): void {
+  const clientIp = request.socket.remoteAddress;
+  console.log('[Voice Stream] New WebSocket connection from:', clientIp);
+
+  twilioWs.on('message', async (data: Buffer | string) => {
+    try {
+      const message = typeof data === 'string' ? data : data.toString();
+      await handleTwilioMessage(twilioWs, message);
+    } catch (error) {
+      console.error('[Voice Stream] Error handling message:', error);
+    }
+  });
+
+  twilioWs.on('close', (code: number, reason: Buffer) => {
+    console.log('[Voice Stream] WebSocket closed:', {
+      code,
+      reason: reason.toString(),
+    });
+
+    // Clean up any sessions associated with this WebSocket
+    for (const [streamSid, session] of activeSessions.entries()) {
+      if (session.twilioWs === twilioWs && session.isConnected) {
+        cleanupSession(streamSid).catch((error) => {
+          console.error('[Voice Stream] Error cleaning up session:', error);
+        });
+      }
+    }
+  });
+
+  twilioWs.on('error', (error: Error) => {
+    console.error('[Voice Stream] WebSocket error:', error);
+  });
+}
+
+// =============================================================================
+// WebSocket Server Setup
+// =============================================================================
+
+/**
+ * Path Twilio connects to for media streams
+ */
+export const DEFAULT_VOICE_STREAM_PATH = '/api/voice/stream';
+
+/**
+ * Get the path the voice stream is served on
+ */
+export function getVoiceStreamPath(): string {
+  return process.env.VOICE_STREAM_PATH || DEFAULT_VOICE_STREAM_PATH;
+}
+
+/**
+ * Get or create the WebSocket server singleton
+ */
+function getWebSocketServer(): WebSocketServer {
+  if (!wss) {
+    wss = new WebSocketServer({ noServer: true });
+    wss.on('connection', handleConnection);
+    console.log('[Voice Stream] WebSocket server created');
+  }
+  return wss;
+}
+
+/**
+ * Serve the voice stream on an HTTP server
+ *
+ * WebSocket upgrades to the stream path are handed to the stream handler;
+ * upgrades to other paths go to the fallback (e.g. Next.js hot reloading)
+ * or are refused.
+ */
+export function attachVoiceStream(server: Server, options: VoiceStreamOptions = {}): void {
+  const path = options.path ?? getVoiceStreamPath();
+
+  server.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+
+    if (pathname === path) {
+      const wssInstance = getWebSocketServer();
+      wssInstance.handleUpgrade(request, socket, head, (ws) => {
+        wssInstance.emit('connection', ws, request);
+      });
+      return;
+    }
+
+    if (!options.fallback) {
+      socket.destroy();
+      return;
+    }
+
+    Promise.resolve(options.fallback(request, socket, head)).catch((error) => {
+      console.error('[Voice Stream] Error handling upgrade:', error);
+      socket.destroy();
+    });
+  });
+
+  console.log('[Voice Stream] Serving media streams on', path);
+}
+
+/**
+ * Number of calls currently streaming
+ */
+export function getActiveSessionCount(): number {
+  return activeSessions.size;
+}
+
+// =============================================================================
+// Exports for Testing
+// =============================================================================
+
+export const __testing__ = {
+  activeSessions,
+  pendingTranscripts,
+  createSession,
+  cleanupSession,
+  handleTwilioMessage,
+  saveTranscriptSegment,
+  checkIdleSession,
+  DTMF_GROUP_MS,
+  STALE_SESSION_MS,
+  HANG_UP_GRACE_MS,
+  REPLAY_SEGMENT_LIMIT,
+};
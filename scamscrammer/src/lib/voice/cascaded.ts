@@ -0,0 +1,334 @@
+/**
+ * Cascaded Voice Engine
+ *
+ * Holds the persona's side of a call in three steps instead of one
+ * speech-to-speech model: caller audio is transcribed when voice activity
+ * detection hears the caller stop, a language model writes the persona's
+ * reply, and text-to-speech reads it out. Each step is a provider (see
+ * SpeechToText, LanguageModel and TextToSpeech in types.ts), so voices and
+ * models can come from different services.
+ *
+ * Like the Realtime API's server VAD, a caller turn gets a reply
+ * automatically, and the caller starting to talk cancels the reply in
+ * progress. Turns with nothing transcribed (coughs, line noise) don't.
+ */
+
+import { EventEmitter } from 'events';
+import { VoiceEngineError } from '../errors';
+import { energy, FRAME_BYTES, FRAME_MS } from '../mulaw';
+import type {
+  ChatMessage,
+  ConnectionState,
+  ConversationItem,
+  LanguageModel,
+  SpeechToText,
+  TextToSpeech,
+  VoiceEngine,
+  VoiceSessionConfig,
+} from './types';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CascadedVoiceEngineOptions {
+  stt: SpeechToText;
+  llm: LanguageModel;
+  tts: TextToSpeech;
+  /** Mean absolute amplitude above which caller audio counts as speech */
+  speechThreshold?: number;
+  /** Silence that ends a caller turn (ms) */
+  silenceDurationMs?: number;
+}
+
+interface Response {
+  id: string;
+  itemId: string;
+  abort: AbortController;
+}
+
+// A reply the persona spoke, and how much audio it came to
+interface SpokenItem {
+  message: { role: 'assistant'; content: string };
+  audioBytes: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_SPEECH_THRESHOLD = 500;
+const DEFAULT_SILENCE_DURATION_MS = 800;
+const DEFAULT_TEMPERATURE = 0.8;
+
+// μ-law is one byte per sample
+const BYTES_PER_MS = FRAME_BYTES / FRAME_MS;
+
+// =============================================================================
+// CascadedVoiceEngine Class
+// =============================================================================
+
+export class CascadedVoiceEngine extends EventEmitter implements VoiceEngine {
+  private readonly stt: SpeechToText;
+  private readonly llm: LanguageModel;
+  private readonly tts: TextToSpeech;
+  private readonly speechThreshold: number;
+  private readonly silenceDurationMs: number;
+  private sessionConfig: VoiceSessionConfig;
+  private connectionState: ConnectionState = 'disconnected';
+
+  private messages: ChatMessage[] = [];
+  private spokenItems = new Map<string, SpokenItem>();
+  private response: Response | null = null;
+  private idCounter = 0;
+
+  // Voice activity detection over the caller's audio
+  private speaking = false;
+  private silentMs = 0;
+  private turnAudio: Buffer[] = [];
+
+  constructor(options: CascadedVoiceEngineOptions, config: Partial<VoiceSessionConfig> = {}) {
+    super();
+    this.stt = options.stt;
+    this.llm = options.llm;
+    this.tts = options.tts;
+    this.speechThreshold = options.speechThreshold ?? DEFAULT_SPEECH_THRESHOLD;
+    this.silenceDurationMs = options.silenceDurationMs ?? DEFAULT_SILENCE_DURATION_MS;
+    this.sessionConfig = {
+      instructions: config.instructions ?? '',
+      voice: config.voice ?? '',
+      temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+      tools: config.tools ?? [],
+    };
+  }
+
+  // ===========================================================================
+  // Public Methods
+  // ===========================================================================
+
+  public isConnected(): boolean {
+    return this.connectionState === 'connected';
+  }
+
+  /**
+   * Providers are called per turn, so there's nothing to connect to
+   */
+  public async connect(): Promise<void> {
+    this.setState('connected');
+  }
+
+  public disconnect(reason: string = 'client_requested'): void {
+    this.response?.abort.abort();
+    this.response = null;
+    this.speaking = false;
+    this.turnAudio = [];
+    this.setState('disconnected');
+    this.emit('disconnect', reason);
+  }
+
+  public sendAudio(audio: Buffer | string): void {
+    if (!this.isConnected()) {
+      throw VoiceEngineError.notConnected('send audio');
+    }
+
+    const chunk = Buffer.isBuffer(audio) ? audio : Buffer.from(audio, 'base64');
+    const isSpeech = energy(chunk) > this.speechThreshold;
+
+    if (isSpeech) {
+      this.silentMs = 0;
+      if (!this.speaking) {
+        this.speaking = true;
+        // The caller talking over the persona cuts its reply off
+        this.cancelResponse();
+        this.emit('speechStarted');
+      }
+    }
+
+    if (!this.speaking) {
+      return;
+    }
+
+    this.turnAudio.push(chunk);
+    if (isSpeech) {
+      return;
+    }
+
+    this.silentMs += chunk.length / BYTES_PER_MS;
+    if (this.silentMs < this.silenceDurationMs) {
+      return;
+    }
+
+    const turn = Buffer.concat(this.turnAudio);
+    this.speaking = false;
+    this.silentMs = 0;
+    this.turnAudio = [];
+    this.emit('speechStopped');
+
+    this.finishTurn(turn).catch((error) => {
+      this.emit('error', error);
+    });
+  }
+
+  public addConversationItem(item: ConversationItem): void {
+    if (!this.isConnected()) {
+      throw VoiceEngineError.notConnected('add item');
+    }
+
+    const content = item.content.map((part) => part.text ?? '').join('');
+    this.messages.push({ role: item.role, content });
+  }
+
+  public createResponse(): void {
+    if (!this.isConnected()) {
+      throw VoiceEngineError.notConnected('create response');
+    }
+
+    this.respond().catch((error) => {
+      this.emit('error', error);
+    });
+  }
+
+  public cancelResponse(): void {
+    this.response?.abort.abort();
+  }
+
+  /**
+   * Cut a reply in the conversation down to about the words the caller
+   * heard before they interrupted
+   */
+  public truncateItem(itemId: string, audioEndMs: number): void {
+    const item = this.spokenItems.get(itemId);
+    if (!item || item.audioBytes === 0) {
+      return;
+    }
+
+    const heard = Math.min(1, (audioEndMs * BYTES_PER_MS) / item.audioBytes);
+    const words = item.message.content.split(/\s+/).filter(Boolean);
+    const kept = words.slice(0, Math.round(words.length * heard));
+
+    if (kept.length > 0) {
+      item.message.content = kept.join(' ');
+    } else {
+      this.messages = this.messages.filter((message) => message !== item.message);
+    }
+    this.spokenItems.delete(itemId);
+  }
+
+  public updateSession(config: Partial<VoiceSessionConfig>): void {
+    this.sessionConfig = { ...this.sessionConfig, ...config };
+  }
+
+  public sendFunctionOutput(callId: string, output: unknown): void {
+    if (!this.isConnected()) {
+      throw VoiceEngineError.notConnected('send function output');
+    }
+
+    this.messages.push({ role: 'tool', toolCallId: callId, content: JSON.stringify(output) });
+  }
+
+  // ===========================================================================
+  // Private Methods
+  // ===========================================================================
+
+  private setState(state: ConnectionState): void {
+    if (this.connectionState !== state) {
+      this.connectionState = state;
+      this.emit('stateChange', state);
+    }
+  }
+
+  /**
+   * Transcribe a caller turn and reply to it
+   */
+  private async finishTurn(audio: Buffer): Promise<void> {
+    const text = (await this.stt.transcribe(audio)).trim();
+    if (!text || !this.isConnected()) {
+      return;
+    }
+
+    this.messages.push({ role: 'user', content: text });
+    this.emit('inputTranscript', { text, itemId: this.nextId('item') });
+    this.createResponse();
+  }
+
+  /**
+   * Write the persona's reply and read it out, or pass on the tools it called
+   */
+  private async respond(): Promise<void> {
+    // A new reply replaces one still in progress
+    this.response?.abort.abort();
+    const response: Response = {
+      id: this.nextId('resp'),
+      itemId: this.nextId('item'),
+      abort: new AbortController(),
+    };
+    this.response = response;
+    const { signal } = response.abort;
+
+    let status = 'completed';
+    try {
+      const { instructions, tools, temperature, voice } = this.sessionConfig;
+      const reply = await this.llm.complete(
+        { instructions, messages: [...this.messages], tools, temperature },
+        signal
+      );
+      if (signal.aborted) {
+        return;
+      }
+
+      if (reply.toolCalls.length > 0) {
+        this.messages.push({ role: 'assistant', content: reply.text, toolCalls: reply.toolCalls });
+        for (const call of reply.toolCalls) {
+          this.emit('functionCall', {
+            callId: call.id,
+            name: call.name,
+            arguments: call.arguments,
+            responseId: response.id,
+            itemId: response.itemId,
+          });
+        }
+        return;
+      }
+
+      const text = reply.text.trim();
+      if (!text) {
+        return;
+      }
+
+      // In the conversation as soon as it's spoken, so it can be truncated
+      const message = { role: 'assistant' as const, content: text };
+      const spoken: SpokenItem = { message, audioBytes: 0 };
+      this.messages.push(message);
+      this.spokenItems.set(response.itemId, spoken);
+
+      for await (const chunk of this.tts.synthesize(text, voice, signal)) {
+        if (signal.aborted) {
+          break;
+        }
+        spoken.audioBytes += chunk.length;
+        this.emit('audio', { audio: chunk.toString('base64'), responseId: response.id, itemId: response.itemId });
+      }
+
+      this.emit('transcript', { text, responseId: response.id, itemId: response.itemId, isFinal: true });
+    } catch (error) {
+      if (!signal.aborted) {
+        status = 'failed';
+        throw error;
+      }
+    } finally {
+      if (signal.aborted) {
+        status = 'cancelled';
+      }
+      if (this.response === response) {
+        this.response = null;
+      }
+      if (this.isConnected()) {
+        this.emit('responseComplete', { responseId: response.id, status });
+      }
+    }
+  }
+
+  private nextId(prefix: string): string {
+    return `${prefix}_${++this.idCounter}`;
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Voice Engines
+ *
+ * Creates the engine that holds a persona's side of a call, chosen by the
+ * persona's voiceConfig.engine: the OpenAI Realtime API by default, a
+ * cascaded speech-to-text, language model and text-to-speech pipeline, or
+ * the local mock engine.
+ */
+
+import { createPersonaClient } from '../openai';
+import { PERSONA_TOOLS } from '../tools';
+import type { PersonaConfig } from '../personas/types';
+import { CascadedVoiceEngine } from './cascaded';
+import { MockVoiceEngine } from './mock';
+import {
+  ElevenLabsTextToSpeech,
+  OpenAILanguageModel,
+  OpenAISpeechToText,
+  OpenAITextToSpeech,
+} from './providers';
+import type { VoiceEngine, VoiceSessionConfig } from './types';
+
+export * from './types';
+export { CascadedVoiceEngine } from './cascaded';
+export type { CascadedVoiceEngineOptions } from './cascaded';
+export { MockVoiceEngine, MockLanguageModel, MockSpeechToText, MockTextToSpeech } from './mock';
+export type { MockVoiceEngineOptions } from './mock';
+export {
+  ElevenLabsTextToSpeech,
+  OpenAILanguageModel,
+  OpenAISpeechToText,
+  OpenAITextToSpeech,
+} from './providers';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Same as the Realtime persona client, for varied replies */
+const PERSONA_TEMPERATURE = 0.9;
+
+/** OpenAI speech voice for personas without one */
+const DEFAULT_OPENAI_VOICE = 'alloy';
+
+/** ElevenLabs voice ID for personas without one ("Rachel") */
+const DEFAULT_ELEVENLABS_VOICE = '21m00Tcm4TlvDq8ikWAM';
+
+// =============================================================================
+// Factory
+// =============================================================================
+
+/**
+ * Create the voice engine for a persona
+ *
+ * @param persona - The persona to configure the session for
+ * @param overrides - Session settings that replace the persona defaults
+ */
+export function createVoiceEngine(
+  persona: PersonaConfig,
+  overrides: Partial<VoiceSessionConfig> = {}
+): VoiceEngine {
+  const voiceConfig = persona.voiceConfig ?? {};
+  const session: VoiceSessionConfig = {
+    instructions: persona.systemPrompt,
+    voice: voiceConfig.realtimeVoice ?? DEFAULT_OPENAI_VOICE,
+    temperature: PERSONA_TEMPERATURE,
+    tools: PERSONA_TOOLS,
+  };
+
+  switch (voiceConfig.engine ?? 'realtime') {
+    case 'cascaded': {
+      const elevenLabs = voiceConfig.ttsProvider === 'elevenlabs';
+      return new CascadedVoiceEngine(
+        {
+          stt: new OpenAISpeechToText(),
+          llm: new OpenAILanguageModel(),
+          tts: elevenLabs ? new ElevenLabsTextToSpeech() : new OpenAITextToSpeech(),
+        },
+        {
+          ...session,
+          // OpenAI speech shares the Realtime voice names, which mean nothing to ElevenLabs
+          ...(elevenLabs && { voice: voiceConfig.voice ?? DEFAULT_ELEVENLABS_VOICE }),
+          ...overrides,
+        }
+      );
+    }
+
+    case 'mock':
+      return new MockVoiceEngine({ ...session, ...overrides });
+
+    case 'realtime':
+    default:
+      return createPersonaClient(persona, undefined, overrides);
+  }
+}
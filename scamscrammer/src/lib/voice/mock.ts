@@ -0,0 +1,115 @@
+/**
+ * Mock Voice Engine
+ *
+ * The cascaded engine with local stand-ins for every provider, so a call
+ * can run with no network and no API keys. Caller turns are "transcribed"
+ * with whatever transcripts were queued, replies come from a responder
+ * function, and speech is synthesized tones (see mulaw.ts), which
+ * is enough for the stream handler's playback tracking and barge-in.
+ */
+
+import { FRAME_BYTES, synthesizeSpeech } from '../mulaw';
+import type { MockRealtimeResponder } from '../simulator/mock-realtime-server';
+import { CascadedVoiceEngine } from './cascaded';
+import type { ChatMessage, LanguageModel, SpeechToText, TextToSpeech, ToolCall, VoiceSessionConfig } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_REPLY = "I'm sorry, dear, could you say that again?";
+
+// Transcript for caller turns with none queued
+const UNQUEUED_TRANSCRIPT = '(inaudible)';
+
+// Audio is yielded in 100ms chunks, like the Realtime API's deltas
+const AUDIO_CHUNK_BYTES = FRAME_BYTES * 5;
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+/**
+ * Returns queued transcripts, one per caller turn
+ */
+export class MockSpeechToText implements SpeechToText {
+  private transcripts: string[] = [];
+
+  queue(transcript: string): void {
+    this.transcripts.push(transcript);
+  }
+
+  async transcribe(): Promise<string> {
+    return this.transcripts.shift() ?? UNQUEUED_TRANSCRIPT;
+  }
+}
+
+/**
+ * Replies with a responder function, and never calls tools
+ */
+export class MockLanguageModel implements LanguageModel {
+  private readonly respond: MockRealtimeResponder;
+  private turnIndex = 0;
+
+  constructor(respond: MockRealtimeResponder = () => DEFAULT_REPLY) {
+    this.respond = respond;
+  }
+
+  async complete(request: { instructions: string; messages: ChatMessage[] }): Promise<{ text: string; toolCalls: ToolCall[] }> {
+    const last = request.messages[request.messages.length - 1];
+    const text = this.respond({
+      transcript: last?.role === 'user' ? last.content : '',
+      instructions: request.instructions,
+      turnIndex: this.turnIndex++,
+    });
+    return { text, toolCalls: [] };
+  }
+}
+
+/**
+ * Synthesizes a tone per word
+ */
+export class MockTextToSpeech implements TextToSpeech {
+  async *synthesize(text: string): AsyncIterable<Buffer> {
+    const audio = synthesizeSpeech(text);
+    for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_BYTES) {
+      yield audio.subarray(offset, offset + AUDIO_CHUNK_BYTES);
+    }
+  }
+}
+
+// =============================================================================
+// MockVoiceEngine Class
+// =============================================================================
+
+export interface MockVoiceEngineOptions {
+  /** Persona replies (default: a canned request to repeat that) */
+  respond?: MockRealtimeResponder;
+  /** Silence that ends a caller turn (ms) */
+  silenceDurationMs?: number;
+}
+
+export class MockVoiceEngine extends CascadedVoiceEngine {
+  private readonly transcripts: MockSpeechToText;
+
+  constructor(config: Partial<VoiceSessionConfig> = {}, options: MockVoiceEngineOptions = {}) {
+    const stt = new MockSpeechToText();
+    super(
+      {
+        stt,
+        llm: new MockLanguageModel(options.respond),
+        tts: new MockTextToSpeech(),
+        silenceDurationMs: options.silenceDurationMs,
+      },
+      config
+    );
+    this.transcripts = stt;
+  }
+
+  /**
+   * Queue what the caller says in their next turn
+   */
+  queueTranscript(transcript: string): void {
+    this.transcripts.queue(transcript);
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Cascaded Voice Engine Providers
+ *
+ * Speech-to-text, language model and text-to-speech services the cascaded
+ * engine can be built from. OpenAI covers all three; ElevenLabs is an
+ * alternative text-to-speech service with a wider range of voices.
+ *
+ * Twilio audio is 8kHz μ-law. Whisper is sent it as a WAV of decoded
+ * samples, OpenAI speech comes back as 24kHz PCM and is resampled, and
+ * ElevenLabs can produce 8kHz μ-law itself.
+ */
+
+import OpenAI, { toFile } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { VoiceEngineError } from '../errors';
+import { decode, encode, SAMPLE_RATE } from '../mulaw';
+import type { ChatMessage, LanguageModel, SpeechToText, TextToSpeech, ToolCall, VoiceTool } from './types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DEFAULT_TRANSCRIPTION_MODEL = 'whisper-1';
+const DEFAULT_CHAT_MODEL = 'gpt-4o-mini';
+const DEFAULT_SPEECH_MODEL = 'gpt-4o-mini-tts';
+
+// OpenAI's 'pcm' speech format
+const OPENAI_PCM_SAMPLE_RATE = 24000;
+
+const ELEVENLABS_URL = 'https://api.elevenlabs.io/v1/text-to-speech';
+const ELEVENLABS_MODEL = 'eleven_flash_v2_5';
+
+// =============================================================================
+// OpenAI
+// =============================================================================
+
+/**
+ * An OpenAI API client, created on first use so a missing key fails the
+ * turn rather than the call
+ */
+function lazyOpenAI(apiKey?: string): () => OpenAI {
+  let client: OpenAI | null = null;
+  return () => (client ??= new OpenAI({ apiKey: apiKey || process.env.OPENAI_API_KEY }));
+}
+
+/**
+ * Whisper transcription
+ */
+export class OpenAISpeechToText implements SpeechToText {
+  private readonly client: () => OpenAI;
+  private readonly model: string;
+
+  constructor(apiKey?: string, model: string = DEFAULT_TRANSCRIPTION_MODEL) {
+    this.client = lazyOpenAI(apiKey);
+    this.model = model;
+  }
+
+  async transcribe(audio: Buffer, signal?: AbortSignal): Promise<string> {
+    const file = await toFile(toWav(decode(audio)), 'turn.wav', { type: 'audio/wav' });
+    const transcription = await this.client().audio.transcriptions.create(
+      { file, model: this.model },
+      { signal }
+    );
+    return transcription.text;
+  }
+}
+
+/**
+ * Chat Completions, with the persona's tools
+ */
+export class OpenAILanguageModel implements LanguageModel {
+  private readonly client: () => OpenAI;
+  private readonly model: string;
+
+  constructor(apiKey?: string, model: string = DEFAULT_CHAT_MODEL) {
+    this.client = lazyOpenAI(apiKey);
+    this.model = model;
+  }
+
+  async complete(
+    request: { instructions: string; messages: ChatMessage[]; tools: VoiceTool[]; temperature: number },
+    signal?: AbortSignal
+  ): Promise<{ text: string; toolCalls: ToolCall[] }> {
+    const completion = await this.client().chat.completions.create(
+      {
+        model: this.model,
+        temperature: request.temperature,
+        messages: [{ role: 'system', content: request.instructions }, ...request.messages.map(toChatCompletionMessage)],
+        ...(request.tools.length > 0 && {
+          tools: request.tools.map((tool) => ({
+            type: 'function' as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          })),
+        }),
+      },
+      { signal }
+    );
+
+    const message = completion.choices[0]?.message;
+    if (!message) {
+      throw VoiceEngineError.providerFailed('OpenAI chat', 'no reply');
+    }
+
+    const toolCalls: ToolCall[] = [];
+    for (const call of message.tool_calls ?? []) {
+      if (call.type === 'function') {
+        toolCalls.push({ id: call.id, name: call.function.name, arguments: call.function.arguments });
+      }
+    }
+    return { text: message.content ?? '', toolCalls };
+  }
+}
+
+/**
+ * OpenAI speech, with the persona's Realtime voice names
+ */
+export class OpenAITextToSpeech implements TextToSpeech {
+  private readonly client: () => OpenAI;
+  private readonly model: string;
+
+  constructor(apiKey?: string, model: string = DEFAULT_SPEECH_MODEL) {
+    this.client = lazyOpenAI(apiKey);
+    this.model = model;
+  }
+
+  async *synthesize(text: string, voice: string, signal?: AbortSignal): AsyncIterable<Buffer> {
+    const response = await this.client().audio.speech.create(
+      { model: this.model, voice, input: text, response_format: 'pcm' },
+      { signal }
+    );
+
+    // 16-bit samples can be split across chunks
+    let leftover = Buffer.alloc(0);
+    for await (const chunk of readBody(response, 'OpenAI speech')) {
+      const pcm = Buffer.concat([leftover, chunk]);
+      const usable = pcm.length - (pcm.length % (2 * (OPENAI_PCM_SAMPLE_RATE / SAMPLE_RATE)));
+      leftover = pcm.subarray(usable);
+      if (usable > 0) {
+        yield encode(downsample(pcm.subarray(0, usable)));
+      }
+    }
+  }
+}
+
+// =============================================================================
+// ElevenLabs
+// =============================================================================
+
+/**
+ * ElevenLabs speech; the voice is an ElevenLabs voice ID
+ */
+export class ElevenLabsTextToSpeech implements TextToSpeech {
+  private readonly apiKey: string;
+  private readonly model: string;
+
+  constructor(apiKey?: string, model: string = ELEVENLABS_MODEL) {
+    this.apiKey = apiKey || process.env.ELEVENLABS_API_KEY || '';
+    this.model = model;
+  }
+
+  async *synthesize(text: string, voice: string, signal?: AbortSignal): AsyncIterable<Buffer> {
+    if (!this.apiKey) {
+      throw VoiceEngineError.providerFailed('ElevenLabs', 'ELEVENLABS_API_KEY is not set');
+    }
+
+    const response = await fetch(`${ELEVENLABS_URL}/${encodeURIComponent(voice)}/stream?output_format=ulaw_8000`, {
+      method: 'POST',
+      headers: { 'xi-api-key': this.apiKey, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, model_id: this.model }),
+      signal,
+    });
+    if (!response.ok) {
+      throw VoiceEngineError.providerFailed('ElevenLabs', `${response.status} ${response.statusText}`);
+    }
+
+    yield* readBody(response, 'ElevenLabs');
+  }
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function toChatCompletionMessage(message: ChatMessage): ChatCompletionMessageParam {
+  switch (message.role) {
+    case 'tool':
+      return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        ...(message.toolCalls?.length && {
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: 'function' as const,
+            function: { name: call.name, arguments: call.arguments },
+          })),
+        }),
+      };
+    default:
+      return { role: message.role, content: message.content };
+  }
+}
+
+/**
+ * Read a streamed response body chunk by chunk
+ */
+async function* readBody(response: Response, provider: string): AsyncIterable<Buffer> {
+  if (!response.body) {
+    throw VoiceEngineError.providerFailed(provider, 'empty response');
+  }
+
+  const reader = response.body.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield Buffer.from(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * 24kHz 16-bit little-endian PCM to 8kHz samples, averaging each three
+ */
+function downsample(pcm: Buffer): Int16Array {
+  const factor = OPENAI_PCM_SAMPLE_RATE / SAMPLE_RATE;
+  const samples = new Int16Array(pcm.length / 2 / factor);
+  for (let i = 0; i < samples.length; i++) {
+    let total = 0;
+    for (let j = 0; j < factor; j++) {
+      total += pcm.readInt16LE((i * factor + j) * 2);
+    }
+    samples[i] = Math.round(total / factor);
+  }
+  return samples;
+}
+
+/**
+ * 8kHz 16-bit mono samples as a WAV file
+ */
+function toWav(samples: Int16Array): Buffer {
+  const data = Buffer.from(samples.buffer, samples.byteOffset, samples.byteLength);
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+  header.writeUInt16LE(2, 32); // block align
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(data.length, 40);
+  return Buffer.concat([header, data]);
+}
@@ -0,0 +1,202 @@
+/**
+ * Voice Engine Types
+ *
+ * The voice stream handler talks to whatever holds the persona's side of the
+ * conversation through the VoiceEngine interface: caller audio in, persona
+ * audio and transcripts out, voice activity events, and interrupting a reply.
+ * Audio both ways is base64 8kHz μ-law, as Twilio Media Streams carry it.
+ */
+
+// =============================================================================
+// Engine
+// =============================================================================
+
+/**
+ * Which engine holds the conversation
+ *
+ * - realtime: OpenAI Realtime API, speech to speech (see openai.ts)
+ * - cascaded: speech-to-text, then a language model, then text-to-speech
+ * - mock: the cascaded engine with local stand-ins for every step, for tests
+ */
+export type VoiceEngineType = 'realtime' | 'cascaded' | 'mock';
+
+export const VOICE_ENGINE_TYPES: VoiceEngineType[] = ['realtime', 'cascaded', 'mock'];
+
+/**
+ * Text-to-speech services the cascaded engine can use
+ */
+export type TextToSpeechProvider = 'openai' | 'elevenlabs';
+
+export const TEXT_TO_SPEECH_PROVIDERS: TextToSpeechProvider[] = ['openai', 'elevenlabs'];
+
+/**
+ * Connection state of an engine
+ */
+export type ConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'error';
+
+/**
+ * A function the persona can call, registered with the session
+ */
+export interface VoiceTool {
+  type: 'function';
+  name: string;
+  description: string;
+  /** JSON Schema for the function's arguments */
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * A call the persona made to one of the session's tools, emitted with
+ * 'functionCall' once its arguments are complete
+ */
+export interface FunctionCall {
+  /** ID to send the result back with (see sendFunctionOutput) */
+  callId: string;
+  name: string;
+  /** Arguments as a JSON string */
+  arguments: string;
+  responseId: string;
+  itemId: string;
+}
+
+/**
+ * Details of a dropped connection the engine got back, emitted with
+ * 'reconnected'
+ */
+export interface ReconnectInfo {
+  /** Connection attempts it took */
+  attempts: number;
+  /** How long the connection was down (ms) */
+  downtimeMs: number;
+  /** Why the connection dropped */
+  reason: string;
+}
+
+/**
+ * A message added to the conversation
+ */
+export interface ConversationItem {
+  type: 'message';
+  role: 'user' | 'assistant' | 'system';
+  content: Array<{
+    type: 'input_text' | 'input_audio' | 'text';
+    text?: string;
+    audio?: string;
+  }>;
+}
+
+/**
+ * Session settings every engine understands
+ */
+export interface VoiceSessionConfig {
+  instructions: string;
+  /** The engine's name or ID for the persona's voice */
+  voice: string;
+  temperature: number;
+  tools: VoiceTool[];
+}
+
+/**
+ * Events every engine emits
+ */
+export interface VoiceEngineEvents {
+  /** A chunk of the persona's audio */
+  audio: (data: { audio: string; responseId: string; itemId: string }) => void;
+  /** The persona's words, as deltas and then in full with isFinal */
+  transcript: (data: { text: string; responseId: string; itemId: string; isFinal: boolean }) => void;
+  /** What the caller said in a turn */
+  inputTranscript: (data: { text: string; itemId: string }) => void;
+  speechStarted: () => void;
+  speechStopped: () => void;
+  functionCall: (call: FunctionCall) => void;
+  responseComplete: (data: { responseId: string; status: string }) => void;
+  error: (error: Error) => void;
+  /** The connection dropped and came back with a blank conversation */
+  reconnected: (info: ReconnectInfo) => void;
+  disconnect: (reason: string) => void;
+  stateChange: (state: ConnectionState) => void;
+}
+
+/**
+ * Holds the persona's side of a call
+ */
+export interface VoiceEngine {
+  connect(): Promise<void>;
+  disconnect(reason?: string): void;
+  isConnected(): boolean;
+
+  /** Send caller audio (base64 μ-law or raw bytes) */
+  sendAudio(audio: Buffer | string): void;
+  addConversationItem(item: ConversationItem): void;
+  /** Have the persona reply to the conversation so far */
+  createResponse(): void;
+  /** Stop the reply in progress */
+  cancelResponse(): void;
+  /** Cut a reply down to the first audioEndMs the caller heard */
+  truncateItem(itemId: string, audioEndMs: number): void;
+  updateSession(config: Partial<VoiceSessionConfig>): void;
+  /** Give the persona the result of a tool it called */
+  sendFunctionOutput(callId: string, output: unknown): void;
+
+  on<E extends keyof VoiceEngineEvents>(event: E, listener: VoiceEngineEvents[E]): this;
+  once<E extends keyof VoiceEngineEvents>(event: E, listener: VoiceEngineEvents[E]): this;
+  off<E extends keyof VoiceEngineEvents>(event: E, listener: VoiceEngineEvents[E]): this;
+}
+
+// =============================================================================
+// Cascaded Engine Providers
+// =============================================================================
+
+/**
+ * A tool call in a language model's reply
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Arguments as a JSON string */
+  arguments: string;
+}
+
+/**
+ * A message in the cascaded engine's conversation
+ */
+export type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+/**
+ * Turns a caller's turn into text
+ */
+export interface SpeechToText {
+  /** Transcribe 8kHz μ-law audio, '' if nothing was said */
+  transcribe(audio: Buffer, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Writes the persona's next turn
+ */
+export interface LanguageModel {
+  complete(
+    request: {
+      instructions: string;
+      messages: ChatMessage[];
+      tools: VoiceTool[];
+      temperature: number;
+    },
+    signal?: AbortSignal
+  ): Promise<{ text: string; toolCalls: ToolCall[] }>;
+}
+
+/**
+ * Speaks the persona's turn
+ */
+export interface TextToSpeech {
+  /** Synthesize text as 8kHz μ-law audio, yielded as it's ready */
+  synthesize(text: string, voice: string, signal?: AbortSignal): AsyncIterable<Buffer>;
+}
@@ -0,0 +1,153 @@
+/**
+ * Realtime Session Warm-up
+ *
+ * Connecting to the OpenAI Realtime API is most of the wait between Twilio
+ * opening a media stream and the persona being ready to talk. The incoming
+ * call webhook starts connecting a client for the call's persona (its voice
+ * engine, see voice/index.ts) while the greeting plays, keyed by CallSid,
+ * and the voice stream claims the already-connected client when the stream
+ * starts. Clients the stream never claims (the caller hung up during the
+ * greeting, or the stream went to another server) are disconnected after
+ * WARM_SESSION_TTL_MS.
+ *
+ * The webhook runs in the Next.js bundle and the voice stream in the custom
+ * server, so the warm clients are kept on globalThis where both can see
+ * them.
+ */
+
+import { createVoiceEngine, VoiceEngine } from './voice';
+import { monitoring } from './monitoring';
+import type { PersonaConfig } from './personas';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** How long a warm client waits for its stream before it's disconnected */
+export const WARM_SESSION_TTL_MS = 30000;
+
+/** How long the stream waits for a warm client that's still connecting */
+export const WARM_SESSION_WAIT_MS = 5000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface WarmSession {
+  personaId: string;
+  client: VoiceEngine;
+  /** Resolves to whether the client connected */
+  ready: Promise<boolean>;
+  /** Logs the client's errors until the stream takes it over */
+  onError: (error: Error) => void;
+  expiryTimer: ReturnType<typeof setTimeout>;
+}
+
+const globalForWarmup = globalThis as unknown as {
+  warmSessions: Map<string, WarmSession> | undefined;
+};
+
+const warmSessions = (globalForWarmup.warmSessions ??= new Map<string, WarmSession>());
+
+// =============================================================================
+// Warm-up
+// =============================================================================
+
+/**
+ * Start connecting a Realtime client for a call that's about to stream
+ *
+ * Does nothing if the call is already warming up (Twilio retries webhooks).
+ */
+export function startWarmUp(callSid: string, persona: PersonaConfig): void {
+  if (warmSessions.has(callSid)) {
+    return;
+  }
+
+  const client = createVoiceEngine(persona);
+
+  let resolveReady!: (connected: boolean) => void;
+  const ready = new Promise<boolean>((resolve) => {
+    resolveReady = resolve;
+  });
+
+  // Clients emit 'error' as well as rejecting connect(), and an 'error'
+  // nobody listens for would crash the server instead of the call falling
+  // back to the scripted persona
+  const onError = (error: Error) => {
+    console.error('[Warm-up] Realtime client error:', { callSid, error });
+    resolveReady(false);
+  };
+  client.on('error', onError);
+
+  client.connect().then(
+    () => resolveReady(true),
+    (error) => {
+      console.error('[Warm-up] Failed to connect Realtime client:', { callSid, error });
+      resolveReady(false);
+    }
+  );
+
+  const expiryTimer = setTimeout(() => {
+    if (warmSessions.get(callSid)?.client === client) {
+      console.log('[Warm-up] Stream never arrived, disconnecting:', callSid);
+      warmSessions.delete(callSid);
+      client.disconnect('warm_up_expired');
+      monitoring.incrementCounter('realtime.warmup', 1, { outcome: 'expired' });
+    }
+  }, WARM_SESSION_TTL_MS);
+  expiryTimer.unref?.();
+
+  warmSessions.set(callSid, { personaId: persona.id, client, ready, onError, expiryTimer });
+  monitoring.incrementCounter('realtime.warmup', 1, { outcome: 'started' });
+}
+
+/**
+ * Take the warm client for a call, if there is one for its persona and it
+ * connects in time
+ *
+ * @returns The connected client, or null to connect a new one
+ */
+export async function claimWarmSession(
+  callSid: string,
+  personaId: string
+): Promise<VoiceEngine | null> {
+  const warm = warmSessions.get(callSid);
+  if (!warm) {
+    return null;
+  }
+
+  warmSessions.delete(callSid);
+  clearTimeout(warm.expiryTimer);
+
+  // The stream can be told to use a different persona than the webhook chose
+  if (warm.personaId !== personaId) {
+    warm.client.disconnect('persona_changed');
+    monitoring.incrementCounter('realtime.warmup', 1, { outcome: 'persona_changed' });
+    return null;
+  }
+
+  let waitTimer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    waitTimer = setTimeout(() => resolve(false), WARM_SESSION_WAIT_MS);
+  });
+  const connected = await Promise.race([warm.ready, timedOut]);
+  clearTimeout(waitTimer);
+
+  if (!connected) {
+    warm.client.disconnect('warm_up_failed');
+    monitoring.incrementCounter('realtime.warmup', 1, { outcome: 'failed' });
+    return null;
+  }
+
+  // The stream listens for errors from here on
+  warm.client.off('error', warm.onError);
+  monitoring.incrementCounter('realtime.warmup', 1, { outcome: 'claimed' });
+  return warm.client;
+}
+
+/**
+ * Number of warm clients waiting for their streams
+ */
+export function getWarmSessionCount(): number {
+  return warmSessions.size;
+}
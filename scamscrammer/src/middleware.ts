@@ -9,7 +9,17 @@ export default auth((req) => {
   // Check if the route requires authentication
   const isProtectedRoute =
     pathname.startsWith('/calls') ||
+    pathname.startsWith('/callers') ||
+    pathname.startsWith('/personas') ||
+    pathname.startsWith('/experiments') ||
+    pathname.startsWith('/screening') ||
+    pathname.startsWith('/playbooks') ||
     pathname.startsWith('/api/calls') ||
+    pathname.startsWith('/api/callers') ||
+    pathname.startsWith('/api/personas') ||
+    pathname.startsWith('/api/experiments') ||
+    pathname.startsWith('/api/caller-rules') ||
+    pathname.startsWith('/api/playbooks') ||
     pathname.startsWith('/api/stats');
 
   // Twilio webhook routes should NOT be protected (they use signature validation)
@@ -1,8 +1,12 @@
-import { Call, CallSegment, CallStatus } from '@prisma/client';
+import { Call, CallerRule, CallEvent, CallMetrics, CallSegment, CallStatus, Experiment, ExperimentVariant } from '@prisma/client';
+import type { PersonaConfig } from '@/lib/personas/types';
+import type { VariantStats } from '@/lib/experiments';
+import type { CallerHistoryCall, CallerProfile } from '@/lib/callers';
+import type { PlaybookConfig, PlaybookStats } from '@/lib/playbooks';
 
 // Re-export Prisma types for convenience
-export type { Call, CallSegment, User, Session } from '@prisma/client';
-export { CallStatus, Speaker, UserRole } from '@prisma/client';
+export type { Call, CallEvent, CallMetrics, CallSegment, User, Session } from '@prisma/client';
+export { CallEventType, CallStatus, CallerRuleMatchType, ScreeningAction, Speaker, UserRole } from '@prisma/client';
 
 /**
  * Login credentials for authentication
@@ -34,8 +38,20 @@ export interface AuthUser {
 }
 
 // API Response types
+
+/**
+ * Transcript segment with the display name of whoever spoke it
+ */
+export interface CallSegmentResponse extends CallSegment {
+  speakerName: string;
+}
+
 export interface CallResponse extends Call {
-  segments: CallSegment[];
+  segments: CallSegmentResponse[];
+  /** Persona behaviors that fired during the call, in order */
+  events?: CallEvent[];
+  /** Latency and audio quality, saved when the stream ended */
+  metrics?: CallMetrics | null;
   _count?: {
     segments: number;
   };
@@ -78,6 +94,80 @@ export interface CallUpdatePayload {
   tags?: string[];
 }
 
+/**
+ * Persona as returned by the personas API
+ */
+export interface PersonaResponse extends PersonaConfig {
+  /** Built-in personas ship with the app and are read-only */
+  builtIn: boolean;
+}
+
+export interface PersonaListResponse {
+  personas: PersonaResponse[];
+}
+
+/**
+ * Experiment with its variants, as returned by the experiments API
+ */
+export interface ExperimentResponse extends Experiment {
+  variants: Array<ExperimentVariant & { _count: { calls: number } }>;
+}
+
+export interface ExperimentListResponse {
+  experiments: ExperimentResponse[];
+}
+
+/**
+ * Per-variant outcomes for one experiment
+ */
+export interface ExperimentStats {
+  id: string;
+  name: string;
+  isActive: boolean;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  variants: VariantStats[];
+}
+
+export interface ExperimentStatsResponse {
+  experiments: ExperimentStats[];
+}
+
+export type { PlaybookConfig, PlaybookStats } from '@/lib/playbooks';
+
+export interface PlaybookListResponse {
+  playbooks: PlaybookConfig[];
+}
+
+export interface PlaybookStatsResponse {
+  playbooks: PlaybookStats[];
+}
+
+/**
+ * Call screening rule with the number of calls it has matched
+ */
+export interface CallerRuleResponse extends CallerRule {
+  _count: { calls: number };
+}
+
+export interface CallerRuleListResponse {
+  rules: CallerRuleResponse[];
+}
+
+export type { CallerProfile, CallerHistoryCall } from '@/lib/callers';
+
+export interface CallerListResponse {
+  callers: CallerProfile[];
+  pagination: PaginationInfo;
+}
+
+/**
+ * Caller profile with their calls, newest first
+ */
+export interface CallerDetailResponse extends CallerProfile {
+  calls: CallerHistoryCall[];
+}
+
 // Storage types (for future use)
 export interface StorageDeleteResult {
   success: boolean;
@@ -117,4 +207,21 @@ export interface DashboardStats {
   callsByDay: Array<{ date: string; count: number }>;
   topRatedCalls: CallListItem[];
   longestCalls: CallListItem[];
+  callQuality: CallQualityStats;
+}
+
+/**
+ * Latency and audio quality across all calls with saved metrics
+ */
+export interface CallQualityStats {
+  /** Calls with saved metrics */
+  callsMeasured: number;
+  avgResponseLatencyMs: number | null;
+  /** Average of each call's 95th percentile response latency */
+  p95ResponseLatencyMs: number | null;
+  avgResponseDurationMs: number | null;
+  interruptionsPerMinute: number | null;
+  /** Gaps per thousand inbound media chunks */
+  mediaGapsPerThousandChunks: number | null;
+  outOfOrderChunks: number;
 }